@@ -0,0 +1,26 @@
+/**
+ * Serve the in-process Google Calendar emulator over HTTP.
+ *
+ *   bun run emulator
+ *   PROVIDER_API_URL=http://127.0.0.1:4010/calendar/v3 bun run dev
+ *
+ * Env: EMULATOR_PORT (default 4010), EMULATOR_HOST (default 127.0.0.1),
+ * EMULATOR_USER (primary calendar email), EMULATOR_TIMEZONE (default UTC).
+ */
+
+import { serve } from '@hono/node-server';
+import { createCalendarEmulator } from '../src/testing/google-calendar-emulator.js';
+
+const host = process.env.EMULATOR_HOST || '127.0.0.1';
+const port = Number(process.env.EMULATOR_PORT || 4010);
+
+const emulator = createCalendarEmulator({
+  baseUrl: `http://${host}:${port}/calendar/v3`,
+  userEmail: process.env.EMULATOR_USER,
+  timeZone: process.env.EMULATOR_TIMEZONE,
+});
+
+serve({ fetch: emulator.handle, port, hostname: host });
+
+console.log(`Google Calendar emulator listening on ${emulator.baseUrl}`);
+console.log(`Primary calendar: ${emulator.state.userEmail}`);
@@ -4,7 +4,13 @@
 import type { HttpBindings } from '@hono/node-server';
 import { Hono } from 'hono';
 import type { UnifiedConfig } from '../../shared/config/env.js';
-import { handleRegister, handleRevoke } from '../../shared/oauth/endpoints.js';
+import {
+  handleDeleteClient,
+  handleGetClient,
+  handleRegister,
+  handleRevoke,
+  handleUpdateClient,
+} from '../../shared/oauth/endpoints.js';
 import {
   handleAuthorize,
   handleProviderCallback,
@@ -14,17 +20,43 @@ import {
   buildFlowOptions,
   buildOAuthConfig,
   buildProviderConfig,
+  buildRevokeInput,
   buildTokenInput,
   parseAuthorizeInput,
   parseCallbackInput,
+  parseLinkCookie,
+  parseRegisterInput,
+  parseRegistrationToken,
   parseTokenInput,
 } from '../../shared/oauth/input-parsers.js';
-import type { TokenStore } from '../../shared/storage/interface.js';
+import {
+  accountLinkConfirmation,
+  linkCookieHeader,
+} from '../../shared/oauth/link-page.js';
+import type { SessionStore, TokenStore } from '../../shared/storage/interface.js';
 import { sharedLogger as logger } from '../../shared/utils/logger.js';
 
+/**
+ * RFC 7592 error: 401 for a bad registration access token, 400 otherwise.
+ */
+function clientConfigurationError(error: unknown): Response {
+  const message = (error as Error).message;
+  if (message === 'invalid_token') {
+    return Response.json(
+      { error: message },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } },
+    );
+  }
+  return Response.json({ error: message }, { status: 400 });
+}
+
+const ACCOUNT_LINKED_MESSAGE =
+  'Account linked. You can close this window and return to your MCP client.';
+
 export function buildOAuthRoutes(
   store: TokenStore,
   config: UnifiedConfig,
+  sessionStore?: SessionStore,
 ): Hono<{ Bindings: HttpBindings }> {
   const app = new Hono<{ Bindings: HttpBindings }>();
   const providerConfig = buildProviderConfig(config);
@@ -35,7 +67,7 @@ export function buildOAuthRoutes(
 
     try {
       const url = new URL(c.req.url);
-      const input = parseAuthorizeInput(url);
+      const input = parseAuthorizeInput(url, undefined, c.req.header('cookie'));
       const options = buildFlowOptions(url, config);
 
       const result = await handleAuthorize(
@@ -46,6 +78,13 @@ export function buildOAuthRoutes(
         options,
       );
 
+      if (result.confirmLink) {
+        return accountLinkConfirmation(
+          { ...result, confirmLink: result.confirmLink },
+          options.baseUrl,
+        );
+      }
+
       logger.info('oauth_hono', { message: 'Authorize redirect' });
       return c.redirect(result.redirectTo, 302);
     } catch (error) {
@@ -71,7 +110,11 @@ export function buildOAuthRoutes(
       const options = buildFlowOptions(url, config);
 
       const result = await handleProviderCallback(
-        { providerCode: code, compositeState: state },
+        {
+          providerCode: code,
+          compositeState: state,
+          linkCookie: parseLinkCookie(c.req.header('cookie')),
+        },
         store,
         providerConfig,
         oauthConfig,
@@ -79,6 +122,10 @@ export function buildOAuthRoutes(
       );
 
       logger.info('oauth_hono', { message: 'Callback success' });
+      if (result.linked) {
+        c.header('Set-Cookie', linkCookieHeader('', options.baseUrl));
+        return c.text(ACCOUNT_LINKED_MESSAGE);
+      }
       return c.redirect(result.redirectTo, 302);
     } catch (error) {
       logger.error('oauth_hono', {
@@ -115,8 +162,30 @@ export function buildOAuthRoutes(
   });
 
   app.post('/revoke', async (c) => {
-    const result = await handleRevoke();
-    return c.json(result);
+    logger.debug('oauth_hono', { message: 'Revoke request received' });
+
+    try {
+      const form = await parseTokenInput(c.req.raw);
+      const revokeInput = buildRevokeInput(form);
+
+      if ('error' in revokeInput) {
+        return c.json({ error: revokeInput.error }, 400);
+      }
+
+      const result = await handleRevoke(
+        revokeInput,
+        store,
+        providerConfig,
+        sessionStore,
+      );
+      return c.json(result);
+    } catch (error) {
+      logger.error('oauth_hono', {
+        message: 'Revoke failed',
+        error: (error as Error).message,
+      });
+      return c.json({ error: 'temporarily_unavailable' }, 503);
+    }
   });
 
   app.post('/register', async (c) => {
@@ -127,11 +196,8 @@ export function buildOAuthRoutes(
       logger.debug('oauth_hono', { message: 'Register request' });
 
       const result = await handleRegister(
-        {
-          redirect_uris: Array.isArray(body.redirect_uris)
-            ? (body.redirect_uris as string[])
-            : undefined,
-        },
+        parseRegisterInput(body),
+        store,
         url.origin,
         config.OAUTH_REDIRECT_URI,
       );
@@ -143,5 +209,54 @@ export function buildOAuthRoutes(
     }
   });
 
+  // Client configuration endpoint (RFC 7592), authorized by the registration access token
+  app.get('/register/:clientId', async (c) => {
+    try {
+      const result = await handleGetClient(
+        c.req.param('clientId'),
+        parseRegistrationToken(c.req.header('authorization')),
+        store,
+        new URL(c.req.url).origin,
+      );
+      return c.json(result);
+    } catch (error) {
+      return clientConfigurationError(error);
+    }
+  });
+
+  app.put('/register/:clientId', async (c) => {
+    try {
+      const body = (await c.req.json().catch(() => ({}))) as Record<string, unknown>;
+      const result = await handleUpdateClient(
+        c.req.param('clientId'),
+        parseRegistrationToken(c.req.header('authorization')),
+        parseRegisterInput(body),
+        store,
+        new URL(c.req.url).origin,
+        config.OAUTH_REDIRECT_URI,
+      );
+
+      logger.info('oauth_hono', { message: 'Client registration updated' });
+      return c.json(result);
+    } catch (error) {
+      return clientConfigurationError(error);
+    }
+  });
+
+  app.delete('/register/:clientId', async (c) => {
+    try {
+      await handleDeleteClient(
+        c.req.param('clientId'),
+        parseRegistrationToken(c.req.header('authorization')),
+        store,
+      );
+
+      logger.info('oauth_hono', { message: 'Client registration deleted' });
+      return c.body(null, 204);
+    } catch (error) {
+      return clientConfigurationError(error);
+    }
+  });
+
   return app;
 }
@@ -0,0 +1,19 @@
+// Hono adapter for Google Calendar push notifications
+
+import type { HttpBindings } from '@hono/node-server';
+import { Hono } from 'hono';
+import {
+  handleChannelNotification,
+  WEBHOOK_PATH,
+} from '../../shared/webhooks/calendar-channels.js';
+
+export function buildWebhookRoutes(): Hono<{ Bindings: HttpBindings }> {
+  const app = new Hono<{ Bindings: HttpBindings }>();
+
+  app.post(WEBHOOK_PATH, async (c) => {
+    const result = await handleChannelNotification(c.req.raw.headers);
+    return c.json(result.body, result.status);
+  });
+
+  return app;
+}
@@ -7,14 +7,23 @@ import { Router } from 'itty-router';
 import type { UnifiedConfig } from '../../shared/config/env.js';
 import { createEncryptor } from '../../shared/crypto/aes-gcm.js';
 import { corsPreflightResponse, withCors } from '../../shared/http/cors.js';
-import type { SessionStore, TokenStore } from '../../shared/storage/interface.js';
-import { KvSessionStore, KvTokenStore } from '../../shared/storage/kv.js';
-import { MemorySessionStore, MemoryTokenStore } from '../../shared/storage/memory.js';
+import type {
+  SessionStore,
+  StateStore,
+  TokenStore,
+} from '../../shared/storage/interface.js';
+import { KvSessionStore, KvStateStore, KvTokenStore } from '../../shared/storage/kv.js';
+import {
+  MemorySessionStore,
+  MemoryStateStore,
+  MemoryTokenStore,
+} from '../../shared/storage/memory.js';
 import { initializeStorage } from '../../shared/storage/singleton.js';
 import { sharedLogger as logger } from '../../shared/utils/logger.js';
 import { handleMcpGet, handleMcpRequest } from './mcp.handler.js';
 import { attachDiscoveryRoutes } from './routes.discovery.js';
 import { attachOAuthRoutes } from './routes.oauth.js';
+import { attachWebhookRoutes } from './routes.webhooks.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -37,6 +46,11 @@ interface KVNamespace {
     options?: { expiration?: number; expirationTtl?: number },
   ): Promise<void>;
   delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: Array<{ name: string }>;
+    list_complete: boolean;
+    cursor?: string;
+  }>;
 }
 
 export interface RouterContext {
@@ -51,6 +65,7 @@ export interface RouterContext {
 
 let sharedTokenStore: MemoryTokenStore | null = null;
 let sharedSessionStore: MemorySessionStore | null = null;
+let sharedStateStore: MemoryStateStore | null = null;
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Storage Initialization
@@ -63,7 +78,11 @@ let sharedSessionStore: MemorySessionStore | null = null;
 export function initializeWorkerStorage(
   env: WorkerEnv,
   config: UnifiedConfig,
-): { tokenStore: TokenStore; sessionStore: SessionStore } | null {
+): {
+  tokenStore: TokenStore;
+  sessionStore: SessionStore;
+  stateStore: StateStore;
+} | null {
   const kvNamespace = env.TOKENS;
 
   if (!kvNamespace) {
@@ -74,9 +93,10 @@ export function initializeWorkerStorage(
   }
 
   // Initialize shared memory fallback ONCE per worker instance
-  if (!sharedTokenStore || !sharedSessionStore) {
+  if (!sharedTokenStore || !sharedSessionStore || !sharedStateStore) {
     sharedTokenStore = new MemoryTokenStore();
     sharedSessionStore = new MemorySessionStore();
+    sharedStateStore = new MemoryStateStore();
   }
 
   // Set up encryption
@@ -112,10 +132,16 @@ export function initializeWorkerStorage(
     fallback: sharedSessionStore,
   });
 
+  const stateStore = new KvStateStore(kvNamespace, {
+    encrypt,
+    decrypt,
+    fallback: sharedStateStore,
+  });
+
   // Register with singleton for shared access
-  initializeStorage(tokenStore, sessionStore);
+  initializeStorage(tokenStore, sessionStore, stateStore);
 
-  return { tokenStore, sessionStore };
+  return { tokenStore, sessionStore, stateStore };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -140,7 +166,10 @@ export function createWorkerRouter(ctx: RouterContext): {
   attachDiscoveryRoutes(router, config);
 
   // OAuth routes (/authorize, /token, /oauth/callback, etc.)
-  attachOAuthRoutes(router, tokenStore, config);
+  attachOAuthRoutes(router, tokenStore, config, sessionStore);
+
+  // Google push notifications (/webhooks/google-calendar)
+  attachWebhookRoutes(router);
 
   // MCP endpoints
   router.get(MCP_ENDPOINT_PATH, () => handleMcpGet());
@@ -14,11 +14,20 @@ import {
   type McpDispatchContext,
   type McpSessionState,
 } from '../../shared/mcp/dispatcher.js';
+import { buildInsufficientScopeChallenge } from '../../shared/mcp/security.js';
+import { workerDiscoveryStrategy } from '../../shared/oauth/discovery-handlers.js';
+import { createAccountLink } from '../../shared/oauth/flow.js';
 import {
+  buildProviderRefreshConfig,
+  ensureFreshLinkedAccounts,
   ensureFreshToken,
-  type ProviderRefreshConfig,
 } from '../../shared/oauth/refresh.js';
-import type { SessionStore, TokenStore } from '../../shared/storage/interface.js';
+import type {
+  ProviderTokens,
+  SessionStore,
+  TokenStore,
+} from '../../shared/storage/interface.js';
+import { stepUpScopes } from '../../shared/tools/registry.js';
 import type { AuthStrategy, ToolContext } from '../../shared/tools/types.js';
 import { sharedLogger as logger } from '../../shared/utils/logger.js';
 import { checkAuthAndChallenge } from './security.js';
@@ -97,24 +106,15 @@ function buildStaticAuthHeaders(config: UnifiedConfig): Record<string, string> {
   return headers;
 }
 
-/**
- * Build provider config for token refresh from unified config.
- */
-function buildProviderRefreshConfig(
-  config: UnifiedConfig,
-): ProviderRefreshConfig | undefined {
-  if (
-    !config.PROVIDER_CLIENT_ID ||
-    !config.PROVIDER_CLIENT_SECRET ||
-    !config.PROVIDER_ACCOUNTS_URL
-  ) {
-    return undefined;
-  }
+/** Provider tokens in the shape tools see */
+function toContextProvider(
+  tokens: ProviderTokens,
+): NonNullable<ToolContext['provider']> {
   return {
-    clientId: config.PROVIDER_CLIENT_ID,
-    clientSecret: config.PROVIDER_CLIENT_SECRET,
-    accountsUrl: config.PROVIDER_ACCOUNTS_URL,
-    tokenUrl: config.OAUTH_TOKEN_URL,
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiresAt: tokens.expires_at,
+    scopes: tokens.scopes,
   };
 }
 
@@ -136,6 +136,8 @@ async function resolveAuthContext(
   const strategy = config.AUTH_STRATEGY as AuthStrategy;
   let providerToken: string | undefined;
   let provider: ToolContext['provider'];
+  let accounts: ToolContext['accounts'];
+  let linkAccount: ToolContext['linkAccount'];
   let resolvedHeaders = { ...rawHeaders };
 
   if (strategy === 'oauth') {
@@ -160,14 +162,22 @@ async function resolveAuthContext(
           // Re-fetch record if it was refreshed to get updated info
           const record = await tokenStore.getByRsAccess(rsToken);
           if (record?.provider) {
-            provider = {
-              accessToken: record.provider.access_token,
-              refreshToken: record.provider.refresh_token,
-              expiresAt: record.provider.expires_at,
-              scopes: record.provider.scopes,
-            };
+            provider = toContextProvider(record.provider);
+            const linked = await ensureFreshLinkedAccounts(
+              record,
+              tokenStore,
+              providerConfig,
+            );
+            accounts = [provider, ...linked.map(toContextProvider)];
           }
 
+          const authBaseUrl = workerDiscoveryStrategy.resolveAuthBaseUrl(
+            new URL(request.url),
+            config,
+          );
+          linkAccount = (scopes) =>
+            createAccountLink(tokenStore, rsToken, authBaseUrl, scopes?.join(' '));
+
           resolvedHeaders.authorization = `Bearer ${accessToken}`;
 
           if (wasRefreshed) {
@@ -195,6 +205,8 @@ async function resolveAuthContext(
     authStrategy: strategy,
     providerToken,
     provider,
+    accounts,
+    linkAccount,
     resolvedHeaders,
     authHeaders: rawHeaders,
   };
@@ -280,6 +292,23 @@ export async function handleMcpRequest(
     return withCors(new Response(null, { status: 202 }));
   }
 
+  // Tools needing scopes the user has not granted: step-up authorization
+  const scope = stepUpScopes(body, authContext);
+  if (scope) {
+    const challenge = buildInsufficientScopeChallenge({
+      origin: new URL(request.url).origin,
+      sid: sessionId,
+      scope,
+      id,
+    });
+    return withCors(
+      new Response(JSON.stringify(challenge.body), {
+        status: challenge.status,
+        headers: { 'Content-Type': 'application/json', ...challenge.headers },
+      }),
+    );
+  }
+
   // Dispatch JSON-RPC request with requestId for cancellation tracking
   const result = await dispatchMcpMethod(method, params, dispatchContext, id);
 
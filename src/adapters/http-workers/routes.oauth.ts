@@ -5,16 +5,25 @@
 interface IttyRouter {
   get(path: string, handler: (request: Request) => Promise<Response>): void;
   post(path: string, handler: (request: Request) => Promise<Response>): void;
+  put(path: string, handler: (request: Request) => Promise<Response>): void;
+  delete(path: string, handler: (request: Request) => Promise<Response>): void;
 }
 
 import type { UnifiedConfig } from '../../shared/config/env.js';
+import { withCors } from '../../shared/http/cors.js';
 import {
   jsonResponse,
   oauthError,
   redirectResponse,
   textError,
 } from '../../shared/http/response.js';
-import { handleRegister, handleRevoke } from '../../shared/oauth/endpoints.js';
+import {
+  handleDeleteClient,
+  handleGetClient,
+  handleRegister,
+  handleRevoke,
+  handleUpdateClient,
+} from '../../shared/oauth/endpoints.js';
 import {
   handleAuthorize,
   handleProviderCallback,
@@ -24,18 +33,49 @@ import {
   buildFlowOptions,
   buildOAuthConfig,
   buildProviderConfig,
+  buildRevokeInput,
   buildTokenInput,
   parseAuthorizeInput,
   parseCallbackInput,
+  parseLinkCookie,
+  parseRegisterInput,
+  parseRegistrationToken,
   parseTokenInput,
 } from '../../shared/oauth/input-parsers.js';
-import type { TokenStore } from '../../shared/storage/interface.js';
+import {
+  accountLinkConfirmation,
+  linkCookieHeader,
+} from '../../shared/oauth/link-page.js';
+import type { SessionStore, TokenStore } from '../../shared/storage/interface.js';
 import { sharedLogger as logger } from '../../shared/utils/logger.js';
 
+const ACCOUNT_LINKED_MESSAGE =
+  'Account linked. You can close this window and return to your MCP client.';
+
+/** Client id from /register/{clientId} */
+function clientIdFromPath(url: URL): string {
+  return decodeURIComponent(url.pathname.split('/').pop() ?? '');
+}
+
+/**
+ * RFC 7592 error: 401 for a bad registration access token, 400 otherwise.
+ */
+function clientConfigurationError(error: unknown): Response {
+  const message = (error as Error).message;
+  if (message === 'invalid_token') {
+    return jsonResponse(
+      { error: message },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } },
+    );
+  }
+  return oauthError(message);
+}
+
 export function attachOAuthRoutes(
   router: IttyRouter,
   store: TokenStore,
   config: UnifiedConfig,
+  sessionStore?: SessionStore,
 ): void {
   const providerConfig = buildProviderConfig(config);
   const oauthConfig = buildOAuthConfig(config);
@@ -46,7 +86,7 @@ export function attachOAuthRoutes(
     try {
       const url = new URL(request.url);
       const sessionId = request.headers.get('Mcp-Session-Id') ?? undefined;
-      const input = parseAuthorizeInput(url, sessionId);
+      const input = parseAuthorizeInput(url, sessionId, request.headers.get('cookie'));
       const options = buildFlowOptions(url, config);
 
       const result = await handleAuthorize(
@@ -57,6 +97,13 @@ export function attachOAuthRoutes(
         options,
       );
 
+      if (result.confirmLink) {
+        return accountLinkConfirmation(
+          { ...result, confirmLink: result.confirmLink },
+          options.baseUrl,
+        );
+      }
+
       logger.info('oauth_workers', {
         message: 'Authorize redirect',
         url: result.redirectTo,
@@ -92,7 +139,11 @@ export function attachOAuthRoutes(
       const options = buildFlowOptions(url, config);
 
       const result = await handleProviderCallback(
-        { providerCode: code, compositeState: state },
+        {
+          providerCode: code,
+          compositeState: state,
+          linkCookie: parseLinkCookie(request.headers.get('cookie')),
+        },
         store,
         providerConfig,
         oauthConfig,
@@ -100,6 +151,13 @@ export function attachOAuthRoutes(
       );
 
       logger.info('oauth_workers', { message: 'Callback success' });
+      if (result.linked) {
+        return withCors(
+          new Response(ACCOUNT_LINKED_MESSAGE, {
+            headers: { 'Set-Cookie': linkCookieHeader('', options.baseUrl) },
+          }),
+        );
+      }
       return redirectResponse(result.redirectTo);
     } catch (error) {
       logger.error('oauth_workers', {
@@ -135,9 +193,31 @@ export function attachOAuthRoutes(
     }
   });
 
-  router.post('/revoke', async () => {
-    const result = await handleRevoke();
-    return jsonResponse(result);
+  router.post('/revoke', async (request: Request) => {
+    logger.debug('oauth_workers', { message: 'Revoke request received' });
+
+    try {
+      const form = await parseTokenInput(request);
+      const revokeInput = buildRevokeInput(form);
+
+      if ('error' in revokeInput) {
+        return oauthError(revokeInput.error);
+      }
+
+      const result = await handleRevoke(
+        revokeInput,
+        store,
+        providerConfig,
+        sessionStore,
+      );
+      return jsonResponse(result);
+    } catch (error) {
+      logger.error('oauth_workers', {
+        message: 'Revoke failed',
+        error: (error as Error).message,
+      });
+      return oauthError('temporarily_unavailable', undefined, { status: 503 });
+    }
   });
 
   router.post('/register', async (request: Request) => {
@@ -148,19 +228,8 @@ export function attachOAuthRoutes(
       logger.debug('oauth_workers', { message: 'Register request' });
 
       const result = await handleRegister(
-        {
-          redirect_uris: Array.isArray(body.redirect_uris)
-            ? (body.redirect_uris as string[])
-            : undefined,
-          grant_types: Array.isArray(body.grant_types)
-            ? (body.grant_types as string[])
-            : undefined,
-          response_types: Array.isArray(body.response_types)
-            ? (body.response_types as string[])
-            : undefined,
-          client_name:
-            typeof body.client_name === 'string' ? body.client_name : undefined,
-        },
+        parseRegisterInput(body),
+        store,
         url.origin,
         config.OAUTH_REDIRECT_URI,
       );
@@ -171,4 +240,55 @@ export function attachOAuthRoutes(
       return oauthError((error as Error).message);
     }
   });
+
+  // Client configuration endpoint (RFC 7592), authorized by the registration access token
+  router.get('/register/:clientId', async (request: Request) => {
+    try {
+      const url = new URL(request.url);
+      const result = await handleGetClient(
+        clientIdFromPath(url),
+        parseRegistrationToken(request.headers.get('authorization')),
+        store,
+        url.origin,
+      );
+      return jsonResponse(result);
+    } catch (error) {
+      return clientConfigurationError(error);
+    }
+  });
+
+  router.put('/register/:clientId', async (request: Request) => {
+    try {
+      const url = new URL(request.url);
+      const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+      const result = await handleUpdateClient(
+        clientIdFromPath(url),
+        parseRegistrationToken(request.headers.get('authorization')),
+        parseRegisterInput(body),
+        store,
+        url.origin,
+        config.OAUTH_REDIRECT_URI,
+      );
+
+      logger.info('oauth_workers', { message: 'Client registration updated' });
+      return jsonResponse(result);
+    } catch (error) {
+      return clientConfigurationError(error);
+    }
+  });
+
+  router.delete('/register/:clientId', async (request: Request) => {
+    try {
+      await handleDeleteClient(
+        clientIdFromPath(new URL(request.url)),
+        parseRegistrationToken(request.headers.get('authorization')),
+        store,
+      );
+
+      logger.info('oauth_workers', { message: 'Client registration deleted' });
+      return withCors(new Response(null, { status: 204 }));
+    } catch (error) {
+      return clientConfigurationError(error);
+    }
+  });
 }
@@ -0,0 +1,19 @@
+// Workers adapter for Google Calendar push notifications using itty-router
+
+// itty-router types are complex; use generic interface
+interface IttyRouter {
+  post(path: string, handler: (request: Request) => Promise<Response>): void;
+}
+
+import { jsonResponse } from '../../shared/http/response.js';
+import {
+  handleChannelNotification,
+  WEBHOOK_PATH,
+} from '../../shared/webhooks/calendar-channels.js';
+
+export function attachWebhookRoutes(router: IttyRouter): void {
+  router.post(WEBHOOK_PATH, async (request: Request) => {
+    const result = await handleChannelNotification(request.headers);
+    return jsonResponse(result.body, { status: result.status, cors: false });
+  });
+}
@@ -14,27 +14,43 @@ export const serverMetadata = {
 
 Quick start
 - Use 'search_events' to find events — it searches ALL calendars by default!
+- Use 'get_event' for full details of one event (attendee responses, dial-ins, attachments).
+- Use 'sync_events' to see only what changed in a calendar since your last check.
+- Use 'watch_calendar' to get push notifications; 'list_watch_channels' shows calendars with pending changes.
 - Use 'create_event' to add events (natural language or structured).
+- Use 'create_status_event' to block out-of-office or focus time, or to set where you work from.
 - Use 'update_event' to modify or move events.
+- Pass conflictPolicy 'warn' or 'reject' to 'create_event'/'update_event' to avoid double-booking.
 - Use 'respond_to_event' to accept, decline, or tentatively accept invitations.
-- Use 'check_availability' before scheduling to find free slots.
+- Use 'batch_events' for bulk changes (e.g. decline every meeting on a day, recolor all 1:1s) instead of many single calls.
+- Use 'find_meeting_slots' to get ranked free times for one or more attendees.
+- Use 'check_availability' to see raw busy blocks for specific calendars.
 - Call 'list_calendars' to see all available calendars if needed.
+- Use 'create_calendar', 'update_calendar' and 'delete_calendar' to manage calendars you own; 'subscribe_calendar'/'unsubscribe_calendar' add or remove shared calendars from your list.
+- Use 'list_calendar_acl', 'share_calendar' and 'revoke_calendar_access' to manage who can see or edit a calendar.
 
 Default behavior
 - 'search_events' searches ALL calendars by default and shows which calendar each event belongs to.
 - Other tools default to 'primary' calendar if calendarId is omitted.
 - 'sendUpdates' defaults to 'none' to avoid spamming attendees during agent operations.
 - Date/time values use ISO 8601 format with timezone offset (e.g., 2024-12-01T14:00:00+01:00).
+
+Time expressions
+- 'search_events', 'check_availability', 'create_event' and 'update_event' also accept local times (2025-03-30T09:00) and expressions: now, today, tomorrow 3pm, friday 15:00, next tuesday 3pm, march 30, in 2 hours, in 3 days.
+- They are read in the tool's timeZone input or, by default, the primary calendar's zone, with the correct DST offset for that date. Prefer them over computing offsets yourself.
+- 'tuesday' means the next Tuesday including today, 'next tuesday' the first one after today. A bare date is all-day for events and midnight for time ranges.
 - For all-day events, use date format: 2024-12-01.
 
 Recurring events
 - 'search_events' expands recurring events into instances by default (singleEvents: true).
 - Each instance has 'recurringEventId' pointing to the parent event.
-- To modify a single instance, use its instance 'id'. To modify all, use the parent 'recurringEventId'.
+- Use 'list_instances' to enumerate the occurrences of a series.
+- 'update_event' and 'delete_event' take scope: 'instance' (this occurrence), 'following' (this and later occurrences; splits the series) or 'series' (all occurrences). Pass any occurrence id with the scope.
 
 Event types
 - 'default': Regular calendar event (can be created, updated, moved, deleted).
 - 'birthday', 'focusTime', 'outOfOffice', 'workingLocation': Special types with restrictions.
+- 'focusTime', 'outOfOffice' and 'workingLocation' are created with 'create_status_event', on the primary calendar only.
 - 'fromGmail': Auto-created from emails (read-only).
 - Only 'default' events can be moved between calendars.
 
@@ -42,10 +58,39 @@ How to chain safely
 - calendarId: Get from 'list_calendars', pass to all other tools.
 - eventId: Get from 'search_events', pass to 'update_event'/'delete_event'.
 - Always verify writes with 'search_events' after modifications.
+
+Previewing changes
+- Every tool that changes data takes dryRun: true. It resolves the target and returns the exact request(s) it would send to Google (structuredContent: { dryRun, requests, target?, changes? }) without writing anything.
+- Use it before deletes and bulk updates, show the preview to the user, and repeat the call without dryRun once they confirm.
+
+Several Google accounts
+- Use 'list_accounts' to see the Google accounts linked to this sign-in; pass linkAnother: true to get a link that adds one.
+- Every calendar tool takes account (an email from 'list_accounts'); without it the default account is used. 'search_events' also takes account: 'all' to search every linked account at once.
+- Ids (calendarId, eventId, changeId) belong to one account: pass the same account when you use them again.
+
+Undoing changes
+- 'create_event', 'create_status_event', 'update_event', 'delete_event', 'respond_to_event' and 'batch_events' journal what they changed and return a changeId (kept for 7 days).
+- Use 'list_recent_changes' to see the journal and 'undo_change' to revert one; undoing an undo redoes the change.
+
+Errors
+- Failed calls return isError with structuredContent.error: { code, message, hint, retryable, status?, reason? }.
+- Branch on 'code' (auth_expired, insufficient_scope, not_found, conflict, rate_limited, invalid_input, read_only_calendar, forbidden, policy_denied, upstream_error) and follow 'hint'.
+- 'policy_denied' means this deployment does not allow the call (details.policy: read_only, allowed_tools, allowed_calendars or forbid_send_updates_all); don't retry it unchanged.
+- 'conflict' with reason 'conditionNotMet' means the event changed since you read it; details.current holds the latest version to re-plan against.
+- 'insufficient_scope' before the call reached Google means the account has not granted a permission the tool needs (details.missingScopes). Give the user details.authorizationUrl (or the link in 'hint') to approve it, then retry.
 `,
 } as const;
 
 export const toolsMetadata = {
+  list_accounts: {
+    name: 'list_accounts',
+    title: 'List Accounts',
+    description: `List the Google accounts linked to this sign-in. Inputs: linkAnother? (boolean, default false: also return a link to add another account).
+Returns: { accounts: Array<{ email, default }>, linkUrl? }.
+Behavior: The account you signed in with is the default. linkUrl is valid for 5 minutes; the user opens it in a browser, confirms, and signs in with the other Google account.
+Next: Pass account: '<email>' to any calendar tool, or account: 'all' to 'search_events'.`,
+  },
+
   list_calendars: {
     name: 'list_calendars',
     title: 'List Calendars',
@@ -53,22 +98,113 @@ export const toolsMetadata = {
       "List all calendars accessible to the user with their details. Use this FIRST to discover calendar IDs. Inputs: none.\nReturns: { items: Array<{ id, summary, primary?, backgroundColor?, accessRole, timeZone, description? }> }.\nNext: Use calendarId from items in 'search_events', 'create_event', etc. The 'primary' calendar is the user's main calendar.",
   },
 
+  create_calendar: {
+    name: 'create_calendar',
+    title: 'Create Calendar',
+    description: `Create a new secondary calendar owned by the user, e.g. for a project or team.
+
+Inputs: summary (required, name), description?, location?, timeZone? (IANA, default: primary calendar's zone), plus list settings: summaryOverride?, colorId?, backgroundColor? ('#rrggbb'), hidden?, selected?, defaultReminders? (Array<{ method: 'popup'|'email', minutes }>).
+Returns: { id, summary, description?, location?, timeZone, listEntry? }.
+Next: Use the returned id as calendarId in 'create_event'.`,
+  },
+
+  update_calendar: {
+    name: 'update_calendar',
+    title: 'Update Calendar',
+    description: `Change a calendar. Only provided fields are changed.
+
+Calendar fields (owner only, visible to everyone with access): summary?, description?, location?, timeZone?.
+Your list settings (any calendar in your list, only you see them): summaryOverride?, colorId?, backgroundColor? ('#rrggbb'), hidden?, selected?, defaultReminders?.
+
+Inputs: calendarId (required) plus at least one field.
+Returns: { id, summary, description?, location?, timeZone?, listEntry }.
+Next: Use 'list_calendars' to review.`,
+  },
+
+  delete_calendar: {
+    name: 'delete_calendar',
+    title: 'Delete Calendar',
+    description: `Permanently delete a secondary calendar you own, including ALL its events, for every user it is shared with. Cannot be undone. The primary calendar cannot be deleted.
+
+Inputs: calendarId (required).
+Returns: { success: true, calendarId, summary }.
+For calendars you don't own, use 'unsubscribe_calendar'. Confirm with the user before calling.`,
+  },
+
+  subscribe_calendar: {
+    name: 'subscribe_calendar',
+    title: 'Subscribe to Calendar',
+    description: `Add an existing calendar to the user's calendar list: a calendar shared with them, a colleague's calendar (by email) or a public calendar (e.g. holidays).
+
+Inputs: calendarId (required), plus list settings: summaryOverride?, colorId?, backgroundColor?, hidden?, selected?, defaultReminders?.
+Returns: the calendar list entry { id, summary, accessRole, timeZone, ... }.
+Next: Its events now appear in 'search_events'.`,
+  },
+
+  unsubscribe_calendar: {
+    name: 'unsubscribe_calendar',
+    title: 'Unsubscribe from Calendar',
+    description: `Remove a calendar from the user's calendar list. The calendar and its events are NOT deleted and it can be added back with 'subscribe_calendar'.
+
+Inputs: calendarId (required, not the primary calendar).
+Returns: { success: true, calendarId, summary }.`,
+  },
+
+  list_calendar_acl: {
+    name: 'list_calendar_acl',
+    title: 'List Calendar Sharing',
+    description: `Show who a calendar is shared with and their roles. Requires owner access to the calendar.
+
+Inputs: calendarId? (default: 'primary').
+Returns: { calendarId, items: Array<{ id (ruleId), role, scope: { type: 'user'|'group'|'domain'|'default', value? } }> }.
+Next: Use 'share_calendar' or 'revoke_calendar_access' with the ruleId or scope.`,
+  },
+
+  share_calendar: {
+    name: 'share_calendar',
+    title: 'Share Calendar',
+    description: `Grant access to a calendar, or change the role of an existing grantee. Requires owner access.
+
+Inputs:
+- calendarId: string (required)
+- scopeType?: 'user'|'group'|'domain'|'default' (default: 'user'; 'default' makes the calendar public)
+- scopeValue?: string (email, group email or domain; required unless scopeType is 'default')
+- role: 'freeBusyReader'|'reader'|'writer'|'owner' (public calendars allow only freeBusyReader/reader)
+- sendNotifications?: boolean (default: true, emails the grantee)
+
+Refuses to downgrade your own owner role.
+Returns: { calendarId, action: 'granted'|'changed', rule: { id, role, scope } }.
+Confirm with the user before granting writer or owner access or making a calendar public.`,
+  },
+
+  revoke_calendar_access: {
+    name: 'revoke_calendar_access',
+    title: 'Revoke Calendar Access',
+    description: `Remove a sharing rule from a calendar. Requires owner access.
+
+Inputs: calendarId (required), and either ruleId (from 'list_calendar_acl') or scopeType? (default: 'user') with scopeValue.
+Refuses to remove your own owner access.
+Returns: { success: true, calendarId, ruleId }.`,
+  },
+
   search_events: {
     name: 'search_events',
     title: 'Search Events',
     description: `Search events across ALL calendars by default. Returns merged results sorted by start time.
 
-Inputs: calendarId? (default: 'all' = searches all accessible calendars; can also be a single calendar ID or array of IDs), timeMin?, timeMax? (ISO 8601), query? (searches title, description, location, attendees), maxResults? (default: 50, total across all calendars), eventTypes? (default|birthday|focusTime|outOfOffice|workingLocation), orderBy? (startTime|updated), fields? (array of fields to return).
+Inputs: calendarId? (default: 'all' = searches all accessible calendars; can also be a single calendar ID or array of IDs), timeMin?, timeMax? (RFC3339, local time or expression, see Time expressions), timeZone? (for times without an offset; default: primary calendar's zone), query? (searches title, description, location, attendees), maxResults? (default: 50, total across all calendars), eventTypes? (default|birthday|focusTime|outOfOffice|workingLocation), orderBy? (startTime|updated), fields? (array of fields to return), account? (linked account email, or 'all').
 
 CALENDAR SEARCH:
 - Default ('all'): Searches ALL accessible calendars in parallel.
 - Single calendar: calendarId: 'primary' or specific calendar ID.
 - Multiple calendars: calendarId: ['primary', 'work@group.calendar.google.com'].
+- Every linked Google account: account: 'all' (each event then has an account field).
 
 FILTERING BY TIME (important!):
-- Today's events: timeMin=start of day, timeMax=end of day in user's timezone.
-- This week: timeMin=Monday 00:00, timeMax=Sunday 23:59:59.
-- Upcoming: timeMin=now, no timeMax.
+- Today's events: timeMin='today', timeMax='tomorrow' (midnight to midnight in the user's timezone).
+- This week: timeMin='monday' / 'last monday', timeMax='next monday'.
+- Upcoming: timeMin='now', no timeMax.
+- structuredContent.timeMin/timeMax show how the range was resolved.
 
 FILTERING BY TYPE:
 - Regular events only: eventTypes: ['default']
@@ -77,17 +213,105 @@ FILTERING BY TYPE:
 
 Text search: pass query: "meeting with John" to match title, description, location, or attendee names/emails.
 
-Returns: { items: Array<{ id, summary, start, end, calendarId, calendarName, location?, htmlLink, status, ... }>, calendarsSearched, nextPageToken? }.
+Returns: { items: Array<{ id, etag, summary, start, end, calendarId, calendarName, location?, htmlLink, status, ... }>, calendarsSearched, calendarsFailed?: Array<{ calendarId, name, error, code }>, nextPageToken? }.
+If calendarsFailed is present, results are incomplete — tell the user which calendars could not be searched.
 IMPORTANT: Each event includes 'calendarId' and 'calendarName' showing which calendar it belongs to.
 
 Next: Use eventId AND calendarId with 'update_event' or 'delete_event'. Pagination only works with single calendar searches.`,
   },
 
+  get_event: {
+    name: 'get_event',
+    title: 'Get Event',
+    description: `Fetch one event with every detail: attendees and their responses, conference dial-ins, attachments, reminders, recurrence and extended properties.
+
+Inputs: eventId (from search_events; instance IDs of recurring events return that occurrence), calendarId? (default: 'primary'), timeZone? (render times in this zone), includeSeries? (default: true, also fetch the series' recurrence rules for an instance).
+Returns: the full Calendar API event (including etag, its version) plus calendarId (and seriesRecurrence for instances).
+Next: Use 'update_event', 'delete_event' or 'respond_to_event' with the same eventId and calendarId; pass etag as ifMatch to avoid overwriting concurrent edits.`,
+  },
+
+  list_instances: {
+    name: 'list_instances',
+    title: 'List Instances',
+    description: `List the occurrences of a recurring event, including ones that were moved or edited individually.
+
+Inputs: eventId (series ID or any occurrence ID), calendarId? (default: 'primary'), timeMin?, timeMax? (RFC3339 with timezone), maxResults? (default: 25), pageToken?, showDeleted? (include cancelled occurrences, default: false), timeZone?.
+Returns: { seriesId, calendarId, summary, recurrence, items: Array<{ id, summary, start, end, originalStartTime, status }>, nextPageToken? }.
+Next: Pass an occurrence id to 'update_event' or 'delete_event' with scope 'instance' or 'following'.`,
+  },
+
+  sync_events: {
+    name: 'sync_events',
+    title: 'Sync Events',
+    description: `Get what changed in a calendar since the last call, instead of re-scanning time windows with 'search_events'.
+
+The first call performs a full sync and returns every event; the server stores Google's sync token per user and calendar. Later calls return only events created, updated or cancelled since the previous call. If Google expires the token, the tool starts over with a full sync automatically (fullSyncReason: 'token_expired').
+
+Inputs: calendarId? (default: 'primary'), singleEvents? (expand recurring events, default: false; changing it resets the sync), reset? (force a full sync), maxResults? (events listed in the response, default: 100).
+
+Returns: { calendarId, syncType: 'full'|'incremental', fullSyncReason?, complete, since?, counts: { existing, created, updated, cancelled }, changes: Array<{ type, id, summary?, start?, end?, status, updated?, recurringEventId?, htmlLink? }>, truncated }.
+Cancelled events carry only id and status. If complete is false, call again to continue the listing.
+Next: Use 'search_events' or 'update_event' with the returned IDs.`,
+  },
+
+  watch_calendar: {
+    name: 'watch_calendar',
+    title: 'Watch Calendar',
+    description: `Start push notifications for a calendar so the server learns about changes as they happen (Google events.watch). Requires CALENDAR_WEBHOOK_URL to be configured on the server.
+
+Inputs: calendarId? (default: 'primary'), ttlHours? (default: 168, Google may cap it), renew? (replace the channel even if it is not close to expiry).
+Idempotent: if the calendar is already watched and the channel has more than 24h left, the existing channel is returned.
+
+Returns: { status: 'created'|'renewed'|'active', channel: { channelId, calendarId, expiration, pendingChanges, lastNotificationAt? } }.
+Next: Use 'list_watch_channels' to see which calendars have pending changes, then 'sync_events' to fetch them.`,
+  },
+
+  list_watch_channels: {
+    name: 'list_watch_channels',
+    title: 'List Watch Channels',
+    description: `List push notification channels for the current user and how many change notifications arrived since each calendar was last synced. Channels expiring within 24 hours are renewed automatically.
+
+Inputs: renewExpiring? (default: true).
+Returns: { channels: Array<{ channelId, calendarId, expiration, pendingChanges, lastNotificationAt? }>, renewed: string[], renewalFailed?: Array<{ channelId, error }> }.
+Next: Call 'sync_events' for calendars with pendingChanges > 0 (this resets the counter).`,
+  },
+
+  stop_watch_channel: {
+    name: 'stop_watch_channel',
+    title: 'Stop Watch Channel',
+    description: `Stop push notifications. Inputs: channelId? or calendarId? (stops every channel for that calendar); one is required.
+Returns: { stopped: string[] }.`,
+  },
+
   check_availability: {
     name: 'check_availability',
     title: 'Check Availability',
     description:
-      "Check free/busy status for time slots across one or more calendars. Use BEFORE scheduling to find available times. Inputs: timeMin, timeMax (ISO 8601, required), calendarIds? (default: ['primary']).\nReturns: { calendars: { [calendarId]: { busy: Array<{ start, end }> } } }.\nBehavior: Returns only busy time blocks. Free time = gaps between busy blocks.\nNext: Use free slots to suggest meeting times, then 'create_event' to book.",
+      "Check free/busy status for time slots across one or more calendars. Use BEFORE scheduling to find available times. Inputs: timeMin, timeMax (required; RFC3339, local time or expression like 'tomorrow 9am'), calendarIds? (default: ['primary']), timeZone? (response zone, and for reading times without an offset).\nReturns: { calendars: { [calendarId]: { busy: Array<{ start, end }> } } }.\nBehavior: Returns only busy time blocks. Free time = gaps between busy blocks.\nNext: Use free slots to suggest meeting times, then 'create_event' to book.",
+  },
+
+  find_meeting_slots: {
+    name: 'find_meeting_slots',
+    title: 'Find Meeting Slots',
+    description: `Find free meeting times that work for every required attendee. Computes the gaps between busy blocks for you — prefer this over reading 'check_availability' output manually.
+
+Inputs:
+- durationMinutes: number (required)
+- timeMin, timeMax: RFC3339 with timezone (required, search window, max 60 days)
+- attendees?: string[] (calendar IDs or emails that must ALL be free, default: ['primary'])
+- optionalAttendees?: string[] (only used for ranking)
+- timeZone?: IANA zone for working hours and output (default: primary calendar time zone)
+- workingHours?: { start: 'HH:MM', end: 'HH:MM' } (default: 09:00–17:00)
+- workingDays?: number[] (0 = Sunday … 6 = Saturday, default: [1,2,3,4,5])
+- bufferMinutes?: number (gap kept around existing busy blocks, default: 0)
+- slotIncrementMinutes?: number (candidate start granularity, default: 30)
+- maxResults?: number (default: 10)
+
+Ranking: slots where the most optional attendees are free come first, then earliest start.
+A required attendee whose calendar cannot be read (no free/busy access) fails the call with 'forbidden'; optional ones are listed in calendarErrors and never counted as free.
+
+Returns: { timeZone, durationMinutes, slots: Array<{ start, end, optionalAvailable, optionalBusy }>, totalFreeSlots, calendarsChecked, calendarErrors }.
+Next: Pass a slot's start/end directly to 'create_event' with the same attendees.`,
   },
 
   create_event: {
@@ -103,8 +327,9 @@ Detection: If 'text' is provided without 'summary', uses quickAdd.
 
 MODE B - Structured:
 - summary: string (required, event title)
-- start: string (ISO 8601 datetime) or { date: string } for all-day (required)
-- end: string (ISO 8601 datetime) or { date: string } for all-day (required)
+- start: string (required): RFC3339, a local time or an expression ('tomorrow 3pm'); a date (YYYY-MM-DD, 'next friday') for all-day
+- end: string (required): same forms; both must be dates or both times (all-day end dates are exclusive)
+- timeZone?: IANA zone of the event; local times and expressions are read in it (default: primary calendar's zone)
 - calendarId?: string (default: 'primary')
 - description?: string
 - location?: string
@@ -116,14 +341,46 @@ MODE B - Structured:
 - colorId?: string (1-11)
 - sendUpdates?: 'all'|'externalOnly'|'none' (default: 'none')
 
-Returns: Created event object with id, htmlLink, and all fields.
+dryRun?: boolean (both modes) returns the request that would be sent instead of creating the event.
+
+CONFLICTS (both modes):
+- conflictPolicy?: 'ignore'|'warn'|'reject' (default: 'ignore')
+- checkAttendees?: boolean (default: false, also check attendees' free/busy)
+- 'warn' creates the event and lists overlapping events (title, link, id) plus busy attendees under 'conflicts'.
+- 'reject' creates nothing when there is an overlap and returns error code 'conflict' with details.conflicts. Not supported with natural language.
+- Only timed events are checked; free (transparent) and declined events don't count.
+
+Returns: Created event object with id, htmlLink, and all fields (plus conflicts when checked, and changeId for 'undo_change').
 Next: Share htmlLink with user. Use 'search_events' to verify creation.`,
   },
 
+  create_status_event: {
+    name: 'create_status_event',
+    title: 'Create Status Event',
+    description: `Create an out-of-office block, focus time, or working location entry on the user's primary calendar. Inputs: eventType ('outOfOffice'|'focusTime'|'workingLocation', required), start, end (ISO 8601 datetimes; working locations may use YYYY-MM-DD for all-day), summary? (default: "Out of office", "Focus time" or the location), timeZone?, recurrence?, dryRun?, plus the type's properties:
+
+- outOfOffice: autoDeclineMode? ('declineNone'|'declineAllConflictingInvitations'|'declineOnlyNewConflictingInvitations', default: 'declineOnlyNewConflictingInvitations'), declineMessage?
+- focusTime: autoDeclineMode? (default: 'declineNone'), declineMessage?, chatStatus? ('available'|'doNotDisturb')
+- workingLocation: workingLocation (required): { type: 'homeOffice' } | { type: 'officeLocation', label?, buildingId?, floorId?, floorSectionId?, deskId? } | { type: 'customLocation', label }
+
+Rules (checked before anything is sent):
+- Out of office and focus time must be timed, not all-day; use midnight to midnight for whole days.
+- Properties of another type are rejected (e.g. chatStatus on outOfOffice); declineMessage needs a decline mode other than 'declineNone'.
+- Working locations are created as free and public, as Google requires. Status events have no attendees, and Google only offers them to Workspace accounts (others get 'invalid_input').
+
+Returns: Created event object (plus changeId for 'undo_change').
+Next: Use 'update_event' or 'delete_event' with the returned id to change or remove it.`,
+  },
+
   update_event: {
     name: 'update_event',
     title: 'Update Event',
-    description: `Update or move an existing event. Uses PATCH semantics (only provided fields are changed). Inputs: eventId (required), calendarId? (default: 'primary'), targetCalendarId? (moves event if different from calendarId), sendUpdates? ('all'|'externalOnly'|'none', default: 'none'), plus any field to update: summary?, start?, end?, description?, location?, attendees?, addGoogleMeet?, recurrence?, reminders?, visibility?, colorId?.
+    description: `Update or move an existing event. Uses PATCH semantics (only provided fields are changed). Inputs: eventId (required), calendarId? (default: 'primary'), targetCalendarId? (moves event if different from calendarId), scope? ('instance'|'following'|'series', for recurring events), sendUpdates? ('all'|'externalOnly'|'none', default: 'none'), conflictPolicy? ('ignore'|'warn'|'reject', default: 'ignore'), checkAttendees? (default: false), ifMatch? (etag as read; see CONCURRENCY), dryRun? (preview the request(s) and field changes without writing), plus any field to update: summary?, start?, end?, description?, location?, attendees?, addAttendees?, removeAttendees?, addGoogleMeet?, recurrence?, reminders?, visibility?, colorId?.
+
+ATTENDEES:
+- Prefer addAttendees/removeAttendees: they edit the current list and keep everyone else as is. attendees replaces the whole list; it cannot be combined with them.
+- Each attendee is an email or { email, displayName?, optional?, resource? } (resource: room or equipment). Passing someone already invited updates their options.
+- Attendees who stay keep their response status. Removing an email that is not invited fails with 'invalid_input'.
 
 MOVE BEHAVIOR:
 - If targetCalendarId differs from calendarId, performs Move operation first.
@@ -131,9 +388,24 @@ MOVE BEHAVIOR:
 
 PATCH BEHAVIOR:
 - Only sends fields you provide; omitted fields remain unchanged.
+- start/end accept local times and expressions ('friday 3pm'), read in timeZone? (default: primary calendar's zone); a date makes the event all-day.
 - To clear a field, set it to null or empty string where applicable.
 
-Returns: Updated event object.
+RECURRING EVENTS (scope, eventId may be any occurrence id):
+- 'instance': changes only this occurrence.
+- 'series': changes every occurrence (patches the parent event).
+- 'following': ends the series before this occurrence (RRULE UNTIL) and creates a new series from it with your changes. Returns the new series plus previousSeriesId. Cannot be combined with a move.
+- Omitted: eventId is updated as given.
+
+CONFLICTS:
+- With conflictPolicy 'warn' or 'reject', a change of start/end (or attendees, with checkAttendees) is checked against free/busy first. The event itself is not counted.
+- 'warn' updates and lists the overlaps under 'conflicts'; 'reject' changes nothing and returns error code 'conflict' with details.conflicts.
+
+CONCURRENCY:
+- Pass the etag from 'get_event'/'search_events' as ifMatch. If the event changed since (e.g. the user edited it), nothing is written and error code 'conflict' (reason 'conditionNotMet', status 412) is returned with details.current, the latest version.
+- Re-check your change against details.current, then retry with ifMatch: details.current.etag.
+
+Returns: Updated event object (plus conflicts when checked, and changeId for 'undo_change').
 Next: Use 'search_events' to verify changes. Share updated htmlLink if needed.`,
   },
 
@@ -141,7 +413,7 @@ Next: Use 'search_events' to verify changes. Share updated htmlLink if needed.`,
     name: 'delete_event',
     title: 'Delete Event',
     description:
-      "Delete an event from a calendar. Inputs: eventId (required), calendarId? (default: 'primary'), sendUpdates? ('all'|'externalOnly'|'none', default: 'none').\nBehavior: Permanently removes the event. If it's a recurring event instance, only that instance is deleted. To delete all instances, delete the parent event (use recurringEventId).\nReturns: { success: true }.\nNext: Use 'search_events' to verify deletion.",
+      "Delete an event from a calendar. Inputs: eventId (required), calendarId? (default: 'primary'), scope? ('instance'|'following'|'series', for recurring events), sendUpdates? ('all'|'externalOnly'|'none', default: 'none'), dryRun? (show the event and request without deleting).\nBehavior: Permanently removes the event. For recurring events pass any occurrence id with scope: 'instance' deletes that occurrence, 'following' ends the series before it (earlier occurrences stay), 'series' deletes every occurrence. Without scope, eventId is deleted as given.\nReturns: { success: true, eventId, calendarId, scope?, seriesEndsBefore?, changeId? }. Pass changeId to 'undo_change' to restore the event.\nNext: Use 'search_events' or 'list_instances' to verify deletion.",
   },
 
   respond_to_event: {
@@ -156,16 +428,127 @@ Inputs:
   - 'accepted' = Yes, I'll attend
   - 'declined' = No, I won't attend  
   - 'tentative' = Maybe
-- sendUpdates?: 'all' | 'externalOnly' | 'none' (default: 'all')
+- sendUpdates?: 'all' | 'externalOnly' | 'none' (default: 'all'; 'externalOnly' where the server forbids 'all')
+- ifMatch?: string — etag of the event as you read it
+- dryRun?: boolean — preview the change without sending it
 
-Behavior: Updates YOUR attendance status for the event. You must be an attendee (invited) to respond.
+Behavior: Updates YOUR attendance status for the event. You must be an attendee (invited) to respond. The attendee list is written back with If-Match, so an edit made at the same time is never overwritten: the call fails with error code 'conflict' (reason 'conditionNotMet') and details.current instead. Retry to respond to the new version.
 
-Returns: Updated event object with your new response status.
+Returns: Updated event object with your new response status, plus changeId for 'undo_change'.
 
 Note: This only works for events you were invited to. For events you created yourself, you are the organizer, not an attendee.`,
   },
+
+  batch_events: {
+    name: 'batch_events',
+    title: 'Batch Events',
+    description: `Run many event writes in one call through Google's batch endpoint (50 per request). Inputs: operations (1-200), sendUpdates? ('all'|'externalOnly'|'none', default: 'none', applies to all), dryRun? (preview every request without writing).
+
+Operations (op field selects the kind):
+- { op: 'create', summary, start, end, calendarId?, description?, location?, attendees?, recurrence?, reminders?, visibility?, colorId?, timeZone? } — start/end as RFC3339, or YYYY-MM-DD for all-day (no expressions)
+- { op: 'update', eventId, calendarId?, summary?, start?, end?, description?, location?, attendees?, addAttendees?, removeAttendees?, reminders?, visibility?, colorId?, timeZone? } — PATCH semantics; attendees as in 'update_event'
+- { op: 'delete', eventId, calendarId? }
+- { op: 'respond', eventId, calendarId?, response: 'accepted'|'declined'|'tentative' }
+
+Behavior:
+- Each operation succeeds or fails on its own; a failure does not stop the others. Throttled operations are retried.
+- Google may run the operations of one batch in any order, so don't combine operations that depend on each other (e.g. create and then update the same event). Each event may appear in one operation only: merge the changes into one 'update', or use separate calls.
+- eventId is used as given: no recurrence scopes, moves or conflict checks (use the single-event tools for those).
+- Sends progress notifications when the request carries a progressToken.
+- Successful operations are journaled as one change: 'undo_change' reverts the whole batch.
+
+Returns: { total, succeeded, failed, results: Array<{ index, op, calendarId, eventId?, summary?, ok, error? }>, changeId? } — error has the same shape as a tool error (code, message, hint).
+Next: Retry only the failed operations. Use 'search_events' to verify.`,
+  },
+
+  list_recent_changes: {
+    name: 'list_recent_changes',
+    title: 'List Recent Changes',
+    description: `List the event writes journaled for undo, newest first. Inputs: limit? (1-100, default: 20).
+Behavior: 'create_event', 'update_event', 'delete_event', 'respond_to_event' and 'batch_events' record every event they touch (before and after); 'undo_change' records its own undo. Entries are kept for 7 days.
+Returns: { items: Array<{ changeId, at, tool, description, undoneBy?, undoOf?, events: Array<{ kind: 'created'|'deleted'|'moved'|'updated', calendarId, eventId, summary }> }> }.
+Next: Pass a changeId to 'undo_change'.`,
+  },
+
+  undo_change: {
+    name: 'undo_change',
+    title: 'Undo Change',
+    description: `Revert a journaled event write. Inputs: changeId? (from 'list_recent_changes'; default: the latest change not yet undone), force? (default: false), sendUpdates? ('all'|'externalOnly'|'none', default: 'none'), dryRun? (preview the request(s) without writing).
+Behavior:
+- Created events are deleted; deleted events are restored in place (a new copy with a new id once Google has purged them); moved events go back to their calendar; changed fields get their previous values.
+- A split series ('following' scope) gets its original RRULE back and the new series is deleted.
+- If an event was edited after the change, nothing is undone and error code 'conflict' (reason 'changedSinceRecorded') is returned; force: true undoes anyway and discards those edits.
+- Each change can be undone once. The undo is journaled too: undo it to redo the change.
+Returns: { undone, changeId?, events } — events are the restored (or deleted) events.
+Next: Use 'search_events' to verify.`,
+  },
 } as const satisfies Record<string, ToolMetadata>;
 
+export interface ResourceMetadata {
+  name: string;
+  title: string;
+  description: string;
+}
+
+export const resourcesMetadata = {
+  calendars: {
+    name: 'calendars',
+    title: 'Calendars',
+    description:
+      'All calendars the user can access, with access role, time zone and primary flag (JSON).',
+  },
+
+  event: {
+    name: 'event',
+    title: 'Calendar Event',
+    description:
+      'A single event as returned by the Calendar API (JSON). Use "primary" as calendarId for the main calendar; URL-encode IDs containing reserved characters. Subscribe to be notified when the event changes.',
+  },
+
+  agenda: {
+    name: 'agenda',
+    title: 'Daily Agenda',
+    description:
+      "Events across all readable calendars for one day in the user's time zone (JSON). date is YYYY-MM-DD, 'today' or 'tomorrow'. Subscribe to be notified when events change.",
+  },
+} as const satisfies Record<string, ResourceMetadata>;
+
+export interface PromptMetadata {
+  name: string;
+  title: string;
+  description: string;
+}
+
+export const promptsMetadata = {
+  plan_week: {
+    name: 'plan_week',
+    title: 'Plan My Week',
+    description:
+      'Review the week ahead across all calendars, spot conflicts and overload, and propose focus blocks.',
+  },
+
+  daily_briefing: {
+    name: 'daily_briefing',
+    title: 'Daily Briefing',
+    description:
+      'Summarize one day: meetings in order, what to prepare, conflicts and open invitations.',
+  },
+
+  schedule_meeting: {
+    name: 'schedule_meeting',
+    title: 'Schedule a Meeting',
+    description:
+      'Find a time that works for the given attendees, confirm it with the user, then create the event.',
+  },
+
+  triage_invitations: {
+    name: 'triage_invitations',
+    title: 'Triage Pending Invitations',
+    description:
+      'Go through invitations you have not answered yet, check each for conflicts and recommend a response.',
+  },
+} as const satisfies Record<string, PromptMetadata>;
+
 /**
  * Type-safe helper to get metadata for a tool.
  */
@@ -1,6 +1,14 @@
 import type { ServerCapabilities } from '@modelcontextprotocol/sdk/types.js';
 
-export function buildCapabilities(): ServerCapabilities {
+/**
+ * Capabilities announced at initialize. `resourceSubscriptions` is false on
+ * runtimes that cannot push notifications/resources/updated (Workers).
+ */
+export function buildCapabilities({
+  resourceSubscriptions = true,
+}: {
+  resourceSubscriptions?: boolean;
+} = {}): ServerCapabilities {
   return {
     logging: {},
     prompts: {
@@ -8,7 +16,7 @@ export function buildCapabilities(): ServerCapabilities {
     },
     resources: {
       listChanged: true,
-      subscribe: true,
+      subscribe: resourceSubscriptions,
     },
     tools: {
       listChanged: true,
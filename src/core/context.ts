@@ -24,6 +24,8 @@ class ContextRegistry {
       rsToken?: string;
       providerToken?: string;
       provider?: RequestContext['provider'];
+      accounts?: RequestContext['accounts'];
+      linkAccount?: RequestContext['linkAccount'];
       /** @deprecated Use providerToken instead */
       serviceToken?: string;
     },
@@ -39,6 +41,8 @@ class ContextRegistry {
       rsToken: authData?.rsToken,
       providerToken: authData?.providerToken,
       provider: authData?.provider,
+      accounts: authData?.accounts,
+      linkAccount: authData?.linkAccount,
       // Legacy support
       serviceToken: authData?.serviceToken ?? authData?.providerToken,
     };
@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+import { CancellationError } from '../utils/cancellation.js';
+import {
+  AuthRequiredError,
+  ConflictError,
+  RateLimitError,
+  toCalendarError,
+  toolErrorResult,
+} from './errors.js';
+
+describe('toCalendarError', () => {
+  test('keeps typed errors and turns the rest into upstream or cancelled errors', () => {
+    const conflict = new ConflictError('changed');
+    expect(toCalendarError(conflict)).toBe(conflict);
+
+    expect(toCalendarError(new TypeError('fetch failed'))).toMatchObject({
+      code: 'upstream_error',
+      message: 'fetch failed',
+      retryable: true,
+    });
+    expect(toCalendarError('boom')).toMatchObject({ code: 'upstream_error' });
+    expect(toCalendarError(new CancellationError())).toMatchObject({
+      code: 'cancelled',
+      retryable: false,
+    });
+  });
+});
+
+describe('toolErrorResult', () => {
+  test('reports the code, hint and Google context in structuredContent', () => {
+    const result = toolErrorResult(
+      new RateLimitError('Too many requests', {
+        status: 429,
+        reason: 'rateLimitExceeded',
+        retryAfterMs: 2000,
+      }),
+      'create event',
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toStartWith(
+      'Failed to create event: Too many requests',
+    );
+    expect(result.structuredContent.error).toEqual({
+      code: 'rate_limited',
+      message: 'Too many requests',
+      hint: expect.stringContaining('throttling'),
+      retryable: true,
+      status: 429,
+      reason: 'rateLimitExceeded',
+      retryAfterMs: 2000,
+    });
+  });
+
+  test('leaves out fields the error does not have', () => {
+    const { error } = toolErrorResult(
+      new ConflictError('changed', { details: { current: { id: 'a' } } }),
+    ).structuredContent;
+
+    expect(Object.keys(error).sort()).toEqual([
+      'code',
+      'details',
+      'hint',
+      'message',
+      'retryable',
+    ]);
+  });
+
+  test('an exhausted quota is not retryable', () => {
+    const { error } = toolErrorResult(
+      new RateLimitError('Quota', { quota: true }),
+    ).structuredContent;
+    expect(error).toMatchObject({ code: 'rate_limited', retryable: false });
+    expect(error.hint).toContain('quota');
+  });
+
+  test('sign-in prompts are not prefixed with the failed action', () => {
+    const result = toolErrorResult(
+      new AuthRequiredError('Sign in first'),
+      'list events',
+    );
+    expect(result.content[0].text).toStartWith('Sign in first');
+  });
+});
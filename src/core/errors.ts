@@ -1,3 +1,5 @@
+import { CancellationError } from '../utils/cancellation.js';
+
 export enum RpcErrorCode {
   ParseError = -32700,
   InvalidRequest = -32600,
@@ -26,3 +28,279 @@ export const internalError = (message: string, data?: unknown) =>
 
 export const appError = (message: string, data?: unknown) =>
   rpcError(RpcErrorCode.AppErrorBase, message, data);
+
+// ============================================================================
+// Calendar Error Taxonomy
+// ============================================================================
+
+/**
+ * Machine-readable error kinds surfaced in `structuredContent.error.code`.
+ * Agents should branch on these instead of parsing message text.
+ */
+export type CalendarErrorCode =
+  | 'auth_required'
+  | 'auth_expired'
+  | 'insufficient_scope'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'invalid_input'
+  | 'read_only_calendar'
+  | 'forbidden'
+  | 'policy_denied'
+  | 'upstream_error'
+  | 'cancelled';
+
+export interface CalendarErrorOptions {
+  /** Remediation hint; defaults to the one for the error kind */
+  hint?: string;
+  /** HTTP status returned by Google, if any */
+  status?: number;
+  /** Google `reason` code (e.g. rateLimitExceeded, conditionNotMet) */
+  reason?: string;
+  /** Extra context for the caller (e.g. the current version on conflicts) */
+  details?: Record<string, unknown>;
+  /** Server-requested wait before retrying */
+  retryAfterMs?: number;
+}
+
+/**
+ * Base class for every failure the calendar client and tools report.
+ */
+export class CalendarError extends Error {
+  readonly code: CalendarErrorCode;
+  readonly hint: string;
+  readonly status?: number;
+  readonly reason?: string;
+  readonly details?: Record<string, unknown>;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    code: CalendarErrorCode,
+    message: string,
+    defaultHint: string,
+    options: CalendarErrorOptions = {},
+  ) {
+    super(message);
+    this.name = 'CalendarError';
+    this.code = code;
+    this.hint = options.hint ?? defaultHint;
+    this.status = options.status;
+    this.reason = options.reason;
+    this.details = options.details;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /** Whether repeating the same call later can succeed */
+  get retryable(): boolean {
+    return this.code === 'rate_limited' || this.code === 'upstream_error';
+  }
+}
+
+export class AuthRequiredError extends CalendarError {
+  constructor(
+    message = 'Authentication required. Please authenticate with Google Calendar.',
+    options?: CalendarErrorOptions,
+  ) {
+    super(
+      'auth_required',
+      message,
+      'Connect a Google account through the OAuth flow, then retry.',
+      options,
+    );
+    this.name = 'AuthRequiredError';
+  }
+}
+
+export class AuthExpiredError extends CalendarError {
+  constructor(message: string, options?: CalendarErrorOptions) {
+    super(
+      'auth_expired',
+      message,
+      'The Google access token is invalid or expired. Re-authenticate, then retry.',
+      options,
+    );
+    this.name = 'AuthExpiredError';
+  }
+}
+
+export class InsufficientScopeError extends CalendarError {
+  constructor(message: string, options?: CalendarErrorOptions) {
+    super(
+      'insufficient_scope',
+      message,
+      'The granted OAuth scopes do not cover this operation. Re-authenticate and approve the missing Calendar permissions.',
+      options,
+    );
+    this.name = 'InsufficientScopeError';
+  }
+}
+
+export class NotFoundError extends CalendarError {
+  constructor(message: string, options?: CalendarErrorOptions) {
+    super(
+      'not_found',
+      message,
+      "Check the calendarId and eventId. Use 'search_events' or 'list_calendars' to find valid IDs.",
+      options,
+    );
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends CalendarError {
+  constructor(message: string, options?: CalendarErrorOptions) {
+    super(
+      'conflict',
+      message,
+      'The resource already exists or changed since it was read. Fetch the latest version and retry.',
+      options,
+    );
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitError extends CalendarError {
+  /** False for exhausted daily quotas, which do not recover within minutes */
+  private readonly transient: boolean;
+
+  constructor(
+    message: string,
+    options: CalendarErrorOptions & { quota?: boolean } = {},
+  ) {
+    const { quota = false, ...rest } = options;
+    super(
+      'rate_limited',
+      message,
+      quota
+        ? 'The Google Calendar API quota is exhausted. Try again later (quotas usually reset daily).'
+        : 'Google Calendar is throttling requests. Wait a moment, then retry with fewer calls.',
+      rest,
+    );
+    this.name = 'RateLimitError';
+    this.transient = !quota;
+  }
+
+  override get retryable(): boolean {
+    return this.transient;
+  }
+}
+
+export class InvalidInputError extends CalendarError {
+  constructor(message: string, options?: CalendarErrorOptions) {
+    super(
+      'invalid_input',
+      message,
+      'Fix the arguments and retry. Timestamps must be RFC3339 with a timezone.',
+      options,
+    );
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class ReadOnlyCalendarError extends CalendarError {
+  constructor(message: string, options?: CalendarErrorOptions) {
+    super(
+      'read_only_calendar',
+      message,
+      "You only have read access to this calendar. Use 'list_calendars' to pick one with owner or writer access.",
+      options,
+    );
+    this.name = 'ReadOnlyCalendarError';
+  }
+}
+
+export class ForbiddenError extends CalendarError {
+  constructor(message: string, options?: CalendarErrorOptions) {
+    super(
+      'forbidden',
+      message,
+      'The account is not allowed to perform this operation (e.g. only the organizer can change this event).',
+      options,
+    );
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class PolicyDeniedError extends CalendarError {
+  constructor(message: string, options?: CalendarErrorOptions) {
+    super(
+      'policy_denied',
+      message,
+      'This server is configured not to allow this call. Ask its operator to change the tool policy.',
+      options,
+    );
+    this.name = 'PolicyDeniedError';
+  }
+}
+
+export class UpstreamError extends CalendarError {
+  constructor(message: string, options?: CalendarErrorOptions) {
+    super(
+      'upstream_error',
+      message,
+      'Google Calendar failed to process the request. Retry shortly.',
+      options,
+    );
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * Normalize anything thrown into a CalendarError.
+ */
+export function toCalendarError(error: unknown): CalendarError {
+  if (error instanceof CalendarError) return error;
+  if (error instanceof CancellationError) {
+    return new CalendarError(
+      'cancelled',
+      error.message,
+      'The request was cancelled before it completed.',
+    );
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new UpstreamError(message);
+}
+
+/**
+ * Machine-readable `error` payload of a failed tool call (or batch operation).
+ */
+export function errorPayload(error: unknown) {
+  const calendarError = toCalendarError(error);
+  return {
+    code: calendarError.code,
+    message: calendarError.message,
+    hint: calendarError.hint,
+    retryable: calendarError.retryable,
+    ...(calendarError.status !== undefined && { status: calendarError.status }),
+    ...(calendarError.reason && { reason: calendarError.reason }),
+    ...(calendarError.retryAfterMs !== undefined && {
+      retryAfterMs: calendarError.retryAfterMs,
+    }),
+    ...(calendarError.details && { details: calendarError.details }),
+  };
+}
+
+/**
+ * Build an `isError` tool result with a machine-readable `error` payload.
+ *
+ * @param action - Verb phrase for the text prefix, e.g. "delete event"
+ */
+export function toolErrorResult(error: unknown, action?: string) {
+  const calendarError = toCalendarError(error);
+  const prefix =
+    action && calendarError.code !== 'auth_required' ? `Failed to ${action}: ` : '';
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text' as const,
+        text: `${prefix}${calendarError.message}\nHint: ${calendarError.hint}`,
+      },
+    ],
+    structuredContent: {
+      error: errorPayload(calendarError),
+    },
+  };
+}
@@ -1,6 +1,8 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { config } from '../config/env.js';
+import { registerPrompts } from '../prompts/index.js';
+import { registerResources } from '../resources/index.js';
 import { registerTools } from '../tools/index.js';
 import { logger } from '../utils/logger.js';
 import { buildCapabilities } from './capabilities.js';
@@ -41,8 +43,10 @@ export function buildServer(options: ServerOptions): McpServer {
     };
   }
 
-  // Register tools (no prompts/resources for Google Calendar MCP)
+  // Register tools, resources and prompts
   registerTools(server);
+  registerResources(server);
+  registerPrompts(server);
 
   // Register logging/setLevel handler (required when logging capability is advertised)
   server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
@@ -5,6 +5,7 @@ import type { HttpBindings } from '@hono/node-server';
 import { Hono } from 'hono';
 import { createMcpSecurityMiddleware } from '../adapters/http-hono/middleware.security.js';
 import { buildDiscoveryRoutes } from '../adapters/http-hono/routes.discovery.js';
+import { buildWebhookRoutes } from '../adapters/http-hono/routes.webhooks.js';
 import { config } from '../config/env.js';
 import { serverMetadata } from '../config/metadata.js';
 import { buildServer } from '../core/mcp.js';
@@ -36,6 +37,8 @@ export function buildHttpApp(): Hono<{ Bindings: HttpBindings }> {
   // Routes
   app.route('/', healthRoutes());
   app.route('/', buildDiscoveryRoutes(unifiedConfig));
+  // Google push notifications (validated by channel token, not MCP auth)
+  app.route('/', buildWebhookRoutes());
 
   // MCP endpoint with security
   app.use('/mcp', createMcpSecurityMiddleware(unifiedConfig));
@@ -7,7 +7,7 @@ import { Hono } from 'hono';
 import { buildOAuthRoutes } from '../adapters/http-hono/routes.oauth.js';
 import { parseConfig } from '../shared/config/env.js';
 import { buildAuthorizationServerMetadata } from '../shared/oauth/discovery.js';
-import { getTokenStore } from '../shared/storage/singleton.js';
+import { getSessionStore, getTokenStore } from '../shared/storage/singleton.js';
 import { corsMiddleware } from './middlewares/cors.js';
 
 export function buildAuthApp(): Hono<{ Bindings: HttpBindings }> {
@@ -40,7 +40,7 @@ export function buildAuthApp(): Hono<{ Bindings: HttpBindings }> {
   });
 
   // Mount OAuth routes
-  app.route('/', buildOAuthRoutes(store, config));
+  app.route('/', buildOAuthRoutes(store, config, getSessionStore()));
 
   return app;
 }
@@ -5,6 +5,12 @@ import type { HttpBindings } from '@hono/node-server';
 import type { MiddlewareHandler } from 'hono';
 import { config } from '../../config/env.js';
 import type { AuthStrategyType } from '../../shared/auth/strategy.js';
+import { nodeDiscoveryStrategy } from '../../shared/oauth/discovery-handlers.js';
+import { createAccountLink } from '../../shared/oauth/flow.js';
+import {
+  buildProviderRefreshConfig,
+  ensureFreshLinkedAccounts,
+} from '../../shared/oauth/refresh.js';
 import type { ProviderTokens } from '../../shared/storage/interface.js';
 import { getTokenStore } from '../../shared/storage/singleton.js';
 import { logger } from '../../utils/logger.js';
@@ -25,6 +31,10 @@ export interface AuthContext {
   provider?: ProviderTokens;
   /** Original RS token (OAuth only) */
   rsToken?: string;
+  /** All linked provider accounts, the default first (OAuth only) */
+  accounts?: ProviderTokens[];
+  /** Starts linking another provider account; resolves to the URL to open (OAuth only) */
+  linkAccount?: (scopes?: string[]) => Promise<string>;
 }
 
 /**
@@ -101,7 +111,7 @@ export function createAuthHeaderMiddleware(): MiddlewareHandler<{
     (config.MCP_ACCEPT_HEADERS as string[]).map((h) => h.toLowerCase()),
   );
   // Always include standard auth headers
-  ['authorization', 'x-api-key', 'x-auth-token'].forEach((h) => accept.add(h));
+  for (const h of ['authorization', 'x-api-key', 'x-auth-token']) accept.add(h);
 
   // Pre-compute static headers for non-OAuth strategies
   const staticHeaders = buildStaticAuthHeaders();
@@ -128,7 +138,7 @@ export function createAuthHeaderMiddleware(): MiddlewareHandler<{
     // Handle based on strategy
     switch (strategy) {
       case 'oauth':
-        await handleOAuthStrategy(authContext, forwarded);
+        await handleOAuthStrategy(authContext, forwarded, new URL(c.req.url));
         break;
 
       case 'bearer':
@@ -171,6 +181,7 @@ export function createAuthHeaderMiddleware(): MiddlewareHandler<{
 async function handleOAuthStrategy(
   authContext: AuthContext,
   forwarded: Record<string, string>,
+  requestUrl: URL,
 ): Promise<void> {
   const auth = forwarded.authorization;
   const bearerMatch = auth?.match(/^\s*Bearer\s+(.+)$/i);
@@ -198,6 +209,19 @@ async function handleOAuthStrategy(
 
       authContext.providerToken = record.provider.access_token;
       authContext.provider = record.provider;
+      authContext.accounts = [
+        record.provider,
+        ...(await ensureFreshLinkedAccounts(
+          record,
+          store,
+          buildProviderRefreshConfig(config),
+        )),
+      ];
+
+      // Link flows run on the authorization server
+      const authBaseUrl = nodeDiscoveryStrategy.resolveAuthBaseUrl(requestUrl, config);
+      authContext.linkAccount = (scopes) =>
+        createAccountLink(store, rsToken, authBaseUrl, scopes?.join(' '));
 
       // Replace RS token with provider token in resolved headers
       authContext.resolvedHeaders.authorization = `Bearer ${record.provider.access_token}`;
@@ -12,7 +12,7 @@ import { cors } from 'hono/cors';
 export const corsMiddleware = () =>
   cors({
     origin: (origin) => origin || 'http://localhost',
-    allowMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+    allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
     allowHeaders: [
       'Content-Type',
       'Authorization',
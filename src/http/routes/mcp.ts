@@ -8,6 +8,12 @@ import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/
 import { toFetchResponse, toReqRes } from 'fetch-to-node';
 import { Hono } from 'hono';
 import { contextRegistry } from '../../core/context.js';
+import { buildInsufficientScopeChallenge } from '../../shared/mcp/security.js';
+import {
+  clearSessionSubscriptions,
+  setResourceUpdateSender,
+} from '../../shared/resources/subscriptions.js';
+import { stepUpScopes } from '../../shared/tools/registry.js';
 import { logger } from '../../utils/logger.js';
 
 export function buildMcpRoutes(params: {
@@ -22,6 +28,15 @@ export function buildMcpRoutes(params: {
 
   const MCP_SESSION_HEADER = 'Mcp-Session-Id';
 
+  // Resource updates go out on the session's standalone SSE stream (GET /mcp)
+  setResourceUpdateSender(async (sessionId, uri) => {
+    await transports.get(sessionId)?.send({
+      jsonrpc: '2.0',
+      method: 'notifications/resources/updated',
+      params: { uri },
+    });
+  });
+
   /**
    * Connect transport to server only if not already connected.
    * McpServer.connect() should be called once per transport lifecycle.
@@ -87,33 +102,72 @@ export function buildMcpRoutes(params: {
         });
       };
 
+      const authContext = (
+        c as unknown as {
+          authContext?: {
+            strategy: 'oauth' | 'bearer' | 'api_key' | 'custom' | 'none';
+            authHeaders: Record<string, string>;
+            resolvedHeaders: Record<string, string>;
+            providerToken?: string;
+            provider?: {
+              access_token: string;
+              refresh_token?: string;
+              expires_at?: number;
+              scopes?: string[];
+            };
+            rsToken?: string;
+            accounts?: Array<{
+              access_token: string;
+              refresh_token?: string;
+              expires_at?: number;
+              scopes?: string[];
+            }>;
+            linkAccount?: (scopes?: string[]) => Promise<string>;
+          };
+        }
+      ).authContext;
+
       // Create request context if body has an ID
       if (body && typeof body === 'object' && 'id' in body && body.id) {
-        const authContext = (
-          c as unknown as {
-            authContext?: {
-              strategy: 'oauth' | 'bearer' | 'api_key' | 'custom' | 'none';
-              authHeaders: Record<string, string>;
-              resolvedHeaders: Record<string, string>;
-              providerToken?: string;
-              provider?: {
-                access_token: string;
-                refresh_token?: string;
-                expires_at?: number;
-                scopes?: string[];
-              };
-              rsToken?: string;
-            };
+        const requestId = body.id as string | number;
+
+        // Tools needing scopes the user has not granted: step-up authorization
+        const scope = stepUpScopes(
+          body as { method?: string; params?: Record<string, unknown> },
+          {
+            authStrategy: authContext?.strategy,
+            provider: authContext?.provider && {
+              accessToken: authContext.provider.access_token,
+              scopes: authContext.provider.scopes,
+            },
+            accounts: authContext?.accounts?.map((account) => ({
+              accessToken: account.access_token,
+              scopes: account.scopes,
+            })),
+          },
+        );
+        if (scope) {
+          const challenge = buildInsufficientScopeChallenge({
+            origin: new URL(c.req.url).origin,
+            sid: sessionIdHeader || plannedSid || '',
+            scope,
+            id: requestId,
+          });
+          for (const [name, value] of Object.entries(challenge.headers)) {
+            c.header(name, value);
           }
-        ).authContext;
+          return c.json(challenge.body, challenge.status);
+        }
 
-        contextRegistry.create(body.id as string | number, plannedSid, {
+        contextRegistry.create(requestId, plannedSid, {
           authStrategy: authContext?.strategy,
           authHeaders: authContext?.authHeaders,
           resolvedHeaders: authContext?.resolvedHeaders,
           providerToken: authContext?.providerToken,
           provider: authContext?.provider,
           rsToken: authContext?.rsToken,
+          accounts: authContext?.accounts,
+          linkAccount: authContext?.linkAccount,
         });
       }
 
@@ -201,6 +255,7 @@ export function buildMcpRoutes(params: {
       await ensureConnected(transport);
       await transport.handleRequest(req, res);
       transports.delete(sessionIdHeader);
+      clearSessionSubscriptions(sessionIdHeader);
       transport.close();
       return toFetchResponse(res);
     } catch (error) {
@@ -3,7 +3,7 @@ import { config } from './config/env.js';
 import { stopContextCleanup } from './core/context.js';
 import { buildHttpApp } from './http/app.js';
 import { buildAuthApp } from './http/auth-app.js';
-import { FileTokenStore } from './shared/storage/file.js';
+import { FileStateStore, FileTokenStore } from './shared/storage/file.js';
 import { MemorySessionStore } from './shared/storage/memory.js';
 import { initializeStorage } from './shared/storage/singleton.js';
 import { logger } from './utils/logger.js';
@@ -11,13 +11,15 @@ import { logger } from './utils/logger.js';
 // Store references for graceful shutdown
 let tokenStore: FileTokenStore | null = null;
 let sessionStore: MemorySessionStore | null = null;
+let stateStore: FileStateStore | null = null;
 
 async function main(): Promise<void> {
   try {
     // Initialize storage singleton with encryption
     tokenStore = new FileTokenStore(config.RS_TOKENS_FILE, config.RS_TOKENS_ENC_KEY);
     sessionStore = new MemorySessionStore();
-    initializeStorage(tokenStore, sessionStore);
+    stateStore = new FileStateStore(config.STATE_FILE, config.RS_TOKENS_ENC_KEY);
+    initializeStorage(tokenStore, sessionStore, stateStore);
 
     const app = buildHttpApp();
     serve({ fetch: app.fetch, port: config.PORT, hostname: config.HOST });
@@ -65,6 +67,12 @@ function gracefulShutdown(signal: string): void {
     sessionStore.stopCleanup();
   }
 
+  // Persist tool state (sync tokens, ...)
+  if (stateStore) {
+    stateStore.flush();
+    stateStore.stopCleanup();
+  }
+
   process.exit(0);
 }
 
@@ -0,0 +1,26 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { sharedPrompts } from '../shared/prompts/registry.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Register shared prompts with the MCP server.
+ * The SDK validates arguments against the same Zod schemas the Workers dispatcher uses.
+ */
+export function registerPrompts(server: McpServer): void {
+  for (const prompt of sharedPrompts) {
+    server.registerPrompt(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: prompt.argsSchema.shape,
+      },
+      (args) => prompt.render(args),
+    );
+  }
+
+  logger.info('prompts', {
+    message: `Registered ${sharedPrompts.length} prompts`,
+    promptNames: sharedPrompts.map((p) => p.name),
+  });
+}
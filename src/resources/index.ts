@@ -0,0 +1,105 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { contextRegistry } from '../core/context.js';
+import { toCalendarError } from '../core/errors.js';
+import { readSharedResource, sharedResources } from '../shared/resources/registry.js';
+import {
+  subscribeResource,
+  unsubscribeResource,
+} from '../shared/resources/subscriptions.js';
+import { buildToolContext, type SdkHandlerExtra } from '../tools/index.js';
+import { logger } from '../utils/logger.js';
+
+/** MCP error code for unknown resource URIs */
+const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * Register shared resources and the subscribe/unsubscribe handlers.
+ * Reads go through the shared registry so both runtimes behave the same.
+ */
+export function registerResources(server: McpServer): void {
+  for (const resource of sharedResources) {
+    const metadata = {
+      title: resource.title,
+      description: resource.description,
+      mimeType: resource.mimeType,
+    };
+    const read = (uri: URL, extra: SdkHandlerExtra) =>
+      withResourceContext(extra, (context) => readSharedResource(uri.href, context));
+
+    if (resource.uriTemplate) {
+      server.registerResource(
+        resource.name,
+        new ResourceTemplate(resource.uriTemplate, { list: undefined }),
+        metadata,
+        (uri, _variables, extra) => read(uri, extra),
+      );
+    } else if (resource.uri) {
+      server.registerResource(resource.name, resource.uri, metadata, (uri, extra) =>
+        read(uri, extra),
+      );
+    }
+  }
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    await withResourceContext(extra, (context) =>
+      subscribeResource(request.params.uri, context),
+    );
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    if (extra.sessionId) {
+      unsubscribeResource(extra.sessionId, request.params.uri);
+    }
+    return {};
+  });
+
+  logger.info('resources', {
+    message: `Registered ${sharedResources.length} resources`,
+    resourceNames: sharedResources.map((r) => r.name),
+  });
+}
+
+/**
+ * Run a resource operation with the request's auth context, mapping typed
+ * errors to MCP errors.
+ */
+async function withResourceContext<T>(
+  extra: SdkHandlerExtra,
+  operation: (context: ReturnType<typeof buildToolContext>) => Promise<T>,
+): Promise<T> {
+  const context = {
+    ...buildToolContext(extra),
+    // Subscriptions are keyed by the MCP session, not the request
+    sessionId: extra.sessionId ?? String(extra.requestId),
+  };
+
+  try {
+    return await operation(context);
+  } catch (error) {
+    const calendarError = toCalendarError(error);
+    const code =
+      calendarError.code === 'not_found'
+        ? RESOURCE_NOT_FOUND
+        : calendarError.code === 'invalid_input'
+          ? ErrorCode.InvalidParams
+          : ErrorCode.InternalError;
+    throw new McpError(code, calendarError.message, {
+      code: calendarError.code,
+      hint: calendarError.hint,
+    });
+  } finally {
+    if (extra.requestId) {
+      contextRegistry.delete(extra.requestId);
+    }
+  }
+}
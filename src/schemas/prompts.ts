@@ -1,25 +1,49 @@
 import { z } from 'zod';
 
-// Greeting prompt arguments
-export const GreetingPromptArgs = z.object({
-  name: z.string().min(1, 'Name is required'),
-  language: z.enum(['en', 'es', 'fr', 'de']).optional().default('en'),
+// MCP prompt arguments are always strings; defaults are applied by the prompt.
+
+// Plan my week prompt arguments
+export const PlanWeekPromptArgs = z.object({
+  weekOf: z
+    .string()
+    .optional()
+    .describe('Any date in the week to plan (YYYY-MM-DD, default: this week)'),
+  focus: z
+    .string()
+    .optional()
+    .describe('What to prioritize, e.g. "deep work" or "customer calls"'),
+});
+export type PlanWeekPromptArgs = z.infer<typeof PlanWeekPromptArgs>;
+
+// Daily briefing prompt arguments
+export const DailyBriefingPromptArgs = z.object({
+  date: z
+    .string()
+    .optional()
+    .describe("Day to brief (YYYY-MM-DD, 'today' or 'tomorrow'; default: today)"),
 });
-export type GreetingPromptArgs = z.infer<typeof GreetingPromptArgs>;
+export type DailyBriefingPromptArgs = z.infer<typeof DailyBriefingPromptArgs>;
 
-// Analysis prompt arguments
-export const AnalysisPromptArgs = z.object({
-  topic: z.string().min(1, 'Topic is required'),
-  depth: z.enum(['basic', 'intermediate', 'advanced']).optional().default('basic'),
-  include_examples: z.boolean().optional().default(true),
+// Schedule meeting prompt arguments
+export const ScheduleMeetingPromptArgs = z.object({
+  attendees: z
+    .string()
+    .min(1, 'At least one attendee is required')
+    .describe('Comma-separated attendee emails'),
+  topic: z.string().optional().describe('Meeting title or purpose'),
+  duration: z.string().optional().describe('Length in minutes (default: 30)'),
+  window: z
+    .string()
+    .optional()
+    .describe('When it should happen, e.g. "this week" or "before Friday"'),
 });
-export type AnalysisPromptArgs = z.infer<typeof AnalysisPromptArgs>;
+export type ScheduleMeetingPromptArgs = z.infer<typeof ScheduleMeetingPromptArgs>;
 
-// Multimodal prompt arguments
-export const MultimodalPromptArgs = z.object({
-  task: z.string().min(1, 'Task is required'),
-  include_image: z.boolean().optional().default(false),
-  include_audio: z.boolean().optional().default(false),
-  include_resource: z.boolean().optional().default(false),
+// Triage invitations prompt arguments
+export const TriageInvitationsPromptArgs = z.object({
+  days: z
+    .string()
+    .optional()
+    .describe('How many days ahead to look for pending invitations (default: 14)'),
 });
-export type MultimodalPromptArgs = z.infer<typeof MultimodalPromptArgs>;
+export type TriageInvitationsPromptArgs = z.infer<typeof TriageInvitationsPromptArgs>;
@@ -0,0 +1,282 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  type CalendarErrorCode,
+  InsufficientScopeError,
+  NotFoundError,
+  RateLimitError,
+  UpstreamError,
+} from '../core/errors.js';
+import { createCalendarEmulator } from '../testing/google-calendar-emulator.js';
+import { CancellationError } from '../utils/cancellation.js';
+import {
+  type FetchLike,
+  GoogleCalendarClient,
+  mapApiError,
+} from './google-calendar.js';
+
+const BASE_URL = 'http://calendar.test/calendar/v3';
+
+function googleError(
+  status: number,
+  reason: string,
+  headers: Record<string, string> = {},
+): Response {
+  return Response.json(
+    { error: { code: status, message: reason, errors: [{ reason }] } },
+    { status, headers },
+  );
+}
+
+/** Answers with `responses` in order, then with an empty calendar list */
+function scriptedFetch(responses: Response[]): FetchLike & { calls: number } {
+  const fetchImpl = Object.assign(
+    async () => {
+      fetchImpl.calls++;
+      return responses.shift() ?? Response.json({ items: [] });
+    },
+    { calls: 0 },
+  );
+  return fetchImpl;
+}
+
+function clientWith(fetchImpl: FetchLike, signal?: AbortSignal) {
+  return new GoogleCalendarClient('token', {
+    baseUrl: BASE_URL,
+    fetch: fetchImpl,
+    signal,
+    retry: { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 1_000 },
+  });
+}
+
+describe('GoogleCalendarClient retries', () => {
+  test('backs off and retries throttled requests', async () => {
+    const fetchImpl = scriptedFetch([
+      googleError(403, 'rateLimitExceeded'),
+      googleError(429, 'userRateLimitExceeded'),
+    ]);
+
+    await expect(clientWith(fetchImpl).listCalendars()).resolves.toEqual({ items: [] });
+    expect(fetchImpl.calls).toBe(3);
+  });
+
+  test('gives up after maxRetries with a retryable rate_limited error', async () => {
+    const fetchImpl = scriptedFetch(
+      Array.from({ length: 5 }, () => googleError(429, 'rateLimitExceeded')),
+    );
+
+    const error = await clientWith(fetchImpl)
+      .listCalendars()
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryable).toBe(true);
+    expect(fetchImpl.calls).toBe(4);
+  });
+
+  test('does not retry an exhausted quota', async () => {
+    const fetchImpl = scriptedFetch([googleError(403, 'quotaExceeded')]);
+
+    const error = await clientWith(fetchImpl)
+      .listCalendars()
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryable).toBe(false);
+    expect(fetchImpl.calls).toBe(1);
+  });
+
+  test('replays server errors only for idempotent methods', async () => {
+    const reads = scriptedFetch([googleError(503, 'backendError')]);
+    await clientWith(reads).listCalendars();
+    expect(reads.calls).toBe(2);
+
+    const writes = scriptedFetch([googleError(503, 'backendError')]);
+    const error = await clientWith(writes)
+      .insertEvent('primary', { summary: 'x' })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(writes.calls).toBe(1);
+  });
+
+  test('waits for Retry-After before retrying', async () => {
+    const fetchImpl = scriptedFetch([
+      googleError(429, 'rateLimitExceeded', { 'retry-after': '0.1' }),
+    ]);
+
+    const started = Date.now();
+    await clientWith(fetchImpl).listCalendars();
+    expect(Date.now() - started).toBeGreaterThanOrEqual(95);
+    expect(fetchImpl.calls).toBe(2);
+  });
+
+  test('does not wait out a Retry-After longer than maxDelayMs', async () => {
+    const fetchImpl = scriptedFetch([
+      googleError(429, 'rateLimitExceeded', { 'retry-after': '120' }),
+    ]);
+
+    const error = await clientWith(fetchImpl)
+      .listCalendars()
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(120_000);
+    expect(fetchImpl.calls).toBe(1);
+  });
+
+  test('stops backing off as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const fetchImpl = scriptedFetch([
+      googleError(429, 'rateLimitExceeded', { 'retry-after': '0.9' }),
+    ]);
+    setTimeout(() => controller.abort(), 20);
+
+    const started = Date.now();
+    const error = await clientWith(fetchImpl, controller.signal)
+      .listCalendars()
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(CancellationError);
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(fetchImpl.calls).toBe(1);
+  });
+});
+
+describe('mapApiError', () => {
+  test.each([
+    [400, 'badRequest', 'invalid_input'],
+    [401, 'authError', 'auth_expired'],
+    [403, 'insufficientPermissions', 'insufficient_scope'],
+    [403, 'requiredAccessLevel', 'read_only_calendar'],
+    [403, 'forbiddenForNonOrganizer', 'forbidden'],
+    [403, 'rateLimitExceeded', 'rate_limited'],
+    [403, 'dailyLimitExceeded', 'rate_limited'],
+    [404, 'notFound', 'not_found'],
+    [410, 'deleted', 'not_found'],
+    [409, 'duplicate', 'conflict'],
+    [412, 'conditionNotMet', 'conflict'],
+    [429, 'tooManyRequests', 'rate_limited'],
+    [500, 'backendError', 'upstream_error'],
+    [418, 'teapot', 'upstream_error'],
+  ])('%i %s is %s', (status, reason, code) => {
+    const error = mapApiError('Google Calendar API error', status, { reason });
+    expect(error.code).toBe(code as CalendarErrorCode);
+    expect(error.status).toBe(status);
+    expect(error.reason).toBe(reason);
+  });
+
+  test('recognizes a missing scope by its message when Google sends no reason', () => {
+    const error = mapApiError('Request had insufficient authentication scopes.', 403);
+    expect(error).toBeInstanceOf(InsufficientScopeError);
+  });
+
+  test('only throttling is retryable among rate limits', () => {
+    expect(mapApiError('x', 429).retryable).toBe(true);
+    expect(mapApiError('x', 403, { reason: 'quotaExceeded' }).retryable).toBe(false);
+    expect(mapApiError('x', 503).retryable).toBe(true);
+    expect(mapApiError('x', 404).retryable).toBe(false);
+  });
+
+  test('failed responses carry the message, reason and Retry-After', async () => {
+    const fetchImpl = scriptedFetch([
+      googleError(404, 'notFound'),
+      googleError(429, 'rateLimitExceeded', { 'retry-after': '120' }),
+    ]);
+    const client = clientWith(fetchImpl);
+
+    const missing = await client.getEvent('primary', 'gone').catch((e) => e);
+    expect(missing).toBeInstanceOf(NotFoundError);
+    expect(missing).toMatchObject({ status: 404, reason: 'notFound' });
+    expect(missing.message).toEndWith(' - notFound');
+
+    const throttled = await client.listCalendars().catch((e) => e);
+    expect(throttled).toMatchObject({ code: 'rate_limited', retryAfterMs: 120_000 });
+  });
+});
+
+/** multipart/mixed batch response with one part per [status, body] */
+function batchResponse(parts: Array<[number, unknown]>): Response {
+  const body = parts
+    .map(([status, json], i) =>
+      [
+        '--batch_test',
+        'Content-Type: application/http',
+        `Content-ID: <response-item${i}>`,
+        '',
+        `HTTP/1.1 ${status} X`,
+        'Content-Type: application/json; charset=UTF-8',
+        '',
+        JSON.stringify(json),
+      ].join('\r\n'),
+    )
+    .join('\r\n');
+  return new Response(`${body}\r\n--batch_test--\r\n`, {
+    headers: { 'Content-Type': 'multipart/mixed; boundary=batch_test' },
+  });
+}
+
+describe('GoogleCalendarClient.batch', () => {
+  test('sends one multipart request and splits the answers per call', async () => {
+    const emulator = createCalendarEmulator({ userEmail: 'alice@example.com' });
+    const event = emulator.addEvent('alice@example.com', { summary: 'Before' });
+    const client = new GoogleCalendarClient('token', {
+      baseUrl: emulator.baseUrl,
+      fetch: emulator.fetch,
+    });
+
+    const results = await client.batch([
+      { method: 'GET', path: `/calendars/primary/events/${event.id}` },
+      {
+        method: 'PATCH',
+        path: `/calendars/primary/events/${event.id}`,
+        headers: { 'If-Match': event.etag ?? '' },
+        body: { summary: 'After' },
+      },
+      { method: 'DELETE', path: '/calendars/primary/events/missing' },
+    ]);
+
+    expect(results[0]).toMatchObject({ ok: true, body: { summary: 'Before' } });
+    expect(results[1]).toMatchObject({ ok: true, body: { summary: 'After' } });
+    expect(results[2]).toMatchObject({
+      ok: false,
+      status: 404,
+      error: expect.any(NotFoundError),
+    });
+    expect(
+      emulator.state.calendars.get('alice@example.com')?.events.get(event.id),
+    ).toMatchObject({ summary: 'After' });
+  });
+
+  test('retries only the throttled calls of a batch', async () => {
+    const bodies: string[] = [];
+    const fetchImpl: FetchLike = async (_input, init) => {
+      bodies.push(String(init?.body));
+      return bodies.length === 1
+        ? batchResponse([
+            [200, { id: 'a' }],
+            [429, { error: { code: 429, errors: [{ reason: 'rateLimitExceeded' }] } }],
+          ])
+        : batchResponse([[200, { id: 'b' }]]);
+    };
+
+    const results = await clientWith(fetchImpl).batch([
+      { method: 'GET', path: '/calendars/primary/events/a' },
+      { method: 'GET', path: '/calendars/primary/events/b' },
+    ]);
+
+    expect(results).toEqual([
+      { ok: true, status: 200, body: { id: 'a' } },
+      { ok: true, status: 200, body: { id: 'b' } },
+    ]);
+    expect(bodies[0]).toContain('Content-ID: <item1>');
+    expect(bodies[0]).toContain('GET /calendar/v3/calendars/primary/events/a HTTP/1.1');
+    expect(bodies[1]).not.toContain('/events/a ');
+    expect(bodies[1]).toContain('GET /calendar/v3/calendars/primary/events/b HTTP/1.1');
+  });
+
+  test('rejects more calls than one batch may hold', async () => {
+    const requests = Array.from({ length: 51 }, () => ({
+      method: 'GET',
+      path: '/users/me/calendarList',
+    }));
+
+    await expect(clientWith(scriptedFetch([])).batch(requests)).rejects.toThrow(
+      'at most 50 calls',
+    );
+  });
+});
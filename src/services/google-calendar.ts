@@ -2,9 +2,23 @@
  * Google Calendar API client.
  */
 
+import {
+  AuthExpiredError,
+  type CalendarError,
+  type CalendarErrorOptions,
+  ConflictError,
+  ForbiddenError,
+  InsufficientScopeError,
+  InvalidInputError,
+  NotFoundError,
+  RateLimitError,
+  ReadOnlyCalendarError,
+  UpstreamError,
+} from '../core/errors.js';
+import { CancellationError } from '../utils/cancellation.js';
 import { logger } from '../utils/logger.js';
 
-const GOOGLE_CALENDAR_API_BASE = 'https://www.googleapis.com/calendar/v3';
+export const GOOGLE_CALENDAR_API_BASE = 'https://www.googleapis.com/calendar/v3';
 
 // ============================================================================
 // Types
@@ -19,6 +33,26 @@ export interface CalendarListItem {
   foregroundColor?: string;
   accessRole: 'owner' | 'writer' | 'reader' | 'freeBusyReader';
   timeZone?: string;
+  location?: string;
+  /** The user's own name for the calendar, shown instead of summary */
+  summaryOverride?: string;
+  colorId?: string;
+  /** Hidden from the calendar list in the UI */
+  hidden?: boolean;
+  /** Events are shown in the UI */
+  selected?: boolean;
+  /** Reminders applied to events that use the calendar default */
+  defaultReminders?: EventReminder[];
+}
+
+/** Calendar metadata (calendars resource), shared by everyone with access */
+export interface Calendar {
+  id: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  timeZone?: string;
+  etag?: string;
 }
 
 export interface EventDateTime {
@@ -34,8 +68,15 @@ export interface EventAttendee {
   optional?: boolean;
   organizer?: boolean;
   self?: boolean;
+  /** Room or equipment rather than a person */
+  resource?: boolean;
+  comment?: string;
+  additionalGuests?: number;
 }
 
+/** An attendee to write: an email, or an attendee with options such as `optional` */
+export type AttendeeInput = string | EventAttendee;
+
 export interface EventReminder {
   method: 'popup' | 'email';
   minutes: number;
@@ -51,6 +92,12 @@ export interface ConferenceData {
     entryPointType: string;
     uri: string;
     label?: string;
+    pin?: string;
+    accessCode?: string;
+    meetingCode?: string;
+    passcode?: string;
+    password?: string;
+    regionCode?: string;
   }>;
   conferenceSolution?: {
     key: { type: string };
@@ -60,6 +107,45 @@ export interface ConferenceData {
   conferenceId?: string;
 }
 
+export interface EventAttachment {
+  fileUrl: string;
+  title?: string;
+  mimeType?: string;
+  iconLink?: string;
+  fileId?: string;
+}
+
+/** What happens to invitations that overlap an out-of-office or focus time block */
+export type AutoDeclineMode =
+  | 'declineNone'
+  | 'declineAllConflictingInvitations'
+  | 'declineOnlyNewConflictingInvitations';
+
+export interface OutOfOfficeProperties {
+  autoDeclineMode?: AutoDeclineMode;
+  declineMessage?: string;
+}
+
+export interface FocusTimeProperties {
+  autoDeclineMode?: AutoDeclineMode;
+  declineMessage?: string;
+  /** Google Chat status during the block */
+  chatStatus?: 'available' | 'doNotDisturb';
+}
+
+export interface WorkingLocationProperties {
+  type: 'homeOffice' | 'officeLocation' | 'customLocation';
+  homeOffice?: Record<string, never>;
+  officeLocation?: {
+    buildingId?: string;
+    floorId?: string;
+    floorSectionId?: string;
+    deskId?: string;
+    label?: string;
+  };
+  customLocation?: { label?: string };
+}
+
 export interface CalendarEvent {
   id: string;
   summary?: string;
@@ -84,11 +170,28 @@ export interface CalendarEvent {
   visibility?: 'default' | 'public' | 'private' | 'confidential';
   colorId?: string;
   recurringEventId?: string;
+  originalStartTime?: EventDateTime;
   recurrence?: string[];
   reminders?: {
     useDefault: boolean;
     overrides?: EventReminder[];
   };
+  transparency?: 'opaque' | 'transparent';
+  attachments?: EventAttachment[];
+  extendedProperties?: {
+    private?: Record<string, string>;
+    shared?: Record<string, string>;
+  };
+  guestsCanModify?: boolean;
+  guestsCanInviteOthers?: boolean;
+  guestsCanSeeOtherGuests?: boolean;
+  source?: { url: string; title?: string };
+  outOfOfficeProperties?: OutOfOfficeProperties;
+  focusTimeProperties?: FocusTimeProperties;
+  workingLocationProperties?: WorkingLocationProperties;
+  iCalUID?: string;
+  sequence?: number;
+  etag?: string;
   created?: string;
   updated?: string;
 }
@@ -105,6 +208,40 @@ export interface FreeBusyResponse {
   >;
 }
 
+/**
+ * Push notification channel returned by events.watch.
+ */
+export interface WatchChannel {
+  kind?: string;
+  id: string;
+  /** Opaque ID of the watched resource, echoed in notifications */
+  resourceId: string;
+  resourceUri?: string;
+  token?: string;
+  /** Epoch milliseconds (serialized as a string by the API) */
+  expiration?: string;
+}
+
+export type AclRole = 'none' | 'freeBusyReader' | 'reader' | 'writer' | 'owner';
+
+export type AclScopeType = 'default' | 'user' | 'group' | 'domain';
+
+/**
+ * Access control rule of a calendar. IDs look like "user:jane@example.com"
+ * or "default".
+ */
+export interface AclRule {
+  kind?: string;
+  id: string;
+  etag?: string;
+  role: AclRole;
+  scope: {
+    type: AclScopeType;
+    /** Email, group email or domain; omitted for 'default' */
+    value?: string;
+  };
+}
+
 // ============================================================================
 // Request Parameters
 // ============================================================================
@@ -120,6 +257,31 @@ export interface ListEventsParams {
   eventTypes?: string[];
   pageToken?: string;
   showDeleted?: boolean;
+  /**
+   * Token from a previous list's nextSyncToken. Only returns changes since then;
+   * cannot be combined with timeMin, timeMax, q or orderBy.
+   */
+  syncToken?: string;
+}
+
+export interface ListInstancesParams {
+  calendarId?: string;
+  /** ID of the recurring event (the series, not an instance) */
+  eventId: string;
+  timeMin?: string;
+  timeMax?: string;
+  maxResults?: number;
+  pageToken?: string;
+  /** Include cancelled occurrences (deleted instances of the series) */
+  showDeleted?: boolean;
+  timeZone?: string;
+}
+
+export interface EventsListResponse {
+  items: CalendarEvent[];
+  nextPageToken?: string;
+  /** Present on the last page; pass as syncToken to fetch later changes */
+  nextSyncToken?: string;
 }
 
 export interface CreateEventParams {
@@ -129,13 +291,19 @@ export interface CreateEventParams {
   start: EventDateTime;
   end: EventDateTime;
   location?: string;
-  attendees?: string[];
+  attendees?: AttendeeInput[];
   addGoogleMeet?: boolean;
   recurrence?: string[];
   reminders?: { useDefault: boolean; overrides?: EventReminder[] };
   visibility?: 'default' | 'public' | 'private' | 'confidential';
   colorId?: string;
   sendUpdates?: 'all' | 'externalOnly' | 'none';
+  /** Status events go on the primary calendar with their type's properties */
+  eventType?: 'default' | 'focusTime' | 'outOfOffice' | 'workingLocation';
+  transparency?: 'opaque' | 'transparent';
+  outOfOfficeProperties?: OutOfOfficeProperties;
+  focusTimeProperties?: FocusTimeProperties;
+  workingLocationProperties?: WorkingLocationProperties;
 }
 
 export interface QuickAddParams {
@@ -152,13 +320,15 @@ export interface UpdateEventParams {
   start?: EventDateTime;
   end?: EventDateTime;
   location?: string;
-  attendees?: string[];
+  attendees?: AttendeeInput[];
   addGoogleMeet?: boolean;
   recurrence?: string[];
   reminders?: { useDefault: boolean; overrides?: EventReminder[] };
   visibility?: 'default' | 'public' | 'private' | 'confidential';
   colorId?: string;
   sendUpdates?: 'all' | 'externalOnly' | 'none';
+  /** Only write if the event's etag still matches (see eventChangedError) */
+  ifMatch?: string;
 }
 
 export interface MoveEventParams {
@@ -166,6 +336,8 @@ export interface MoveEventParams {
   eventId: string;
   destinationCalendarId: string;
   sendUpdates?: 'all' | 'externalOnly' | 'none';
+  /** Only move if the event's etag still matches */
+  ifMatch?: string;
 }
 
 export interface DeleteEventParams {
@@ -179,6 +351,42 @@ export interface RespondToEventParams {
   eventId: string;
   response: 'accepted' | 'declined' | 'tentative';
   sendUpdates?: 'all' | 'externalOnly' | 'none';
+  /**
+   * Only respond if the event's etag still matches. Without it the etag of
+   * the event as read just before the write is used.
+   */
+  ifMatch?: string;
+}
+
+export interface CalendarParams {
+  summary?: string;
+  description?: string;
+  location?: string;
+  timeZone?: string;
+}
+
+/** Per-user settings of a calendar list entry */
+export interface CalendarListEntryParams {
+  summaryOverride?: string;
+  colorId?: string;
+  /** Hex color (#rrggbb); sent with colorRgbFormat=true */
+  backgroundColor?: string;
+  foregroundColor?: string;
+  hidden?: boolean;
+  selected?: boolean;
+  defaultReminders?: EventReminder[];
+}
+
+export interface WatchEventsParams {
+  calendarId?: string;
+  /** Caller-chosen channel ID (UUID) */
+  channelId: string;
+  /** HTTPS URL that receives notifications */
+  address: string;
+  /** Secret echoed back in X-Goog-Channel-Token */
+  token?: string;
+  /** Requested lifetime; Google may cap it */
+  ttlSeconds?: number;
 }
 
 export interface FreeBusyParams {
@@ -188,55 +396,644 @@ export interface FreeBusyParams {
   timeZone?: string;
 }
 
+// ============================================================================
+// Errors & Retry
+// ============================================================================
+
+/** Per-user/per-project throttling: always safe to retry after a pause */
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+
+/** Hard quotas that do not recover within a retry window */
+const QUOTA_REASONS = new Set(['quotaExceeded', 'dailyLimitExceeded']);
+
+/** Transient Google-side failures */
+const SERVER_REASONS = new Set(['backendError', 'internalError']);
+
+/**
+ * How a failed response should be treated.
+ * - rateLimit: throttled, retry with backoff
+ * - quota: quota exhausted, give up
+ * - server: Google-side failure, retry only if the request is safe to replay
+ * - client: caller error (bad input, auth, not found), never retried
+ */
+export type ApiErrorCategory = 'rateLimit' | 'quota' | 'server' | 'client';
+
+/** Methods that are safe to replay after a server error */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'PATCH', 'DELETE']);
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 4) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff (default: 500ms) */
+  baseDelayMs?: number;
+  /** Upper bound for a single wait; longer Retry-After values are not waited out (default: 30s) */
+  maxDelayMs?: number;
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * Decide how a failed response should be treated by the retry loop.
+ */
+function categorize(status: number, reason?: string): ApiErrorCategory {
+  if (reason && QUOTA_REASONS.has(reason)) return 'quota';
+  if ((reason && RATE_LIMIT_REASONS.has(reason)) || status === 429) return 'rateLimit';
+  if ((reason && SERVER_REASONS.has(reason)) || status >= 500) return 'server';
+  return 'client';
+}
+
+function isRetryable(category: ApiErrorCategory, idempotent: boolean): boolean {
+  return category === 'rateLimit' || (category === 'server' && idempotent);
+}
+
+/** 403 reasons that mean the token lacks a scope rather than a permission */
+const SCOPE_REASONS = new Set([
+  'insufficientPermissions',
+  'ACCESS_TOKEN_SCOPE_INSUFFICIENT',
+]);
+
+/**
+ * Map a Calendar API failure onto the typed error taxonomy.
+ */
+export function mapApiError(
+  message: string,
+  status: number,
+  options: Omit<CalendarErrorOptions, 'status'> = {},
+): CalendarError {
+  const { reason } = options;
+  const errorOptions = { ...options, status };
+  const category = categorize(status, reason);
+
+  if (category === 'quota' || category === 'rateLimit') {
+    return new RateLimitError(message, {
+      ...errorOptions,
+      quota: category === 'quota',
+    });
+  }
+  if (category === 'server') return new UpstreamError(message, errorOptions);
+
+  switch (status) {
+    case 400:
+      return new InvalidInputError(message, errorOptions);
+    case 401:
+      return new AuthExpiredError(message, errorOptions);
+    case 403:
+      if (
+        (reason && SCOPE_REASONS.has(reason)) ||
+        /insufficient authentication scopes/i.test(message)
+      ) {
+        return new InsufficientScopeError(message, errorOptions);
+      }
+      if (reason === 'requiredAccessLevel') {
+        return new ReadOnlyCalendarError(message, errorOptions);
+      }
+      return new ForbiddenError(message, errorOptions);
+    case 404:
+    case 410:
+      return new NotFoundError(message, errorOptions);
+    case 409:
+    case 412:
+      return new ConflictError(message, errorOptions);
+    default:
+      return new UpstreamError(message, errorOptions);
+  }
+}
+
+/**
+ * Parse Retry-After (delta-seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function toApiError(response: Response): Promise<CalendarError> {
+  let message = `Google Calendar API error: ${response.status} ${response.statusText}`;
+  let reason: string | undefined;
+
+  try {
+    const errorData = (await response.json()) as {
+      error?: { message?: string; errors?: Array<{ reason?: string }> };
+    };
+    if (errorData.error?.message) {
+      message += ` - ${errorData.error.message}`;
+    }
+    reason = errorData.error?.errors?.[0]?.reason;
+  } catch {
+    // Ignore JSON parse error
+  }
+
+  return mapApiError(message, response.status, {
+    reason,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  });
+}
+
+/**
+ * Sleep that rejects as soon as the signal aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancellationError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancellationError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ============================================================================
+// Batch
+// ============================================================================
+
+/**
+ * multipart/mixed body for /batch/calendar/v3. Each part is an HTTP request
+ * whose path includes the API prefix (e.g. /calendar/v3/calendars/...).
+ */
+function buildBatchBody(
+  requests: PlannedRequest[],
+  boundary: string,
+  pathPrefix: string,
+): string {
+  const parts = requests.map((request, i) => {
+    const lines = [
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <item${i}>`,
+      '',
+      `${request.method} ${pathPrefix}${request.path} HTTP/1.1`,
+      ...Object.entries(request.headers ?? {}).map(
+        ([name, value]) => `${name}: ${value}`,
+      ),
+    ];
+    if (request.body !== undefined) {
+      lines.push('Content-Type: application/json', '', JSON.stringify(request.body));
+    } else {
+      lines.push('');
+    }
+    return lines.join('\r\n');
+  });
+  return `${parts.join('\r\n')}\r\n--${boundary}--\r\n`;
+}
+
+/**
+ * Split a multipart/mixed batch response into per-call responses, keyed by
+ * the index in the Content-ID ("<response-item3>").
+ */
+function parseBatchResponse(body: string): Map<number, Response> {
+  const responses = new Map<number, Response>();
+  const text = body.replace(/\r\n/g, '\n');
+  const boundary = text.split('\n').find((line) => line.startsWith('--'));
+  if (!boundary) return responses;
+
+  for (const part of text.split(boundary).slice(1)) {
+    if (part.startsWith('--')) break;
+
+    const [partHeaders, ...rest] = part.trimStart().split('\n\n');
+    const id = /content-id:\s*<?response-item(\d+)>?/i.exec(partHeaders);
+    const [head = '', ...content] = rest.join('\n\n').split('\n\n');
+    const [statusLine = '', ...headerLines] = head.split('\n');
+    const status = /^HTTP\/[\d.]+\s+(\d{3})\s*(.*)$/.exec(statusLine.trim());
+    if (!id || !status) continue;
+
+    const headers = new Headers();
+    for (const line of headerLines) {
+      const colon = line.indexOf(':');
+      if (colon > 0)
+        headers.set(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+    }
+    const payload = content.join('\n\n').trim();
+    const code = Number(status[1]);
+    responses.set(
+      Number(id[1]),
+      new Response(code === 204 || !payload ? null : payload, {
+        status: code,
+        statusText: status[2],
+        headers,
+      }),
+    );
+  }
+
+  return responses;
+}
+
 // ============================================================================
 // Client
 // ============================================================================
 
+/** Minimal fetch signature so emulators and test doubles can be injected */
+export type FetchLike = (
+  input: string | URL | Request,
+  init?: RequestInit,
+) => Promise<Response>;
+
+export interface GoogleCalendarClientOptions {
+  /**
+   * API base URL. Defaults to PROVIDER_API_URL, then the public Google endpoint.
+   * Point this at the local emulator for offline testing.
+   */
+  baseUrl?: string;
+  /** Custom fetch implementation (e.g. an in-process emulator) */
+  fetch?: FetchLike;
+  /** Cancels in-flight requests and pending retries (pass the tool's signal) */
+  signal?: AbortSignal;
+  /** Backoff tuning for throttled or failed requests */
+  retry?: RetryOptions;
+  /**
+   * Record writes in `plannedRequests` instead of sending them. Reads (and
+   * read-only POSTs such as free/busy) still go to Google.
+   */
+  dryRun?: boolean;
+}
+
+/** A write recorded in dry-run mode, exactly as it would be sent */
+export interface PlannedRequest {
+  method: string;
+  /** Path and query relative to the API base */
+  path: string;
+  /** Request-specific headers, e.g. If-Match */
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/** ID returned for resources "created" in dry-run mode */
+export const DRY_RUN_ID = 'dry-run';
+
+/** Google caps a Calendar API batch request at 50 calls */
+export const BATCH_LIMIT = 50;
+
+/** Outcome of one call in a batch; calls succeed or fail independently */
+export type BatchResponse<T = unknown> =
+  | { ok: true; status: number; body: T }
+  | { ok: false; status: number; error: CalendarError };
+
+type RequestOptions = RequestInit & {
+  /** Override idempotency detection (e.g. read-only POST endpoints) */
+  idempotent?: boolean;
+  /** POST that changes nothing; sent even in dry-run mode */
+  readOnly?: boolean;
+  /** Absolute URL for endpoints outside the API base (batch) */
+  url?: string;
+  /** Return the raw response body instead of parsing JSON */
+  text?: boolean;
+};
+
+/**
+ * Resolve the API base URL at call time so Workers (which shim process.env
+ * per request) and tests can override it without rebuilding the client.
+ */
+function resolveApiBase(): string {
+  const fromEnv =
+    typeof process !== 'undefined' ? process.env?.PROVIDER_API_URL : undefined;
+  return (fromEnv || GOOGLE_CALENDAR_API_BASE).replace(/\/+$/, '');
+}
+
+/** conferenceData that asks Google to add a new Meet link */
+function googleMeetRequest(): ConferenceData {
+  return {
+    createRequest: {
+      requestId: `meet-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      conferenceSolutionKey: { type: 'hangoutsMeet' },
+    },
+  };
+}
+
+export function toAttendee(input: AttendeeInput): EventAttendee {
+  return typeof input === 'string' ? { email: input } : input;
+}
+
+/**
+ * The event's attendees with the user's own response changed. Throws if the
+ * user was not invited (organizers of their own events have no attendee entry).
+ */
+export function attendeesWithResponse(
+  event: CalendarEvent,
+  response: RespondToEventParams['response'],
+): EventAttendee[] {
+  if (!event.attendees || event.attendees.length === 0) {
+    throw new InvalidInputError(
+      'This event has no attendees. You can only respond to events you were invited to.',
+    );
+  }
+
+  if (!event.attendees.some((a) => a.self)) {
+    throw new InvalidInputError(
+      'You are not an attendee of this event. Cannot update response status.',
+    );
+  }
+
+  return event.attendees.map((a) => (a.self ? { ...a, responseStatus: response } : a));
+}
+
+/**
+ * Conflict for a write whose If-Match etag is stale: someone changed the event
+ * since it was read. Carries the current version so the caller can re-plan.
+ */
+export function eventChangedError(
+  current: CalendarEvent,
+  ifMatch: string,
+): ConflictError {
+  return new ConflictError(
+    `"${current.summary ?? current.id}" was changed since it was read (etag ${ifMatch}, now ${current.etag}).`,
+    {
+      hint: 'details.current is the latest version: check your change against it, then retry with ifMatch set to its etag.',
+      status: 412,
+      reason: 'conditionNotMet',
+      details: { current },
+    },
+  );
+}
+
 export class GoogleCalendarClient {
   private accessToken: string;
+  private baseUrl: string;
+  private fetchImpl: FetchLike;
+  private signal?: AbortSignal;
+  private retry: Required<RetryOptions>;
+  private dryRun: boolean;
 
-  constructor(accessToken: string) {
+  /** Writes skipped in dry-run mode, in order */
+  readonly plannedRequests: PlannedRequest[] = [];
+
+  constructor(accessToken: string, options: GoogleCalendarClientOptions = {}) {
     this.accessToken = accessToken;
+    this.baseUrl = options.baseUrl?.replace(/\/+$/, '') ?? resolveApiBase();
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.signal = options.signal;
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.dryRun = options.dryRun ?? false;
+  }
+
+  /**
+   * Full-jitter exponential backoff; Retry-After wins when the server sends one.
+   */
+  private backoffDelay(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs + Math.random() * this.retry.baseDelayMs;
+    }
+    const ceiling = Math.min(
+      this.retry.maxDelayMs,
+      this.retry.baseDelayMs * 2 ** attempt,
+    );
+    return Math.random() * ceiling;
+  }
+
+  /**
+   * Record a write in dry-run mode. Echoes the body so callers can plan
+   * follow-up requests; creates get a placeholder ID.
+   */
+  private plan(request: PlannedRequest): unknown {
+    this.plannedRequests.push(request);
+    const body = request.body as Record<string, unknown> | undefined;
+    return request.method === 'POST' ? { id: DRY_RUN_ID, ...body } : (body ?? {});
   }
 
-  private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
-    const url = `${GOOGLE_CALENDAR_API_BASE}${path}`;
+  private async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const {
+      idempotent: idempotentOverride,
+      readOnly,
+      url: absoluteUrl,
+      text,
+      ...init
+    } = options;
+    const url = absoluteUrl ?? `${this.baseUrl}${path}`;
+    const method = (init.method ?? 'GET').toUpperCase();
+    const idempotent =
+      idempotentOverride ?? (readOnly || IDEMPOTENT_METHODS.has(method));
+
+    if (this.dryRun && method !== 'GET' && !readOnly) {
+      const body = typeof init.body === 'string' ? JSON.parse(init.body) : undefined;
+      const extraHeaders = init.headers as Record<string, string> | undefined;
+      return this.plan({
+        method,
+        path,
+        ...(extraHeaders && { headers: extraHeaders }),
+        ...(body !== undefined && { body }),
+      }) as T;
+    }
     const headers = {
       Authorization: `Bearer ${this.accessToken}`,
       'Content-Type': 'application/json',
-      ...options.headers,
+      ...init.headers,
     };
 
-    try {
-      const response = await fetch(url, { ...options, headers });
-
-      if (!response.ok) {
-        let errorMessage = `Google Calendar API error: ${response.status} ${response.statusText}`;
-        try {
-          const errorData = (await response.json()) as { error?: { message?: string } };
-          if (errorData.error?.message) {
-            errorMessage += ` - ${errorData.error.message}`;
-          }
-        } catch {
-          // Ignore JSON parse error
+    for (let attempt = 0; ; attempt++) {
+      if (this.signal?.aborted) {
+        throw new CancellationError();
+      }
+
+      let response: Response;
+      try {
+        response = await this.fetchImpl(url, { ...init, headers, signal: this.signal });
+      } catch (error) {
+        if (this.signal?.aborted) {
+          throw new CancellationError();
+        }
+        // Network failures never reached Google; replay only when safe
+        if (!idempotent || attempt >= this.retry.maxRetries) {
+          logger.error('google-calendar-client', {
+            message: 'Request failed',
+            url,
+            attempt,
+            error: (error as Error).message,
+          });
+          throw error;
         }
-        throw new Error(errorMessage);
+        const delay = this.backoffDelay(attempt);
+        logger.warning('google-calendar-client', {
+          message: 'Network error, retrying',
+          url,
+          attempt,
+          delayMs: Math.round(delay),
+          error: (error as Error).message,
+        });
+        await sleep(delay, this.signal);
+        continue;
       }
 
-      // Handle 204 No Content
-      if (response.status === 204) {
-        return {} as T;
+      if (response.ok) {
+        // Handle 204 No Content
+        if (response.status === 204) {
+          return {} as T;
+        }
+        return (text ? await response.text() : await response.json()) as T;
       }
 
-      return (await response.json()) as T;
-    } catch (error) {
-      logger.error('google-calendar-client', {
-        message: 'Request failed',
+      const apiError = await toApiError(response);
+      const canRetry =
+        attempt < this.retry.maxRetries &&
+        isRetryable(categorize(response.status, apiError.reason), idempotent) &&
+        (apiError.retryAfterMs ?? 0) <= this.retry.maxDelayMs;
+
+      if (!canRetry) {
+        logger.error('google-calendar-client', {
+          message: 'Request failed',
+          url,
+          status: apiError.status,
+          reason: apiError.reason,
+          attempt,
+          error: apiError.message,
+        });
+        throw apiError;
+      }
+
+      const delay = this.backoffDelay(attempt, apiError.retryAfterMs);
+      logger.warning('google-calendar-client', {
+        message: 'Retryable API error, backing off',
         url,
-        error: (error as Error).message,
+        status: apiError.status,
+        reason: apiError.reason,
+        attempt,
+        delayMs: Math.round(delay),
       });
-      throw error;
+      await sleep(delay, this.signal);
+    }
+  }
+
+  /**
+   * Event write with an optional If-Match etag. Google answers 412 when the
+   * etag is stale; that is re-thrown as eventChangedError with the current event.
+   */
+  private async writeEvent<T>(
+    calendarId: string,
+    eventId: string,
+    path: string,
+    options: RequestOptions & { ifMatch?: string },
+  ): Promise<T> {
+    const { ifMatch, ...init } = options;
+    if (!ifMatch) return this.request(path, init);
+
+    try {
+      return await this.request<T>(path, { ...init, headers: { 'If-Match': ifMatch } });
+    } catch (error) {
+      if (!(error instanceof ConflictError) || error.status !== 412) throw error;
+      throw eventChangedError(await this.getEvent(calendarId, eventId), ifMatch);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Batch
+  // --------------------------------------------------------------------------
+
+  /**
+   * Send up to BATCH_LIMIT calls in one multipart request (/batch/calendar/v3).
+   * Calls succeed or fail on their own; throttled calls (and failed reads) are
+   * retried with backoff like single requests. In dry-run mode, batches with
+   * writes are recorded in `plannedRequests` instead of sent.
+   *
+   * @returns One response per request, in order
+   */
+  async batch<T = unknown>(requests: PlannedRequest[]): Promise<BatchResponse<T>[]> {
+    if (requests.length > BATCH_LIMIT) {
+      throw new InvalidInputError(
+        `A batch holds at most ${BATCH_LIMIT} calls (got ${requests.length}).`,
+      );
+    }
+
+    const readOnly = requests.every((r) => r.method === 'GET');
+    if (this.dryRun && !readOnly) {
+      return requests.map((request) => ({
+        ok: true,
+        status: 200,
+        body: this.plan(request) as T,
+      }));
+    }
+
+    const results: BatchResponse<T>[] = [];
+    let pending = requests.map((_, i) => i);
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      const responses = await this.sendBatch(
+        pending.map((i) => requests[i]),
+        readOnly,
+      );
+      const retry: number[] = [];
+      let retryAfterMs: number | undefined;
+
+      for (const [position, index] of pending.entries()) {
+        const response = responses.get(position);
+        if (!response) {
+          results[index] = {
+            ok: false,
+            status: 502,
+            error: new UpstreamError('Batch response is missing this call.'),
+          };
+          continue;
+        }
+        if (response.ok) {
+          const body = response.status === 204 ? {} : await response.json();
+          results[index] = { ok: true, status: response.status, body: body as T };
+          continue;
+        }
+
+        const error = await toApiError(response);
+        const idempotent = IDEMPOTENT_METHODS.has(requests[index].method);
+        if (
+          attempt < this.retry.maxRetries &&
+          isRetryable(categorize(response.status, error.reason), idempotent) &&
+          (error.retryAfterMs ?? 0) <= this.retry.maxDelayMs
+        ) {
+          retry.push(index);
+          if (error.retryAfterMs !== undefined) {
+            retryAfterMs = Math.max(retryAfterMs ?? 0, error.retryAfterMs);
+          }
+          continue;
+        }
+        results[index] = { ok: false, status: response.status, error };
+      }
+
+      if (retry.length > 0) {
+        const delay = this.backoffDelay(attempt, retryAfterMs);
+        logger.warning('google-calendar-client', {
+          message: 'Retryable errors in batch, backing off',
+          calls: retry.length,
+          attempt,
+          delayMs: Math.round(delay),
+        });
+        await sleep(delay, this.signal);
+      }
+      pending = retry;
     }
+
+    return results;
+  }
+
+  private async sendBatch(
+    requests: PlannedRequest[],
+    readOnly: boolean,
+  ): Promise<Map<number, Response>> {
+    // The batch endpoint sits next to the API path: /batch/calendar/v3
+    const { origin, pathname } = new URL(this.baseUrl);
+    const boundary = `batch_${crypto.randomUUID()}`;
+
+    const body = await this.request<string>('', {
+      url: `${origin}/batch${pathname}`,
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+      body: buildBatchBody(requests, boundary, pathname),
+      readOnly,
+      text: true,
+    });
+    return parseBatchResponse(body);
   }
 
   // --------------------------------------------------------------------------
@@ -247,12 +1044,169 @@ export class GoogleCalendarClient {
     return this.request('/users/me/calendarList');
   }
 
+  async getCalendarListEntry(calendarId: string): Promise<CalendarListItem> {
+    return this.request(`/users/me/calendarList/${encodeURIComponent(calendarId)}`);
+  }
+
+  /**
+   * The user's primary calendar. Its ID is the account email, which makes it a
+   * stable key for per-user state.
+   */
+  async getPrimaryCalendar(): Promise<CalendarListItem> {
+    const { items } = await this.listCalendars();
+    const primary = items.find((cal) => cal.primary);
+    if (!primary) {
+      throw new NotFoundError('No primary calendar found for this account.');
+    }
+    return primary;
+  }
+
+  /**
+   * Create a secondary calendar owned by the user. Google adds it to the
+   * calendar list automatically.
+   */
+  async createCalendar(
+    params: CalendarParams & { summary: string },
+  ): Promise<Calendar> {
+    return this.request('/calendars', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  /**
+   * Change calendar metadata (requires owner access). Omitted fields are kept.
+   */
+  async updateCalendar(calendarId: string, params: CalendarParams): Promise<Calendar> {
+    return this.request(`/calendars/${encodeURIComponent(calendarId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(params),
+    });
+  }
+
+  /**
+   * Permanently delete a secondary calendar and all its events. The primary
+   * calendar cannot be deleted.
+   */
+  async deleteCalendar(calendarId: string): Promise<void> {
+    await this.request(`/calendars/${encodeURIComponent(calendarId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Add an existing calendar (shared, public or another user's) to the list.
+   */
+  async insertCalendarListEntry(
+    calendarId: string,
+    params: CalendarListEntryParams = {},
+  ): Promise<CalendarListItem> {
+    const query =
+      params.backgroundColor || params.foregroundColor ? '?colorRgbFormat=true' : '';
+    return this.request(`/users/me/calendarList${query}`, {
+      method: 'POST',
+      body: JSON.stringify({ id: calendarId, ...params }),
+    });
+  }
+
+  async updateCalendarListEntry(
+    calendarId: string,
+    params: CalendarListEntryParams,
+  ): Promise<CalendarListItem> {
+    const query =
+      params.backgroundColor || params.foregroundColor ? '?colorRgbFormat=true' : '';
+    return this.request(
+      `/users/me/calendarList/${encodeURIComponent(calendarId)}${query}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(params),
+      },
+    );
+  }
+
+  /**
+   * Remove a calendar from the list without deleting it.
+   */
+  async deleteCalendarListEntry(calendarId: string): Promise<void> {
+    await this.request(`/users/me/calendarList/${encodeURIComponent(calendarId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Sharing (ACL)
+  // --------------------------------------------------------------------------
+
+  /** Requires owner access to the calendar */
+  async listAcl(
+    calendarId: string,
+    options: { pageToken?: string } = {},
+  ): Promise<{ items: AclRule[]; nextPageToken?: string }> {
+    const query = options.pageToken
+      ? `?pageToken=${encodeURIComponent(options.pageToken)}`
+      : '';
+    return this.request(`/calendars/${encodeURIComponent(calendarId)}/acl${query}`);
+  }
+
+  /**
+   * Grant a role. sendNotifications emails the grantee (Google's default).
+   */
+  async insertAclRule(
+    calendarId: string,
+    rule: Pick<AclRule, 'role' | 'scope'>,
+    options: { sendNotifications?: boolean } = {},
+  ): Promise<AclRule> {
+    const query =
+      options.sendNotifications === undefined
+        ? ''
+        : `?sendNotifications=${options.sendNotifications}`;
+    return this.request(`/calendars/${encodeURIComponent(calendarId)}/acl${query}`, {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+  }
+
+  async updateAclRule(
+    calendarId: string,
+    ruleId: string,
+    role: AclRole,
+    options: { sendNotifications?: boolean } = {},
+  ): Promise<AclRule> {
+    const query =
+      options.sendNotifications === undefined
+        ? ''
+        : `?sendNotifications=${options.sendNotifications}`;
+    return this.request(
+      `/calendars/${encodeURIComponent(calendarId)}/acl/${encodeURIComponent(ruleId)}${query}`,
+      { method: 'PATCH', body: JSON.stringify({ role }) },
+    );
+  }
+
+  async deleteAclRule(calendarId: string, ruleId: string): Promise<void> {
+    await this.request(
+      `/calendars/${encodeURIComponent(calendarId)}/acl/${encodeURIComponent(ruleId)}`,
+      { method: 'DELETE' },
+    );
+  }
+
   // --------------------------------------------------------------------------
   // Events - Get Single
   // --------------------------------------------------------------------------
 
-  async getEvent(calendarId: string, eventId: string): Promise<CalendarEvent> {
-    const path = `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`;
+  /**
+   * Fetch one event. Instance IDs of recurring events ("<seriesId>_<start>")
+   * work as well. timeZone controls how dateTimes are rendered in the response.
+   */
+  async getEvent(
+    calendarId: string,
+    eventId: string,
+    options: { timeZone?: string } = {},
+  ): Promise<CalendarEvent> {
+    const queryParams = new URLSearchParams();
+    if (options.timeZone) queryParams.set('timeZone', options.timeZone);
+
+    const query = queryParams.toString();
+    const path = `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}${query ? `?${query}` : ''}`;
     return this.request(path);
   }
 
@@ -269,19 +1223,19 @@ export class GoogleCalendarClient {
     if (/Z$|[+-]\d{2}:\d{2}$/.test(timestamp)) {
       return timestamp;
     }
-    throw new Error(
+    throw new InvalidInputError(
       `Invalid timestamp format: "${timestamp}". Must be RFC3339 with timezone (e.g., 2025-12-06T19:00:00Z or 2025-12-06T19:00:00+01:00)`,
     );
   }
 
-  async listEvents(
-    params: ListEventsParams,
-  ): Promise<{ items: CalendarEvent[]; nextPageToken?: string }> {
+  async listEvents(params: ListEventsParams): Promise<EventsListResponse> {
     const calendarId = params.calendarId || 'primary';
     const queryParams = new URLSearchParams();
 
-    if (params.timeMin) queryParams.set('timeMin', this.requireTimezone(params.timeMin));
-    if (params.timeMax) queryParams.set('timeMax', this.requireTimezone(params.timeMax));
+    if (params.timeMin)
+      queryParams.set('timeMin', this.requireTimezone(params.timeMin));
+    if (params.timeMax)
+      queryParams.set('timeMax', this.requireTimezone(params.timeMax));
     if (params.maxResults) queryParams.set('maxResults', String(params.maxResults));
     if (params.singleEvents !== undefined)
       queryParams.set('singleEvents', String(params.singleEvents));
@@ -289,6 +1243,7 @@ export class GoogleCalendarClient {
     if (params.q) queryParams.set('q', params.q);
     if (params.pageToken) queryParams.set('pageToken', params.pageToken);
     if (params.showDeleted) queryParams.set('showDeleted', String(params.showDeleted));
+    if (params.syncToken) queryParams.set('syncToken', params.syncToken);
 
     // eventTypes can be repeated
     if (params.eventTypes && params.eventTypes.length > 0) {
@@ -303,6 +1258,29 @@ export class GoogleCalendarClient {
     return this.request(path);
   }
 
+  /**
+   * Occurrences of a recurring event, including modified and (with
+   * showDeleted) cancelled ones, in start order.
+   */
+  async listInstances(params: ListInstancesParams): Promise<EventsListResponse> {
+    const calendarId = params.calendarId || 'primary';
+    const queryParams = new URLSearchParams();
+
+    if (params.timeMin)
+      queryParams.set('timeMin', this.requireTimezone(params.timeMin));
+    if (params.timeMax)
+      queryParams.set('timeMax', this.requireTimezone(params.timeMax));
+    if (params.maxResults) queryParams.set('maxResults', String(params.maxResults));
+    if (params.pageToken) queryParams.set('pageToken', params.pageToken);
+    if (params.showDeleted) queryParams.set('showDeleted', String(params.showDeleted));
+    if (params.timeZone) queryParams.set('timeZone', params.timeZone);
+
+    const query = queryParams.toString();
+    const path = `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(params.eventId)}/instances${query ? `?${query}` : ''}`;
+
+    return this.request(path);
+  }
+
   // --------------------------------------------------------------------------
   // Events - Create
   // --------------------------------------------------------------------------
@@ -326,18 +1304,23 @@ export class GoogleCalendarClient {
     if (params.colorId) body.colorId = params.colorId;
     if (params.recurrence) body.recurrence = params.recurrence;
     if (params.reminders) body.reminders = params.reminders;
+    if (params.eventType) body.eventType = params.eventType;
+    if (params.transparency) body.transparency = params.transparency;
+    if (params.outOfOfficeProperties) {
+      body.outOfOfficeProperties = params.outOfOfficeProperties;
+    }
+    if (params.focusTimeProperties)
+      body.focusTimeProperties = params.focusTimeProperties;
+    if (params.workingLocationProperties) {
+      body.workingLocationProperties = params.workingLocationProperties;
+    }
 
     if (params.attendees && params.attendees.length > 0) {
-      body.attendees = params.attendees.map((email) => ({ email }));
+      body.attendees = params.attendees.map(toAttendee);
     }
 
     if (params.addGoogleMeet) {
-      body.conferenceData = {
-        createRequest: {
-          requestId: `meet-${Date.now()}-${Math.random().toString(36).slice(2)}`,
-          conferenceSolutionKey: { type: 'hangoutsMeet' },
-        },
-      };
+      body.conferenceData = googleMeetRequest();
     }
 
     const query = queryParams.toString();
@@ -385,24 +1368,20 @@ export class GoogleCalendarClient {
     if (params.reminders !== undefined) body.reminders = params.reminders;
 
     if (params.attendees !== undefined) {
-      body.attendees = params.attendees.map((email) => ({ email }));
+      body.attendees = params.attendees.map(toAttendee);
     }
 
     if (params.addGoogleMeet) {
-      body.conferenceData = {
-        createRequest: {
-          requestId: `meet-${Date.now()}-${Math.random().toString(36).slice(2)}`,
-          conferenceSolutionKey: { type: 'hangoutsMeet' },
-        },
-      };
+      body.conferenceData = googleMeetRequest();
     }
 
     const query = queryParams.toString();
     const path = `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(params.eventId)}${query ? `?${query}` : ''}`;
 
-    return this.request(path, {
+    return this.writeEvent(calendarId, params.eventId, path, {
       method: 'PATCH',
       body: JSON.stringify(body),
+      ifMatch: params.ifMatch,
     });
   }
 
@@ -414,7 +1393,63 @@ export class GoogleCalendarClient {
 
     const path = `/calendars/${encodeURIComponent(params.calendarId)}/events/${encodeURIComponent(params.eventId)}/move?${queryParams.toString()}`;
 
-    return this.request(path, { method: 'POST' });
+    return this.writeEvent(params.calendarId, params.eventId, path, {
+      method: 'POST',
+      ifMatch: params.ifMatch,
+    });
+  }
+
+  /**
+   * PATCH an event with a raw resource body, e.g. to restore a snapshot.
+   * Fields set to null are cleared; status 'confirmed' restores a deleted event.
+   */
+  async patchEvent(
+    calendarId: string,
+    eventId: string,
+    body: Record<string, unknown>,
+    options: { sendUpdates?: 'all' | 'externalOnly' | 'none'; ifMatch?: string } = {},
+  ): Promise<CalendarEvent> {
+    const queryParams = new URLSearchParams();
+    if (options.sendUpdates) queryParams.set('sendUpdates', options.sendUpdates);
+
+    const query = queryParams.toString();
+    const path = `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}${query ? `?${query}` : ''}`;
+
+    return this.writeEvent(calendarId, eventId, path, {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+      ifMatch: options.ifMatch,
+    });
+  }
+
+  /**
+   * Insert a full event resource (attendee responses, reminders, etc. kept as given).
+   * Its conferenceData is kept too; `addGoogleMeet` adds a Meet link when it has none.
+   */
+  async insertEvent(
+    calendarId: string,
+    event: Partial<CalendarEvent>,
+    options: {
+      sendUpdates?: 'all' | 'externalOnly' | 'none';
+      addGoogleMeet?: boolean;
+    } = {},
+  ): Promise<CalendarEvent> {
+    const queryParams = new URLSearchParams();
+    if (options.sendUpdates) queryParams.set('sendUpdates', options.sendUpdates);
+
+    const body: Partial<CalendarEvent> = { ...event };
+    if (options.addGoogleMeet && !body.conferenceData) {
+      body.conferenceData = googleMeetRequest();
+    }
+    if (body.conferenceData) queryParams.set('conferenceDataVersion', '1');
+
+    const query = queryParams.toString();
+    const path = `/calendars/${encodeURIComponent(calendarId)}/events${query ? `?${query}` : ''}`;
+
+    return this.request(path, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
   }
 
   // --------------------------------------------------------------------------
@@ -442,39 +1477,23 @@ export class GoogleCalendarClient {
 
     // First, get the current event to find our attendee entry
     const event = await this.getEvent(calendarId, params.eventId);
-
-    if (!event.attendees || event.attendees.length === 0) {
-      throw new Error(
-        'This event has no attendees. You can only respond to events you were invited to.',
-      );
-    }
-
-    // Find the self attendee
-    const selfAttendee = event.attendees.find((a) => a.self);
-    if (!selfAttendee) {
-      throw new Error(
-        'You are not an attendee of this event. Cannot update response status.',
-      );
+    if (params.ifMatch && event.etag && event.etag !== params.ifMatch) {
+      throw eventChangedError(event, params.ifMatch);
     }
+    const updatedAttendees = attendeesWithResponse(event, params.response);
 
-    // Update the attendee's response status
-    const updatedAttendees = event.attendees.map((a) => {
-      if (a.self) {
-        return { ...a, responseStatus: params.response };
-      }
-      return a;
-    });
-
-    // PATCH the event with updated attendees
+    // PATCH the attendee list as read, so a concurrent edit fails (412)
+    // instead of being overwritten
     const queryParams = new URLSearchParams();
     if (params.sendUpdates) queryParams.set('sendUpdates', params.sendUpdates);
 
     const query = queryParams.toString();
     const path = `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(params.eventId)}${query ? `?${query}` : ''}`;
 
-    return this.request(path, {
+    return this.writeEvent(calendarId, params.eventId, path, {
       method: 'PATCH',
       body: JSON.stringify({ attendees: updatedAttendees }),
+      ifMatch: params.ifMatch ?? event.etag,
     });
   }
 
@@ -492,9 +1511,40 @@ export class GoogleCalendarClient {
       items: calendarIds.map((id) => ({ id })),
     };
 
+    // Read-only despite being a POST, so server errors are safe to retry
     return this.request('/freeBusy', {
       method: 'POST',
       body: JSON.stringify(body),
+      readOnly: true,
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Push Notifications
+  // --------------------------------------------------------------------------
+
+  async watchEvents(params: WatchEventsParams): Promise<WatchChannel> {
+    const calendarId = params.calendarId || 'primary';
+    const path = `/calendars/${encodeURIComponent(calendarId)}/events/watch`;
+
+    return this.request(path, {
+      method: 'POST',
+      body: JSON.stringify({
+        id: params.channelId,
+        type: 'web_hook',
+        address: params.address,
+        token: params.token,
+        ...(params.ttlSeconds && { params: { ttl: String(params.ttlSeconds) } }),
+      }),
+    });
+  }
+
+  async stopChannel(channelId: string, resourceId: string): Promise<void> {
+    await this.request('/channels/stop', {
+      method: 'POST',
+      body: JSON.stringify({ id: channelId, resourceId }),
+      // Stopping twice is harmless
+      idempotent: true,
     });
   }
 }
@@ -53,11 +53,25 @@ export type UnifiedConfig = {
   PROVIDER_CLIENT_SECRET?: string;
   PROVIDER_API_URL?: string;
   PROVIDER_ACCOUNTS_URL?: string;
+  /** Public HTTPS URL of the push notification receiver (/webhooks/google-calendar) */
+  CALENDAR_WEBHOOK_URL?: string;
+
+  // Tool policy (see shared/tools/policy.ts)
+  /** Only expose tools that don't change anything */
+  POLICY_READ_ONLY: boolean;
+  /** Tool names to expose; empty exposes every tool */
+  POLICY_ALLOWED_TOOLS: string[];
+  /** Calendar IDs tools may touch; empty allows every calendar */
+  POLICY_ALLOWED_CALENDARS: string[];
+  /** Reject sendUpdates: 'all' (notifying every attendee) */
+  POLICY_FORBID_SEND_UPDATES_ALL: boolean;
 
   // Storage
   RS_TOKENS_FILE?: string;
   /** Base64url-encoded 32-byte key for encrypting tokens at rest */
   RS_TOKENS_ENC_KEY?: string;
+  /** Tool state such as sync tokens (Node.js only; Workers use KV) */
+  STATE_FILE: string;
 
   // Rate limiting
   RPS_LIMIT: number;
@@ -168,9 +182,16 @@ export function parseConfig(env: Record<string, unknown>): UnifiedConfig {
     PROVIDER_CLIENT_SECRET: (env.PROVIDER_CLIENT_SECRET as string | undefined)?.trim(),
     PROVIDER_API_URL: env.PROVIDER_API_URL as string | undefined,
     PROVIDER_ACCOUNTS_URL: env.PROVIDER_ACCOUNTS_URL as string | undefined,
+    CALENDAR_WEBHOOK_URL: env.CALENDAR_WEBHOOK_URL as string | undefined,
+
+    POLICY_READ_ONLY: parseBoolean(env.POLICY_READ_ONLY),
+    POLICY_ALLOWED_TOOLS: parseStringArray(env.POLICY_ALLOWED_TOOLS),
+    POLICY_ALLOWED_CALENDARS: parseStringArray(env.POLICY_ALLOWED_CALENDARS),
+    POLICY_FORBID_SEND_UPDATES_ALL: parseBoolean(env.POLICY_FORBID_SEND_UPDATES_ALL),
 
     RS_TOKENS_FILE: env.RS_TOKENS_FILE as string | undefined,
     RS_TOKENS_ENC_KEY: env.RS_TOKENS_ENC_KEY as string | undefined,
+    STATE_FILE: String(env.STATE_FILE || '.data/state.json'),
 
     RPS_LIMIT: parseNumber(env.RPS_LIMIT, 10),
     CONCURRENCY_LIMIT: parseNumber(env.CONCURRENCY_LIMIT, 5),
@@ -10,7 +10,7 @@ export interface CorsOptions {
 
 const DEFAULT_CORS: CorsOptions = {
   origin: '*',
-  methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   headers: ['*'],
   credentials: false,
   maxAge: 86400,
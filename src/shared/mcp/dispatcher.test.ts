@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+import { sharedTools } from '../tools/registry.js';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+describe('initialize and listings', () => {
+  test('negotiates the protocol and advertises its capabilities', async () => {
+    const { result } = await mcp.request('initialize', {
+      protocolVersion: '2025-03-26',
+      clientInfo: { name: 'test', version: '1' },
+    });
+
+    expect(result).toMatchObject({
+      protocolVersion: '2025-03-26',
+      capabilities: {
+        tools: expect.any(Object),
+        resources: { subscribe: false },
+        prompts: expect.any(Object),
+      },
+    });
+  });
+
+  test('lists every shared tool with a JSON input schema', async () => {
+    const { result } = await mcp.request('tools/list');
+    const { tools } = result as { tools: Array<{ name: string; inputSchema: object }> };
+
+    expect(tools.map((tool) => tool.name).sort()).toEqual(
+      sharedTools.map((tool) => tool.name).sort(),
+    );
+    for (const tool of tools) {
+      expect(tool.inputSchema).toMatchObject({ type: 'object' });
+    }
+  });
+
+  test('reports unknown methods', async () => {
+    const { error } = await mcp.request('nope/nothing');
+    expect(error?.code).toBe(-32601);
+  });
+});
+
+describe('tools/call', () => {
+  test('creates, finds, updates and deletes an event', async () => {
+    const created = await mcp.callTool('create_event', {
+      summary: 'Standup',
+      start: '2025-03-03T09:00:00Z',
+      end: '2025-03-03T09:15:00Z',
+    });
+    expect(created.isError).toBeFalsy();
+    const id = created.structuredContent?.id as string;
+
+    const found = await mcp.callTool('search_events', {
+      query: 'Standup',
+      timeMin: '2025-03-01T00:00:00Z',
+      timeMax: '2025-03-10T00:00:00Z',
+    });
+    expect(found.structuredContent?.items).toEqual([
+      expect.objectContaining({
+        id,
+        summary: 'Standup',
+        calendarId: 'alice@example.com',
+      }),
+    ]);
+
+    const updated = await mcp.callTool('update_event', {
+      eventId: id,
+      summary: 'Daily standup',
+    });
+    expect(updated.structuredContent?.summary).toBe('Daily standup');
+
+    const deleted = await mcp.callTool('delete_event', { eventId: id });
+    expect(deleted.structuredContent).toMatchObject({ success: true, eventId: id });
+
+    // Google keeps deleted events around as cancelled
+    const gone = await mcp.callTool('get_event', { eventId: id });
+    expect(gone.structuredContent?.status).toBe('cancelled');
+  });
+
+  test('lists calendars the emulator knows', async () => {
+    mcp.emulator.addCalendar({ id: 'team@group.calendar.google.com', summary: 'Team' });
+
+    const result = await mcp.callTool('list_calendars');
+    const ids = (result.structuredContent?.items as Array<{ id: string }>).map(
+      (calendar) => calendar.id,
+    );
+    expect(ids).toEqual(['alice@example.com', 'team@group.calendar.google.com']);
+  });
+
+  test('answers invalid input with a tool error, not a protocol error', async () => {
+    const result = await mcp.callTool('get_event', {});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toMatchObject({
+      type: 'text',
+      text: expect.stringContaining('eventId'),
+    });
+  });
+
+  test('answers unknown tools with a tool error', async () => {
+    const result = await mcp.callTool('no_such_tool');
+    expect(result.isError).toBe(true);
+  });
+
+  test('maps a rejected token to auth_expired', async () => {
+    mcp.restore();
+    mcp = createMcpHarness({ accessTokens: ['another-token'] });
+
+    const result = await mcp.callTool('list_calendars');
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.error).toMatchObject({ code: 'auth_expired' });
+  });
+});
+
+describe('resources and prompts', () => {
+  test('reads the calendars, event and agenda resources', async () => {
+    const event = mcp.emulator.addEvent('alice@example.com', {
+      summary: 'Lunch',
+      start: { dateTime: '2025-03-04T12:00:00Z' },
+      end: { dateTime: '2025-03-04T13:00:00Z' },
+    });
+    const read = async (uri: string) => {
+      const { result, error } = await mcp.request('resources/read', { uri });
+      expect(error).toBeUndefined();
+      const { contents } = result as { contents: Array<{ text: string }> };
+      return JSON.parse(contents[0].text);
+    };
+
+    expect((await read('gcal://calendars')).calendars).toEqual([
+      expect.objectContaining({ id: 'alice@example.com', primary: true }),
+    ]);
+    expect(
+      await read(`gcal://calendars/alice%40example.com/events/${event.id}`),
+    ).toMatchObject({ id: event.id, summary: 'Lunch' });
+    expect((await read('gcal://agenda/2025-03-04')).events).toEqual([
+      expect.objectContaining({ id: event.id, summary: 'Lunch' }),
+    ]);
+  });
+
+  test('does not offer subscriptions, which it could never deliver', async () => {
+    const { error } = await mcp.request('resources/subscribe', {
+      uri: 'gcal://calendars',
+    });
+    expect(error?.code).toBe(-32601);
+  });
+
+  test('answers unknown resources with resource not found', async () => {
+    const { error } = await mcp.request('resources/read', { uri: 'gcal://nothing' });
+    expect(error?.code).toBe(-32002);
+  });
+
+  test('renders prompts with their arguments', async () => {
+    const { result } = await mcp.request('prompts/get', {
+      name: 'daily_briefing',
+      arguments: { date: '2025-03-04' },
+    });
+    const { messages } = result as { messages: Array<{ content: { text: string } }> };
+
+    expect(messages[0].content.text).toContain('gcal://agenda/2025-03-04');
+  });
+});
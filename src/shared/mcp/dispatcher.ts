@@ -6,6 +6,14 @@
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { serverMetadata } from '../../config/metadata.js';
 import { buildCapabilities } from '../../core/capabilities.js';
+import { toCalendarError } from '../../core/errors.js';
+import { listSharedPrompts, renderSharedPrompt } from '../prompts/registry.js';
+import {
+  listSharedResources,
+  listSharedResourceTemplates,
+  readSharedResource,
+} from '../resources/registry.js';
+import { permittedTools } from '../tools/policy.js';
 import { executeSharedTool, sharedTools } from '../tools/registry.js';
 import type { ToolContext } from '../tools/types.js';
 import { sharedLogger as logger } from '../utils/logger.js';
@@ -29,6 +37,8 @@ export const JsonRpcErrorCode = {
   MethodNotFound: -32601,
   InvalidParams: -32602,
   InternalError: -32603,
+  /** MCP: resources/read for an unknown URI */
+  ResourceNotFound: -32002,
 } as const;
 
 /** MCP server configuration */
@@ -101,7 +111,9 @@ async function handleInitialize(
   return {
     result: {
       protocolVersion,
-      capabilities: buildCapabilities(),
+      // Workers have no server-to-client stream to deliver resource updates on;
+      // resources/subscribe is not offered and answers method not found
+      capabilities: buildCapabilities({ resourceSubscriptions: false }),
       serverInfo: {
         name: ctx.config.title || serverMetadata.title,
         version: ctx.config.version || '1.0.0',
@@ -112,7 +124,8 @@ async function handleInitialize(
 }
 
 async function handleToolsList(): Promise<JsonRpcResult> {
-  const tools = sharedTools.map((tool) => {
+  // Tools the deployment's policy hides are not listed (calls are rejected)
+  const tools = permittedTools(sharedTools).map((tool) => {
     // Convert outputSchema (ZodRawShape) to proper JSON Schema with type: "object"
     let outputSchema: Record<string, unknown> | undefined;
     if (tool.outputSchema) {
@@ -214,19 +227,75 @@ async function handleToolsCall(
 }
 
 async function handleResourcesList(): Promise<JsonRpcResult> {
-  // Resources are registered via SDK in Node.js
-  // Workers template doesn't have resources yet
-  return { result: { resources: [] } };
+  return { result: { resources: listSharedResources() } };
 }
 
 async function handleResourcesTemplatesList(): Promise<JsonRpcResult> {
-  return { result: { resourceTemplates: [] } };
+  return { result: { resourceTemplates: listSharedResourceTemplates() } };
+}
+
+/**
+ * Map a resource failure to a JSON-RPC error, keeping the typed code and hint.
+ */
+function resourceError(error: unknown, uri: string): JsonRpcResult {
+  const calendarError = toCalendarError(error);
+  const code =
+    calendarError.code === 'not_found'
+      ? JsonRpcErrorCode.ResourceNotFound
+      : calendarError.code === 'invalid_input'
+        ? JsonRpcErrorCode.InvalidParams
+        : JsonRpcErrorCode.InternalError;
+  return {
+    error: {
+      code,
+      message: calendarError.message,
+      data: { uri, code: calendarError.code, hint: calendarError.hint },
+    },
+  };
+}
+
+function resourceContext(ctx: McpDispatchContext): ToolContext {
+  return { ...ctx.auth, sessionId: ctx.sessionId };
+}
+
+async function handleResourcesRead(
+  params: Record<string, unknown> | undefined,
+  ctx: McpDispatchContext,
+): Promise<JsonRpcResult> {
+  const uri = String(params?.uri || '');
+  try {
+    return { result: await readSharedResource(uri, resourceContext(ctx)) };
+  } catch (error) {
+    logger.debug('mcp_dispatch', {
+      message: 'Resource read failed',
+      uri,
+      error: (error as Error).message,
+    });
+    return resourceError(error, uri);
+  }
 }
 
 async function handlePromptsList(): Promise<JsonRpcResult> {
-  // Prompts are registered via SDK in Node.js
-  // Workers template doesn't have prompts yet
-  return { result: { prompts: [] } };
+  return { result: { prompts: listSharedPrompts() } };
+}
+
+async function handlePromptsGet(
+  params: Record<string, unknown> | undefined,
+): Promise<JsonRpcResult> {
+  const name = String(params?.name || '');
+  try {
+    const args = (params?.arguments || {}) as Record<string, unknown>;
+    return { result: renderSharedPrompt(name, args) };
+  } catch (error) {
+    const calendarError = toCalendarError(error);
+    return {
+      error: {
+        code: JsonRpcErrorCode.InvalidParams,
+        message: calendarError.message,
+        data: { code: calendarError.code, hint: calendarError.hint },
+      },
+    };
+  }
 }
 
 async function handlePing(): Promise<JsonRpcResult> {
@@ -327,9 +396,15 @@ export async function dispatchMcpMethod(
     case 'resources/templates/list':
       return handleResourcesTemplatesList();
 
+    case 'resources/read':
+      return handleResourcesRead(params, ctx);
+
     case 'prompts/list':
       return handlePromptsList();
 
+    case 'prompts/get':
+      return handlePromptsGet(params);
+
     case 'ping':
       return handlePing();
 
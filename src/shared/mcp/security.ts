@@ -104,3 +104,51 @@ export function buildUnauthorizedChallenge(args: {
     },
   };
 }
+
+export type InsufficientScopeChallenge = {
+  status: 403;
+  headers: Record<string, string>;
+  body: {
+    jsonrpc: '2.0';
+    error: {
+      code: -32000;
+      message: string;
+    };
+    id: string | number | null;
+  };
+};
+
+/**
+ * Build a 403 insufficient_scope challenge for MCP. Clients that support
+ * step-up authorization sign in again asking for `scope`.
+ */
+export function buildInsufficientScopeChallenge(args: {
+  origin: string;
+  sid: string;
+  scope: string;
+  resourcePath?: string;
+  message?: string;
+  id?: string | number | null;
+}): InsufficientScopeChallenge {
+  const resourcePath = args.resourcePath || '/.well-known/oauth-protected-resource';
+  const resourceMd = `${args.origin}${resourcePath}?sid=${encodeURIComponent(args.sid)}`;
+  const message =
+    args.message ||
+    'Insufficient scope: sign in again to grant the missing permissions';
+
+  return {
+    status: 403,
+    headers: {
+      'WWW-Authenticate': `Bearer realm="MCP", error="insufficient_scope", scope="${args.scope}", error_description="${message.replace(/"/g, "'")}", authorization_uri="${resourceMd}"`,
+      'Mcp-Session-Id': args.sid,
+    },
+    body: {
+      jsonrpc: '2.0',
+      error: {
+        code: -32000,
+        message,
+      },
+      id: args.id ?? null,
+    },
+  };
+}
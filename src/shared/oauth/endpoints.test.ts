@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { MemorySessionStore, MemoryTokenStore } from '../storage/memory.js';
+import { sharedLogger } from '../utils/logger.js';
+import {
+  handleDeleteClient,
+  handleGetClient,
+  handleRegister,
+  handleRevoke,
+  handleUpdateClient,
+} from './endpoints.js';
+import { handleAuthorize } from './flow.js';
+import type { ProviderConfig } from './types.js';
+
+const REVOCATION_URL = 'https://oauth2.test/revoke';
+
+const providerConfig: ProviderConfig = {
+  clientId: 'client',
+  clientSecret: 'secret',
+  accountsUrl: 'https://accounts.test',
+  revocationUrl: REVOCATION_URL,
+  oauthScopes: 'https://www.googleapis.com/auth/calendar',
+};
+
+const originalFetch = globalThis.fetch;
+let revoked: string[];
+let providerStatus: number;
+
+beforeEach(() => {
+  sharedLogger.setLevel('error');
+  revoked = [];
+  providerStatus = 200;
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    expect(String(input)).toBe(REVOCATION_URL);
+    revoked.push(new URLSearchParams(String(init?.body)).get('token') ?? '');
+    return new Response(null, { status: providerStatus });
+  }) as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('handleRevoke', () => {
+  async function signedIn() {
+    const store = new MemoryTokenStore();
+    const sessions = new MemorySessionStore();
+    await store.storeRsMapping(
+      'rs-access',
+      { access_token: 'google-access', refresh_token: 'google-refresh' },
+      'rs-refresh',
+      'session-1',
+    );
+    await store.setLinkedAccounts('rs-refresh', [
+      { access_token: 'work-access', refresh_token: 'work-refresh' },
+    ]);
+    await sessions.put('session-1', { created_at: Date.now() });
+    return { store, sessions };
+  }
+
+  test('revokes every Google grant, the RS tokens and the session', async () => {
+    const { store, sessions } = await signedIn();
+
+    await expect(
+      handleRevoke({ token: 'rs-access' }, store, providerConfig, sessions),
+    ).resolves.toEqual({ status: 'ok' });
+
+    expect(revoked).toEqual(['google-refresh', 'work-refresh']);
+    expect(await store.getByRsAccess('rs-access')).toBeNull();
+    expect(await store.getByRsRefresh('rs-refresh')).toBeNull();
+    expect(await sessions.get('session-1')).toBeNull();
+  });
+
+  test('accepts the refresh token too', async () => {
+    const { store, sessions } = await signedIn();
+
+    await handleRevoke(
+      { token: 'rs-refresh', tokenTypeHint: 'refresh_token' },
+      store,
+      providerConfig,
+      sessions,
+    );
+
+    expect(await store.getByRsAccess('rs-access')).toBeNull();
+  });
+
+  test('succeeds for unknown tokens without calling Google', async () => {
+    await expect(
+      handleRevoke({ token: 'unknown' }, new MemoryTokenStore(), providerConfig),
+    ).resolves.toEqual({ status: 'ok' });
+    expect(revoked).toEqual([]);
+  });
+
+  test('treats a grant Google already dropped (400) as revoked', async () => {
+    const { store, sessions } = await signedIn();
+    providerStatus = 400;
+
+    await handleRevoke({ token: 'rs-access' }, store, providerConfig, sessions);
+    expect(await store.getByRsAccess('rs-access')).toBeNull();
+  });
+
+  test('keeps the mapping when Google fails, so the client can retry', async () => {
+    const { store, sessions } = await signedIn();
+    providerStatus = 503;
+
+    await expect(
+      handleRevoke({ token: 'rs-access' }, store, providerConfig, sessions),
+    ).rejects.toThrow('temporarily_unavailable');
+    expect(await store.getByRsAccess('rs-access')).not.toBeNull();
+    expect(await sessions.get('session-1')).not.toBeNull();
+  });
+});
+
+describe('dynamic client registration', () => {
+  const BASE_URL = 'https://mcp.test';
+  const DEFAULT_REDIRECT = 'https://mcp.test/callback';
+
+  test('registers a public client and persists it', async () => {
+    const store = new MemoryTokenStore();
+
+    const result = await handleRegister(
+      { redirect_uris: ['https://app.test/cb'], client_name: 'App' },
+      store,
+      BASE_URL,
+      DEFAULT_REDIRECT,
+    );
+
+    expect(result).toMatchObject({
+      token_endpoint_auth_method: 'none',
+      redirect_uris: ['https://app.test/cb'],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      client_name: 'App',
+      registration_client_uri: `${BASE_URL}/register/${result.client_id}`,
+      registration_access_token: expect.any(String),
+    });
+    const stored = await store.getClient(result.client_id);
+    expect(stored?.redirect_uris).toEqual(['https://app.test/cb']);
+    // Only a hash of the registration access token is kept
+    expect(stored).not.toHaveProperty('registration_access_token');
+    expect(stored?.registration_access_token_hash).not.toBe(
+      result.registration_access_token,
+    );
+  });
+
+  test('rejects invalid metadata', async () => {
+    const store = new MemoryTokenStore();
+    const register = (input: Parameters<typeof handleRegister>[0]) =>
+      handleRegister(input, store, BASE_URL, DEFAULT_REDIRECT);
+
+    await expect(register({ redirect_uris: ['not a url'] })).rejects.toThrow(
+      'invalid_redirect_uri',
+    );
+    await expect(
+      register({ redirect_uris: ['https://app.test/cb#x'] }),
+    ).rejects.toThrow('invalid_redirect_uri');
+    await expect(register({ grant_types: ['client_credentials'] })).rejects.toThrow(
+      'invalid_client_metadata',
+    );
+    await expect(
+      register({ token_endpoint_auth_method: 'client_secret_basic' }),
+    ).rejects.toThrow('invalid_client_metadata');
+  });
+
+  test('reads, replaces and deletes a client with its registration token', async () => {
+    const store = new MemoryTokenStore();
+    const { client_id, registration_access_token } = await handleRegister(
+      { redirect_uris: ['https://app.test/cb'] },
+      store,
+      BASE_URL,
+      DEFAULT_REDIRECT,
+    );
+
+    await expect(handleGetClient(client_id, 'wrong', store, BASE_URL)).rejects.toThrow(
+      'invalid_token',
+    );
+    expect(
+      await handleGetClient(client_id, registration_access_token, store, BASE_URL),
+    ).not.toHaveProperty('registration_access_token');
+
+    const updated = await handleUpdateClient(
+      client_id,
+      registration_access_token,
+      { client_id, redirect_uris: ['https://app.test/new'] },
+      store,
+      BASE_URL,
+      DEFAULT_REDIRECT,
+    );
+    expect(updated.redirect_uris).toEqual(['https://app.test/new']);
+
+    await handleDeleteClient(client_id, registration_access_token, store);
+    expect(await store.getClient(client_id)).toBeNull();
+  });
+
+  test('authorize only accepts the redirect URIs a client registered', async () => {
+    const store = new MemoryTokenStore();
+    const { client_id } = await handleRegister(
+      { redirect_uris: ['https://app.test/cb'] },
+      store,
+      BASE_URL,
+      DEFAULT_REDIRECT,
+    );
+    const authorize = (redirectUri: string, clientId = client_id) =>
+      handleAuthorize(
+        {
+          codeChallenge: 'challenge',
+          codeChallengeMethod: 'S256',
+          redirectUri,
+          clientId,
+        },
+        store,
+        providerConfig,
+        {
+          redirectUri: DEFAULT_REDIRECT,
+          redirectAllowlist: [],
+          redirectAllowAll: false,
+        },
+        { baseUrl: BASE_URL, isDev: false },
+      );
+
+    await expect(authorize('https://app.test/cb')).resolves.toMatchObject({
+      redirectTo: expect.stringContaining('https://accounts.test'),
+    });
+    await expect(authorize('https://evil.test/cb')).rejects.toThrow(
+      'redirect_uri is not registered',
+    );
+    await expect(authorize('https://app.test/cb', 'unknown')).rejects.toThrow(
+      'invalid_client',
+    );
+  });
+});
@@ -1,49 +1,298 @@
 // Framework-agnostic OAuth endpoint handlers
 // From Spotify MCP
 
-import { generateOpaqueToken } from './flow.js';
-import type { RegisterInput, RegisterResult } from './types.js';
+import type {
+  RegisteredClient,
+  SessionStore,
+  TokenStore,
+} from '../storage/interface.js';
+import { sharedLogger as logger } from '../utils/logger.js';
+import { generateOpaqueToken, sha256B64UrlAsync } from './flow.js';
+import type {
+  ProviderConfig,
+  RegisterInput,
+  RegisterResult,
+  RevokeInput,
+  RevokeResult,
+} from './types.js';
+
+const SUPPORTED_GRANT_TYPES = ['authorization_code', 'refresh_token'];
 
 /**
- * Handle dynamic client registration (RFC7591)
+ * Validate and fill in client metadata (shared by registration and updates).
+ * Omitted fields get their defaults, as RFC 7592 updates replace the whole set.
+ *
+ * @throws Error('invalid_redirect_uri' | 'invalid_client_metadata')
  */
-export async function handleRegister(
+function normalizeClientMetadata(
   input: RegisterInput,
-  baseUrl: string,
   defaultRedirectUri: string,
-): Promise<RegisterResult> {
-  const now = Math.floor(Date.now() / 1000);
-  const clientId = generateOpaqueToken(12);
-
+): Pick<
+  RegisteredClient,
+  | 'token_endpoint_auth_method'
+  | 'redirect_uris'
+  | 'grant_types'
+  | 'response_types'
+  | 'client_name'
+> {
   const redirectUris = Array.isArray(input.redirect_uris)
     ? input.redirect_uris
     : [defaultRedirectUri];
 
   const grantTypes = Array.isArray(input.grant_types)
     ? input.grant_types
-    : ['authorization_code', 'refresh_token'];
+    : SUPPORTED_GRANT_TYPES;
 
   const responseTypes = Array.isArray(input.response_types)
     ? input.response_types
     : ['code'];
 
+  if (redirectUris.length === 0 || !redirectUris.every(isValidRedirectUri)) {
+    throw new Error('invalid_redirect_uri');
+  }
+  if (
+    !grantTypes.every((grant) => SUPPORTED_GRANT_TYPES.includes(grant)) ||
+    !responseTypes.every((type) => type === 'code') ||
+    (input.token_endpoint_auth_method && input.token_endpoint_auth_method !== 'none')
+  ) {
+    throw new Error('invalid_client_metadata');
+  }
+
   return {
-    client_id: clientId,
-    client_id_issued_at: now,
-    client_secret_expires_at: 0,
     token_endpoint_auth_method: 'none',
     redirect_uris: redirectUris,
     grant_types: grantTypes,
     response_types: responseTypes,
-    registration_client_uri: `${baseUrl}/register/${clientId}`,
-    registration_access_token: generateOpaqueToken(12),
     ...(input.client_name ? { client_name: input.client_name } : {}),
   };
 }
 
+/** Absolute URI without a fragment (RFC 6749 section 3.1.2) */
+function isValidRedirectUri(uri: string): boolean {
+  try {
+    return !new URL(uri).hash;
+  } catch {
+    return false;
+  }
+}
+
+function toRegisterResult(client: RegisteredClient, baseUrl: string): RegisterResult {
+  return {
+    client_id: client.client_id,
+    client_id_issued_at: client.client_id_issued_at,
+    client_secret_expires_at: 0,
+    token_endpoint_auth_method: client.token_endpoint_auth_method,
+    redirect_uris: client.redirect_uris,
+    grant_types: client.grant_types,
+    response_types: client.response_types,
+    registration_client_uri: `${baseUrl}/register/${client.client_id}`,
+    ...(client.client_name ? { client_name: client.client_name } : {}),
+  };
+}
+
 /**
- * Handle token revocation (no-op in this implementation)
+ * Look up a client and check its registration access token (RFC 7592).
+ * Unknown clients and wrong tokens fail the same way, so client ids can't be probed.
+ *
+ * @throws Error('invalid_token')
  */
-export async function handleRevoke(): Promise<{ status: string }> {
+async function authenticateClient(
+  clientId: string,
+  registrationToken: string | undefined,
+  store: TokenStore,
+): Promise<RegisteredClient> {
+  const client = await store.getClient(clientId);
+  if (
+    !client ||
+    !registrationToken ||
+    (await sha256B64UrlAsync(registrationToken)) !==
+      client.registration_access_token_hash
+  ) {
+    throw new Error('invalid_token');
+  }
+  return client;
+}
+
+/**
+ * Handle dynamic client registration (RFC7591).
+ * The client is persisted so /authorize can enforce its redirect URIs.
+ */
+export async function handleRegister(
+  input: RegisterInput,
+  store: TokenStore,
+  baseUrl: string,
+  defaultRedirectUri: string,
+): Promise<RegisterResult> {
+  const registrationAccessToken = generateOpaqueToken(24);
+  const client: RegisteredClient = {
+    client_id: generateOpaqueToken(12),
+    client_id_issued_at: Math.floor(Date.now() / 1000),
+    registration_access_token_hash: await sha256B64UrlAsync(registrationAccessToken),
+    ...normalizeClientMetadata(input, defaultRedirectUri),
+  };
+
+  await store.saveClient(client);
+
+  return {
+    ...toRegisterResult(client, baseUrl),
+    registration_access_token: registrationAccessToken,
+  };
+}
+
+/**
+ * Read a client registration (RFC 7592 GET /register/{clientId}).
+ *
+ * @throws Error('invalid_token')
+ */
+export async function handleGetClient(
+  clientId: string,
+  registrationToken: string | undefined,
+  store: TokenStore,
+  baseUrl: string,
+): Promise<RegisterResult> {
+  const client = await authenticateClient(clientId, registrationToken, store);
+  return toRegisterResult(client, baseUrl);
+}
+
+/**
+ * Replace a client's metadata (RFC 7592 PUT /register/{clientId}).
+ *
+ * @throws Error('invalid_token' | 'invalid_redirect_uri' | 'invalid_client_metadata')
+ */
+export async function handleUpdateClient(
+  clientId: string,
+  registrationToken: string | undefined,
+  input: RegisterInput,
+  store: TokenStore,
+  baseUrl: string,
+  defaultRedirectUri: string,
+): Promise<RegisterResult> {
+  const client = await authenticateClient(clientId, registrationToken, store);
+  if (input.client_id !== clientId) {
+    throw new Error('invalid_client_metadata');
+  }
+
+  const updated: RegisteredClient = {
+    client_id: client.client_id,
+    client_id_issued_at: client.client_id_issued_at,
+    registration_access_token_hash: client.registration_access_token_hash,
+    ...normalizeClientMetadata(input, defaultRedirectUri),
+  };
+  await store.saveClient(updated);
+
+  return toRegisterResult(updated, baseUrl);
+}
+
+/**
+ * Delete a client registration (RFC 7592 DELETE /register/{clientId}).
+ * Authorization flows that already started for the client fail at /token.
+ *
+ * @throws Error('invalid_token')
+ */
+export async function handleDeleteClient(
+  clientId: string,
+  registrationToken: string | undefined,
+  store: TokenStore,
+): Promise<void> {
+  await authenticateClient(clientId, registrationToken, store);
+  await store.deleteClient(clientId);
+}
+
+/**
+ * Revoke a token at the provider. A 400 means the token is already invalid
+ * (revoked or expired), which is the outcome we want.
+ *
+ * @returns false if the provider could not be reached or failed
+ */
+async function revokeProviderToken(
+  token: string,
+  revocationUrl: string,
+): Promise<boolean> {
+  try {
+    const resp = await fetch(revocationUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ token }).toString(),
+    });
+
+    if (resp.ok || resp.status === 400) {
+      return true;
+    }
+
+    const text = await resp.text().catch(() => '');
+    logger.error('oauth_revoke', {
+      message: 'Provider revocation failed',
+      status: resp.status,
+      body: text.substring(0, 200),
+    });
+    return false;
+  } catch (error) {
+    logger.error('oauth_revoke', {
+      message: 'Provider revocation network error',
+      error: (error as Error).message,
+    });
+    return false;
+  }
+}
+
+/**
+ * Handle token revocation (RFC 7009).
+ *
+ * Accepts an RS access or refresh token. Revokes the Google grant behind it
+ * (the refresh token, which also invalidates its access tokens), then removes
+ * the RS mapping and the MCP session that authorized it. Unknown tokens
+ * succeed, as the RFC requires. If the provider fails the mapping is kept,
+ * so the client can retry.
+ *
+ * @throws Error('temporarily_unavailable') when the provider revocation failed
+ */
+export async function handleRevoke(
+  input: RevokeInput,
+  store: TokenStore,
+  providerConfig: ProviderConfig,
+  sessionStore?: SessionStore,
+): Promise<RevokeResult> {
+  const record =
+    input.tokenTypeHint === 'refresh_token'
+      ? ((await store.getByRsRefresh(input.token)) ??
+        (await store.getByRsAccess(input.token)))
+      : ((await store.getByRsAccess(input.token)) ??
+        (await store.getByRsRefresh(input.token)));
+
+  if (!record) {
+    logger.debug('oauth_revoke', { message: 'Unknown token, nothing to revoke' });
+    return { status: 'ok' };
+  }
+
+  // The default account and every linked one
+  const providerTokens = [record.provider, ...(record.linked_accounts ?? [])].map(
+    (provider) => provider.refresh_token ?? provider.access_token,
+  );
+  if (providerConfig.revocationUrl) {
+    const revocationUrl = providerConfig.revocationUrl;
+    const revoked = await Promise.all(
+      providerTokens.map((token) => revokeProviderToken(token, revocationUrl)),
+    );
+    if (revoked.includes(false)) {
+      throw new Error('temporarily_unavailable');
+    }
+  } else {
+    logger.warning('oauth_revoke', {
+      message: 'OAUTH_REVOCATION_URL not set; provider grant left active',
+    });
+  }
+
+  await store.deleteRsMapping(record);
+
+  if (record.session_id && sessionStore) {
+    await sessionStore.delete(record.session_id);
+  }
+
+  logger.info('oauth_revoke', {
+    message: 'Token revoked',
+    providerRevoked: Boolean(providerConfig.revocationUrl),
+    sessionCleared: Boolean(record.session_id && sessionStore),
+  });
+
   return { status: 'ok' };
 }
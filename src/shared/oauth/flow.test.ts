@@ -0,0 +1,257 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import type { ProviderTokens } from '../storage/interface.js';
+import { MemoryTokenStore } from '../storage/memory.js';
+import { sharedLogger } from '../utils/logger.js';
+import { createAccountLink, handleAuthorize, handleProviderCallback } from './flow.js';
+import type { OAuthConfig, ProviderConfig } from './types.js';
+
+const TOKEN_URL = 'https://oauth2.test/token';
+const API_URL = 'https://calendar.test';
+
+const providerConfig: ProviderConfig = {
+  clientId: 'client',
+  clientSecret: 'secret',
+  accountsUrl: 'https://accounts.test',
+  tokenUrl: TOKEN_URL,
+  oauthScopes: 'https://www.googleapis.com/auth/calendar',
+};
+
+const oauthConfig: OAuthConfig = {
+  redirectUri: 'https://mcp.test/callback',
+  redirectAllowlist: [],
+  redirectAllowAll: false,
+};
+
+const originalFetch = globalThis.fetch;
+const originalApiUrl = process.env.PROVIDER_API_URL;
+
+/** Email of the account behind each Google access token */
+let emails: Record<string, string>;
+/** What the provider's token endpoint answers with next */
+let grant: { access_token: string; refresh_token?: string; scope?: string };
+
+beforeEach(() => {
+  sharedLogger.setLevel('error');
+  process.env.PROVIDER_API_URL = API_URL;
+  emails = { default: 'me@example.com' };
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    if (url === TOKEN_URL) {
+      return Response.json({ expires_in: 3600, ...grant });
+    }
+    expect(url).toStartWith(`${API_URL}/users/me/calendarList`);
+    const token = new Headers(init?.headers)
+      .get('authorization')
+      ?.replace('Bearer ', '');
+    const email = token ? emails[token] : undefined;
+    return email
+      ? Response.json({ items: [{ id: email, primary: true }] })
+      : Response.json(
+          { error: { code: 401, message: 'Invalid Credentials' } },
+          { status: 401 },
+        );
+  }) as typeof fetch;
+});
+
+afterEach(() => {
+  setSystemTime();
+  globalThis.fetch = originalFetch;
+  if (originalApiUrl === undefined) delete process.env.PROVIDER_API_URL;
+  else process.env.PROVIDER_API_URL = originalApiUrl;
+});
+
+async function signedIn() {
+  const store = new MemoryTokenStore();
+  await store.storeRsMapping(
+    'rs-access',
+    { access_token: 'default', refresh_token: 'default-refresh' },
+    'rs-refresh',
+  );
+  return store;
+}
+
+const flowOptions = { baseUrl: 'https://mcp.test', isDev: false };
+
+async function startLink(store: MemoryTokenStore) {
+  const url = await createAccountLink(store, 'rs-access', 'https://mcp.test');
+  return new URL(url).searchParams.get('link') ?? '';
+}
+
+function authorize(store: MemoryTokenStore, txnId: string, cookie?: string) {
+  return handleAuthorize(
+    {
+      codeChallenge: '',
+      codeChallengeMethod: '',
+      redirectUri: '',
+      link: txnId,
+      linkConfirmed: cookie !== undefined,
+      linkCookie: cookie,
+    },
+    store,
+    providerConfig,
+    oauthConfig,
+    flowOptions,
+  );
+}
+
+function callback(store: MemoryTokenStore, txnId: string, cookie?: string) {
+  return handleProviderCallback(
+    { providerCode: 'code', compositeState: txnId, linkCookie: cookie },
+    store,
+    providerConfig,
+    oauthConfig,
+    flowOptions,
+  );
+}
+
+/** Run a whole link flow that ends with the provider granting `tokens` */
+async function link(store: MemoryTokenStore, email: string, tokens: typeof grant) {
+  emails[tokens.access_token] = email;
+  grant = tokens;
+  const txnId = await startLink(store);
+  const { confirmLink } = await authorize(store, txnId);
+  await authorize(store, txnId, confirmLink?.cookie);
+  return callback(store, txnId, confirmLink?.cookie);
+}
+
+async function linkedAccounts(store: MemoryTokenStore): Promise<ProviderTokens[]> {
+  return (await store.getByRsRefresh('rs-refresh'))?.linked_accounts ?? [];
+}
+
+describe('account linking', () => {
+  test('adds a new account with its email', async () => {
+    const store = await signedIn();
+
+    const result = await link(store, 'Work@Example.com', {
+      access_token: 'work-1',
+      refresh_token: 'work-refresh',
+    });
+
+    expect(result.linked).toBe(true);
+    expect(await linkedAccounts(store)).toEqual([
+      expect.objectContaining({
+        access_token: 'work-1',
+        refresh_token: 'work-refresh',
+        email: 'work@example.com',
+      }),
+    ]);
+  });
+
+  test('linking an account again replaces its tokens and keeps the refresh token', async () => {
+    const store = await signedIn();
+    await link(store, 'work@example.com', {
+      access_token: 'work-1',
+      refresh_token: 'work-refresh',
+    });
+
+    // Google leaves out the refresh token when consent was already given
+    await link(store, 'work@example.com', {
+      access_token: 'work-2',
+      scope: 'https://www.googleapis.com/auth/calendar.events',
+    });
+
+    expect(await linkedAccounts(store)).toEqual([
+      expect.objectContaining({
+        access_token: 'work-2',
+        refresh_token: 'work-refresh',
+        email: 'work@example.com',
+        scopes: ['https://www.googleapis.com/auth/calendar.events'],
+      }),
+    ]);
+  });
+
+  test('linking the signed-in account updates it instead of adding a copy', async () => {
+    const store = await signedIn();
+
+    await link(store, 'me@example.com', { access_token: 'default-2' });
+
+    const record = await store.getByRsRefresh('rs-refresh');
+    expect(record?.provider).toMatchObject({
+      access_token: 'default-2',
+      refresh_token: 'default-refresh',
+      email: 'me@example.com',
+    });
+    expect(record?.linked_accounts ?? []).toEqual([]);
+  });
+
+  test('collapses copies left by earlier links', async () => {
+    const store = await signedIn();
+    emails['old-1'] = 'work@example.com';
+    emails['old-2'] = 'work@example.com';
+    await store.setLinkedAccounts('rs-refresh', [
+      { access_token: 'old-1', refresh_token: 'old-refresh' },
+      { access_token: 'old-2', refresh_token: 'old-refresh' },
+    ]);
+
+    await link(store, 'work@example.com', { access_token: 'work-new' });
+
+    expect(await linkedAccounts(store)).toEqual([
+      expect.objectContaining({ access_token: 'work-new', email: 'work@example.com' }),
+    ]);
+  });
+
+  test('the limit counts distinct accounts', async () => {
+    const store = await signedIn();
+    for (let i = 0; i < 10; i++) {
+      await link(store, `user${i}@example.com`, { access_token: `token-${i}` });
+    }
+
+    // Re-linking one of them is still allowed at the limit
+    await link(store, 'user3@example.com', { access_token: 'token-3b' });
+    expect(await linkedAccounts(store)).toHaveLength(10);
+
+    await expect(
+      link(store, 'user10@example.com', { access_token: 'token-10' }),
+    ).rejects.toThrow('at most 10 accounts can be linked');
+  });
+});
+
+describe('account link confirmation', () => {
+  test('names the identity and continues to Google once confirmed', async () => {
+    const store = await signedIn();
+    const txnId = await startLink(store);
+
+    const page = await authorize(store, txnId);
+    expect(page.confirmLink).toEqual({
+      identity: 'me@example.com',
+      cookie: expect.any(String),
+    });
+    expect(page.redirectTo).toBe(`https://mcp.test/authorize?link=${txnId}&confirm=1`);
+
+    const confirmed = await authorize(store, txnId, page.confirmLink?.cookie);
+    expect(confirmed.confirmLink).toBeUndefined();
+    expect(confirmed.redirectTo).toStartWith('https://accounts.test/authorize');
+  });
+
+  test('a link forwarded to another browser cannot complete', async () => {
+    const store = await signedIn();
+    emails['victim-token'] = 'victim@example.com';
+    grant = { access_token: 'victim-token' };
+    const txnId = await startLink(store);
+    // The creator opens their own link, then sends the victim the next step
+    await authorize(store, txnId);
+
+    await expect(authorize(store, txnId, 'guessed')).rejects.toThrow(
+      'confirm the account link in the browser that opened it',
+    );
+    await expect(callback(store, txnId)).rejects.toThrow(
+      'not confirmed in this browser',
+    );
+    await expect(callback(store, txnId, 'guessed')).rejects.toThrow(
+      'not confirmed in this browser',
+    );
+    expect(await linkedAccounts(store)).toEqual([]);
+  });
+
+  test('links expire after 5 minutes', async () => {
+    const store = await signedIn();
+    const txnId = await startLink(store);
+    const { confirmLink } = await authorize(store, txnId);
+
+    setSystemTime(new Date(Date.now() + 6 * 60_000));
+
+    await expect(authorize(store, txnId, confirmLink?.cookie)).rejects.toThrow(
+      'unknown or expired account link',
+    );
+  });
+});
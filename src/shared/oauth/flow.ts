@@ -2,7 +2,8 @@
 // Provider-agnostic version from Spotify MCP
 
 import { createHash, randomBytes } from 'node:crypto';
-import type { ProviderTokens, TokenStore } from '../storage/interface.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import type { ProviderTokens, TokenStore, Transaction } from '../storage/interface.js';
 import {
   base64Encode,
   base64UrlDecodeJson,
@@ -22,7 +23,7 @@ import type {
 } from './types.js';
 
 // Async SHA-256 for Workers/Node
-async function sha256B64UrlAsync(input: string): Promise<string> {
+export async function sha256B64UrlAsync(input: string): Promise<string> {
   if (typeof Buffer !== 'undefined') {
     const hash = createHash('sha256').update(input).digest();
     return base64UrlEncode(hash);
@@ -67,6 +68,279 @@ function isAllowedRedirect(uri: string, config: OAuthConfig, isDev: boolean): bo
   }
 }
 
+/**
+ * Whether a redirect URI is one the client registered. Loopback URIs may use
+ * any port, as native apps pick one at runtime (RFC 8252 section 7.3).
+ */
+function isRegisteredRedirect(uri: string, registered: string[]): boolean {
+  if (registered.includes(uri)) {
+    return true;
+  }
+  try {
+    const url = new URL(uri);
+    if (!['127.0.0.1', '[::1]', 'localhost'].includes(url.hostname)) {
+      return false;
+    }
+    return registered.some((candidate) => {
+      const allowed = new URL(candidate);
+      allowed.port = url.port;
+      return allowed.toString() === url.toString();
+    });
+  } catch {
+    return false;
+  }
+}
+
+/** Accounts an identity can link besides the one it signed in with */
+const MAX_LINKED_ACCOUNTS = 10;
+
+/** How long an account link can be used, from its creation */
+const LINK_TTL_SECONDS = 5 * 60;
+
+/**
+ * Provider authorization URL that returns to our callback with `state`.
+ */
+function buildProviderAuthUrl(
+  providerConfig: ProviderConfig,
+  options: { baseUrl: string; callbackPath?: string },
+  requestedScope: string | undefined,
+  state: string,
+): URL {
+  const authUrl = providerConfig.authorizationUrl
+    ? new URL(providerConfig.authorizationUrl)
+    : new URL('/authorize', providerConfig.accountsUrl);
+  authUrl.searchParams.set('response_type', 'code');
+  authUrl.searchParams.set('client_id', providerConfig.clientId ?? '');
+
+  const callbackPath = options.callbackPath || '/oauth/callback';
+  const cb = new URL(callbackPath, options.baseUrl).toString();
+  authUrl.searchParams.set('redirect_uri', cb);
+
+  // Provider scopes a client asks for beyond the configured ones (after an
+  // insufficient_scope challenge) are added on top of what the user already
+  // granted. Other requested scopes, such as a client's own, are dropped.
+  const configured = providerConfig.oauthScopes.split(/\s+/).filter(Boolean);
+  const extra = (requestedScope ?? '')
+    .split(/\s+/)
+    .filter(
+      (scope) =>
+        scope &&
+        !configured.includes(scope) &&
+        (!configured.length || scope.includes('://')),
+    );
+  const scopeToUse = [...new Set([...configured, ...extra])].join(' ');
+  if (scopeToUse) {
+    authUrl.searchParams.set('scope', scopeToUse);
+  }
+  if (configured.length && extra.length) {
+    authUrl.searchParams.set('include_granted_scopes', 'true');
+  }
+
+  authUrl.searchParams.set('state', state);
+
+  // Apply extra auth params (e.g., access_type=offline&prompt=consent for Google)
+  if (providerConfig.extraAuthParams) {
+    const extraParams = new URLSearchParams(providerConfig.extraAuthParams);
+    for (const [key, value] of extraParams) {
+      authUrl.searchParams.set(key, value);
+    }
+  }
+
+  return authUrl;
+}
+
+/**
+ * Start linking another provider account to a signed-in identity. The link
+ * is single use and expires after 5 minutes. Linking an account again with
+ * `scope` grants it those scopes as well.
+ *
+ * @returns URL the user opens in a browser
+ */
+export async function createAccountLink(
+  store: TokenStore,
+  rsAccessToken: string,
+  authBaseUrl: string,
+  scope?: string,
+): Promise<string> {
+  const record = await store.getByRsAccess(rsAccessToken);
+  if (!record) {
+    throw new Error('invalid_token');
+  }
+
+  const txnId = generateOpaqueToken(16);
+  await store.saveTransaction(
+    txnId,
+    {
+      codeChallenge: '',
+      createdAt: Date.now(),
+      linkTo: record.rs_refresh_token,
+      ...(scope && { scope }),
+    },
+    LINK_TTL_SECONDS,
+  );
+
+  const url = new URL('/authorize', authBaseUrl);
+  url.searchParams.set('link', txnId);
+  return url.toString();
+}
+
+/** Stores may keep transactions longer than a link is valid */
+function linkExpired(txn: Transaction): boolean {
+  return Date.now() - txn.createdAt > LINK_TTL_SECONDS * 1000;
+}
+
+/** Whether `cookie` is the one the link's confirmation page set */
+async function linkCookieMatches(
+  txn: Transaction,
+  cookie: string | undefined,
+): Promise<boolean> {
+  return Boolean(
+    txn.linkCookieHash &&
+      cookie &&
+      (await sha256B64UrlAsync(cookie)) === txn.linkCookieHash,
+  );
+}
+
+/**
+ * Continue a pending account link. Anyone holding the link URL could open
+ * it, so the first visit returns a confirmation naming the identity the
+ * account joins, with a cookie for that browser; only the confirmed visit
+ * goes on to the provider, and the callback requires the same cookie. The
+ * transaction was created server-side, so there is no client, PKCE or
+ * redirect URI.
+ */
+async function authorizeAccountLink(
+  input: AuthorizeInput,
+  store: TokenStore,
+  providerConfig: ProviderConfig,
+  options: { baseUrl: string; callbackPath?: string },
+): Promise<AuthorizeResult> {
+  const txnId = input.link ?? '';
+  const txn = await store.getTransaction(txnId);
+  if (!txn?.linkTo || linkExpired(txn)) {
+    throw new Error('invalid_request: unknown or expired account link');
+  }
+  if (!providerConfig.clientId || !providerConfig.clientSecret) {
+    throw new Error('invalid_request: linking accounts needs provider credentials');
+  }
+
+  if (!input.linkConfirmed) {
+    const cookie = generateOpaqueToken(24);
+    await store.saveTransaction(
+      txnId,
+      { ...txn, linkCookieHash: await sha256B64UrlAsync(cookie) },
+      LINK_TTL_SECONDS,
+    );
+    const record = await store.getByRsRefresh(txn.linkTo);
+    const identity = record ? await providerAccountEmail(record.provider) : undefined;
+
+    const confirmUrl = new URL('/authorize', options.baseUrl);
+    confirmUrl.searchParams.set('link', txnId);
+    confirmUrl.searchParams.set('confirm', '1');
+    return {
+      redirectTo: confirmUrl.toString(),
+      txnId,
+      confirmLink: { ...(identity && { identity }), cookie },
+    };
+  }
+  if (!(await linkCookieMatches(txn, input.linkCookie))) {
+    throw new Error(
+      'invalid_request: confirm the account link in the browser that opened it',
+    );
+  }
+
+  const authUrl = buildProviderAuthUrl(
+    providerConfig,
+    options,
+    txn.scope,
+    base64UrlEncodeJson({ tid: txnId }) || txnId,
+  );
+  // Let the user pick another account than the one they are signed in with
+  authUrl.searchParams.set('prompt', 'select_account consent');
+
+  logger.info('oauth_authorize', {
+    message: 'Redirecting to provider to link an account',
+  });
+
+  return { redirectTo: authUrl.toString(), txnId };
+}
+
+/**
+ * Email of the account behind provider tokens: its recorded email, else the
+ * id of its primary calendar. Undefined if the token no longer works.
+ */
+async function providerAccountEmail(
+  provider: ProviderTokens,
+): Promise<string | undefined> {
+  if (provider.email) return provider.email.toLowerCase();
+  try {
+    const client = new GoogleCalendarClient(provider.access_token);
+    return (await client.getPrimaryCalendar()).id.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Add provider tokens from a completed link flow to the identity. Linking an
+ * account again (e.g. to grant more scopes) replaces its tokens in place.
+ */
+async function linkProviderAccount(
+  store: TokenStore,
+  rsRefresh: string,
+  provider: ProviderTokens,
+): Promise<void> {
+  const record = await store.getByRsRefresh(rsRefresh);
+  if (!record) {
+    throw new Error('invalid_grant: the signed-in session has ended');
+  }
+
+  const email = await providerAccountEmail(provider);
+  const incoming = { ...provider, ...(email && { email }) };
+  // Google may leave out the refresh token when consent was given before
+  const replacing = (current: ProviderTokens): ProviderTokens => ({
+    ...incoming,
+    refresh_token: incoming.refresh_token ?? current.refresh_token,
+  });
+
+  if (email && (await providerAccountEmail(record.provider)) === email) {
+    await store.updateByRsRefresh(rsRefresh, replacing(record.provider));
+    return;
+  }
+
+  // One entry per account; copies left by earlier links collapse into it
+  const linked: ProviderTokens[] = [];
+  const seen = new Map<string, number>();
+  let replaced = false;
+  for (const account of record.linked_accounts ?? []) {
+    const accountEmail = await providerAccountEmail(account);
+    const next =
+      email && accountEmail === email
+        ? replacing(account)
+        : { ...account, ...(accountEmail && { email: accountEmail }) };
+    replaced ||= next.email === email && email !== undefined;
+
+    const index = accountEmail ? seen.get(accountEmail) : undefined;
+    if (index !== undefined) {
+      linked[index] = next;
+      continue;
+    }
+    if (accountEmail) seen.set(accountEmail, linked.length);
+    linked.push(next);
+  }
+
+  if (!replaced) {
+    if (linked.length >= MAX_LINKED_ACCOUNTS) {
+      throw new Error(
+        `invalid_request: at most ${MAX_LINKED_ACCOUNTS} accounts can be linked`,
+      );
+    }
+    linked.push(incoming);
+  }
+
+  await store.setLinkedAccounts(rsRefresh, linked);
+}
+
 /**
  * Handle authorization request - redirect to provider or issue dev code
  */
@@ -81,6 +355,9 @@ export async function handleAuthorize(
     callbackPath?: string;
   },
 ): Promise<AuthorizeResult> {
+  if (input.link) {
+    return authorizeAccountLink(input, store, providerConfig, options);
+  }
   if (!input.redirectUri) {
     throw new Error('invalid_request: redirect_uri is required');
   }
@@ -90,6 +367,20 @@ export async function handleAuthorize(
     );
   }
 
+  // Dynamically registered clients may only use their registered redirect URIs;
+  // requests without a client_id fall back to the configured allowlist
+  if (input.clientId) {
+    const client = await store.getClient(input.clientId);
+    if (!client) {
+      throw new Error('invalid_client: unknown client_id');
+    }
+    if (!isRegisteredRedirect(input.redirectUri, client.redirect_uris)) {
+      throw new Error(
+        'invalid_request: redirect_uri is not registered for this client',
+      );
+    }
+  }
+
   const txnId = generateOpaqueToken(16);
   await store.saveTransaction(txnId, {
     codeChallenge: input.codeChallenge,
@@ -97,6 +388,7 @@ export async function handleAuthorize(
     createdAt: Date.now(),
     scope: input.requestedScope,
     sid: input.sid,
+    ...(input.clientId && { clientId: input.clientId, redirectUri: input.redirectUri }),
   });
 
   logger.debug('oauth_authorize', {
@@ -111,21 +403,6 @@ export async function handleAuthorize(
       message: 'Using production flow - redirecting to provider',
     });
 
-    const authUrl = providerConfig.authorizationUrl
-      ? new URL(providerConfig.authorizationUrl)
-      : new URL('/authorize', providerConfig.accountsUrl);
-    authUrl.searchParams.set('response_type', 'code');
-    authUrl.searchParams.set('client_id', providerConfig.clientId);
-
-    const callbackPath = options.callbackPath || '/oauth/callback';
-    const cb = new URL(callbackPath, options.baseUrl).toString();
-    authUrl.searchParams.set('redirect_uri', cb);
-
-    const scopeToUse = providerConfig.oauthScopes || input.requestedScope || '';
-    if (scopeToUse) {
-      authUrl.searchParams.set('scope', scopeToUse);
-    }
-
     const compositeState =
       base64UrlEncodeJson({
         tid: txnId,
@@ -134,15 +411,12 @@ export async function handleAuthorize(
         sid: input.sid,
       }) || txnId;
 
-    authUrl.searchParams.set('state', compositeState);
-
-    // Apply extra auth params (e.g., access_type=offline&prompt=consent for Google)
-    if (providerConfig.extraAuthParams) {
-      const extraParams = new URLSearchParams(providerConfig.extraAuthParams);
-      for (const [key, value] of extraParams) {
-        authUrl.searchParams.set(key, value);
-      }
-    }
+    const authUrl = buildProviderAuthUrl(
+      providerConfig,
+      options,
+      input.requestedScope,
+      compositeState,
+    );
 
     logger.debug('oauth_authorize', {
       message: 'Redirect URL constructed',
@@ -164,9 +438,10 @@ export async function handleAuthorize(
   const code = generateOpaqueToken(16);
   await store.saveCode(code, txnId);
 
-  const safe = isAllowedRedirect(input.redirectUri, oauthConfig, options.isDev)
-    ? input.redirectUri
-    : oauthConfig.redirectUri;
+  const safe =
+    input.clientId || isAllowedRedirect(input.redirectUri, oauthConfig, options.isDev)
+      ? input.redirectUri
+      : oauthConfig.redirectUri;
 
   const redirect = new URL(safe);
   redirect.searchParams.set('code', code);
@@ -214,6 +489,16 @@ export async function handleProviderCallback(
     throw new Error('unknown_txn');
   }
 
+  // A link completes only in the browser that confirmed it
+  if (
+    txn.linkTo &&
+    (linkExpired(txn) || !(await linkCookieMatches(txn, input.linkCookie)))
+  ) {
+    throw new Error(
+      'invalid_request: the account link was not confirmed in this browser',
+    );
+  }
+
   // Exchange code with provider
   const tokenEndpointPath = options.tokenEndpointPath || '/api/token';
   const tokenUrl = providerConfig.tokenUrl
@@ -303,6 +588,16 @@ export async function handleProviderCallback(
     expiresIn: data.expires_in,
   });
 
+  // Linking flow: the tokens join an existing identity, no code is issued
+  if (txn.linkTo) {
+    await linkProviderAccount(store, txn.linkTo, providerTokens);
+    await store.deleteTransaction(txnId);
+
+    logger.info('oauth_callback', { message: 'Provider account linked' });
+
+    return { redirectTo: '', txnId, providerTokens, linked: true };
+  }
+
   // Update transaction with provider tokens
   txn.provider = providerTokens;
   await store.saveTransaction(txnId, txn);
@@ -315,10 +610,12 @@ export async function handleProviderCallback(
     message: 'RS code generated',
   });
 
-  const clientRedirect = decoded.cr || oauthConfig.redirectUri;
-  const safe = isAllowedRedirect(clientRedirect, oauthConfig, options.isDev)
-    ? clientRedirect
-    : oauthConfig.redirectUri;
+  // A registered client's redirect URI was already checked in handleAuthorize
+  const clientRedirect = txn.redirectUri || decoded.cr || oauthConfig.redirectUri;
+  const safe =
+    txn.redirectUri || isAllowedRedirect(clientRedirect, oauthConfig, options.isDev)
+      ? clientRedirect
+      : oauthConfig.redirectUri;
 
   const redirect = new URL(safe);
   redirect.searchParams.set('code', asCode);
@@ -448,10 +745,10 @@ export async function handleToken(
       }
 
       try {
-        provider = await refreshProviderToken(
-          rec.provider.refresh_token,
-          providerConfig,
-        );
+        provider = {
+          ...(await refreshProviderToken(rec.provider.refresh_token, providerConfig)),
+          email: rec.provider.email,
+        };
       } catch (error) {
         logger.error('oauth_token', {
           message: 'Provider refresh failed',
@@ -465,7 +762,8 @@ export async function handleToken(
     // Only rotate when provider refresh_token changed (security vs KV quota trade-off)
     // When provider rotates its refresh_token, we rotate RS token for security.
     // Otherwise, keep the same RS token to save KV write operations.
-    const providerRefreshRotated = provider.refresh_token !== rec.provider.refresh_token;
+    const providerRefreshRotated =
+      provider.refresh_token !== rec.provider.refresh_token;
     const newAccess = providerRefreshRotated ? generateOpaqueToken(24) : undefined;
 
     const updated = await store.updateByRsRefresh(
@@ -515,6 +813,20 @@ export async function handleToken(
     throw new Error('invalid_grant');
   }
 
+  // The code belongs to the client that requested it, and only while it is registered
+  if (txn.clientId) {
+    const client =
+      !input.clientId || input.clientId === txn.clientId
+        ? await store.getClient(txn.clientId)
+        : null;
+    if (!client) {
+      logger.error('oauth_token', {
+        message: 'Client mismatch or client no longer registered',
+      });
+      throw new Error('invalid_grant');
+    }
+  }
+
   // Verify PKCE
   const expected = txn.codeChallenge;
   const actual = await sha256B64UrlAsync(input.codeVerifier);
@@ -535,7 +847,7 @@ export async function handleToken(
   });
 
   if (txn.provider?.access_token) {
-    await store.storeRsMapping(rsAccess, txn.provider, rsRefresh);
+    await store.storeRsMapping(rsAccess, txn.provider, rsRefresh, txn.sid);
     logger.info('oauth_token', {
       message: 'RS→Provider mapping stored',
     });
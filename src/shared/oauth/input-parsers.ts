@@ -5,13 +5,38 @@ import type {
   AuthorizeInput,
   OAuthConfig,
   ProviderConfig,
+  RegisterInput,
+  RevokeInput,
   TokenInput,
 } from './types.js';
 
+/** Cookie that ties an account link to the browser that confirmed it */
+export const LINK_COOKIE = 'mcp_link';
+
+/**
+ * Read the account link cookie from a Cookie header.
+ */
+export function parseLinkCookie(
+  cookieHeader: string | null | undefined,
+): string | undefined {
+  for (const part of (cookieHeader ?? '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === LINK_COOKIE && value.length) {
+      return value.join('=') || undefined;
+    }
+  }
+  return undefined;
+}
+
 /**
- * Parse authorization request from URL search params.
+ * Parse authorization request from URL search params (and the account link
+ * cookie from the Cookie header).
  */
-export function parseAuthorizeInput(url: URL, sessionId?: string): AuthorizeInput {
+export function parseAuthorizeInput(
+  url: URL,
+  sessionId?: string,
+  cookieHeader?: string | null,
+): AuthorizeInput {
   return {
     codeChallenge: url.searchParams.get('code_challenge') || '',
     codeChallengeMethod: url.searchParams.get('code_challenge_method') || '',
@@ -19,6 +44,10 @@ export function parseAuthorizeInput(url: URL, sessionId?: string): AuthorizeInpu
     requestedScope: url.searchParams.get('scope') ?? undefined,
     state: url.searchParams.get('state') ?? undefined,
     sid: url.searchParams.get('sid') || sessionId || undefined,
+    clientId: url.searchParams.get('client_id') || undefined,
+    link: url.searchParams.get('link') || undefined,
+    linkConfirmed: url.searchParams.get('confirm') === '1',
+    linkCookie: parseLinkCookie(cookieHeader),
   };
 }
 
@@ -71,12 +100,65 @@ export function buildTokenInput(form: URLSearchParams): TokenInput | { error: st
     if (!code || !codeVerifier) {
       return { error: 'missing_code_or_verifier' };
     }
-    return { grant: 'authorization_code', code, codeVerifier };
+    return {
+      grant: 'authorization_code',
+      code,
+      codeVerifier,
+      clientId: form.get('client_id') || undefined,
+    };
   }
 
   return { error: 'unsupported_grant_type' };
 }
 
+/**
+ * Parse client metadata from a registration (RFC 7591) or update (RFC 7592) body.
+ */
+export function parseRegisterInput(body: Record<string, unknown>): RegisterInput {
+  const stringArray = (value: unknown): string[] | undefined =>
+    Array.isArray(value)
+      ? value.filter((v): v is string => typeof v === 'string')
+      : undefined;
+  const string = (value: unknown): string | undefined =>
+    typeof value === 'string' ? value : undefined;
+
+  return {
+    client_id: string(body.client_id),
+    redirect_uris: stringArray(body.redirect_uris),
+    grant_types: stringArray(body.grant_types),
+    response_types: stringArray(body.response_types),
+    token_endpoint_auth_method: string(body.token_endpoint_auth_method),
+    client_name: string(body.client_name),
+  };
+}
+
+/**
+ * Read the registration access token from an Authorization: Bearer header.
+ */
+export function parseRegistrationToken(
+  authorization: string | null | undefined,
+): string | undefined {
+  return authorization?.match(/^\s*Bearer\s+(.+)$/i)?.[1];
+}
+
+/**
+ * Build RevokeInput from parsed form data (RFC 7009).
+ */
+export function buildRevokeInput(
+  form: URLSearchParams,
+): RevokeInput | { error: string } {
+  const token = form.get('token');
+  if (!token) {
+    return { error: 'invalid_request' };
+  }
+
+  // Unknown hints are ignored, as RFC 7009 allows
+  const hint = form.get('token_type_hint');
+  return hint === 'access_token' || hint === 'refresh_token'
+    ? { token, tokenTypeHint: hint }
+    : { token };
+}
+
 /**
  * Build ProviderConfig from UnifiedConfig.
  */
@@ -87,6 +169,7 @@ export function buildProviderConfig(config: UnifiedConfig): ProviderConfig {
     accountsUrl: config.PROVIDER_ACCOUNTS_URL || 'https://provider.example.com',
     authorizationUrl: config.OAUTH_AUTHORIZATION_URL,
     tokenUrl: config.OAUTH_TOKEN_URL,
+    revocationUrl: config.OAUTH_REVOCATION_URL,
     oauthScopes: config.OAUTH_SCOPES,
     extraAuthParams: config.OAUTH_EXTRA_AUTH_PARAMS,
   };
@@ -0,0 +1,56 @@
+// Account link confirmation page for both Node.js and Cloudflare Workers
+
+import { LINK_COOKIE } from './input-parsers.js';
+import type { AuthorizeResult } from './types.js';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Set-Cookie value for the account link cookie; an empty value clears it.
+ * Lax so it comes back with the provider's redirect to the callback.
+ */
+export function linkCookieHeader(value: string, baseUrl: string): string {
+  const secure = new URL(baseUrl).protocol === 'https:' ? '; Secure' : '';
+  const maxAge = value ? 5 * 60 : 0;
+  return `${LINK_COOKIE}=${value}; Path=/; Max-Age=${maxAge}; HttpOnly; SameSite=Lax${secure}`;
+}
+
+/**
+ * Page asking the user to confirm an account link, naming the identity the
+ * account will join, with the cookie the confirmed visit must carry.
+ */
+export function accountLinkConfirmation(
+  result: AuthorizeResult & {
+    confirmLink: NonNullable<AuthorizeResult['confirmLink']>;
+  },
+  baseUrl: string,
+): Response {
+  const identity = result.confirmLink.identity
+    ? `<strong>${escapeHtml(result.confirmLink.identity)}</strong>`
+    : 'an existing sign-in';
+  const html = `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Link a Google account</title></head>
+<body>
+<h1>Link a Google account</h1>
+<p>The Google account you choose next will be added to ${identity}, which can then read and change its calendars.</p>
+<p>Only continue if you asked for this link from your own MCP client. If someone sent it to you, close this window.</p>
+<p><a href="${escapeHtml(result.redirectTo)}">Continue to Google</a></p>
+</body>
+</html>`;
+
+  return new Response(html, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'Set-Cookie': linkCookieHeader(result.confirmLink.cookie, baseUrl),
+    },
+  });
+}
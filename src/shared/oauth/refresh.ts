@@ -5,7 +5,8 @@
  * during tool execution to ensure tokens are fresh before making API calls.
  */
 
-import type { ProviderTokens, TokenStore } from '../storage/interface.js';
+import type { UnifiedConfig } from '../config/env.js';
+import type { ProviderTokens, RsRecord, TokenStore } from '../storage/interface.js';
 import { base64Encode } from '../utils/base64.js';
 import { sharedLogger as logger } from '../utils/logger.js';
 
@@ -20,6 +21,27 @@ export interface ProviderRefreshConfig {
   tokenEndpointPath?: string;
 }
 
+/**
+ * Build provider config for token refresh from unified config.
+ */
+export function buildProviderRefreshConfig(
+  config: UnifiedConfig,
+): ProviderRefreshConfig | undefined {
+  if (
+    !config.PROVIDER_CLIENT_ID ||
+    !config.PROVIDER_CLIENT_SECRET ||
+    !config.PROVIDER_ACCOUNTS_URL
+  ) {
+    return undefined;
+  }
+  return {
+    clientId: config.PROVIDER_CLIENT_ID,
+    clientSecret: config.PROVIDER_CLIENT_SECRET,
+    accountsUrl: config.PROVIDER_ACCOUNTS_URL,
+    tokenUrl: config.OAUTH_TOKEN_URL,
+  };
+}
+
 /** Token refresh result */
 export interface RefreshResult {
   success: boolean;
@@ -241,13 +263,14 @@ export async function ensureFreshToken(
 
   // Determine if RS access token should rotate
   // Only rotate when provider refresh_token changed (security trade-off for KV quota)
-  const providerRefreshRotated = result.tokens.refresh_token !== record.provider.refresh_token;
+  const providerRefreshRotated =
+    result.tokens.refresh_token !== record.provider.refresh_token;
   const newRsAccess = providerRefreshRotated ? undefined : record.rs_access_token;
 
   try {
     await tokenStore.updateByRsRefresh(
       record.rs_refresh_token,
-      result.tokens,
+      { ...result.tokens, email: record.provider.email },
       newRsAccess,
     );
 
@@ -268,3 +291,56 @@ export async function ensureFreshToken(
     return { accessToken: result.tokens.access_token, wasRefreshed: true };
   }
 }
+
+/**
+ * Refresh the linked accounts of a record that are near expiry.
+ *
+ * Accounts that cannot be refreshed keep their current token; tools using
+ * them then fail with auth_expired.
+ *
+ * @returns The linked accounts, refreshed where needed
+ */
+export async function ensureFreshLinkedAccounts(
+  record: RsRecord,
+  tokenStore: TokenStore,
+  providerConfig: ProviderRefreshConfig | undefined,
+): Promise<ProviderTokens[]> {
+  const linked = record.linked_accounts ?? [];
+  const throttleKey = `linked:${record.rs_refresh_token}`;
+  const stale = linked.some(
+    (account) => account.refresh_token && isTokenExpiredOrExpiring(account.expires_at),
+  );
+
+  if (!stale || !providerConfig || shouldSkipRefresh(throttleKey)) {
+    return linked;
+  }
+
+  const refreshed = await Promise.all(
+    linked.map(async (account) => {
+      if (!account.refresh_token || !isTokenExpiredOrExpiring(account.expires_at)) {
+        return account;
+      }
+      const result = await refreshProviderToken(account.refresh_token, providerConfig);
+      if (!result.success || !result.tokens) {
+        logger.error('oauth_refresh', {
+          message: 'Linked account refresh failed, using existing token',
+          error: result.error,
+        });
+        return account;
+      }
+      return { ...result.tokens, email: account.email };
+    }),
+  );
+
+  try {
+    await tokenStore.setLinkedAccounts(record.rs_refresh_token, refreshed);
+    markRefreshed(throttleKey);
+  } catch (error) {
+    logger.error('oauth_refresh', {
+      message: 'Failed to store refreshed linked accounts',
+      error: (error as Error).message,
+    });
+  }
+
+  return refreshed;
+}
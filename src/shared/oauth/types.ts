@@ -8,16 +8,35 @@ export type AuthorizeInput = {
   requestedScope?: string;
   state?: string;
   sid?: string;
+  /** Registered client; its redirect_uris are then enforced */
+  clientId?: string;
+  /** Pending account link (see createAccountLink); replaces the PKCE parameters */
+  link?: string;
+  /** The user confirmed the account link on its confirmation page */
+  linkConfirmed?: boolean;
+  /** Account link cookie set with the confirmation page */
+  linkCookie?: string;
 };
 
 export type AuthorizeResult = {
   redirectTo: string;
   txnId: string;
+  /**
+   * Set when an account link must be confirmed first: show a page naming the
+   * identity, set `cookie` as the link cookie, and continue to redirectTo.
+   */
+  confirmLink?: {
+    /** Email of the identity's signed-in account, if it can be read */
+    identity?: string;
+    cookie: string;
+  };
 };
 
 export type CallbackInput = {
   providerCode: string;
   compositeState: string;
+  /** Account link cookie, required when the callback completes a link */
+  linkCookie?: string;
 };
 
 export type CallbackResult = {
@@ -29,6 +48,8 @@ export type CallbackResult = {
     expires_at?: number;
     scopes?: string[];
   };
+  /** The account was linked to an existing identity; redirectTo is then empty */
+  linked?: boolean;
 };
 
 export type TokenInput =
@@ -36,6 +57,7 @@ export type TokenInput =
       grant: 'authorization_code';
       code: string;
       codeVerifier: string;
+      clientId?: string;
     }
   | {
       grant: 'refresh_token';
@@ -50,10 +72,23 @@ export type TokenResult = {
   scope: string;
 };
 
+export type RevokeInput = {
+  token: string;
+  /** RFC 7009 hint; only changes which lookup is tried first */
+  tokenTypeHint?: 'access_token' | 'refresh_token';
+};
+
+export type RevokeResult = {
+  status: 'ok';
+};
+
 export type RegisterInput = {
+  /** Must match the URL on updates (RFC 7592) */
+  client_id?: string;
   redirect_uris?: string[];
   grant_types?: string[];
   response_types?: string[];
+  token_endpoint_auth_method?: string;
   client_name?: string;
 };
 
@@ -66,7 +101,8 @@ export type RegisterResult = {
   grant_types: string[];
   response_types: string[];
   registration_client_uri: string;
-  registration_access_token: string;
+  /** Only returned on registration; later reads and updates keep the same token */
+  registration_access_token?: string;
   client_name?: string;
 };
 
@@ -76,6 +112,8 @@ export type ProviderConfig = {
   accountsUrl: string;
   authorizationUrl?: string;
   tokenUrl?: string;
+  /** Provider endpoint that revokes a refresh or access token (RFC 7009) */
+  revocationUrl?: string;
   oauthScopes: string;
   /** Extra query params for authorization URL (e.g., "access_type=offline&prompt=consent") */
   extraAuthParams?: string;
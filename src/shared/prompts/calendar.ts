@@ -0,0 +1,134 @@
+/**
+ * Calendar workflow prompts. Each one is a set of instructions that walks the
+ * model through the tools and resources; no API calls happen at render time,
+ * so prompts work before the user has authenticated.
+ */
+
+import { promptsMetadata } from '../../config/metadata.js';
+import {
+  DailyBriefingPromptArgs,
+  PlanWeekPromptArgs,
+  ScheduleMeetingPromptArgs,
+  TriageInvitationsPromptArgs,
+} from '../../schemas/prompts.js';
+import { definePrompt, userPrompt } from './types.js';
+
+function lines(...parts: string[]): string {
+  return parts.join('\n');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// plan_week
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const planWeekPrompt = definePrompt({
+  ...promptsMetadata.plan_week,
+  argsSchema: PlanWeekPromptArgs,
+
+  render: (args) => {
+    const week = args.weekOf ? `the week containing ${args.weekOf}` : 'this week';
+    return userPrompt(
+      `Plan ${week}`,
+      lines(
+        `Help me plan ${week}.`,
+        '',
+        "1. Call 'list_calendars' to learn my time zone and which calendars I use.",
+        `2. Call 'search_events' (all calendars) from Monday 00:00 to Sunday 24:00 of ${week} in my time zone.`,
+        '3. Give me a day-by-day overview: number of meetings, total meeting hours and the largest free block.',
+        '4. Point out problems: overlapping events, back-to-back stretches over 3 hours, meetings outside working hours, and invitations I have not answered.',
+        args.focus
+          ? `5. Propose focus blocks for "${args.focus}" in the free time, preferring mornings and blocks of at least 90 minutes.`
+          : '5. Propose focus blocks in the free time, preferring mornings and blocks of at least 90 minutes.',
+        '',
+        "Do not create, move or decline anything yet. Ask me which suggestions to apply, then use 'create_event', 'update_event' or 'respond_to_event'.",
+      ),
+    );
+  },
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// daily_briefing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const dailyBriefingPrompt = definePrompt({
+  ...promptsMetadata.daily_briefing,
+  argsSchema: DailyBriefingPromptArgs,
+
+  render: (args) => {
+    const date = args.date || 'today';
+    return userPrompt(
+      `Daily briefing for ${date}`,
+      lines(
+        `Give me a briefing for ${date}.`,
+        '',
+        `Read the resource gcal://agenda/${encodeURIComponent(date)} (or call 'search_events' for that day across all calendars if resources are unavailable).`,
+        '',
+        'Then write:',
+        '- A one-line summary: number of meetings, first start and last end.',
+        '- Each event in order with time, title, location or Meet link, and who is attending.',
+        '- What to prepare: agendas, documents in descriptions, external attendees.',
+        '- Conflicts, double bookings and gaps under 10 minutes between events in different locations.',
+        '- Invitations for the day that still need my response.',
+        '',
+        'Keep it short and scannable. Do not change anything in the calendar.',
+      ),
+    );
+  },
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// schedule_meeting
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const scheduleMeetingPrompt = definePrompt({
+  ...promptsMetadata.schedule_meeting,
+  argsSchema: ScheduleMeetingPromptArgs,
+
+  render: (args) => {
+    const attendees = args.attendees
+      .split(',')
+      .map((a) => a.trim())
+      .filter(Boolean);
+    const duration = Number(args.duration) > 0 ? Number(args.duration) : 30;
+    const window = args.window || 'the next 5 working days';
+    const topic = args.topic ? `"${args.topic}"` : 'a meeting';
+
+    return userPrompt(
+      `Schedule ${topic} with ${attendees.join(', ')}`,
+      lines(
+        `Schedule ${topic} (${duration} minutes) with ${attendees.join(', ')} within ${window}.`,
+        '',
+        `1. Call 'find_meeting_slots' with attendees ${JSON.stringify(attendees)}, durationMinutes ${duration}, and timeMin/timeMax covering ${window}.`,
+        "2. Show me the top 3 slots with each attendee's local time. Mention attendees whose availability could not be checked.",
+        '3. Wait for me to pick a slot.',
+        `4. Call 'create_event' with the chosen time, the attendees${args.topic ? `, summary "${args.topic}"` : ' and a clear summary'}, addGoogleMeet: true unless I ask for an in-person meeting, and sendUpdates: 'all'.`,
+        '5. Share the event link and confirm invitations were sent.',
+      ),
+    );
+  },
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// triage_invitations
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const triageInvitationsPrompt = definePrompt({
+  ...promptsMetadata.triage_invitations,
+  argsSchema: TriageInvitationsPromptArgs,
+
+  render: (args) => {
+    const days = Number(args.days) > 0 ? Math.floor(Number(args.days)) : 14;
+    return userPrompt(
+      `Triage invitations for the next ${days} days`,
+      lines(
+        `Help me triage calendar invitations I have not answered for the next ${days} days.`,
+        '',
+        `1. Call 'search_events' (all calendars) from now until ${days} days from now and keep events marked "you: not responded".`,
+        '2. For each invitation, check what else I have at that time and note conflicts.',
+        '3. Present a table: event, time, organizer, conflicts, and your recommendation (accept, decline or tentative) with a short reason.',
+        '',
+        "Ask me to confirm before answering. Then call 'respond_to_event' for each confirmed invitation and report what was sent.",
+      ),
+    );
+  },
+});
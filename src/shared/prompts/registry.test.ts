@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { InvalidInputError, NotFoundError } from '../../core/errors.js';
+import { listSharedPrompts, renderSharedPrompt } from './registry.js';
+
+function text(name: string, args?: Record<string, unknown>): string {
+  return renderSharedPrompt(name, args).messages[0].content.text;
+}
+
+describe('prompts', () => {
+  test('lists every workflow prompt with its arguments', () => {
+    const prompts = listSharedPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'plan_week',
+      'daily_briefing',
+      'schedule_meeting',
+      'triage_invitations',
+    ]);
+    expect(prompts.find((p) => p.name === 'schedule_meeting')?.arguments).toEqual([
+      expect.objectContaining({ name: 'attendees', required: true }),
+      expect.objectContaining({ name: 'topic', required: false }),
+      expect.objectContaining({ name: 'duration', required: false }),
+      expect.objectContaining({ name: 'window', required: false }),
+    ]);
+  });
+
+  test('schedule_meeting passes the attendees and duration to find_meeting_slots', () => {
+    const rendered = text('schedule_meeting', {
+      attendees: 'bob@example.com, carol@example.com,',
+      topic: 'Roadmap',
+      duration: '45',
+    });
+
+    expect(rendered).toContain(
+      'attendees ["bob@example.com","carol@example.com"], durationMinutes 45',
+    );
+    expect(rendered).toContain('summary "Roadmap"');
+  });
+
+  test('falls back to defaults for missing or unusable arguments', () => {
+    expect(
+      text('schedule_meeting', { attendees: 'bob@example.com', duration: 'soon' }),
+    ).toContain('durationMinutes 30');
+    expect(text('triage_invitations', { days: '-3' })).toContain('the next 14 days');
+    expect(text('daily_briefing')).toContain('gcal://agenda/today');
+    expect(text('plan_week')).toStartWith('Help me plan this week.');
+  });
+
+  test('rejects unknown prompts and missing required arguments', () => {
+    expect(() => renderSharedPrompt('greeting')).toThrow(NotFoundError);
+    expect(() => renderSharedPrompt('schedule_meeting', { attendees: '' })).toThrow(
+      InvalidInputError,
+    );
+  });
+});
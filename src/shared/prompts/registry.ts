@@ -0,0 +1,94 @@
+/**
+ * Shared prompt registry - single source of truth for all prompts.
+ * Prompts defined here work in both Node.js and Cloudflare Workers.
+ */
+
+import type { ZodObject, ZodRawShape } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { InvalidInputError, NotFoundError } from '../../core/errors.js';
+import {
+  dailyBriefingPrompt,
+  planWeekPrompt,
+  scheduleMeetingPrompt,
+  triageInvitationsPrompt,
+} from './calendar.js';
+import type { PromptResult } from './types.js';
+
+// Re-export types for convenience
+export type { PromptMessage, PromptResult, SharedPromptDefinition } from './types.js';
+export { definePrompt } from './types.js';
+
+/**
+ * Simplified prompt interface for the registry (type-erased for storage).
+ */
+export interface RegisteredPrompt {
+  name: string;
+  title: string;
+  description: string;
+  argsSchema: ZodObject<ZodRawShape>;
+  render: (args: Record<string, unknown>) => PromptResult;
+}
+
+/**
+ * All shared prompts available in both runtimes.
+ */
+export const sharedPrompts: RegisteredPrompt[] = [
+  planWeekPrompt as unknown as RegisteredPrompt,
+  dailyBriefingPrompt as unknown as RegisteredPrompt,
+  scheduleMeetingPrompt as unknown as RegisteredPrompt,
+  triageInvitationsPrompt as unknown as RegisteredPrompt,
+];
+
+export function getSharedPrompt(name: string): RegisteredPrompt | undefined {
+  return sharedPrompts.find((p) => p.name === name);
+}
+
+/**
+ * Entries for prompts/list, with arguments derived from each schema.
+ */
+export function listSharedPrompts() {
+  return sharedPrompts.map((prompt) => {
+    const schema = zodToJsonSchema(prompt.argsSchema) as {
+      properties?: Record<string, { description?: string }>;
+      required?: string[];
+    };
+    return {
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: Object.entries(schema.properties ?? {}).map(([name, property]) => ({
+        name,
+        description: property.description,
+        required: schema.required?.includes(name) ?? false,
+      })),
+    };
+  });
+}
+
+/**
+ * Render a prompt for prompts/get.
+ * Throws NotFoundError for unknown prompts and InvalidInputError for bad arguments.
+ */
+export function renderSharedPrompt(
+  name: string,
+  args: Record<string, unknown> = {},
+): PromptResult {
+  const prompt = getSharedPrompt(name);
+  if (!prompt) {
+    throw new NotFoundError(`Unknown prompt: ${name}`, {
+      hint: 'Use prompts/list to see available prompts.',
+    });
+  }
+
+  const parsed = prompt.argsSchema.safeParse(args);
+  if (!parsed.success) {
+    const errors = parsed.error.errors
+      .map((e) => `${e.path.join('.')}: ${e.message}`)
+      .join(', ');
+    throw new InvalidInputError(`Invalid prompt arguments: ${errors}`, {
+      hint: 'Prompt arguments are strings. Check prompts/list for the expected names.',
+    });
+  }
+
+  return prompt.render(parsed.data as Record<string, unknown>);
+}
@@ -0,0 +1,49 @@
+/**
+ * Shared prompt types for cross-runtime compatibility.
+ * These definitions work in both Node.js (Hono) and Cloudflare Workers.
+ */
+
+import type { ZodObject, ZodRawShape, z } from 'zod';
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+export interface PromptResult {
+  description?: string;
+  messages: PromptMessage[];
+  /** Keeps the shape assignable to the SDK's GetPromptResult */
+  [key: string]: unknown;
+}
+
+/**
+ * Framework-agnostic prompt definition. Arguments are strings per the MCP spec;
+ * the schema validates them and documents each one for prompts/list.
+ */
+export interface SharedPromptDefinition<TShape extends ZodRawShape = ZodRawShape> {
+  name: string;
+  title: string;
+  description: string;
+  argsSchema: ZodObject<TShape>;
+  render: (args: z.infer<ZodObject<TShape>>) => PromptResult;
+}
+
+/**
+ * Helper to define a prompt with type inference.
+ */
+export function definePrompt<TShape extends ZodRawShape>(
+  definition: SharedPromptDefinition<TShape>,
+): SharedPromptDefinition<TShape> {
+  return definition;
+}
+
+/**
+ * Wrap instructions as a single user message.
+ */
+export function userPrompt(description: string, text: string): PromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * Calendar resources - calendars, single events and daily agendas.
+ */
+
+import { resourcesMetadata } from '../../config/metadata.js';
+import { AuthRequiredError, InvalidInputError } from '../../core/errors.js';
+import {
+  type CalendarEvent,
+  GoogleCalendarClient,
+} from '../../services/google-calendar.js';
+import { CancellationError } from '../../utils/cancellation.js';
+import { formatDateInTimeZone, zonedTimeToUtc } from '../utils/time.js';
+import {
+  defineResource,
+  type ResourceContext,
+  type ResourceReadResult,
+} from './types.js';
+
+const JSON_MIME_TYPE = 'application/json';
+
+const URI_SCHEME = 'gcal://';
+
+export const CALENDARS_URI = `${URI_SCHEME}calendars`;
+
+/**
+ * URI of the event resource. IDs are encoded so calendar IDs containing `#`
+ * (e.g. holiday calendars) survive the round trip.
+ */
+export function eventResourceUri(calendarId: string, eventId: string): string {
+  return `${URI_SCHEME}calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`;
+}
+
+export function agendaResourceUri(date: string): string {
+  return `${URI_SCHEME}agenda/${encodeURIComponent(date)}`;
+}
+
+function clientFor(context: ResourceContext): GoogleCalendarClient {
+  if (!context.providerToken) {
+    throw new AuthRequiredError();
+  }
+  return new GoogleCalendarClient(context.providerToken, { signal: context.signal });
+}
+
+function jsonContents(uri: string, value: unknown): ResourceReadResult {
+  return {
+    contents: [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(value, null, 2) }],
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// gcal://calendars
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const calendarsResource = defineResource({
+  ...resourcesMetadata.calendars,
+  uri: CALENDARS_URI,
+  mimeType: JSON_MIME_TYPE,
+
+  read: async (uri, _params, context) => {
+    const { items } = await clientFor(context).listCalendars();
+    return jsonContents(uri, {
+      calendars: items.map((cal) => ({
+        id: cal.id,
+        summary: cal.summary,
+        description: cal.description,
+        primary: cal.primary ?? false,
+        accessRole: cal.accessRole,
+        timeZone: cal.timeZone,
+        backgroundColor: cal.backgroundColor,
+      })),
+    });
+  },
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// gcal://calendars/{calendarId}/events/{eventId}
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const EVENT_URI_TEMPLATE = `${URI_SCHEME}calendars/{calendarId}/events/{eventId}`;
+
+export const eventResource = defineResource({
+  ...resourcesMetadata.event,
+  uriTemplate: EVENT_URI_TEMPLATE,
+  mimeType: JSON_MIME_TYPE,
+
+  read: async (uri, params, context) => {
+    const event = await clientFor(context).getEvent(params.calendarId, params.eventId);
+    return jsonContents(uri, event);
+  },
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// gcal://agenda/{date}
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const AGENDA_URI_TEMPLATE = `${URI_SCHEME}agenda/{date}`;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Resolve 'today', 'tomorrow' or YYYY-MM-DD to a calendar date in the time zone.
+ */
+function resolveAgendaDate(
+  value: string,
+  timeZone: string,
+): { date: string; year: number; month: number; day: number } {
+  const date =
+    value === 'today' || value === 'tomorrow'
+      ? formatDateInTimeZone(
+          new Date(Date.now() + (value === 'tomorrow' ? 86_400_000 : 0)),
+          timeZone,
+        )
+      : value;
+
+  const match = DATE_PATTERN.exec(date);
+  if (!match) {
+    throw new InvalidInputError(`Invalid agenda date: ${value}`, {
+      hint: "Use YYYY-MM-DD, 'today' or 'tomorrow', e.g. gcal://agenda/2025-03-04.",
+    });
+  }
+  return {
+    date,
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+  };
+}
+
+function formatAgendaEvent(
+  event: CalendarEvent,
+  calendar: { id: string; summary: string },
+) {
+  const self = event.attendees?.find((a) => a.self);
+  return {
+    calendarId: calendar.id,
+    calendarName: calendar.summary,
+    id: event.id,
+    summary: event.summary ?? '(no title)',
+    start: event.start?.dateTime ?? event.start?.date,
+    end: event.end?.dateTime ?? event.end?.date,
+    allDay: Boolean(event.start?.date && !event.start?.dateTime),
+    location: event.location,
+    status: event.status,
+    responseStatus: self?.responseStatus,
+    eventType: event.eventType,
+    htmlLink: event.htmlLink,
+    hangoutLink: event.hangoutLink,
+    uri: eventResourceUri(calendar.id, event.id),
+  };
+}
+
+export const agendaResource = defineResource({
+  ...resourcesMetadata.agenda,
+  uriTemplate: AGENDA_URI_TEMPLATE,
+  mimeType: JSON_MIME_TYPE,
+
+  read: async (uri, params, context) => {
+    const client = clientFor(context);
+    const { items } = await client.listCalendars();
+    const primary = items.find((cal) => cal.primary);
+    const timeZone = primary?.timeZone ?? 'UTC';
+
+    const { date, year, month, day } = resolveAgendaDate(params.date, timeZone);
+    const timeMin = zonedTimeToUtc({ year, month, day }, timeZone);
+    const timeMax = zonedTimeToUtc({ year, month, day: day + 1 }, timeZone);
+
+    const readable = items.filter((cal) =>
+      ['owner', 'writer', 'reader'].includes(cal.accessRole),
+    );
+    const results = await Promise.all(
+      readable.map(async (calendar) => {
+        try {
+          const page = await client.listEvents({
+            calendarId: calendar.id,
+            timeMin: timeMin.toISOString(),
+            timeMax: timeMax.toISOString(),
+            singleEvents: true,
+            orderBy: 'startTime',
+            maxResults: 250,
+          });
+          return { calendar, events: page.items };
+        } catch (error) {
+          if (error instanceof CancellationError) {
+            throw error;
+          }
+          return { calendar, events: [], error: (error as Error).message };
+        }
+      }),
+    );
+
+    const events = results
+      .flatMap((r) =>
+        r.events
+          .filter((e) => e.status !== 'cancelled')
+          .map((e) => formatAgendaEvent(e, r.calendar)),
+      )
+      .sort((a, b) => {
+        // All-day events first, then by start time
+        if (a.allDay !== b.allDay) return a.allDay ? -1 : 1;
+        return new Date(a.start ?? 0).getTime() - new Date(b.start ?? 0).getTime();
+      });
+    const failed = results
+      .filter((r) => r.error)
+      .map((r) => ({ calendarId: r.calendar.id, error: r.error }));
+
+    return jsonContents(uri, {
+      date,
+      timeZone,
+      events,
+      ...(failed.length > 0 && { calendarsFailed: failed }),
+    });
+  },
+});
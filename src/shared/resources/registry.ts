@@ -0,0 +1,132 @@
+/**
+ * Shared resource registry - single source of truth for all resources.
+ * Resources defined here work in both Node.js and Cloudflare Workers.
+ */
+
+import { NotFoundError } from '../../core/errors.js';
+import { assertResourceAllowed } from '../tools/policy.js';
+import { agendaResource, calendarsResource, eventResource } from './calendar.js';
+import type {
+  ResourceContext,
+  ResourceReadResult,
+  SharedResourceDefinition,
+} from './types.js';
+
+// Re-export types for convenience
+export type {
+  ResourceContext,
+  ResourceReadResult,
+  SharedResourceDefinition,
+} from './types.js';
+export { defineResource } from './types.js';
+
+/**
+ * All shared resources and resource templates available in both runtimes.
+ */
+export const sharedResources: SharedResourceDefinition[] = [
+  calendarsResource,
+  eventResource,
+  agendaResource,
+];
+
+/**
+ * Entries for resources/list (fixed URIs only).
+ */
+export function listSharedResources() {
+  return sharedResources
+    .filter((r) => r.uri)
+    .map((r) => ({
+      uri: r.uri as string,
+      name: r.name,
+      title: r.title,
+      description: r.description,
+      mimeType: r.mimeType,
+    }));
+}
+
+/**
+ * Entries for resources/templates/list.
+ */
+export function listSharedResourceTemplates() {
+  return sharedResources
+    .filter((r) => r.uriTemplate)
+    .map((r) => ({
+      uriTemplate: r.uriTemplate as string,
+      name: r.name,
+      title: r.title,
+      description: r.description,
+      mimeType: r.mimeType,
+    }));
+}
+
+/**
+ * Match a URI against a level 1 template. Each variable matches one path
+ * segment; values are percent-decoded.
+ */
+export function matchUriTemplate(
+  template: string,
+  uri: string,
+): Record<string, string> | null {
+  const names: string[] = [];
+  const pattern = template
+    .split(/(\{[^}]+\})/)
+    .map((part) => {
+      const variable = /^\{([^}]+)\}$/.exec(part);
+      if (variable) {
+        names.push(variable[1]);
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = new RegExp(`^${pattern}$`).exec(uri);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  try {
+    names.forEach((name, i) => {
+      params[name] = decodeURIComponent(match[i + 1]);
+    });
+  } catch {
+    return null;
+  }
+  return params;
+}
+
+/**
+ * Find the resource serving a URI along with its template variables.
+ */
+export function findSharedResource(
+  uri: string,
+): { resource: SharedResourceDefinition; params: Record<string, string> } | undefined {
+  for (const resource of sharedResources) {
+    if (resource.uri === uri) {
+      return { resource, params: {} };
+    }
+    if (resource.uriTemplate) {
+      const params = matchUriTemplate(resource.uriTemplate, uri);
+      if (params) return { resource, params };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read a shared resource by URI.
+ * Throws NotFoundError for unknown URIs, PolicyDeniedError for calendars the
+ * tool policy does not allow and CalendarError for API failures.
+ */
+export async function readSharedResource(
+  uri: string,
+  context: ResourceContext,
+): Promise<ResourceReadResult> {
+  const found = findSharedResource(uri);
+  if (!found) {
+    throw new NotFoundError(`Unknown resource: ${uri}`, {
+      hint: 'Use resources/list and resources/templates/list to see available URIs.',
+    });
+  }
+  await assertResourceAllowed(found.resource, uri, found.params, context);
+  return found.resource.read(uri, found.params, context);
+}
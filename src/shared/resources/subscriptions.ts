@@ -0,0 +1,219 @@
+/**
+ * Resource subscriptions (resources/subscribe) and change fan-out.
+ *
+ * Subscriptions live in memory per MCP session. Each runtime installs a sender
+ * that delivers notifications/resources/updated to a session. Only the Node.js
+ * runtime subscribes (and clears a session's subscriptions when it closes);
+ * Workers have no server-to-client stream and do not offer resources/subscribe.
+ *
+ * Changes come from two places: our own write tools (publishEventChange) and
+ * Google push notifications for watched calendars (see webhooks/).
+ */
+
+import { AuthRequiredError, NotFoundError } from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { assertResourceAllowed } from '../tools/policy.js';
+import { sharedLogger as logger } from '../utils/logger.js';
+import { onChannelNotification } from '../webhooks/calendar-channels.js';
+import { AGENDA_URI_TEMPLATE, CALENDARS_URI, EVENT_URI_TEMPLATE } from './calendar.js';
+import { findSharedResource, matchUriTemplate } from './registry.js';
+import type { ResourceContext } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Deliver notifications/resources/updated for `uri` to one session */
+export type ResourceUpdateSender = (
+  sessionId: string,
+  uri: string,
+) => void | Promise<void>;
+
+interface Subscription {
+  uri: string;
+  /** Primary calendar ID (email) of the subscriber, used to scope changes */
+  account: string;
+}
+
+export interface CalendarChange {
+  account: string;
+  calendarId: string;
+  /** Omitted when only the calendar is known (push notifications) */
+  eventId?: string;
+  /** The calendar itself was created, changed or removed from the list */
+  calendarList?: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Registry
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** sessionId -> uri -> subscription */
+const subscriptions = new Map<string, Map<string, Subscription>>();
+
+let sender: ResourceUpdateSender | undefined;
+
+export function setResourceUpdateSender(next: ResourceUpdateSender | undefined): void {
+  sender = next;
+}
+
+/**
+ * Subscribe the context's session to a resource URI.
+ * Resolves the account so changes from other users never reach this session.
+ */
+export async function subscribeResource(
+  uri: string,
+  context: ResourceContext,
+): Promise<void> {
+  const found = findSharedResource(uri);
+  if (!found) {
+    throw new NotFoundError(`Unknown resource: ${uri}`, {
+      hint: 'Use resources/list and resources/templates/list to see available URIs.',
+    });
+  }
+  if (!context.providerToken) {
+    throw new AuthRequiredError();
+  }
+  await assertResourceAllowed(found.resource, uri, found.params, context);
+
+  const client = new GoogleCalendarClient(context.providerToken, {
+    signal: context.signal,
+  });
+  const account = (await client.getPrimaryCalendar()).id;
+
+  let session = subscriptions.get(context.sessionId);
+  if (!session) {
+    session = new Map();
+    subscriptions.set(context.sessionId, session);
+  }
+  session.set(uri, { uri, account });
+}
+
+export function unsubscribeResource(sessionId: string, uri: string): void {
+  const session = subscriptions.get(sessionId);
+  session?.delete(uri);
+  if (session?.size === 0) {
+    subscriptions.delete(sessionId);
+  }
+}
+
+/**
+ * Drop all subscriptions of a closed session.
+ */
+export function clearSessionSubscriptions(sessionId: string): void {
+  subscriptions.delete(sessionId);
+}
+
+export function hasResourceSubscriptions(): boolean {
+  return subscriptions.size > 0;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fan-out
+// ─────────────────────────────────────────────────────────────────────────────
+
+function sameCalendar(uriCalendarId: string, change: CalendarChange): boolean {
+  const normalize = (id: string) => (id === 'primary' ? change.account : id);
+  return normalize(uriCalendarId) === normalize(change.calendarId);
+}
+
+/**
+ * Whether a change can affect the resource at `uri`. Agendas span all
+ * calendars, so any change for the account counts.
+ */
+function isAffected(subscription: Subscription, change: CalendarChange): boolean {
+  if (subscription.account !== change.account) return false;
+
+  if (subscription.uri === CALENDARS_URI) {
+    return change.calendarList === true;
+  }
+
+  const event = matchUriTemplate(EVENT_URI_TEMPLATE, subscription.uri);
+  if (event) {
+    if (!sameCalendar(event.calendarId, change)) return false;
+    // A series change also changes its instances ("<seriesId>_<start>")
+    return (
+      !change.eventId ||
+      event.eventId === change.eventId ||
+      event.eventId.startsWith(`${change.eventId}_`)
+    );
+  }
+
+  return matchUriTemplate(AGENDA_URI_TEMPLATE, subscription.uri) !== null;
+}
+
+/**
+ * Notify subscribers whose resources are affected by a change.
+ */
+export function notifyCalendarChanged(change: CalendarChange): void {
+  const send = sender;
+  if (!send) return;
+
+  for (const [sessionId, session] of subscriptions) {
+    for (const subscription of session.values()) {
+      if (!isAffected(subscription, change)) continue;
+      // Deliver asynchronously so a slow or broken stream never blocks the caller
+      void Promise.resolve()
+        .then(() => send(sessionId, subscription.uri))
+        .catch((error) => {
+          logger.warning('resources', {
+            message: 'Failed to send resource update',
+            sessionId,
+            uri: subscription.uri,
+            error: (error as Error).message,
+          });
+        });
+    }
+  }
+}
+
+/**
+ * Publish a change made through a tool. Costs one API call to resolve the
+ * account, and only when someone is subscribed. Never throws.
+ */
+export async function publishEventChange(
+  client: GoogleCalendarClient,
+  calendarId: string,
+  eventId?: string,
+): Promise<void> {
+  if (!hasResourceSubscriptions() || !sender) return;
+
+  try {
+    const account = (await client.getPrimaryCalendar()).id;
+    notifyCalendarChanged({ account, calendarId, eventId });
+  } catch (error) {
+    logger.warning('resources', {
+      message: 'Failed to publish event change',
+      calendarId,
+      error: (error as Error).message,
+    });
+  }
+}
+
+/**
+ * Publish a calendar created, updated or removed through a tool. Same cost
+ * and guarantees as publishEventChange.
+ */
+export async function publishCalendarListChange(
+  client: GoogleCalendarClient,
+  calendarId: string,
+): Promise<void> {
+  if (!hasResourceSubscriptions() || !sender) return;
+
+  try {
+    const account = (await client.getPrimaryCalendar()).id;
+    notifyCalendarChanged({ account, calendarId, calendarList: true });
+  } catch (error) {
+    logger.warning('resources', {
+      message: 'Failed to publish calendar list change',
+      calendarId,
+      error: (error as Error).message,
+    });
+  }
+}
+
+// Push notifications only say "something in this calendar changed"
+onChannelNotification(({ channel, state }) => {
+  if (state === 'sync') return;
+  notifyCalendarChanged({ account: channel.account, calendarId: channel.calendarId });
+});
@@ -0,0 +1,54 @@
+/**
+ * Shared resource types for cross-runtime compatibility.
+ * These definitions work in both Node.js (Hono) and Cloudflare Workers.
+ */
+
+import type { ToolContext } from '../tools/types.js';
+
+/**
+ * Resources are read with the same auth and session context as tools.
+ */
+export type ResourceContext = ToolContext;
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface ResourceReadResult {
+  contents: ResourceContents[];
+  /** Keeps the shape assignable to the SDK's ReadResourceResult */
+  [key: string]: unknown;
+}
+
+/**
+ * A resource with a fixed URI (`uri`) or a family of resources described by an
+ * RFC 6570 level 1 template (`uriTemplate`, e.g. `gcal://agenda/{date}`).
+ */
+export interface SharedResourceDefinition {
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+  uri?: string;
+  uriTemplate?: string;
+  /**
+   * Read the resource. `params` holds the decoded template variables.
+   * Throw a CalendarError on failure.
+   */
+  read: (
+    uri: string,
+    params: Record<string, string>,
+    context: ResourceContext,
+  ) => Promise<ResourceReadResult>;
+}
+
+/**
+ * Helper to define a resource with type checking.
+ */
+export function defineResource(
+  definition: SharedResourceDefinition,
+): SharedResourceDefinition {
+  return definition;
+}
@@ -4,8 +4,15 @@
 import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
 import { dirname } from 'node:path';
 import { sharedLogger as logger } from '../utils/logger.js';
-import type { ProviderTokens, RsRecord, TokenStore, Transaction } from './interface.js';
-import { MemoryTokenStore } from './memory.js';
+import type {
+  ProviderTokens,
+  RegisteredClient,
+  RsRecord,
+  StateStore,
+  TokenStore,
+  Transaction,
+} from './interface.js';
+import { MemoryStateStore, MemoryTokenStore, type StateEntry } from './memory.js';
 
 /** File permission: owner read/write only (600) */
 const SECURE_FILE_MODE = 0o600;
@@ -17,6 +24,13 @@ type PersistShape = {
   version: number;
   encrypted: boolean;
   records: Array<RsRecord>;
+  /** Dynamically registered clients (absent in files from older versions) */
+  clients?: Array<RegisteredClient>;
+};
+
+type StatePersistShape = {
+  version: number;
+  entries: Array<StateEntry>;
 };
 
 /**
@@ -198,6 +212,10 @@ export class FileTokenStore implements TokenStore {
         memoryMap.rsRefreshMap.set(rec.rs_refresh_token, recordWithExpiry);
       }
 
+      for (const client of data.clients ?? []) {
+        void this.memory.saveClient(client);
+      }
+
       logger.debug('file_token_store', {
         message: 'Records loaded successfully',
         total: data.records.length,
@@ -244,11 +262,17 @@ export class FileTokenStore implements TokenStore {
         rsAccessMap: Map<string, RsRecord>;
       };
       const records = Array.from(memoryMap.rsAccessMap.values());
+      const clients = Array.from(
+        (
+          this.memory as unknown as { clients: Map<string, RegisteredClient> }
+        ).clients.values(),
+      );
 
       const data: PersistShape = {
         version: 1,
         encrypted: Boolean(this.encryptor),
         records,
+        clients,
       };
 
       let content = JSON.stringify(data, null, 2);
@@ -274,6 +298,7 @@ export class FileTokenStore implements TokenStore {
       logger.debug('file_token_store', {
         message: 'File saved',
         records: records.length,
+        clients: clients.length,
         encrypted: Boolean(this.encryptor),
       });
     } catch (error) {
@@ -288,6 +313,7 @@ export class FileTokenStore implements TokenStore {
     rsAccess: string,
     provider: ProviderTokens,
     rsRefresh?: string,
+    sessionId?: string,
   ): Promise<RsRecord> {
     logger.debug('file_token_store', {
       message: 'Storing RS mapping',
@@ -295,7 +321,12 @@ export class FileTokenStore implements TokenStore {
       persistPath: this.persistPath,
     });
 
-    const result = await this.memory.storeRsMapping(rsAccess, provider, rsRefresh);
+    const result = await this.memory.storeRsMapping(
+      rsAccess,
+      provider,
+      rsRefresh,
+      sessionId,
+    );
     this.save();
     return result;
   }
@@ -322,6 +353,20 @@ export class FileTokenStore implements TokenStore {
     return result;
   }
 
+  async setLinkedAccounts(
+    rsRefresh: string,
+    accounts: ProviderTokens[],
+  ): Promise<RsRecord | null> {
+    const result = await this.memory.setLinkedAccounts(rsRefresh, accounts);
+    this.save();
+    return result;
+  }
+
+  async deleteRsMapping(record: RsRecord): Promise<void> {
+    await this.memory.deleteRsMapping(record);
+    this.save();
+  }
+
   async saveTransaction(
     txnId: string,
     txn: Transaction,
@@ -352,6 +397,20 @@ export class FileTokenStore implements TokenStore {
     return this.memory.deleteCode(code);
   }
 
+  async saveClient(client: RegisteredClient): Promise<void> {
+    await this.memory.saveClient(client);
+    this.save();
+  }
+
+  async getClient(clientId: string): Promise<RegisteredClient | null> {
+    return this.memory.getClient(clientId);
+  }
+
+  async deleteClient(clientId: string): Promise<void> {
+    await this.memory.deleteClient(clientId);
+    this.save();
+  }
+
   /**
    * Force immediate save (useful before shutdown).
    */
@@ -373,7 +432,149 @@ export class FileTokenStore implements TokenStore {
   /**
    * Get store statistics.
    */
-  getStats(): { rsTokens: number; transactions: number; codes: number } {
+  getStats(): {
+    rsTokens: number;
+    transactions: number;
+    codes: number;
+    clients: number;
+  } {
     return this.memory.getStats();
   }
 }
+
+/**
+ * File-backed tool state (sync tokens, channels, ...) for Node.js.
+ * The whole file is encrypted when a key is provided.
+ */
+export class FileStateStore implements StateStore {
+  private memory: MemoryStateStore;
+  private persistPath: string | null;
+  private encryptor: ReturnType<typeof createSyncEncryptor> | null = null;
+  private saveDebounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param persistPath - Path to the state file
+   * @param encryptionKey - Base64url-encoded 32-byte key for AES-256-GCM encryption
+   */
+  constructor(persistPath?: string, encryptionKey?: string) {
+    this.memory = new MemoryStateStore();
+    this.persistPath = persistPath ?? null;
+
+    if (encryptionKey) {
+      this.encryptor = createSyncEncryptor(encryptionKey);
+    }
+
+    this.load();
+  }
+
+  private load(): void {
+    if (!this.persistPath || !existsSync(this.persistPath)) {
+      return;
+    }
+
+    try {
+      let raw = readFileSync(this.persistPath, 'utf8');
+      if (this.encryptor && !raw.trimStart().startsWith('{')) {
+        raw = this.encryptor.decrypt(raw);
+      }
+
+      const data = JSON.parse(raw) as StatePersistShape;
+      if (!data || !Array.isArray(data.entries)) {
+        logger.warning('file_state_store', { message: 'Invalid file format' });
+        return;
+      }
+
+      this.memory.restore(data.entries);
+      logger.debug('file_state_store', {
+        message: 'State loaded',
+        entries: data.entries.length,
+        path: this.persistPath,
+      });
+    } catch (error) {
+      logger.error('file_state_store', {
+        message: 'Load failed',
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private save(): void {
+    if (!this.persistPath) {
+      return;
+    }
+
+    // Debounce saves to avoid excessive disk writes
+    if (this.saveDebounceTimer) {
+      clearTimeout(this.saveDebounceTimer);
+    }
+
+    this.saveDebounceTimer = setTimeout(() => {
+      this.saveImmediate();
+    }, 100);
+  }
+
+  private saveImmediate(): void {
+    if (!this.persistPath) {
+      return;
+    }
+
+    try {
+      const dir = dirname(this.persistPath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true, mode: SECURE_DIR_MODE });
+      }
+
+      const data: StatePersistShape = { version: 1, entries: this.memory.snapshot() };
+      let content = JSON.stringify(data);
+      if (this.encryptor) {
+        content = this.encryptor.encrypt(content);
+      }
+
+      writeFileSync(this.persistPath, content, {
+        encoding: 'utf8',
+        mode: SECURE_FILE_MODE,
+      });
+    } catch (error) {
+      logger.error('file_state_store', {
+        message: 'Save failed',
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.memory.get<T>(key);
+  }
+
+  async put<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    await this.memory.put(key, value, ttlSeconds);
+    this.save();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.memory.delete(key);
+    this.save();
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return this.memory.list(prefix);
+  }
+
+  /**
+   * Force immediate save (useful before shutdown).
+   */
+  flush(): void {
+    if (this.saveDebounceTimer) {
+      clearTimeout(this.saveDebounceTimer);
+      this.saveDebounceTimer = null;
+    }
+    this.saveImmediate();
+  }
+
+  /**
+   * Stop cleanup intervals.
+   */
+  stopCleanup(): void {
+    this.memory.stopCleanup();
+  }
+}
@@ -6,6 +6,8 @@ export type ProviderTokens = {
   refresh_token?: string;
   expires_at?: number;
   scopes?: string[];
+  /** Email of the provider account, recorded when it is linked */
+  email?: string;
 };
 
 export type RsRecord = {
@@ -13,6 +15,10 @@ export type RsRecord = {
   rs_refresh_token: string;
   provider: ProviderTokens;
   created_at: number;
+  /** MCP session that started the authorization, if known */
+  session_id?: string;
+  /** Further provider accounts linked to this identity; `provider` is the default */
+  linked_accounts?: ProviderTokens[];
 };
 
 export type Transaction = {
@@ -22,6 +28,28 @@ export type Transaction = {
   createdAt: number;
   sid?: string;
   provider?: ProviderTokens;
+  /** Registered client that started the flow, and its validated redirect URI */
+  clientId?: string;
+  redirectUri?: string;
+  /** RS refresh token of the identity an account is being linked to */
+  linkTo?: string;
+  /** Hash of the cookie set by the link's confirmation page */
+  linkCookieHash?: string;
+};
+
+/**
+ * A client registered via dynamic client registration (RFC 7591).
+ * Only a hash of the registration access token is kept.
+ */
+export type RegisteredClient = {
+  client_id: string;
+  client_id_issued_at: number;
+  registration_access_token_hash: string;
+  token_endpoint_auth_method: string;
+  redirect_uris: string[];
+  grant_types: string[];
+  response_types: string[];
+  client_name?: string;
 };
 
 export type SessionRecord = {
@@ -41,6 +69,7 @@ export interface TokenStore {
     rsAccess: string,
     provider: ProviderTokens,
     rsRefresh?: string,
+    sessionId?: string,
   ): Promise<RsRecord>;
 
   getByRsAccess(rsAccess: string): Promise<RsRecord | null>;
@@ -53,6 +82,15 @@ export interface TokenStore {
     maybeNewRsAccess?: string,
   ): Promise<RsRecord | null>;
 
+  /** Replace the linked provider accounts of a mapping */
+  setLinkedAccounts(
+    rsRefresh: string,
+    accounts: ProviderTokens[],
+  ): Promise<RsRecord | null>;
+
+  /** Remove both RS tokens of a mapping (revocation) */
+  deleteRsMapping(record: RsRecord): Promise<void>;
+
   // Transaction storage (PKCE flow)
   saveTransaction(txnId: string, txn: Transaction, ttlSeconds?: number): Promise<void>;
 
@@ -66,6 +104,13 @@ export interface TokenStore {
   getTxnIdByCode(code: string): Promise<string | null>;
 
   deleteCode(code: string): Promise<void>;
+
+  // Client registrations (RFC 7591 / RFC 7592)
+  saveClient(client: RegisteredClient): Promise<void>;
+
+  getClient(clientId: string): Promise<RegisteredClient | null>;
+
+  deleteClient(clientId: string): Promise<void>;
 }
 
 /**
@@ -80,3 +125,18 @@ export interface SessionStore {
 
   delete(sessionId: string): Promise<void>;
 }
+
+/**
+ * Generic JSON state for tools (sync tokens, watch channels, ...).
+ * Callers namespace their keys, e.g. `sync:{account}:{calendarId}`.
+ */
+export interface StateStore {
+  get<T>(key: string): Promise<T | null>;
+
+  put<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+
+  delete(key: string): Promise<void>;
+
+  /** Keys starting with the given prefix */
+  list(prefix: string): Promise<string[]>;
+}
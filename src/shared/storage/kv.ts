@@ -3,13 +3,15 @@
 
 import type {
   ProviderTokens,
+  RegisteredClient,
   RsRecord,
   SessionRecord,
   SessionStore,
+  StateStore,
   TokenStore,
   Transaction,
 } from './interface.js';
-import { MemorySessionStore, MemoryTokenStore } from './memory.js';
+import { MemorySessionStore, MemoryStateStore, MemoryTokenStore } from './memory.js';
 
 // Cloudflare KV namespace type
 type KVNamespace = {
@@ -20,6 +22,11 @@ type KVNamespace = {
     options?: { expiration?: number; expirationTtl?: number },
   ): Promise<void>;
   delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: Array<{ name: string }>;
+    list_complete: boolean;
+    cursor?: string;
+  }>;
 };
 
 type EncryptFn = (plaintext: string) => Promise<string> | string;
@@ -93,17 +100,19 @@ export class KvTokenStore implements TokenStore {
     rsAccess: string,
     provider: ProviderTokens,
     rsRefresh?: string,
+    sessionId?: string,
   ): Promise<RsRecord> {
     const rec: RsRecord = {
       rs_access_token: rsAccess,
       rs_refresh_token: rsRefresh ?? crypto.randomUUID(),
       provider: { ...provider },
       created_at: Date.now(),
+      ...(sessionId && { session_id: sessionId }),
     };
 
     // CRITICAL: Store in memory fallback FIRST
     // If KV fails (quota/network), memory still has it
-    await this.fallback.storeRsMapping(rsAccess, provider, rsRefresh);
+    await this.fallback.storeRsMapping(rsAccess, provider, rsRefresh, sessionId);
 
     // Then try KV (may fail due to quota)
     try {
@@ -142,12 +151,15 @@ export class KvTokenStore implements TokenStore {
       return this.fallback.updateByRsRefresh(rsRefresh, provider, maybeNewRsAccess);
     }
 
-    const rsAccessChanged = maybeNewRsAccess && maybeNewRsAccess !== existing.rs_access_token;
+    const rsAccessChanged =
+      maybeNewRsAccess && maybeNewRsAccess !== existing.rs_access_token;
     const next: RsRecord = {
       rs_access_token: maybeNewRsAccess || existing.rs_access_token,
       rs_refresh_token: rsRefresh,
       provider: { ...provider },
       created_at: Date.now(),
+      ...(existing.session_id && { session_id: existing.session_id }),
+      ...(existing.linked_accounts && { linked_accounts: existing.linked_accounts }),
     };
 
     // Update memory fallback first
@@ -181,13 +193,47 @@ export class KvTokenStore implements TokenStore {
     return next;
   }
 
+  async setLinkedAccounts(
+    rsRefresh: string,
+    accounts: ProviderTokens[],
+  ): Promise<RsRecord | null> {
+    const existing = await this.getJson<RsRecord>(`rs:refresh:${rsRefresh}`);
+    if (!existing) {
+      return this.fallback.setLinkedAccounts(rsRefresh, accounts);
+    }
+
+    const next: RsRecord = { ...existing, linked_accounts: accounts };
+    await this.fallback.setLinkedAccounts(rsRefresh, accounts);
+    await Promise.all([
+      this.putJson(`rs:access:${existing.rs_access_token}`, next),
+      this.putJson(`rs:refresh:${rsRefresh}`, next),
+    ]);
+    return next;
+  }
+
+  async deleteRsMapping(record: RsRecord): Promise<void> {
+    // Access token as stored in KV, in case it rotated since the record was read
+    const stored = await this.getJson<RsRecord>(
+      `rs:refresh:${record.rs_refresh_token}`,
+    );
+    const accessTokens = new Set([record.rs_access_token]);
+    if (stored) accessTokens.add(stored.rs_access_token);
+
+    // Memory first so this isolate stops accepting the tokens even if KV fails
+    await this.fallback.deleteRsMapping(record);
+    await Promise.all([
+      ...[...accessTokens].map((token) => this.kv.delete(`rs:access:${token}`)),
+      this.kv.delete(`rs:refresh:${record.rs_refresh_token}`),
+    ]);
+  }
+
   async saveTransaction(
     txnId: string,
     txn: Transaction,
     ttlSeconds = 600,
   ): Promise<void> {
     // Memory fallback first (critical for OAuth flow)
-    await this.fallback.saveTransaction(txnId, txn);
+    await this.fallback.saveTransaction(txnId, txn, ttlSeconds);
 
     // KV is optional (nice to have for persistence across instances)
     try {
@@ -238,6 +284,23 @@ export class KvTokenStore implements TokenStore {
     // This saves 1 write operation per OAuth flow
     await this.fallback.deleteCode(code);
   }
+
+  async saveClient(client: RegisteredClient): Promise<void> {
+    await this.fallback.saveClient(client);
+
+    // Registrations must survive isolates, so a failed KV write is an error
+    await this.putJson(`client:${client.client_id}`, client);
+  }
+
+  async getClient(clientId: string): Promise<RegisteredClient | null> {
+    const client = await this.getJson<RegisteredClient>(`client:${clientId}`);
+    return client ?? (await this.fallback.getClient(clientId));
+  }
+
+  async deleteClient(clientId: string): Promise<void> {
+    await this.fallback.deleteClient(clientId);
+    await this.kv.delete(`client:${clientId}`);
+  }
 }
 
 const SESSION_KEY_PREFIX = 'session:';
@@ -304,3 +367,82 @@ export class KvSessionStore implements SessionStore {
     await this.fallback.delete(sessionId);
   }
 }
+
+const STATE_KEY_PREFIX = 'state:';
+
+/** KV rejects expirationTtl below 60 seconds */
+const MIN_KV_TTL_SECONDS = 60;
+
+export class KvStateStore implements StateStore {
+  private kv: KVNamespace;
+  private encrypt: EncryptFn;
+  private decrypt: DecryptFn;
+  private fallback: MemoryStateStore;
+
+  constructor(
+    kv: KVNamespace,
+    options?: {
+      encrypt?: EncryptFn;
+      decrypt?: DecryptFn;
+      fallback?: MemoryStateStore;
+    },
+  ) {
+    this.kv = kv;
+    this.encrypt = options?.encrypt ?? ((s) => s);
+    this.decrypt = options?.decrypt ?? ((s) => s);
+    this.fallback = options?.fallback ?? new MemoryStateStore();
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = await this.kv.get(`${STATE_KEY_PREFIX}${key}`);
+    if (!raw) {
+      return this.fallback.get<T>(key);
+    }
+    const plain = await this.decrypt(raw);
+    return fromJson<T>(plain);
+  }
+
+  async put<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    // Memory fallback first so the current isolate sees the write even if KV fails
+    await this.fallback.put(key, value, ttlSeconds);
+
+    try {
+      const raw = await this.encrypt(toJson(value));
+      await this.kv.put(
+        `${STATE_KEY_PREFIX}${key}`,
+        raw,
+        ttlSeconds
+          ? { expirationTtl: Math.max(ttlSeconds, MIN_KV_TTL_SECONDS) }
+          : undefined,
+      );
+    } catch (error) {
+      console.warn(
+        '[KV] Failed to persist state (using memory):',
+        (error as Error).message,
+      );
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.kv.delete(`${STATE_KEY_PREFIX}${key}`);
+    await this.fallback.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys = new Set(await this.fallback.list(prefix));
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.kv.list({
+        prefix: `${STATE_KEY_PREFIX}${prefix}`,
+        cursor,
+      });
+      for (const { name } of page.keys) {
+        keys.add(name.slice(STATE_KEY_PREFIX.length));
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return [...keys];
+  }
+}
@@ -3,9 +3,11 @@
 
 import type {
   ProviderTokens,
+  RegisteredClient,
   RsRecord,
   SessionRecord,
   SessionStore,
+  StateStore,
   TokenStore,
   Transaction,
 } from './interface.js';
@@ -28,9 +30,15 @@ const MAX_RS_RECORDS = 10_000;
 /** Maximum number of transactions */
 const MAX_TRANSACTIONS = 1_000;
 
+/** Maximum number of registered clients */
+const MAX_CLIENTS = 10_000;
+
 /** Maximum number of sessions */
 const MAX_SESSIONS = 10_000;
 
+/** Maximum number of tool state entries */
+const MAX_STATE_ENTRIES = 50_000;
+
 /** Cleanup interval (1 minute) */
 const CLEANUP_INTERVAL_MS = 60_000;
 
@@ -86,6 +94,7 @@ export class MemoryTokenStore implements TokenStore {
   protected rsRefreshMap = new Map<string, RsRecord & { expiresAt: number }>();
   protected transactions = new Map<string, TimedEntry<Transaction>>();
   protected codes = new Map<string, TimedEntry<string>>();
+  protected clients = new Map<string, RegisteredClient>();
 
   private cleanupIntervalId: ReturnType<typeof setInterval> | null = null;
 
@@ -156,6 +165,7 @@ export class MemoryTokenStore implements TokenStore {
     rsAccess: string,
     provider: ProviderTokens,
     rsRefresh?: string,
+    sessionId?: string,
     ttlMs: number = DEFAULT_RS_TOKEN_TTL_MS,
   ): Promise<RsRecord> {
     const now = Date.now();
@@ -182,6 +192,7 @@ export class MemoryTokenStore implements TokenStore {
       rs_refresh_token: rsRefresh ?? crypto.randomUUID(),
       provider: { ...provider },
       created_at: now,
+      ...(sessionId && { session_id: sessionId }),
       expiresAt,
     };
 
@@ -243,6 +254,25 @@ export class MemoryTokenStore implements TokenStore {
     return rec;
   }
 
+  async setLinkedAccounts(
+    rsRefresh: string,
+    accounts: ProviderTokens[],
+  ): Promise<RsRecord | null> {
+    const rec = this.rsRefreshMap.get(rsRefresh);
+    if (!rec) return null;
+
+    rec.linked_accounts = accounts.map((account) => ({ ...account }));
+    return rec;
+  }
+
+  async deleteRsMapping(record: RsRecord): Promise<void> {
+    // The stored record may have a rotated access token
+    const stored = this.rsRefreshMap.get(record.rs_refresh_token);
+    this.rsAccessMap.delete(record.rs_access_token);
+    if (stored) this.rsAccessMap.delete(stored.rs_access_token);
+    this.rsRefreshMap.delete(record.rs_refresh_token);
+  }
+
   async saveTransaction(
     txnId: string,
     txn: Transaction,
@@ -306,6 +336,23 @@ export class MemoryTokenStore implements TokenStore {
     this.codes.delete(code);
   }
 
+  async saveClient(client: RegisteredClient): Promise<void> {
+    // Registrations don't expire; drop the oldest (first inserted) at capacity
+    if (!this.clients.has(client.client_id) && this.clients.size >= MAX_CLIENTS) {
+      const oldest = this.clients.keys().next().value;
+      if (oldest !== undefined) this.clients.delete(oldest);
+    }
+    this.clients.set(client.client_id, { ...client });
+  }
+
+  async getClient(clientId: string): Promise<RegisteredClient | null> {
+    return this.clients.get(clientId) ?? null;
+  }
+
+  async deleteClient(clientId: string): Promise<void> {
+    this.clients.delete(clientId);
+  }
+
   /**
    * Get current store statistics.
    */
@@ -313,11 +360,13 @@ export class MemoryTokenStore implements TokenStore {
     rsTokens: number;
     transactions: number;
     codes: number;
+    clients: number;
   } {
     return {
       rsTokens: this.rsAccessMap.size,
       transactions: this.transactions.size,
       codes: this.codes.size,
+      clients: this.clients.size,
     };
   }
 }
@@ -440,3 +489,131 @@ export class MemorySessionStore implements SessionStore {
     return this.sessions.size;
   }
 }
+
+/**
+ * Serialized form of a state entry (used by file persistence).
+ */
+export type StateEntry = {
+  key: string;
+  value: unknown;
+  /** Epoch ms, omitted for entries without TTL */
+  expiresAt?: number;
+  createdAt: number;
+};
+
+export class MemoryStateStore implements StateStore {
+  protected entries = new Map<string, StateEntry>();
+  private cleanupIntervalId: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    this.startCleanup();
+  }
+
+  /**
+   * Start periodic cleanup of expired entries.
+   */
+  startCleanup(): void {
+    if (this.cleanupIntervalId) return;
+
+    this.cleanupIntervalId = setInterval(() => {
+      this.cleanup();
+    }, CLEANUP_INTERVAL_MS);
+
+    // Don't prevent process exit
+    if (
+      typeof this.cleanupIntervalId === 'object' &&
+      'unref' in this.cleanupIntervalId
+    ) {
+      this.cleanupIntervalId.unref();
+    }
+  }
+
+  /**
+   * Stop periodic cleanup.
+   */
+  stopCleanup(): void {
+    if (this.cleanupIntervalId) {
+      clearInterval(this.cleanupIntervalId);
+      this.cleanupIntervalId = null;
+    }
+  }
+
+  /**
+   * Remove expired entries.
+   */
+  cleanup(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== undefined && now >= entry.expiresAt) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    // Check expiration
+    if (entry.expiresAt !== undefined && Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value as T;
+  }
+
+  async put<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    const now = Date.now();
+
+    if (!this.entries.has(key)) {
+      evictOldest(this.entries, MAX_STATE_ENTRIES, 100);
+    }
+
+    this.entries.set(key, {
+      key,
+      value,
+      expiresAt: ttlSeconds ? now + ttlSeconds * 1000 : undefined,
+      createdAt: now,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const now = Date.now();
+    return [...this.entries.values()]
+      .filter(
+        (entry) =>
+          entry.key.startsWith(prefix) &&
+          (entry.expiresAt === undefined || now < entry.expiresAt),
+      )
+      .map((entry) => entry.key);
+  }
+
+  /**
+   * All live entries, for persistence.
+   */
+  snapshot(): StateEntry[] {
+    this.cleanup();
+    return [...this.entries.values()];
+  }
+
+  /**
+   * Replace contents with previously persisted entries.
+   */
+  restore(entries: StateEntry[]): void {
+    this.entries.clear();
+    for (const entry of entries) {
+      this.entries.set(entry.key, entry);
+    }
+    this.cleanup();
+  }
+}
@@ -2,18 +2,23 @@
 // Provider-agnostic version from Spotify MCP
 
 import { FileTokenStore } from './file.js';
-import type { SessionStore, TokenStore } from './interface.js';
-import { MemorySessionStore } from './memory.js';
+import type { SessionStore, StateStore, TokenStore } from './interface.js';
+import { MemorySessionStore, MemoryStateStore } from './memory.js';
 
 let tokenStoreInstance: TokenStore | null = null;
 let sessionStoreInstance: SessionStore | null = null;
+let stateStoreInstance: StateStore | null = null;
 
 export function initializeStorage(
   tokenStore: TokenStore,
   sessionStore: SessionStore,
+  stateStore?: StateStore,
 ): void {
   tokenStoreInstance = tokenStore;
   sessionStoreInstance = sessionStore;
+  if (stateStore) {
+    stateStoreInstance = stateStore;
+  }
 }
 
 export function getTokenStore(): TokenStore {
@@ -33,3 +38,10 @@ export function getSessionStore(): SessionStore {
   }
   return sessionStoreInstance;
 }
+
+export function getStateStore(): StateStore {
+  if (!stateStoreInstance) {
+    stateStoreInstance = new MemoryStateStore();
+  }
+  return stateStoreInstance;
+}
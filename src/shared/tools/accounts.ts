@@ -0,0 +1,166 @@
+/**
+ * Linked Google accounts: the `account` input of the calendar tools.
+ *
+ * An OAuth sign-in can hold several provider accounts (see list_accounts).
+ * Accounts are named by their email, which is the id of their primary
+ * calendar; the runtime calls `selectAccount` before a tool runs, so handlers
+ * keep using `context.providerToken`.
+ */
+
+import { z } from 'zod';
+import { InvalidInputError } from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import type { ToolContext } from './types.js';
+
+const ACCOUNT_DESCRIPTION =
+  "Email of the linked Google account to use (default: the account you signed in with). See 'list_accounts'";
+
+export const AccountSchema = z
+  .string()
+  .optional()
+  .refine((value) => value !== 'all', {
+    message: "'all' is only supported by search_events",
+  })
+  .describe(ACCOUNT_DESCRIPTION);
+
+/** search_events can also merge results across every linked account */
+export const AccountOrAllSchema = z
+  .string()
+  .optional()
+  .describe(`${ACCOUNT_DESCRIPTION}, or "all" to search every linked account`);
+
+type ProviderAccount = NonNullable<ToolContext['provider']>;
+
+export interface LinkedAccount {
+  /** Email of the account, unknown if its token no longer works */
+  email?: string;
+  isDefault: boolean;
+  provider: ProviderAccount;
+}
+
+// Emails by access token; a refreshed token is looked up once more
+const MAX_CACHED_EMAILS = 500;
+const emailCache = new Map<string, string>();
+
+/**
+ * Email of the account behind an access token (the id of its primary
+ * calendar), or undefined if the token no longer works.
+ */
+export async function accountEmail(
+  accessToken: string,
+  signal?: AbortSignal,
+): Promise<string | undefined> {
+  const cached = emailCache.get(accessToken);
+  if (cached) return cached;
+
+  try {
+    const client = new GoogleCalendarClient(accessToken, { signal });
+    const email = (await client.getPrimaryCalendar()).id;
+    if (emailCache.size >= MAX_CACHED_EMAILS) {
+      const oldest = emailCache.keys().next().value;
+      if (oldest !== undefined) emailCache.delete(oldest);
+    }
+    emailCache.set(accessToken, email);
+    return email;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The accounts of the caller, default first. The same Google account linked
+ * twice is listed once, in its first position with its latest tokens (it was
+ * linked again to grant more scopes).
+ */
+export async function listLinkedAccounts(
+  context: ToolContext,
+): Promise<LinkedAccount[]> {
+  const providers: ProviderAccount[] =
+    context.accounts ??
+    (context.providerToken
+      ? [context.provider ?? { accessToken: context.providerToken }]
+      : []);
+
+  const emails = await Promise.all(
+    providers.map((provider) => accountEmail(provider.accessToken, context.signal)),
+  );
+
+  const byEmail = new Map<string, LinkedAccount>();
+  const accounts: LinkedAccount[] = [];
+  providers.forEach((provider, i) => {
+    const email = emails[i];
+    const known = email ? byEmail.get(email.toLowerCase()) : undefined;
+    if (known) {
+      known.provider = provider;
+      return;
+    }
+    const account: LinkedAccount = { email, isDefault: i === 0, provider };
+    if (email) byEmail.set(email.toLowerCase(), account);
+    accounts.push(account);
+  });
+  return accounts;
+}
+
+/**
+ * Point the context at the account a tool call asked for. Without an account
+ * (or with "all", which search_events handles itself) the context is unchanged.
+ */
+export async function selectAccount(
+  account: unknown,
+  context: ToolContext,
+): Promise<ToolContext> {
+  if (typeof account !== 'string' || account === '' || account === 'all') {
+    return context;
+  }
+
+  const accounts = await listLinkedAccounts(context);
+  const match = accounts.find(
+    (candidate) => candidate.email?.toLowerCase() === account.toLowerCase(),
+  );
+
+  if (!match) {
+    const known = accounts.flatMap((candidate) => candidate.email ?? []);
+    throw new InvalidInputError(`No linked account ${account}.`, {
+      hint: known.length
+        ? `Linked accounts: ${known.join(', ')}. Use 'list_accounts' with linkAnother: true to link more.`
+        : "Use 'list_accounts' with linkAnother: true to link another account.",
+    });
+  }
+
+  return withProvider(context, match.provider);
+}
+
+/**
+ * The context with the latest tokens of its account. The default account is
+ * only looked up here, when it may have been linked again for more scopes.
+ */
+export async function withLatestTokens(context: ToolContext): Promise<ToolContext> {
+  if (!context.providerToken || (context.accounts?.length ?? 0) < 2) {
+    return context;
+  }
+
+  const email = await accountEmail(context.providerToken, context.signal);
+  if (!email) return context;
+
+  const accounts = await listLinkedAccounts(context);
+  const match = accounts.find(
+    (candidate) => candidate.email?.toLowerCase() === email.toLowerCase(),
+  );
+  return match && match.provider !== context.provider
+    ? withProvider(context, match.provider)
+    : context;
+}
+
+function withProvider(context: ToolContext, provider: ProviderAccount): ToolContext {
+  return {
+    ...context,
+    providerToken: provider.accessToken,
+    provider,
+    ...(context.resolvedHeaders && {
+      resolvedHeaders: {
+        ...context.resolvedHeaders,
+        authorization: `Bearer ${provider.accessToken}`,
+      },
+    }),
+  };
+}
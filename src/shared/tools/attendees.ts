@@ -0,0 +1,110 @@
+/**
+ * Attendee edits for update_event and batch_events.
+ *
+ * Edits are merged into the event's current attendee list, so people who stay
+ * invited keep their response status, comment and flags.
+ */
+
+import { z } from 'zod';
+import { InvalidInputError } from '../../core/errors.js';
+import {
+  type AttendeeInput,
+  type EventAttendee,
+  toAttendee,
+} from '../../services/google-calendar.js';
+
+export const AttendeeSchema = z.union([
+  z.string().email(),
+  z.object({
+    email: z.string().email(),
+    displayName: z.string().optional(),
+    optional: z.boolean().optional().describe('Optional attendee'),
+    resource: z.boolean().optional().describe('Room or equipment rather than a person'),
+  }),
+]);
+
+/** Input fields for editing attendees; spread into a tool's input schema */
+export const AttendeeEditShape = {
+  attendees: z
+    .array(AttendeeSchema)
+    .optional()
+    .describe(
+      'New attendee list (replaces existing; people already invited keep their response). Emails or { email, displayName?, optional?, resource? }',
+    ),
+  addAttendees: z
+    .array(AttendeeSchema)
+    .optional()
+    .describe(
+      'Attendees to invite, keeping everyone else. Passing someone already invited updates their options',
+    ),
+  removeAttendees: z
+    .array(z.string().email())
+    .optional()
+    .describe('Emails to uninvite, keeping everyone else'),
+};
+
+export interface AttendeeEdits {
+  attendees?: AttendeeInput[];
+  addAttendees?: AttendeeInput[];
+  removeAttendees?: string[];
+}
+
+export function hasAttendeeEdits(edits: AttendeeEdits): boolean {
+  return (
+    edits.attendees !== undefined ||
+    edits.addAttendees !== undefined ||
+    edits.removeAttendees !== undefined
+  );
+}
+
+function sameEmail(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Apply attendee edits to the current list. Attendees that were already on the
+ * event keep their fields (responseStatus, comment, ...) unless the edit sets them.
+ */
+export function mergeAttendees(
+  current: EventAttendee[] | undefined,
+  edits: AttendeeEdits,
+): EventAttendee[] {
+  if (edits.attendees && (edits.addAttendees || edits.removeAttendees)) {
+    throw new InvalidInputError(
+      'Pass either attendees or addAttendees/removeAttendees, not both.',
+      {
+        hint: 'attendees replaces the whole list; addAttendees/removeAttendees edit it.',
+      },
+    );
+  }
+
+  const existing = current ?? [];
+  const merge = (input: AttendeeInput): EventAttendee => {
+    const attendee = toAttendee(input);
+    const known = existing.find((a) => sameEmail(a.email, attendee.email));
+    return known ? { ...known, ...attendee, email: known.email } : attendee;
+  };
+
+  const result = edits.attendees ? [] : [...existing];
+  for (const input of [...(edits.attendees ?? []), ...(edits.addAttendees ?? [])]) {
+    const attendee = merge(input);
+    const index = result.findIndex((a) => sameEmail(a.email, attendee.email));
+    if (index === -1) {
+      result.push(attendee);
+    } else {
+      result[index] = { ...result[index], ...attendee };
+    }
+  }
+
+  for (const email of edits.removeAttendees ?? []) {
+    const index = result.findIndex((a) => sameEmail(a.email, email));
+    if (index === -1) {
+      throw new InvalidInputError(`${email} is not an attendee of this event.`, {
+        hint: "Use 'get_event' to see the current attendees.",
+      });
+    }
+    result.splice(index, 1);
+  }
+
+  return result;
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+function addEvent(summary: string) {
+  return mcp.emulator.addEvent('alice@example.com', {
+    summary,
+    start: { dateTime: '2025-03-03T09:00:00Z' },
+    end: { dateTime: '2025-03-03T10:00:00Z' },
+    attendees: [
+      { email: 'alice@example.com', self: true, responseStatus: 'needsAction' },
+      { email: 'bob@example.com', organizer: true },
+    ],
+  });
+}
+
+describe('batch_events', () => {
+  test('runs mixed operations and reports each outcome', async () => {
+    const kept = addEvent('Kept');
+    const dropped = addEvent('Dropped');
+    const invite = addEvent('Invite');
+
+    const result = await mcp.callTool('batch_events', {
+      operations: [
+        {
+          op: 'create',
+          summary: 'New',
+          start: '2025-03-05T09:00:00Z',
+          end: '2025-03-05T10:00:00Z',
+        },
+        { op: 'update', eventId: kept.id, summary: 'Renamed' },
+        { op: 'delete', eventId: dropped.id },
+        { op: 'respond', eventId: invite.id, response: 'accepted' },
+        { op: 'delete', eventId: 'missing' },
+      ],
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      total: 5,
+      succeeded: 4,
+      failed: 1,
+    });
+    expect(result.structuredContent?.results).toEqual([
+      expect.objectContaining({ index: 0, op: 'create', ok: true }),
+      expect.objectContaining({ index: 1, op: 'update', ok: true, summary: 'Renamed' }),
+      expect.objectContaining({ index: 2, op: 'delete', ok: true }),
+      expect.objectContaining({ index: 3, op: 'respond', ok: true }),
+      expect.objectContaining({
+        index: 4,
+        ok: false,
+        error: expect.objectContaining({ code: 'not_found' }),
+      }),
+    ]);
+
+    const events = mcp.emulator.state.calendars.get('alice@example.com')?.events;
+    expect(events?.get(kept.id)?.summary).toBe('Renamed');
+    expect(events?.get(dropped.id)?.status).toBe('cancelled');
+    expect(events?.get(invite.id)?.attendees?.find((a) => a.self)?.responseStatus).toBe(
+      'accepted',
+    );
+  });
+
+  test('rejects two operations on the same event before sending anything', async () => {
+    const event = addEvent('Invite');
+
+    const result = await mcp.callTool('batch_events', {
+      operations: [
+        { op: 'respond', eventId: event.id, response: 'accepted' },
+        { op: 'update', eventId: event.id, addAttendees: ['carol@example.com'] },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.error).toMatchObject({ code: 'invalid_input' });
+    expect(result.content[0]).toMatchObject({
+      text: expect.stringContaining('already changed by operation 1'),
+    });
+    expect(
+      mcp.emulator.state.calendars.get('alice@example.com')?.events.get(event.id)?.etag,
+    ).toBe(event.etag);
+  });
+
+  test('allows the same event ID on different calendars', async () => {
+    mcp.emulator.addCalendar({ id: 'team@example.com', summary: 'Team' });
+    for (const calendarId of ['alice@example.com', 'team@example.com']) {
+      mcp.emulator.addEvent(calendarId, { id: 'sharedid', summary: 'Copy' });
+    }
+
+    const result = await mcp.callTool('batch_events', {
+      operations: [
+        { op: 'delete', eventId: 'sharedid' },
+        { op: 'delete', eventId: 'sharedid', calendarId: 'team@example.com' },
+      ],
+    });
+
+    expect(result.structuredContent).toMatchObject({ succeeded: 2, failed: 0 });
+  });
+});
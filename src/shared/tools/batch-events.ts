@@ -0,0 +1,434 @@
+/**
+ * Batch Events tool - run many event writes through Google's batch endpoint.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  errorPayload,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import {
+  attendeesWithResponse,
+  BATCH_LIMIT,
+  type BatchResponse,
+  type CalendarEvent,
+  type EventDateTime,
+  GoogleCalendarClient,
+  type PlannedRequest,
+} from '../../services/google-calendar.js';
+import { publishEventChange } from '../resources/subscriptions.js';
+import { AccountSchema } from './accounts.js';
+import { AttendeeEditShape, hasAttendeeEdits, mergeAttendees } from './attendees.js';
+import { type EventChange, recordChange } from './change-journal.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const MAX_OPERATIONS = 200;
+
+const ReminderOverrideSchema = z.object({
+  method: z.enum(['popup', 'email']),
+  minutes: z.number().int().min(0).max(40320),
+});
+
+const RemindersSchema = z.object({
+  useDefault: z.boolean(),
+  overrides: z.array(ReminderOverrideSchema).optional(),
+});
+
+const CalendarIdSchema = z
+  .string()
+  .optional()
+  .describe('Calendar ID (defaults to "primary")');
+
+const OperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('create'),
+    calendarId: CalendarIdSchema,
+    summary: z.string().describe('Event title'),
+    start: z
+      .string()
+      .describe('Start time (ISO 8601 datetime or YYYY-MM-DD for all-day)'),
+    end: z.string().describe('End time (ISO 8601 datetime or YYYY-MM-DD for all-day)'),
+    description: z.string().optional(),
+    location: z.string().optional(),
+    attendees: z.array(z.string().email()).optional(),
+    recurrence: z.array(z.string()).optional().describe('RRULE array'),
+    reminders: RemindersSchema.optional(),
+    visibility: z.enum(['default', 'public', 'private', 'confidential']).optional(),
+    colorId: z.string().optional().describe('Color ID (1-11)'),
+    timeZone: z.string().optional().describe('Time zone for datetime values'),
+  }),
+  z.object({
+    op: z.literal('update'),
+    eventId: z.string(),
+    calendarId: CalendarIdSchema,
+    summary: z.string().optional(),
+    start: z.string().optional().describe('New start time (ISO 8601)'),
+    end: z.string().optional().describe('New end time (ISO 8601)'),
+    description: z.string().optional(),
+    location: z.string().optional(),
+    ...AttendeeEditShape,
+    reminders: RemindersSchema.optional(),
+    visibility: z.enum(['default', 'public', 'private', 'confidential']).optional(),
+    colorId: z.string().optional().describe('New color ID (1-11)'),
+    timeZone: z.string().optional().describe('Time zone for datetime values'),
+  }),
+  z.object({
+    op: z.literal('delete'),
+    eventId: z.string(),
+    calendarId: CalendarIdSchema,
+  }),
+  z.object({
+    op: z.literal('respond'),
+    eventId: z.string(),
+    calendarId: CalendarIdSchema,
+    response: z.enum(['accepted', 'declined', 'tentative']),
+  }),
+]);
+
+type Operation = z.infer<typeof OperationSchema>;
+
+const InputSchema = z.object({
+  operations: z
+    .array(OperationSchema)
+    .min(1)
+    .max(MAX_OPERATIONS)
+    .superRefine((operations, ctx) => {
+      // A batch sends every write at once, in no guaranteed order: a second
+      // write to the same event would carry a stale etag or a lost update
+      const seen = new Map<string, number>();
+      operations.forEach((operation, index) => {
+        if (operation.op === 'create') return;
+        const key = `${operation.calendarId || 'primary'}/${operation.eventId}`;
+        const first = seen.get(key);
+        if (first === undefined) {
+          seen.set(key, index);
+          return;
+        }
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'eventId'],
+          message: `event ${operation.eventId} is already changed by operation ${first + 1}; combine them into one 'update' or use separate batch_events calls`,
+        });
+      });
+    })
+    .describe(
+      `Operations to run, each with op: 'create'|'update'|'delete'|'respond' (max ${MAX_OPERATIONS})`,
+    ),
+  sendUpdates: z
+    .enum(['all', 'externalOnly', 'none'])
+    .optional()
+    .default('none')
+    .describe('Notify attendees (applies to every operation)'),
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+interface OperationResult {
+  index: number;
+  op: Operation['op'];
+  calendarId: string;
+  eventId?: string;
+  summary?: string;
+  ok: boolean;
+  error?: ReturnType<typeof errorPayload>;
+}
+
+function isAllDayDate(str: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(str);
+}
+
+function toEventDateTime(value: string, timeZone?: string): EventDateTime {
+  return isAllDayDate(value) ? { date: value } : { dateTime: value, timeZone };
+}
+
+/**
+ * The write for an operation, planned with a dry-run client so the request is
+ * built exactly like the single-event tools build it.
+ *
+ * @param current - The event as it is now (every operation except create)
+ */
+async function planWrite(
+  planner: GoogleCalendarClient,
+  op: Operation,
+  current: CalendarEvent | undefined,
+  sendUpdates: 'all' | 'externalOnly' | 'none',
+): Promise<PlannedRequest> {
+  const calendarId = op.calendarId || 'primary';
+
+  switch (op.op) {
+    case 'create': {
+      const isAllDay = isAllDayDate(op.start) && isAllDayDate(op.end);
+      await planner.createEvent({
+        calendarId,
+        summary: op.summary,
+        description: op.description,
+        start: isAllDay
+          ? { date: op.start }
+          : { dateTime: op.start, timeZone: op.timeZone },
+        end: isAllDay ? { date: op.end } : { dateTime: op.end, timeZone: op.timeZone },
+        location: op.location,
+        attendees: op.attendees,
+        recurrence: op.recurrence,
+        reminders: op.reminders,
+        visibility: op.visibility,
+        colorId: op.colorId,
+        sendUpdates,
+      });
+      break;
+    }
+    case 'update': {
+      const {
+        op: _op,
+        eventId,
+        calendarId: _calendarId,
+        timeZone,
+        addAttendees: _add,
+        removeAttendees: _remove,
+        ...fields
+      } = op;
+      if (
+        Object.values(fields).every((value) => value === undefined) &&
+        !hasAttendeeEdits(op)
+      ) {
+        throw new InvalidInputError('Nothing to update: pass at least one field.');
+      }
+      const attendees = hasAttendeeEdits(op)
+        ? mergeAttendees(current?.attendees, op)
+        : undefined;
+      await planner.updateEvent({
+        ...fields,
+        calendarId,
+        eventId,
+        start: op.start !== undefined ? toEventDateTime(op.start, timeZone) : undefined,
+        end: op.end !== undefined ? toEventDateTime(op.end, timeZone) : undefined,
+        attendees,
+        sendUpdates,
+        // The merged list is based on `current`
+        ifMatch: attendees && current?.etag,
+      });
+      break;
+    }
+    case 'delete':
+      await planner.deleteEvent({ calendarId, eventId: op.eventId, sendUpdates });
+      break;
+    case 'respond':
+      if (!current) {
+        throw new InvalidInputError(`Event ${op.eventId} could not be read.`);
+      }
+      await planner.patchEvent(
+        calendarId,
+        op.eventId,
+        { attendees: attendeesWithResponse(current, op.response) },
+        { sendUpdates, ifMatch: current.etag },
+      );
+      break;
+  }
+
+  const request = planner.plannedRequests.pop();
+  if (!request) throw new InvalidInputError(`Nothing to send for '${op.op}'.`);
+  return request;
+}
+
+/**
+ * Send requests as BATCH_LIMIT-sized batch calls, one after another.
+ */
+async function sendInBatches(
+  client: GoogleCalendarClient,
+  requests: PlannedRequest[],
+  onBatch: (sent: number) => Promise<void>,
+): Promise<BatchResponse<CalendarEvent>[]> {
+  const responses: BatchResponse<CalendarEvent>[] = [];
+  for (let i = 0; i < requests.length; i += BATCH_LIMIT) {
+    responses.push(
+      ...(await client.batch<CalendarEvent>(requests.slice(i, i + BATCH_LIMIT))),
+    );
+    await onBatch(responses.length);
+  }
+  return responses;
+}
+
+function formatResult(result: OperationResult): string {
+  const target = result.summary ? `"${result.summary}"` : (result.eventId ?? '');
+  const id = result.eventId && result.summary ? ` (id: ${result.eventId})` : '';
+  return result.ok
+    ? `  ${result.index + 1}. ✓ ${result.op} ${target}${id}`
+    : `  ${result.index + 1}. ✗ ${result.op} ${target}${id}: ${result.error?.message}`;
+}
+
+export const batchEventsTool = defineTool({
+  name: toolsMetadata.batch_events.name,
+  title: toolsMetadata.batch_events.title,
+  description: toolsMetadata.batch_events.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.events, CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+    const planner = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: true,
+    });
+
+    const operations = args.operations;
+    const failures = new Map<number, unknown>();
+    const before = new Map<number, CalendarEvent>();
+    const after = new Map<number, CalendarEvent>();
+
+    try {
+      // Step 1: Read the events to change (respond needs the attendee list,
+      // the undo journal needs every snapshot)
+      const reads = operations.flatMap((op, index) =>
+        op.op === 'create' ? [] : [index],
+      );
+      const total = reads.length + operations.length;
+
+      const readResponses = await sendInBatches(
+        client,
+        reads.map((index) => {
+          const op = operations[index] as Exclude<Operation, { op: 'create' }>;
+          return {
+            method: 'GET',
+            path: `/calendars/${encodeURIComponent(op.calendarId || 'primary')}/events/${encodeURIComponent(op.eventId)}`,
+          };
+        }),
+        async (sent) => {
+          await context.progress?.report(
+            sent,
+            total,
+            `Read ${sent} of ${reads.length} event(s)`,
+          );
+        },
+      );
+      readResponses.forEach((response, i) => {
+        if (response.ok) before.set(reads[i], response.body);
+        else failures.set(reads[i], response.error);
+      });
+
+      // Step 2: Build the writes; invalid operations fail on their own
+      const writes: Array<{ index: number; request: PlannedRequest }> = [];
+      for (const [index, op] of operations.entries()) {
+        if (failures.has(index)) continue;
+        try {
+          const request = await planWrite(
+            planner,
+            op,
+            before.get(index),
+            args.sendUpdates,
+          );
+          writes.push({ index, request });
+        } catch (error) {
+          failures.set(index, error);
+        }
+      }
+
+      // Step 3: Send them
+      const skipped = operations.length - writes.length;
+      const writeResponses = await sendInBatches(
+        client,
+        writes.map((write) => write.request),
+        async (sent) => {
+          await context.progress?.report(
+            reads.length + skipped + sent,
+            total,
+            `Sent ${sent} of ${writes.length} operation(s)`,
+          );
+        },
+      );
+      writeResponses.forEach((response, i) => {
+        const { index } = writes[i];
+        if (!response.ok) failures.set(index, response.error);
+        // Deletes answer 204 without a body
+        else if (response.body.id) after.set(index, response.body);
+      });
+
+      const results: OperationResult[] = operations.map((op, index) => {
+        const event = after.get(index) ?? before.get(index);
+        const failure = failures.get(index);
+        return {
+          index,
+          op: op.op,
+          calendarId: op.calendarId || 'primary',
+          eventId: event?.id ?? (op.op === 'create' ? undefined : op.eventId),
+          summary: event?.summary ?? (op.op === 'create' ? op.summary : undefined),
+          ok: failure === undefined,
+          ...(failure !== undefined && { error: errorPayload(failure) }),
+        };
+      });
+      const failed = results.filter((result) => !result.ok);
+
+      if (args.dryRun) {
+        return dryRunResult(client, {
+          tool: 'batch_events',
+          summary: `Would run ${writes.length} of ${operations.length} operation(s) in ${Math.ceil(writes.length / BATCH_LIMIT)} batch request(s).`,
+          notes: failed.length > 0 ? ['Would fail:', ...failed.map(formatResult)] : [],
+          details: { results },
+        });
+      }
+
+      const changes: EventChange[] = [];
+      for (const result of results) {
+        if (!result.ok) continue;
+        const calendarId = result.calendarId;
+        const previous = before.get(result.index);
+        const current = after.get(result.index);
+        changes.push({
+          ...(previous && { before: { calendarId, event: previous } }),
+          ...(current && { after: { calendarId, event: current } }),
+        });
+        await publishEventChange(client, calendarId, result.eventId);
+      }
+
+      const succeeded = results.length - failed.length;
+      const changeId =
+        changes.length > 0
+          ? await recordChange(client, {
+              tool: 'batch_events',
+              description: `Batch of ${changes.length} operation(s)`,
+              changes,
+            })
+          : undefined;
+
+      const lines = [
+        `${failed.length === 0 ? '✓' : '⚠'} Batch: ${succeeded} of ${results.length} operation(s) succeeded${failed.length > 0 ? `, ${failed.length} failed` : ''}`,
+        ...results.map(formatResult),
+      ];
+      if (changeId) lines.push(`  changeId: ${changeId}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${lines.join('\n')}\n\nNext: ${failed.length > 0 ? 'Fix or retry the failed operations (only those). ' : ''}Use 'search_events' to verify.`,
+          },
+        ],
+        structuredContent: {
+          total: results.length,
+          succeeded,
+          failed: failed.length,
+          results,
+          ...(changeId && { changeId }),
+        },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'run batch');
+    }
+  },
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+const TEAM = 'team@example.com';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+  mcp.emulator.addCalendar({ id: TEAM, summary: 'Team' });
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+function rules(calendarId: string) {
+  return Object.fromEntries(
+    [...(mcp.emulator.state.calendars.get(calendarId)?.acl.values() ?? [])].map(
+      (rule) => [rule.id, rule.role],
+    ),
+  );
+}
+
+describe('own owner role guard', () => {
+  test('refuses to downgrade your own owner role', async () => {
+    for (const dryRun of [false, true]) {
+      const result = await mcp.callTool('share_calendar', {
+        calendarId: TEAM,
+        scopeValue: 'Alice@Example.com',
+        role: 'reader',
+        dryRun,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent?.error).toMatchObject({
+        code: 'invalid_input',
+        message: expect.stringContaining('from owner to reader'),
+      });
+    }
+    expect(rules(TEAM)).toEqual({ 'user:alice@example.com': 'owner' });
+  });
+
+  test('refuses to remove your own owner rule, by rule ID or by scope', async () => {
+    const byRuleId = await mcp.callTool('revoke_calendar_access', {
+      calendarId: TEAM,
+      ruleId: 'user:alice@example.com',
+    });
+    const byScope = await mcp.callTool('revoke_calendar_access', {
+      calendarId: TEAM,
+      scopeType: 'user',
+      scopeValue: 'ALICE@example.com',
+    });
+
+    for (const result of [byRuleId, byScope]) {
+      expect(result.structuredContent?.error).toMatchObject({
+        code: 'invalid_input',
+        message: 'Refusing to remove your own owner access to this calendar.',
+      });
+    }
+    expect(rules(TEAM)).toEqual({ 'user:alice@example.com': 'owner' });
+  });
+
+  test('treats the primary calendar as owned', async () => {
+    const result = await mcp.callTool('share_calendar', {
+      calendarId: 'primary',
+      scopeValue: 'alice@example.com',
+      role: 'writer',
+    });
+
+    expect(result.structuredContent?.error).toMatchObject({ code: 'invalid_input' });
+  });
+
+  test('lets owners change and remove other people, including other owners', async () => {
+    const granted = await mcp.callTool('share_calendar', {
+      calendarId: TEAM,
+      scopeValue: 'bob@example.com',
+      role: 'owner',
+    });
+    expect(granted.structuredContent).toMatchObject({ action: 'granted' });
+
+    const downgraded = await mcp.callTool('share_calendar', {
+      calendarId: TEAM,
+      scopeValue: 'bob@example.com',
+      role: 'reader',
+    });
+    expect(downgraded.structuredContent).toMatchObject({ action: 'changed' });
+
+    const revoked = await mcp.callTool('revoke_calendar_access', {
+      calendarId: TEAM,
+      ruleId: 'user:bob@example.com',
+    });
+    expect(revoked.isError).toBeFalsy();
+    expect(rules(TEAM)).toEqual({ 'user:alice@example.com': 'owner' });
+  });
+
+  test('keeping your own role at owner is allowed', async () => {
+    const result = await mcp.callTool('share_calendar', {
+      calendarId: TEAM,
+      scopeValue: 'alice@example.com',
+      role: 'owner',
+      sendNotifications: false,
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(rules(TEAM)).toEqual({ 'user:alice@example.com': 'owner' });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * ACL helpers shared by the calendar sharing tools.
+ */
+
+import { z } from 'zod';
+import {
+  ForbiddenError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import type {
+  AclRule,
+  AclScopeType,
+  GoogleCalendarClient,
+} from '../../services/google-calendar.js';
+
+export const AclScopeTypeSchema = z
+  .enum(['user', 'group', 'domain', 'default'])
+  .optional()
+  .default('user')
+  .describe(
+    "Who gets access: 'user' (an email), 'group' (a Google Group email), 'domain' (everyone in a Workspace domain) or 'default' (public)",
+  );
+
+export const AclScopeValueSchema = z
+  .string()
+  .optional()
+  .describe("Email, group email or domain (e.g. 'example.com'); omit for 'default'");
+
+const ROLE_LABELS: Record<string, string> = {
+  none: 'no access',
+  freeBusyReader: 'see free/busy only',
+  reader: 'see all event details',
+  writer: 'make changes to events',
+  owner: 'make changes and manage sharing',
+};
+
+/** Higher is more access */
+const ROLE_RANK: Record<string, number> = {
+  none: 0,
+  freeBusyReader: 1,
+  reader: 2,
+  writer: 3,
+  owner: 4,
+};
+
+export function roleRank(role: string): number {
+  return ROLE_RANK[role] ?? 0;
+}
+
+/**
+ * Rule ID Google assigns to a scope ("user:jane@example.com", "default").
+ */
+export function aclRuleId(type: AclScopeType, value?: string): string {
+  if (type === 'default') return 'default';
+  if (!value) {
+    throw new InvalidInputError(`scopeValue is required for scope type '${type}'.`, {
+      hint:
+        type === 'domain'
+          ? "Pass the domain, e.g. 'example.com'."
+          : 'Pass the email address to share with.',
+    });
+  }
+  return `${type}:${value.toLowerCase()}`;
+}
+
+export function describeScope(rule: Pick<AclRule, 'scope'>): string {
+  switch (rule.scope.type) {
+    case 'default':
+      return 'public (anyone)';
+    case 'domain':
+      return `everyone at ${rule.scope.value}`;
+    case 'group':
+      return `group ${rule.scope.value}`;
+    default:
+      return rule.scope.value ?? rule.scope.type;
+  }
+}
+
+export function formatAclRule(rule: AclRule, account?: string): string {
+  const you = isOwnRule(rule, account) ? ' (you)' : '';
+  return `- ${describeScope(rule)}${you}: ${rule.role} — ${ROLE_LABELS[rule.role] ?? rule.role}\n  ruleId: ${rule.id}`;
+}
+
+function isOwnRule(rule: Pick<AclRule, 'scope'>, account?: string): boolean {
+  return (
+    account !== undefined &&
+    rule.scope.type === 'user' &&
+    rule.scope.value?.toLowerCase() === account.toLowerCase()
+  );
+}
+
+/** Page limit for ACL listings; calendars rarely have more than a few rules */
+const MAX_ACL_PAGES = 10;
+
+export async function listAllAclRules(
+  client: GoogleCalendarClient,
+  calendarId: string,
+): Promise<AclRule[]> {
+  const rules: AclRule[] = [];
+  let pageToken: string | undefined;
+
+  for (let page = 0; page < MAX_ACL_PAGES; page++) {
+    const response = await client.listAcl(calendarId, { pageToken });
+    rules.push(...(response.items ?? []));
+    pageToken = response.nextPageToken;
+    if (!pageToken) break;
+  }
+
+  return rules;
+}
+
+/**
+ * Refuse changes that would take owner access away from the caller.
+ * `newRole` is undefined when the rule is being removed.
+ *
+ * Returns the caller's email for display.
+ */
+export async function assertKeepsOwnOwnerRole(
+  client: GoogleCalendarClient,
+  calendarId: string,
+  scope: AclRule['scope'],
+  newRole?: string,
+): Promise<string> {
+  const account = (await client.getPrimaryCalendar()).id;
+  if (!isOwnRule({ scope }, account) || newRole === 'owner') {
+    return account;
+  }
+
+  const current = (await listAllAclRules(client, calendarId)).find((rule) =>
+    isOwnRule(rule, account),
+  );
+
+  // Owning the primary calendar is implicit; treat it like an owner rule
+  const ownsCalendar =
+    current?.role === 'owner' ||
+    calendarId === 'primary' ||
+    calendarId.toLowerCase() === account.toLowerCase();
+
+  if (ownsCalendar) {
+    throw new InvalidInputError(
+      newRole
+        ? `Refusing to change your own access from owner to ${newRole}: you would lose control of sharing for this calendar.`
+        : 'Refusing to remove your own owner access to this calendar.',
+      {
+        hint: 'Another owner has to change your role, e.g. in the Google Calendar settings.',
+      },
+    );
+  }
+
+  return account;
+}
+
+/**
+ * toolErrorResult with a hint that fits sharing: Google answers 403 when the
+ * caller is not an owner of the calendar.
+ */
+export function aclErrorResult(error: unknown, action: string) {
+  if (error instanceof ForbiddenError) {
+    return toolErrorResult(
+      new ForbiddenError(error.message, {
+        hint: "Only owners of a calendar can see or change its sharing. Use 'list_calendars' to find calendars with accessRole 'owner'.",
+        status: error.status,
+        reason: error.reason,
+      }),
+      action,
+    );
+  }
+  return toolErrorResult(error, action);
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+const HOLIDAYS = 'en.usa#holiday@group.v.calendar.google.com';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com', timeZone: 'Europe/Berlin' });
+  mcp.emulator.addCalendar({ id: HOLIDAYS, summary: 'Holidays', accessRole: 'reader' });
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+function calendar(id: string) {
+  return mcp.emulator.state.calendars.get(id);
+}
+
+describe('calendar management', () => {
+  test('creates a calendar in the primary time zone with its list settings', async () => {
+    const result = await mcp.callTool('create_calendar', {
+      summary: 'Project X',
+      backgroundColor: '#fbe983',
+      defaultReminders: [{ method: 'popup', minutes: 15 }],
+    });
+
+    const id = result.structuredContent?.id as string;
+    expect(result.structuredContent).toMatchObject({
+      summary: 'Project X',
+      timeZone: 'Europe/Berlin',
+      // A light background gets dark text
+      listEntry: { backgroundColor: '#fbe983', foregroundColor: '#000000' },
+    });
+    expect(calendar(id)?.entry).toMatchObject({
+      accessRole: 'owner',
+      defaultReminders: [{ method: 'popup', minutes: 15 }],
+    });
+  });
+
+  test('updates metadata and list settings in one call', async () => {
+    const created = await mcp.callTool('create_calendar', { summary: 'Project X' });
+    const id = created.structuredContent?.id as string;
+
+    const result = await mcp.callTool('update_calendar', {
+      calendarId: id,
+      summary: 'Project Y',
+      timeZone: 'America/New_York',
+      hidden: true,
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(calendar(id)?.entry).toMatchObject({
+      summary: 'Project Y',
+      timeZone: 'America/New_York',
+      hidden: true,
+    });
+  });
+
+  test('non-owners are told to rename the calendar just for themselves', async () => {
+    const result = await mcp.callTool('update_calendar', {
+      calendarId: HOLIDAYS,
+      summary: 'Days off',
+    });
+
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'forbidden',
+      hint: expect.stringContaining('summaryOverride'),
+    });
+  });
+
+  test('refuses to delete the primary calendar or one it does not own', async () => {
+    const primary = await mcp.callTool('delete_calendar', { calendarId: 'primary' });
+    expect(primary.structuredContent?.error).toMatchObject({
+      message: 'The primary calendar cannot be deleted.',
+    });
+
+    const shared = await mcp.callTool('delete_calendar', { calendarId: HOLIDAYS });
+    expect(shared.structuredContent?.error).toMatchObject({
+      code: 'invalid_input',
+      hint: expect.stringContaining('unsubscribe_calendar'),
+    });
+    expect(calendar(HOLIDAYS)).toBeDefined();
+  });
+
+  test('deletes an owned calendar with its events', async () => {
+    const created = await mcp.callTool('create_calendar', { summary: 'Scratch' });
+    const id = created.structuredContent?.id as string;
+
+    const result = await mcp.callTool('delete_calendar', { calendarId: id });
+
+    expect(result.isError).toBeFalsy();
+    expect(calendar(id)).toBeUndefined();
+  });
+
+  test('unsubscribes and subscribes again with settings', async () => {
+    const removed = await mcp.callTool('unsubscribe_calendar', {
+      calendarId: HOLIDAYS,
+    });
+    expect(removed.isError).toBeFalsy();
+    expect(calendar(HOLIDAYS)?.listed).toBe(false);
+
+    const added = await mcp.callTool('subscribe_calendar', {
+      calendarId: HOLIDAYS,
+      colorId: '7',
+      selected: false,
+    });
+    expect(added.isError).toBeFalsy();
+    expect(calendar(HOLIDAYS)).toMatchObject({
+      listed: true,
+      entry: { colorId: '7', selected: false },
+    });
+
+    const primary = await mcp.callTool('unsubscribe_calendar', {
+      calendarId: 'primary',
+    });
+    expect(primary.structuredContent?.error).toMatchObject({ code: 'invalid_input' });
+  });
+
+  test('marks only removals as destructive', async () => {
+    const { result } = await mcp.request('tools/list');
+    const tools = (
+      result as {
+        tools: Array<{ name: string; annotations?: Record<string, unknown> }>;
+      }
+    ).tools;
+    const destructive = (name: string) =>
+      tools.find((tool) => tool.name === name)?.annotations?.destructiveHint;
+
+    expect(destructive('delete_calendar')).toBe(true);
+    expect(destructive('unsubscribe_calendar')).toBe(true);
+    expect(destructive('create_calendar')).toBe(false);
+    expect(destructive('subscribe_calendar')).toBe(false);
+  });
+});
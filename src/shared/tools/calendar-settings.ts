@@ -0,0 +1,102 @@
+/**
+ * Per-user calendar list settings shared by the calendar management tools.
+ */
+
+import { z } from 'zod';
+import type {
+  Calendar,
+  CalendarListEntryParams,
+  CalendarListItem,
+} from '../../services/google-calendar.js';
+
+const ReminderOverrideSchema = z.object({
+  method: z.enum(['popup', 'email']),
+  minutes: z.number().int().min(0).max(40320),
+});
+
+/**
+ * Input fields for the user's calendarList entry. Spread into a tool's
+ * input schema.
+ */
+export const CalendarListSettingsShape = {
+  summaryOverride: z
+    .string()
+    .optional()
+    .describe('Your own name for the calendar (only you see it)'),
+  colorId: z.string().optional().describe('Calendar color ID (1-24)'),
+  backgroundColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, 'Use a hex color like #1a73e8')
+    .optional()
+    .describe('Custom color as hex (#rrggbb); overrides colorId'),
+  hidden: z.boolean().optional().describe('Hide the calendar from the list'),
+  selected: z.boolean().optional().describe('Show its events in the calendar UI'),
+  defaultReminders: z
+    .array(ReminderOverrideSchema)
+    .max(5)
+    .optional()
+    .describe('Reminders for events that use the calendar default'),
+};
+
+type CalendarListSettingsInput = {
+  [K in keyof typeof CalendarListSettingsShape]?: z.infer<
+    (typeof CalendarListSettingsShape)[K]
+  >;
+};
+
+/** Black or white, whichever reads better on the background */
+function textColorFor(background: string): string {
+  const [r, g, b] = [1, 3, 5].map((i) =>
+    Number.parseInt(background.slice(i, i + 2), 16),
+  );
+  return 0.299 * r + 0.587 * g + 0.114 * b > 150 ? '#000000' : '#ffffff';
+}
+
+/**
+ * The calendarList fields present in the input, or null if there are none.
+ */
+export function pickListSettings(
+  input: CalendarListSettingsInput,
+): CalendarListEntryParams | null {
+  const settings: CalendarListEntryParams = {};
+
+  if (input.summaryOverride !== undefined)
+    settings.summaryOverride = input.summaryOverride;
+  if (input.colorId !== undefined) settings.colorId = input.colorId;
+  if (input.backgroundColor !== undefined) {
+    settings.backgroundColor = input.backgroundColor;
+    // Google requires both colors in RGB mode
+    settings.foregroundColor = textColorFor(input.backgroundColor);
+  }
+  if (input.hidden !== undefined) settings.hidden = input.hidden;
+  if (input.selected !== undefined) settings.selected = input.selected;
+  if (input.defaultReminders !== undefined) {
+    settings.defaultReminders = input.defaultReminders;
+  }
+
+  return Object.keys(settings).length > 0 ? settings : null;
+}
+
+export function formatCalendar(
+  action: string,
+  calendar: Calendar,
+  entry?: CalendarListItem,
+): string {
+  const lines: string[] = [];
+  const name = entry?.summaryOverride || calendar.summary;
+
+  lines.push(`✓ Calendar ${action}: ${name}`);
+  lines.push(`  id: ${calendar.id}`);
+  if (calendar.timeZone) lines.push(`  timezone: ${calendar.timeZone}`);
+  if (calendar.location) lines.push(`  location: ${calendar.location}`);
+  if (calendar.description) lines.push(`  description: ${calendar.description}`);
+  if (entry?.accessRole) lines.push(`  access: ${entry.accessRole}`);
+  if (entry?.backgroundColor) lines.push(`  color: ${entry.backgroundColor}`);
+  if (entry?.hidden) lines.push('  hidden: yes');
+  if (entry?.selected === false) lines.push('  shown in UI: no');
+  for (const reminder of entry?.defaultReminders ?? []) {
+    lines.push(`  default reminder: ${reminder.method} ${reminder.minutes} min before`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,290 @@
+/**
+ * Undo journal for event writes.
+ *
+ * create_event, create_status_event, update_event, delete_event,
+ * respond_to_event and batch_events record a before/after snapshot of every
+ * event they touch in the StateStore, keyed by the user's account. undo_change applies the inverse: deletes created events,
+ * restores deleted ones, moves events back and reverts patched fields.
+ */
+
+import { ConflictError, NotFoundError } from '../../core/errors.js';
+import type {
+  CalendarEvent,
+  GoogleCalendarClient,
+} from '../../services/google-calendar.js';
+import { getStateStore } from '../storage/singleton.js';
+import { sharedLogger as logger } from '../utils/logger.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EventSnapshot {
+  calendarId: string;
+  event: CalendarEvent;
+}
+
+/** One event before and after a write; `before` is absent for creates, `after` for deletes */
+export interface EventChange {
+  before?: EventSnapshot;
+  after?: EventSnapshot;
+}
+
+export interface ChangeRecord {
+  id: string;
+  /** Primary calendar ID (email) of the user who made the change */
+  account: string;
+  tool: string;
+  description: string;
+  /** Epoch ms */
+  at: number;
+  changes: EventChange[];
+  /** Set on the original once it was undone */
+  undoneBy?: string;
+  /** Set on the record of an undo */
+  undoOf?: string;
+}
+
+export type ChangeKind = 'created' | 'deleted' | 'moved' | 'updated';
+
+/** Records are kept this long (7 days) */
+const JOURNAL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const CHANGE_KEY_PREFIX = 'change:';
+
+/** Fields a revert writes back; server-managed fields are left to Google */
+const RESTORABLE_FIELDS = [
+  'summary',
+  'description',
+  'location',
+  'start',
+  'end',
+  'attendees',
+  'recurrence',
+  'reminders',
+  'visibility',
+  'colorId',
+  'transparency',
+  'extendedProperties',
+  'guestsCanModify',
+  'guestsCanInviteOthers',
+  'guestsCanSeeOtherGuests',
+  'source',
+  'eventType',
+  'outOfOfficeProperties',
+  'focusTimeProperties',
+  'workingLocationProperties',
+] as const satisfies ReadonlyArray<keyof CalendarEvent>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Storage
+// ─────────────────────────────────────────────────────────────────────────────
+
+function changeKey(account: string, changeId: string): string {
+  return `${CHANGE_KEY_PREFIX}${account}:${changeId}`;
+}
+
+/** Time-ordered ID: keys sort by creation */
+function newChangeId(): string {
+  const time = Date.now().toString(36).padStart(9, '0');
+  const random = crypto.getRandomValues(new Uint8Array(3));
+  return `${time}${Array.from(random, (b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+async function saveChange(record: ChangeRecord): Promise<void> {
+  const ttlSeconds = Math.ceil((record.at - Date.now()) / 1000) + JOURNAL_TTL_SECONDS;
+  await getStateStore().put(
+    changeKey(record.account, record.id),
+    record,
+    Math.max(ttlSeconds, 1),
+  );
+}
+
+export async function getChange(
+  account: string,
+  changeId: string,
+): Promise<ChangeRecord | null> {
+  return getStateStore().get<ChangeRecord>(changeKey(account, changeId));
+}
+
+/**
+ * The account's changes, newest first.
+ */
+export async function listChanges(
+  account: string,
+  limit: number,
+): Promise<ChangeRecord[]> {
+  const store = getStateStore();
+  const keys = (await store.list(`${CHANGE_KEY_PREFIX}${account}:`)).sort().reverse();
+  const records = await Promise.all(
+    keys.slice(0, limit).map((key) => store.get<ChangeRecord>(key)),
+  );
+  return records.filter((r): r is ChangeRecord => r !== null);
+}
+
+/**
+ * Journal a successful write. Best effort: a failure is logged and the write
+ * still succeeds, just without an undo entry.
+ *
+ * @returns The change ID, or undefined if nothing was recorded
+ */
+export async function recordChange(
+  client: GoogleCalendarClient,
+  entry: Pick<ChangeRecord, 'tool' | 'description' | 'changes' | 'undoOf'>,
+): Promise<string | undefined> {
+  try {
+    const account = (await client.getPrimaryCalendar()).id;
+    const record: ChangeRecord = {
+      id: newChangeId(),
+      account,
+      at: Date.now(),
+      ...entry,
+    };
+    await saveChange(record);
+
+    if (entry.undoOf) {
+      const original = await getChange(account, entry.undoOf);
+      if (original) await saveChange({ ...original, undoneBy: record.id });
+    }
+    return record.id;
+  } catch (error) {
+    logger.warning('change_journal', {
+      message: 'Failed to record change',
+      tool: entry.tool,
+      error: (error as Error).message,
+    });
+    return undefined;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Describing and undoing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function changeKind(change: EventChange): ChangeKind {
+  if (!change.before) return 'created';
+  if (!change.after) return 'deleted';
+  return change.before.calendarId !== change.after.calendarId ? 'moved' : 'updated';
+}
+
+function pickRestorable(event: CalendarEvent): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const field of RESTORABLE_FIELDS) {
+    if (event[field] !== undefined) fields[field] = event[field];
+  }
+  return fields;
+}
+
+/** Fields that differ, with the `before` values (null clears a field) */
+function revertPatch(
+  before: CalendarEvent,
+  after: CalendarEvent,
+): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  for (const field of RESTORABLE_FIELDS) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      patch[field] = before[field] ?? null;
+    }
+  }
+  return patch;
+}
+
+/**
+ * Event as it is now, where the change left it. Throws if it was edited since,
+ * unless `force` is set: undoing would silently discard those edits.
+ */
+async function currentState(
+  client: GoogleCalendarClient,
+  after: EventSnapshot,
+  force: boolean,
+): Promise<CalendarEvent> {
+  const current = await client.getEvent(after.calendarId, after.event.id);
+  if (!force && current.etag && after.event.etag && current.etag !== after.event.etag) {
+    throw new ConflictError(
+      `"${current.summary ?? after.event.id}" was changed after this change was recorded.`,
+      {
+        hint: "Check it with 'get_event'; pass force: true to undo anyway and discard the later edits.",
+        reason: 'changedSinceRecorded',
+      },
+    );
+  }
+  return current;
+}
+
+/**
+ * Apply the inverse of a recorded change, last event first.
+ *
+ * @returns The inverse changes, for journaling the undo itself
+ */
+export async function undoChange(
+  client: GoogleCalendarClient,
+  record: ChangeRecord,
+  options: { force?: boolean; sendUpdates?: 'all' | 'externalOnly' | 'none' } = {},
+): Promise<EventChange[]> {
+  const force = options.force ?? false;
+  const sendUpdates = options.sendUpdates;
+
+  // Check every event before writing anything
+  const steps: Array<{ change: EventChange; current?: CalendarEvent }> = [];
+  for (const change of [...record.changes].reverse()) {
+    const current = change.after && (await currentState(client, change.after, force));
+    steps.push({ change, current });
+  }
+
+  const inverse: EventChange[] = [];
+  for (const { change, current } of steps) {
+    const { before, after } = change;
+
+    if (!before && after && current) {
+      // Created: delete it again
+      await client.deleteEvent({
+        calendarId: after.calendarId,
+        eventId: after.event.id,
+        sendUpdates,
+      });
+      inverse.push({ before: { calendarId: after.calendarId, event: current } });
+    } else if (before && !after) {
+      // Deleted: Google keeps deleted events for a while, so restore in place
+      // (keeps the ID and series); re-create a copy once it is gone for good
+      let restored: CalendarEvent;
+      try {
+        restored = await client.patchEvent(
+          before.calendarId,
+          before.event.id,
+          { ...pickRestorable(before.event), status: 'confirmed' },
+          { sendUpdates },
+        );
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+        restored = await client.insertEvent(
+          before.calendarId,
+          pickRestorable(before.event),
+          { sendUpdates },
+        );
+      }
+      inverse.push({ after: { calendarId: before.calendarId, event: restored } });
+    } else if (before && after && current) {
+      let restored = current;
+      if (before.calendarId !== after.calendarId) {
+        restored = await client.moveEvent({
+          calendarId: after.calendarId,
+          eventId: after.event.id,
+          destinationCalendarId: before.calendarId,
+          sendUpdates,
+        });
+      }
+      const patch = revertPatch(before.event, after.event);
+      if (Object.keys(patch).length > 0) {
+        restored = await client.patchEvent(before.calendarId, before.event.id, patch, {
+          sendUpdates,
+        });
+      }
+      inverse.push({
+        before: { calendarId: after.calendarId, event: current },
+        after: { calendarId: before.calendarId, event: restored },
+      });
+    }
+  }
+
+  return inverse;
+}
@@ -4,18 +4,32 @@
 
 import { z } from 'zod';
 import { toolsMetadata } from '../../config/metadata.js';
+import { AuthRequiredError, toolErrorResult } from '../../core/errors.js';
 import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { AccountSchema } from './accounts.js';
+import { CalendarScopes } from './scopes.js';
+import { createTimeResolver, TIME_EXPRESSION_EXAMPLES } from './time-input.js';
 import { defineTool, type ToolResult } from './types.js';
 
 const InputSchema = z.object({
-  timeMin: z.string().describe('Start of time range to check (RFC3339 with timezone, e.g., 2025-12-06T09:00:00Z or 2025-12-06T09:00:00+01:00)'),
-  timeMax: z.string().describe('End of time range to check (RFC3339 with timezone, e.g., 2025-12-06T17:00:00Z or 2025-12-06T17:00:00+01:00)'),
+  timeMin: z
+    .string()
+    .describe(
+      `Start of time range to check: RFC3339, a local time or an expression (e.g. ${TIME_EXPRESSION_EXAMPLES}); a date means midnight`,
+    ),
+  timeMax: z.string().describe('End of time range, in the same forms as timeMin'),
   calendarIds: z
     .array(z.string())
     .optional()
     .default(['primary'])
     .describe('Calendar IDs to check (defaults to ["primary"])'),
-  timeZone: z.string().optional().describe('Timezone for the response'),
+  timeZone: z
+    .string()
+    .optional()
+    .describe(
+      "IANA zone for the response and for times without an offset (default for reading them: the primary calendar's zone)",
+    ),
+  account: AccountSchema,
 });
 
 function formatBusySlot(slot: { start: string; end: string }): string {
@@ -29,6 +43,7 @@ export const checkAvailabilityTool = defineTool({
   title: toolsMetadata.check_availability.title,
   description: toolsMetadata.check_availability.description,
   inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.readonly],
   annotations: {
     readOnlyHint: true,
     destructiveHint: false,
@@ -38,30 +53,26 @@ export const checkAvailabilityTool = defineTool({
     const token = context.providerToken;
 
     if (!token) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: 'Authentication required. Please authenticate with Google Calendar.',
-          },
-        ],
-      };
+      return toolErrorResult(new AuthRequiredError());
     }
 
-    const client = new GoogleCalendarClient(token);
+    const client = new GoogleCalendarClient(token, { signal: context.signal });
 
     try {
+      const times = createTimeResolver(client, args.timeZone);
+      const timeMin = await times.instant(args.timeMin);
+      const timeMax = await times.instant(args.timeMax);
+
       const result = await client.getFreeBusy({
-        timeMin: args.timeMin,
-        timeMax: args.timeMax,
+        timeMin,
+        timeMax,
         calendarIds: args.calendarIds,
         timeZone: args.timeZone,
       });
 
       // Format for LLM consumption
       const lines: string[] = [];
-      lines.push(`Availability check: ${args.timeMin} to ${args.timeMax}\n`);
+      lines.push(`Availability check: ${timeMin} to ${timeMax}\n`);
 
       let totalBusySlots = 0;
 
@@ -103,20 +114,7 @@ export const checkAvailabilityTool = defineTool({
         },
       };
     } catch (error) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: `Failed to check availability: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return toolErrorResult(error, 'check availability');
     }
   },
 });
-
-
-
-
-
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { CalendarEvent } from '../../services/google-calendar.js';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+function addEvent(summary: string, start: string, end: string, extra = {}) {
+  return mcp.emulator.addEvent('alice@example.com', {
+    summary,
+    start: { dateTime: start },
+    end: { dateTime: end },
+    ...extra,
+  });
+}
+
+function eventCount() {
+  return mcp.emulator.state.calendars.get('alice@example.com')?.events.size;
+}
+
+const createAt = (start: string, end: string, args: Record<string, unknown> = {}) =>
+  mcp.callTool('create_event', { summary: 'Planning', start, end, ...args });
+
+describe('conflictPolicy', () => {
+  test("'reject' names the overlapping events and creates nothing", async () => {
+    const standup = addEvent('Standup', '2025-03-04T09:00:00Z', '2025-03-04T09:30:00Z');
+
+    const result = await createAt('2025-03-04T09:15:00Z', '2025-03-04T10:00:00Z', {
+      conflictPolicy: 'reject',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'conflict',
+      reason: 'timeConflict',
+      message: 'The requested time overlaps "Standup".',
+      details: {
+        conflicts: [
+          {
+            calendarId: 'primary',
+            start: '2025-03-04T09:00:00Z',
+            end: '2025-03-04T09:30:00Z',
+            eventId: standup.id,
+            summary: 'Standup',
+            htmlLink: standup.htmlLink,
+          },
+        ],
+      },
+    });
+    expect(eventCount()).toBe(1);
+  });
+
+  test("'warn' creates the event and reports the conflicts", async () => {
+    addEvent('Standup', '2025-03-04T09:00:00Z', '2025-03-04T09:30:00Z');
+
+    const result = await createAt('2025-03-04T09:15:00Z', '2025-03-04T10:00:00Z', {
+      conflictPolicy: 'warn',
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent?.conflicts).toEqual([
+      expect.objectContaining({ summary: 'Standup' }),
+    ]);
+    expect(result.content[0]).toMatchObject({
+      text: expect.stringContaining('⚠ Overlaps 1 busy time(s):'),
+    });
+    expect(eventCount()).toBe(2);
+  });
+
+  test('free, declined and back-to-back events are not conflicts', async () => {
+    addEvent('Before', '2025-03-04T08:00:00Z', '2025-03-04T09:00:00Z');
+    addEvent('Reminder', '2025-03-04T09:00:00Z', '2025-03-04T10:00:00Z', {
+      transparency: 'transparent',
+    });
+    addEvent('Declined', '2025-03-04T09:00:00Z', '2025-03-04T10:00:00Z', {
+      attendees: [
+        { email: 'alice@example.com', self: true, responseStatus: 'declined' },
+      ],
+    });
+    addEvent('After', '2025-03-04T10:00:00Z', '2025-03-04T11:00:00Z');
+
+    const result = await createAt('2025-03-04T09:00:00Z', '2025-03-04T10:00:00Z', {
+      conflictPolicy: 'reject',
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent?.conflicts).toEqual([]);
+  });
+
+  test('attendees report busy blocks, and unreadable calendars are listed', async () => {
+    mcp.emulator.addCalendar({ id: 'bob@example.com', summary: 'Bob' });
+    mcp.emulator.addEvent('bob@example.com', {
+      summary: 'Private',
+      start: { dateTime: '2025-03-04T09:30:00Z' },
+      end: { dateTime: '2025-03-04T11:00:00Z' },
+    });
+
+    const result = await createAt('2025-03-04T09:00:00Z', '2025-03-04T10:00:00Z', {
+      conflictPolicy: 'reject',
+      checkAttendees: true,
+      attendees: ['bob@example.com', 'carol@example.com'],
+    });
+
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'conflict',
+      message: 'The requested time overlaps 1 attendee busy block(s).',
+      details: {
+        // Clipped to the requested time, without details of Bob's event
+        conflicts: [
+          {
+            calendarId: 'bob@example.com',
+            start: '2025-03-04T09:30:00.000Z',
+            end: '2025-03-04T10:00:00.000Z',
+          },
+        ],
+        unchecked: { 'carol@example.com': 'notFound' },
+      },
+    });
+  });
+
+  test('an update is not in conflict with the event itself', async () => {
+    const event = addEvent('Review', '2025-03-04T09:00:00Z', '2025-03-04T10:00:00Z');
+    addEvent('Lunch', '2025-03-04T12:00:00Z', '2025-03-04T13:00:00Z');
+    const update = (start: string, end: string) =>
+      mcp.callTool('update_event', {
+        eventId: event.id,
+        start,
+        end,
+        conflictPolicy: 'reject',
+      });
+
+    const later = await update('2025-03-04T09:30:00Z', '2025-03-04T10:30:00Z');
+    expect(later.isError).toBeFalsy();
+
+    const onLunch = await update('2025-03-04T12:30:00Z', '2025-03-04T13:30:00Z');
+    expect(onLunch.structuredContent?.error).toMatchObject({
+      code: 'conflict',
+      message: 'The requested time overlaps "Lunch".',
+    });
+    const stored = mcp.emulator.state.calendars
+      .get('alice@example.com')
+      ?.events.get(event.id) as CalendarEvent;
+    expect(stored.start?.dateTime).toBe('2025-03-04T09:30:00Z');
+  });
+});
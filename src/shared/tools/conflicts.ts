@@ -0,0 +1,249 @@
+/**
+ * Double-booking guard for create_event and update_event.
+ *
+ * Free/busy is queried for the event's calendar (and optionally attendees).
+ * Busy time on the event's own calendar is resolved to the overlapping events
+ * so the result can name them; attendees' calendars only expose busy blocks.
+ */
+
+import { z } from 'zod';
+import { ConflictError } from '../../core/errors.js';
+import type {
+  CalendarEvent,
+  EventDateTime,
+  GoogleCalendarClient,
+} from '../../services/google-calendar.js';
+import { zonedTimeToUtc } from '../utils/time.js';
+
+export const ConflictPolicySchema = z
+  .enum(['ignore', 'warn', 'reject'])
+  .optional()
+  .default('ignore')
+  .describe(
+    "Check for overlapping events first: 'ignore' (default, no check), 'warn' (write and report conflicts) or 'reject' (don't write if there are conflicts)",
+  );
+
+export const CheckAttendeesSchema = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe("With conflictPolicy 'warn'/'reject', also check attendees' free/busy");
+
+export interface EventConflict {
+  /** Calendar (or attendee email) that is busy */
+  calendarId: string;
+  start: string;
+  end: string;
+  /** Only known for the event's own calendar */
+  eventId?: string;
+  summary?: string;
+  htmlLink?: string;
+}
+
+export interface ConflictCheck {
+  conflicts: EventConflict[];
+  /** Calendars whose free/busy could not be read, with the reason */
+  unchecked: Record<string, string>;
+}
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+const WINDOW_PADDING_MS = 60_000;
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/;
+
+/**
+ * Instant of a timed EventDateTime. Values without an offset are read in
+ * their timeZone (or `fallbackZone`), like Google does.
+ */
+function toInstant(time: EventDateTime, fallbackZone: string): number | null {
+  if (!time.dateTime) return null;
+  if (/Z$|[+-]\d{2}:\d{2}$/.test(time.dateTime)) return Date.parse(time.dateTime);
+
+  const match = LOCAL_DATE_TIME.exec(time.dateTime);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second = '0'] = match;
+  return zonedTimeToUtc(
+    {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: Number(second),
+    },
+    time.timeZone ?? fallbackZone,
+  ).getTime();
+}
+
+function overlaps(a: TimeRange, b: TimeRange): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/** Events that don't block time: free, cancelled, or declined by the user */
+function blocksTime(event: CalendarEvent): boolean {
+  if (event.status === 'cancelled' || event.transparency === 'transparent')
+    return false;
+  if (!event.start?.dateTime) return false;
+  const self = event.attendees?.find((a) => a.self);
+  return self?.responseStatus !== 'declined';
+}
+
+/**
+ * Find events and busy blocks overlapping [start, end). All-day events are
+ * not checked (returns no conflicts).
+ *
+ * @param exclude - The event being updated: its ID (also matches instances of
+ *   a series) and its current time, which attendees' free/busy still shows
+ */
+export async function findConflicts(
+  client: GoogleCalendarClient,
+  params: {
+    calendarId: string;
+    start: EventDateTime;
+    end: EventDateTime;
+    attendees?: string[];
+    exclude?: { eventId: string; start?: EventDateTime; end?: EventDateTime };
+  },
+): Promise<ConflictCheck> {
+  const result: ConflictCheck = { conflicts: [], unchecked: {} };
+  if (!params.start.dateTime || !params.end.dateTime) return result;
+
+  // Needed only for wall-clock times without a zone
+  let zone = 'UTC';
+  if (!params.start.timeZone && !/Z$|[+-]\d{2}:\d{2}$/.test(params.start.dateTime)) {
+    zone = (await client.getCalendarListEntry(params.calendarId)).timeZone ?? 'UTC';
+  }
+
+  const startMs = toInstant(params.start, zone);
+  const endMs = toInstant(params.end, zone);
+  if (startMs === null || endMs === null || endMs <= startMs) return result;
+
+  const range = { start: startMs, end: endMs };
+  const timeMin = new Date(startMs).toISOString();
+  const timeMax = new Date(endMs).toISOString();
+
+  const exclude = params.exclude;
+  const excludedStart = exclude?.start ? toInstant(exclude.start, zone) : null;
+  const excludedEnd = exclude?.end ? toInstant(exclude.end, zone) : null;
+  const excluded =
+    excludedStart !== null && excludedEnd !== null
+      ? { start: excludedStart, end: excludedEnd }
+      : null;
+
+  // Free/busy merges and clips blocks. Querying a little past the event's
+  // current time keeps its block intact: only an exact match is the event itself
+  const attendees = (params.attendees ?? []).filter(
+    (email) => email.toLowerCase() !== params.calendarId.toLowerCase(),
+  );
+  const freeBusy = await client.getFreeBusy({
+    timeMin: new Date(
+      Math.min(startMs, excluded?.start ?? startMs) - WINDOW_PADDING_MS,
+    ).toISOString(),
+    timeMax: new Date(
+      Math.max(endMs, excluded?.end ?? endMs) + WINDOW_PADDING_MS,
+    ).toISOString(),
+    calendarIds: [params.calendarId, ...attendees],
+  });
+  const isExcludedBlock = (block: TimeRange) =>
+    excluded !== null && block.start === excluded.start && block.end === excluded.end;
+
+  for (const [calendarId, data] of Object.entries(freeBusy.calendars)) {
+    if (data.errors && data.errors.length > 0) {
+      result.unchecked[calendarId] = data.errors.map((e) => e.reason).join(', ');
+      continue;
+    }
+
+    const busy = data.busy
+      .map((block) => ({ start: Date.parse(block.start), end: Date.parse(block.end) }))
+      .filter((block) => overlaps(block, range));
+    if (busy.length === 0) continue;
+
+    if (calendarId !== params.calendarId) {
+      for (const block of busy) {
+        if (isExcludedBlock(block)) continue;
+        result.conflicts.push({
+          calendarId,
+          start: new Date(Math.max(block.start, range.start)).toISOString(),
+          end: new Date(Math.min(block.end, range.end)).toISOString(),
+        });
+      }
+      continue;
+    }
+
+    // Our own calendar: name the events behind the busy time
+    const { items } = await client.listEvents({
+      calendarId: params.calendarId,
+      timeMin,
+      timeMax,
+      singleEvents: true,
+      orderBy: 'startTime',
+    });
+    for (const event of items ?? []) {
+      if (!blocksTime(event)) continue;
+      if (
+        exclude &&
+        (event.id === exclude.eventId || event.recurringEventId === exclude.eventId)
+      ) {
+        continue;
+      }
+      result.conflicts.push({
+        calendarId,
+        start: event.start?.dateTime ?? '',
+        end: event.end?.dateTime ?? '',
+        eventId: event.id,
+        summary: event.summary,
+        htmlLink: event.htmlLink,
+      });
+    }
+  }
+
+  return result;
+}
+
+export function formatConflicts(check: ConflictCheck | undefined): string[] {
+  const lines: string[] = [];
+  if (!check) return lines;
+
+  if (check.conflicts.length > 0) {
+    lines.push(`⚠ Overlaps ${check.conflicts.length} busy time(s):`);
+    for (const conflict of check.conflicts) {
+      const when = `${conflict.start} → ${conflict.end}`;
+      if (conflict.eventId) {
+        const title = conflict.summary || '(no title)';
+        const label = conflict.htmlLink ? `[${title}](${conflict.htmlLink})` : title;
+        lines.push(`  - ${label} (${when}, id: ${conflict.eventId})`);
+      } else {
+        lines.push(`  - ${conflict.calendarId} is busy ${when}`);
+      }
+    }
+  }
+
+  const unchecked = Object.entries(check.unchecked);
+  if (unchecked.length > 0) {
+    lines.push(
+      `  Not checked: ${unchecked.map(([id, reason]) => `${id} (${reason})`).join(', ')}`,
+    );
+  }
+
+  return lines;
+}
+
+export function conflictError(check: ConflictCheck): ConflictError {
+  const own = check.conflicts.filter((c) => c.eventId);
+  const names = own.map((c) => `"${c.summary || '(no title)'}"`).join(', ');
+  const others = check.conflicts.length - own.length;
+
+  const parts = [names, others > 0 ? `${others} attendee busy block(s)` : '']
+    .filter(Boolean)
+    .join(' and ');
+
+  return new ConflictError(`The requested time overlaps ${parts}.`, {
+    hint: "Pick another time ('find_meeting_slots' lists free ones), or retry with conflictPolicy 'warn' to double-book deliberately.",
+    reason: 'timeConflict',
+    details: { conflicts: check.conflicts, unchecked: check.unchecked },
+  });
+}
@@ -0,0 +1,111 @@
+/**
+ * Create Calendar tool - create a secondary calendar owned by the user.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { publishCalendarListChange } from '../resources/subscriptions.js';
+import { isValidTimeZone } from '../utils/time.js';
+import { AccountSchema } from './accounts.js';
+import {
+  CalendarListSettingsShape,
+  formatCalendar,
+  pickListSettings,
+} from './calendar-settings.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  summary: z.string().min(1).describe('Calendar name'),
+  description: z.string().optional().describe('Calendar description'),
+  location: z.string().optional().describe('Geographic location, free text'),
+  timeZone: z
+    .string()
+    .optional()
+    .describe('IANA time zone, e.g. "Europe/Berlin" (default: your primary calendar)'),
+  ...CalendarListSettingsShape,
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+export const createCalendarTool = defineTool({
+  name: toolsMetadata.create_calendar.name,
+  title: toolsMetadata.create_calendar.title,
+  description: toolsMetadata.create_calendar.description,
+  inputSchema: InputSchema,
+  requiredScopes: [
+    CalendarScopes.calendars,
+    CalendarScopes.calendarList,
+    CalendarScopes.readonly,
+  ],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    if (args.timeZone && !isValidTimeZone(args.timeZone)) {
+      return toolErrorResult(
+        new InvalidInputError(`Unknown time zone: ${args.timeZone}`, {
+          hint: 'Use an IANA time zone name such as "America/New_York".',
+        }),
+      );
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+
+    try {
+      // New calendars default to the user's primary time zone, like the UI
+      const timeZone = args.timeZone ?? (await client.getPrimaryCalendar()).timeZone;
+
+      const calendar = await client.createCalendar({
+        summary: args.summary,
+        description: args.description,
+        location: args.location,
+        timeZone,
+      });
+
+      const settings = pickListSettings(args);
+      const entry = settings
+        ? await client.updateCalendarListEntry(calendar.id, settings)
+        : undefined;
+
+      if (args.dryRun) {
+        return dryRunResult(client, {
+          tool: 'create_calendar',
+          summary: `Would create calendar "${args.summary}" (time zone ${timeZone}).${settings ? ` '${calendar.id}' stands for its new ID.` : ''}`,
+        });
+      }
+
+      await publishCalendarListChange(client, calendar.id);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${formatCalendar('created', calendar, entry)}\n\nNext: Use this calendarId with 'create_event'.`,
+          },
+        ],
+        structuredContent: { ...calendar, ...(entry && { listEntry: entry }) },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'create calendar');
+    }
+  },
+});
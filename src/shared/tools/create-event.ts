@@ -4,10 +4,29 @@
 
 import { z } from 'zod';
 import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
 import {
   type CalendarEvent,
   GoogleCalendarClient,
 } from '../../services/google-calendar.js';
+import { publishEventChange } from '../resources/subscriptions.js';
+import { AccountSchema } from './accounts.js';
+import { recordChange } from './change-journal.js';
+import {
+  CheckAttendeesSchema,
+  type ConflictCheck,
+  ConflictPolicySchema,
+  conflictError,
+  findConflicts,
+  formatConflicts,
+} from './conflicts.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { createTimeResolver, TIME_EXPRESSION_EXAMPLES } from './time-input.js';
 import { defineTool, type ToolResult } from './types.js';
 
 const ReminderOverrideSchema = z.object({
@@ -34,11 +53,13 @@ const InputSchema = z.object({
   start: z
     .string()
     .optional()
-    .describe('Start time (ISO 8601 datetime or YYYY-MM-DD for all-day)'),
+    .describe(
+      `Start time, or a date (YYYY-MM-DD) for all-day. Local times and expressions are read in timeZone (e.g. ${TIME_EXPRESSION_EXAMPLES})`,
+    ),
   end: z
     .string()
     .optional()
-    .describe('End time (ISO 8601 datetime or YYYY-MM-DD for all-day)'),
+    .describe('End time or date (exclusive for all-day), in the same forms as start'),
   description: z.string().optional().describe('Event description'),
   location: z.string().optional().describe('Event location'),
   attendees: z
@@ -61,13 +82,18 @@ const InputSchema = z.object({
   visibility: z.enum(['default', 'public', 'private', 'confidential']).optional(),
   colorId: z.string().optional().describe('Color ID (1-11)'),
   sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional().default('none'),
-  timeZone: z.string().optional().describe('Time zone for the event'),
+  timeZone: z
+    .string()
+    .optional()
+    .describe(
+      "IANA time zone for the event and for times without an offset (default for reading them: the primary calendar's zone)",
+    ),
+  conflictPolicy: ConflictPolicySchema,
+  checkAttendees: CheckAttendeesSchema,
+  dryRun: DryRunSchema,
+  account: AccountSchema,
 });
 
-function isAllDayDate(str: string): boolean {
-  return /^\d{4}-\d{2}-\d{2}$/.test(str);
-}
-
 function formatCreatedEvent(event: CalendarEvent): string {
   const lines: string[] = [];
 
@@ -104,6 +130,7 @@ export const createEventTool = defineTool({
   title: toolsMetadata.create_event.title,
   description: toolsMetadata.create_event.description,
   inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.events, CalendarScopes.readonly],
   annotations: {
     readOnlyHint: false,
     destructiveHint: false,
@@ -113,71 +140,100 @@ export const createEventTool = defineTool({
     const token = context.providerToken;
 
     if (!token) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: 'Authentication required. Please authenticate with Google Calendar.',
-          },
-        ],
-      };
+      return toolErrorResult(new AuthRequiredError());
     }
 
-    const client = new GoogleCalendarClient(token);
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+
+    const calendarId = args.calendarId || 'primary';
 
     try {
       let result: CalendarEvent;
+      let conflicts: ConflictCheck | undefined;
 
       // Determine mode: natural language (quickAdd) vs structured
-      const useQuickAdd = args.text && !args.summary;
+      const quickAddText = args.summary ? undefined : args.text;
+
+      if (quickAddText) {
+        // The time is only known after Google parsed the text
+        if (args.conflictPolicy === 'reject') {
+          return toolErrorResult(
+            new InvalidInputError(
+              "conflictPolicy 'reject' needs structured input (summary, start, end).",
+              { hint: "Use summary/start/end, or conflictPolicy 'warn' with text." },
+            ),
+          );
+        }
 
-      if (useQuickAdd) {
         // Mode A: Natural language
         result = await client.quickAdd({
           calendarId: args.calendarId,
-          text: args.text!,
+          text: quickAddText,
           sendUpdates: args.sendUpdates,
         });
+
+        if (args.conflictPolicy === 'warn' && result.start && result.end) {
+          conflicts = await findConflicts(client, {
+            calendarId,
+            start: result.start,
+            end: result.end,
+            exclude: { eventId: result.id },
+          });
+        }
       } else {
         // Mode B: Structured
         if (!args.summary) {
-          return {
-            isError: true,
-            content: [
-              {
-                type: 'text',
-                text: "Either 'text' (for natural language) or 'summary' (for structured) is required.",
-              },
-            ],
-          };
+          return toolErrorResult(
+            new InvalidInputError(
+              "Either 'text' (for natural language) or 'summary' (for structured) is required.",
+            ),
+          );
         }
 
         if (!args.start || !args.end) {
-          return {
-            isError: true,
-            content: [
+          return toolErrorResult(
+            new InvalidInputError(
+              "'start' and 'end' are required for structured event creation.",
+            ),
+          );
+        }
+
+        // Dates make an all-day event; everything else resolves to an instant
+        const times = createTimeResolver(client, args.timeZone);
+        const start = await times.eventTime(args.start, args.timeZone);
+        const end = await times.eventTime(args.end, args.timeZone);
+        if (Boolean(start.date) !== Boolean(end.date)) {
+          return toolErrorResult(
+            new InvalidInputError(
+              'start and end must both be dates (all-day) or both be times.',
               {
-                type: 'text',
-                text: "'start' and 'end' are required for structured event creation.",
+                hint: 'For all-day events pass dates, e.g. start 2025-03-30 and end 2025-03-31 (exclusive).',
               },
-            ],
-          };
+            ),
+          );
         }
 
-        // Determine if all-day event
-        const isAllDay = isAllDayDate(args.start) && isAllDayDate(args.end);
+        if (args.conflictPolicy !== 'ignore') {
+          conflicts = await findConflicts(client, {
+            calendarId,
+            start,
+            end,
+            attendees: args.checkAttendees ? args.attendees : undefined,
+          });
+          if (args.conflictPolicy === 'reject' && conflicts.conflicts.length > 0) {
+            return toolErrorResult(conflictError(conflicts), 'create event');
+          }
+        }
 
         result = await client.createEvent({
           calendarId: args.calendarId,
           summary: args.summary,
           description: args.description,
-          start: isAllDay
-            ? { date: args.start }
-            : { dateTime: args.start, timeZone: args.timeZone },
-          end: isAllDay
-            ? { date: args.end }
-            : { dateTime: args.end, timeZone: args.timeZone },
+          start,
+          end,
           location: args.location,
           attendees: args.attendees,
           addGoogleMeet: args.addGoogleMeet,
@@ -189,7 +245,29 @@ export const createEventTool = defineTool({
         });
       }
 
-      const text = formatCreatedEvent(result);
+      if (args.dryRun) {
+        return dryRunResult(client, {
+          tool: 'create_event',
+          summary: quickAddText
+            ? `Would create an event from "${quickAddText}" on ${calendarId}; Google parses the text when it is sent.`
+            : `Would create "${args.summary}" on ${calendarId}.`,
+          notes: formatConflicts(conflicts),
+          details: conflicts && { conflicts: conflicts.conflicts },
+        });
+      }
+
+      await publishEventChange(client, calendarId, result.id);
+      const changeId = await recordChange(client, {
+        tool: 'create_event',
+        description: `Created "${result.summary ?? '(no title)'}"`,
+        changes: [{ after: { calendarId, event: result } }],
+      });
+
+      const text = [
+        formatCreatedEvent(result),
+        ...(changeId ? [`  changeId: ${changeId}`] : []),
+        ...formatConflicts(conflicts),
+      ].join('\n');
 
       return {
         content: [
@@ -200,15 +278,14 @@ export const createEventTool = defineTool({
               "\n\nNext: Share htmlLink with user. Use 'search_events' to verify.",
           },
         ],
-        structuredContent: result,
+        structuredContent: {
+          ...result,
+          ...(conflicts && { conflicts: conflicts.conflicts }),
+          ...(changeId && { changeId }),
+        },
       };
     } catch (error) {
-      return {
-        isError: true,
-        content: [
-          { type: 'text', text: `Failed to create event: ${(error as Error).message}` },
-        ],
-      };
+      return toolErrorResult(error, 'create event');
     }
   },
 });
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { CalendarEvent } from '../../services/google-calendar.js';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+async function createStatus(args: Record<string, unknown>) {
+  const result = await mcp.callTool('create_status_event', {
+    start: '2025-03-05T09:00:00Z',
+    end: '2025-03-05T12:00:00Z',
+    ...args,
+  });
+  const stored = mcp.emulator.state.calendars
+    .get('alice@example.com')
+    ?.events.get(result.structuredContent?.id as string);
+  return { result, stored: stored as CalendarEvent | undefined };
+}
+
+describe('create_status_event', () => {
+  test('out of office declines new invitations by default', async () => {
+    const { stored } = await createStatus({
+      eventType: 'outOfOffice',
+      declineMessage: 'Back on Monday',
+    });
+
+    expect(stored).toMatchObject({
+      eventType: 'outOfOffice',
+      summary: 'Out of office',
+      outOfOfficeProperties: {
+        autoDeclineMode: 'declineOnlyNewConflictingInvitations',
+        declineMessage: 'Back on Monday',
+      },
+    });
+  });
+
+  test('focus time sets the chat status and declines nothing by default', async () => {
+    const { stored } = await createStatus({
+      eventType: 'focusTime',
+      chatStatus: 'doNotDisturb',
+    });
+
+    expect(stored?.focusTimeProperties).toMatchObject({
+      autoDeclineMode: 'declineNone',
+      chatStatus: 'doNotDisturb',
+    });
+  });
+
+  test('working locations are all-day, free and public', async () => {
+    const { stored } = await createStatus({
+      eventType: 'workingLocation',
+      start: '2025-03-05',
+      end: '2025-03-06',
+      workingLocation: {
+        type: 'officeLocation',
+        label: 'HQ',
+        buildingId: 'b1',
+        floorId: '3',
+        deskId: '3-14',
+      },
+    });
+
+    expect(stored).toMatchObject({
+      summary: 'HQ',
+      start: { date: '2025-03-05' },
+      transparency: 'transparent',
+      visibility: 'public',
+      workingLocationProperties: {
+        type: 'officeLocation',
+        officeLocation: { label: 'HQ', buildingId: 'b1', floorId: '3', deskId: '3-14' },
+      },
+    });
+  });
+
+  test.each([
+    ['workingLocation is required', { eventType: 'workingLocation' }],
+    [
+      'do not apply to working locations',
+      {
+        eventType: 'workingLocation',
+        workingLocation: { type: 'homeOffice' },
+        chatStatus: 'available',
+      },
+    ],
+    [
+      'Use dates (YYYY-MM-DD) for both start and end',
+      {
+        eventType: 'workingLocation',
+        workingLocation: { type: 'homeOffice' },
+        end: '2025-03-06',
+      },
+    ],
+    [
+      'workingLocation does not apply to focus time',
+      { eventType: 'focusTime', workingLocation: { type: 'homeOffice' } },
+    ],
+    [
+      'Out of office cannot be all-day',
+      { eventType: 'outOfOffice', start: '2025-03-05', end: '2025-03-06' },
+    ],
+    [
+      'chatStatus only applies',
+      { eventType: 'outOfOffice', chatStatus: 'doNotDisturb' },
+    ],
+    [
+      'declineMessage needs an autoDeclineMode',
+      {
+        eventType: 'outOfOffice',
+        autoDeclineMode: 'declineNone',
+        declineMessage: 'Away',
+      },
+    ],
+  ])('rejects: %s', async (message, args) => {
+    const { result } = await createStatus(args);
+
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'invalid_input',
+      message: expect.stringContaining(message),
+    });
+    expect(mcp.emulator.state.calendars.get('alice@example.com')?.events.size).toBe(0);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Create Status Event tool - out of office, focus time and working location.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import {
+  type CalendarEvent,
+  type CreateEventParams,
+  GoogleCalendarClient,
+  type WorkingLocationProperties,
+} from '../../services/google-calendar.js';
+import { publishEventChange } from '../resources/subscriptions.js';
+import { AccountSchema } from './accounts.js';
+import { recordChange } from './change-journal.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { formatStatusProperties } from './status-events.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const WorkingLocationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('homeOffice') }),
+  z.object({
+    type: z.literal('officeLocation'),
+    label: z.string().optional().describe('Office name shown in Calendar'),
+    buildingId: z.string().optional(),
+    floorId: z.string().optional(),
+    floorSectionId: z.string().optional(),
+    deskId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('customLocation'),
+    label: z.string().min(1).describe('Where you work from, e.g. "Client site"'),
+  }),
+]);
+
+const InputSchema = z.object({
+  eventType: z
+    .enum(['outOfOffice', 'focusTime', 'workingLocation'])
+    .describe('Kind of status event'),
+  start: z
+    .string()
+    .describe(
+      'Start time (ISO 8601 datetime; YYYY-MM-DD for all-day working location)',
+    ),
+  end: z
+    .string()
+    .describe('End time (ISO 8601 datetime; YYYY-MM-DD for all-day working location)'),
+  summary: z
+    .string()
+    .optional()
+    .describe('Title (default: "Out of office", "Focus time" or the location)'),
+  timeZone: z.string().optional().describe('Time zone for datetime values'),
+  recurrence: z
+    .array(z.string())
+    .optional()
+    .describe('RRULE array, e.g. a weekly focus block'),
+
+  // Out of office and focus time
+  autoDeclineMode: z
+    .enum([
+      'declineNone',
+      'declineAllConflictingInvitations',
+      'declineOnlyNewConflictingInvitations',
+    ])
+    .optional()
+    .describe(
+      "outOfOffice/focusTime: invitations to decline (default: 'declineOnlyNewConflictingInvitations' for outOfOffice, 'declineNone' for focusTime)",
+    ),
+  declineMessage: z
+    .string()
+    .optional()
+    .describe('outOfOffice/focusTime: message sent with declined invitations'),
+  chatStatus: z
+    .enum(['available', 'doNotDisturb'])
+    .optional()
+    .describe('focusTime: Google Chat status during the block'),
+
+  // Working location
+  workingLocation: WorkingLocationSchema.optional().describe(
+    'workingLocation: homeOffice, officeLocation (label, buildingId, floorId, floorSectionId, deskId) or customLocation (label)',
+  ),
+
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+type Input = z.infer<typeof InputSchema>;
+
+const TYPE_LABELS = {
+  outOfOffice: 'Out of office',
+  focusTime: 'Focus time',
+  workingLocation: 'Working location',
+} as const;
+
+function isAllDayDate(str: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(str);
+}
+
+function toWorkingLocationProperties(
+  location: NonNullable<Input['workingLocation']>,
+): WorkingLocationProperties {
+  switch (location.type) {
+    case 'homeOffice':
+      return { type: 'homeOffice', homeOffice: {} };
+    case 'officeLocation': {
+      const { type, ...officeLocation } = location;
+      return { type, officeLocation };
+    }
+    case 'customLocation':
+      return { type: 'customLocation', customLocation: { label: location.label } };
+  }
+}
+
+function defaultSummary(args: Input): string {
+  const location = args.workingLocation;
+  if (args.eventType !== 'workingLocation' || !location) {
+    return TYPE_LABELS[args.eventType];
+  }
+  if (location.type === 'homeOffice') return 'Home';
+  return location.label ?? 'Office';
+}
+
+/**
+ * Check the type-specific properties Google requires or rejects, so a bad
+ * combination fails with a clear message instead of a generic 400.
+ */
+function validate(args: Input): void {
+  const allDay = isAllDayDate(args.start) || isAllDayDate(args.end);
+  const label = TYPE_LABELS[args.eventType].toLowerCase();
+
+  if (args.eventType === 'workingLocation') {
+    if (!args.workingLocation) {
+      throw new InvalidInputError(
+        'workingLocation is required for a working location.',
+        {
+          hint: "Pass workingLocation: { type: 'homeOffice' }, { type: 'officeLocation', label? } or { type: 'customLocation', label }.",
+        },
+      );
+    }
+    if (args.autoDeclineMode || args.declineMessage || args.chatStatus) {
+      throw new InvalidInputError(
+        'autoDeclineMode, declineMessage and chatStatus do not apply to working locations.',
+        { hint: "Use eventType 'outOfOffice' or 'focusTime' to decline invitations." },
+      );
+    }
+    if (allDay && !(isAllDayDate(args.start) && isAllDayDate(args.end))) {
+      throw new InvalidInputError(
+        'Use dates (YYYY-MM-DD) for both start and end, or datetimes for both.',
+      );
+    }
+    return;
+  }
+
+  if (args.workingLocation) {
+    throw new InvalidInputError(`workingLocation does not apply to ${label}.`, {
+      hint: "Use eventType 'workingLocation' to set where you work from.",
+    });
+  }
+  if (allDay) {
+    throw new InvalidInputError(`${TYPE_LABELS[args.eventType]} cannot be all-day.`, {
+      hint: 'Pass datetimes, e.g. midnight to midnight for whole days.',
+    });
+  }
+  if (args.chatStatus && args.eventType !== 'focusTime') {
+    throw new InvalidInputError('chatStatus only applies to focus time.', {
+      hint: "Drop chatStatus, or use eventType 'focusTime'.",
+    });
+  }
+  if (args.declineMessage && args.autoDeclineMode === 'declineNone') {
+    throw new InvalidInputError(
+      "declineMessage needs an autoDeclineMode other than 'declineNone'.",
+      { hint: 'Drop declineMessage, or pick the invitations to decline.' },
+    );
+  }
+}
+
+function buildParams(args: Input): CreateEventParams {
+  const isAllDay = isAllDayDate(args.start);
+  const params: CreateEventParams = {
+    calendarId: 'primary',
+    summary: args.summary ?? defaultSummary(args),
+    start: isAllDay
+      ? { date: args.start }
+      : { dateTime: args.start, timeZone: args.timeZone },
+    end: isAllDay
+      ? { date: args.end }
+      : { dateTime: args.end, timeZone: args.timeZone },
+    recurrence: args.recurrence,
+    eventType: args.eventType,
+  };
+
+  switch (args.eventType) {
+    case 'outOfOffice':
+      params.outOfOfficeProperties = {
+        autoDeclineMode: args.autoDeclineMode ?? 'declineOnlyNewConflictingInvitations',
+        declineMessage: args.declineMessage,
+      };
+      break;
+    case 'focusTime':
+      params.focusTimeProperties = {
+        autoDeclineMode: args.autoDeclineMode ?? 'declineNone',
+        declineMessage: args.declineMessage,
+        chatStatus: args.chatStatus,
+      };
+      break;
+    case 'workingLocation':
+      // Google requires working locations to be free and public
+      params.transparency = 'transparent';
+      params.visibility = 'public';
+      if (args.workingLocation) {
+        params.workingLocationProperties = toWorkingLocationProperties(
+          args.workingLocation,
+        );
+      }
+      break;
+  }
+
+  return params;
+}
+
+function formatCreatedStatus(event: CalendarEvent, label: string): string {
+  const lines: string[] = [];
+  const title = event.summary || '(no title)';
+  const start = event.start?.dateTime || event.start?.date || 'no date';
+  const end = event.end?.dateTime || event.end?.date || '?';
+
+  lines.push(
+    event.htmlLink
+      ? `✓ ${label} created: [${title}](${event.htmlLink})`
+      : `✓ ${label} created: ${title}`,
+  );
+  lines.push(`  id: ${event.id}`);
+  lines.push(`  when: ${start} → ${end}`);
+  lines.push(...formatStatusProperties(event));
+
+  return lines.join('\n');
+}
+
+export const createStatusEventTool = defineTool({
+  name: toolsMetadata.create_status_event.name,
+  title: toolsMetadata.create_status_event.title,
+  description: toolsMetadata.create_status_event.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.events, CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+    const label = TYPE_LABELS[args.eventType];
+
+    try {
+      validate(args);
+      const params = buildParams(args);
+      const result = await client.createEvent(params);
+
+      if (args.dryRun) {
+        return dryRunResult(client, {
+          tool: 'create_status_event',
+          summary: `Would create ${label.toLowerCase()} "${params.summary}" on your primary calendar.`,
+        });
+      }
+
+      await publishEventChange(client, 'primary', result.id);
+      const changeId = await recordChange(client, {
+        tool: 'create_status_event',
+        description: `Created ${label.toLowerCase()} "${result.summary ?? '(no title)'}"`,
+        changes: [{ after: { calendarId: 'primary', event: result } }],
+      });
+
+      const text = [
+        formatCreatedStatus(result, label),
+        ...(changeId ? [`  changeId: ${changeId}`] : []),
+      ].join('\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${text}\n\nNext: Use 'update_event' or 'delete_event' with this id to change or remove it.`,
+          },
+        ],
+        structuredContent: {
+          ...result,
+          ...(changeId && { changeId }),
+        },
+      };
+    } catch (error) {
+      return toolErrorResult(error, `create ${label.toLowerCase()}`);
+    }
+  },
+});
@@ -0,0 +1,99 @@
+/**
+ * Delete Calendar tool - permanently delete a secondary calendar.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { publishCalendarListChange } from '../resources/subscriptions.js';
+import { AccountSchema } from './accounts.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  calendarId: z
+    .string()
+    .min(1)
+    .describe("ID of a calendar you own, from 'list_calendars' (not 'primary')"),
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+export const deleteCalendarTool = defineTool({
+  name: toolsMetadata.delete_calendar.name,
+  title: toolsMetadata.delete_calendar.title,
+  description: toolsMetadata.delete_calendar.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.calendars, CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+
+    try {
+      // Check first: Google's errors for these cases don't say what to do instead
+      const entry = await client.getCalendarListEntry(args.calendarId);
+      if (entry.primary) {
+        return toolErrorResult(
+          new InvalidInputError('The primary calendar cannot be deleted.', {
+            hint: "Delete its events with 'delete_event' instead.",
+          }),
+        );
+      }
+      if (entry.accessRole !== 'owner') {
+        return toolErrorResult(
+          new InvalidInputError(
+            `You don't own "${entry.summary}", so it cannot be deleted.`,
+            { hint: "Use 'unsubscribe_calendar' to remove it from your list." },
+          ),
+        );
+      }
+
+      await client.deleteCalendar(entry.id);
+
+      if (args.dryRun) {
+        return dryRunResult(client, {
+          tool: 'delete_calendar',
+          summary: `Would permanently delete calendar "${entry.summary}" and all of its events.`,
+          target: entry,
+        });
+      }
+
+      await publishCalendarListChange(client, entry.id);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✓ Calendar deleted: ${entry.summary}\n  id: ${entry.id}\n  All of its events were deleted.\n\nNext: Use 'list_calendars' to verify.`,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          calendarId: entry.id,
+          summary: entry.summary,
+        },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'delete calendar');
+    }
+  },
+});
@@ -4,17 +4,35 @@
 
 import { z } from 'zod';
 import { toolsMetadata } from '../../config/metadata.js';
-import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { AuthRequiredError, toolErrorResult } from '../../core/errors.js';
+import {
+  type CalendarEvent,
+  GoogleCalendarClient,
+} from '../../services/google-calendar.js';
+import { publishEventChange } from '../resources/subscriptions.js';
+import { AccountSchema } from './accounts.js';
+import { recordChange } from './change-journal.js';
+import { DryRunSchema, diffFields, dryRunResult } from './dry-run.js';
+import {
+  isFirstOccurrence,
+  RecurrenceScopeSchema,
+  resolveScopedEvent,
+  truncateSeries,
+} from './recurrence-scope.js';
+import { CalendarScopes } from './scopes.js';
 import { defineTool, type ToolResult } from './types.js';
 
 const InputSchema = z.object({
   eventId: z.string().describe('Event ID to delete'),
   calendarId: z.string().optional().describe('Calendar ID (defaults to "primary")'),
+  scope: RecurrenceScopeSchema,
   sendUpdates: z
     .enum(['all', 'externalOnly', 'none'])
     .optional()
     .default('none')
     .describe('Notify attendees about the cancellation'),
+  dryRun: DryRunSchema,
+  account: AccountSchema,
 });
 
 export const deleteEventTool = defineTool({
@@ -22,6 +40,7 @@ export const deleteEventTool = defineTool({
   title: toolsMetadata.delete_event.title,
   description: toolsMetadata.delete_event.description,
   inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.events, CalendarScopes.readonly],
   annotations: {
     readOnlyHint: false,
     destructiveHint: true,
@@ -31,27 +50,84 @@ export const deleteEventTool = defineTool({
     const token = context.providerToken;
 
     if (!token) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: 'Authentication required. Please authenticate with Google Calendar.',
-          },
-        ],
-      };
+      return toolErrorResult(new AuthRequiredError());
     }
 
-    const client = new GoogleCalendarClient(token);
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+    const calendarId = args.calendarId || 'primary';
 
     try {
-      await client.deleteEvent({
-        eventId: args.eventId,
-        calendarId: args.calendarId,
-        sendUpdates: args.sendUpdates,
+      let eventId = args.eventId;
+      let splitOccurrence: CalendarEvent | undefined;
+
+      if (args.scope) {
+        const { event, series } = await resolveScopedEvent(
+          client,
+          calendarId,
+          args.eventId,
+          args.scope,
+        );
+        eventId = series?.id ?? event.id;
+
+        // "This and following" keeps the earlier occurrences by ending the series
+        if (args.scope === 'following' && series && !isFirstOccurrence(event, series)) {
+          splitOccurrence = event;
+        }
+      }
+
+      // Snapshot for the preview and the undo journal
+      const target = await client.getEvent(calendarId, eventId);
+      const title = target.summary ?? '(no title)';
+
+      let endedBefore: string | undefined;
+      let truncated: CalendarEvent | undefined;
+      if (splitOccurrence) {
+        const split = await truncateSeries(
+          client,
+          calendarId,
+          target,
+          splitOccurrence,
+          args.sendUpdates,
+        );
+        endedBefore = split.splitAt;
+        truncated = split.series;
+      } else {
+        await client.deleteEvent({
+          eventId,
+          calendarId,
+          sendUpdates: args.sendUpdates,
+        });
+      }
+
+      if (args.dryRun) {
+        return dryRunResult(client, {
+          tool: 'delete_event',
+          summary: endedBefore
+            ? `Would delete the occurrences of "${title}" from ${endedBefore} on by ending the series before then.`
+            : `Would delete "${title}" (id: ${eventId})${target.recurrence ? ' and every occurrence of the series' : ''}.`,
+          target,
+          ...(truncated && { changes: diffFields(target, truncated) }),
+        });
+      }
+
+      await publishEventChange(client, calendarId, eventId);
+      const changeId = await recordChange(client, {
+        tool: 'delete_event',
+        description: endedBefore
+          ? `Ended "${title}" before ${endedBefore}`
+          : `Deleted "${title}"`,
+        changes: [
+          {
+            before: { calendarId, event: target },
+            ...(truncated && { after: { calendarId, event: truncated } }),
+          },
+        ],
       });
+      const undo = changeId ? `\n  changeId: ${changeId}` : '';
 
-      const calendarId = args.calendarId || 'primary';
       const notified =
         args.sendUpdates === 'all'
           ? 'All attendees were notified.'
@@ -63,27 +139,22 @@ export const deleteEventTool = defineTool({
         content: [
           {
             type: 'text',
-            text: `✓ Event deleted successfully.\n  eventId: ${args.eventId}\n  calendar: ${calendarId}\n  ${notified}\n\nNext: Use 'search_events' to verify deletion.`,
+            text: endedBefore
+              ? `✓ Deleted this and following occurrences.\n  series: ${eventId} (now ends before ${endedBefore})\n  calendar: ${calendarId}\n  ${notified}${undo}\n\nNext: Use 'list_instances' to verify the remaining occurrences.`
+              : `✓ Event deleted successfully.\n  eventId: ${eventId}\n  calendar: ${calendarId}\n  ${notified}${undo}\n\nNext: Use 'search_events' to verify deletion.`,
           },
         ],
-        structuredContent: { success: true, eventId: args.eventId, calendarId },
+        structuredContent: {
+          success: true,
+          eventId,
+          calendarId,
+          ...(args.scope && { scope: args.scope }),
+          ...(endedBefore && { seriesEndsBefore: endedBefore }),
+          ...(changeId && { changeId }),
+        },
       };
     } catch (error) {
-      return {
-        isError: true,
-        content: [
-          { type: 'text', text: `Failed to delete event: ${(error as Error).message}` },
-        ],
-      };
+      return toolErrorResult(error, 'delete event');
     }
   },
 });
-
-
-
-
-
-
-
-
-
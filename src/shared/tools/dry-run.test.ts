@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+let mcp: McpHarness;
+/** Method and path of every request the emulator received */
+let sent: string[];
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+  sent = [];
+  const emulatorFetch = globalThis.fetch;
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    sent.push(`${init?.method ?? 'GET'} ${url.pathname}`);
+    return emulatorFetch(input, init);
+  }) as typeof fetch;
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+function addEvent() {
+  return mcp.emulator.addEvent('alice@example.com', {
+    summary: 'Review',
+    location: 'Room 1',
+    start: { dateTime: '2025-03-04T09:00:00Z' },
+    end: { dateTime: '2025-03-04T10:00:00Z' },
+    attendees: [
+      { email: 'alice@example.com', self: true, responseStatus: 'needsAction' },
+      { email: 'bob@example.com', organizer: true },
+    ],
+  });
+}
+
+function stored(eventId: string) {
+  return mcp.emulator.state.calendars.get('alice@example.com')?.events.get(eventId);
+}
+
+/** Nothing but reads reached Google */
+function expectOnlyReads() {
+  expect(sent.filter((request) => !request.startsWith('GET '))).toEqual([]);
+}
+
+describe('dryRun', () => {
+  test('create_event returns the insert request without creating anything', async () => {
+    const result = await mcp.callTool('create_event', {
+      summary: 'Planning',
+      start: '2025-03-05T09:00:00Z',
+      end: '2025-03-05T10:00:00Z',
+      dryRun: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      dryRun: true,
+      requests: [
+        {
+          method: 'POST',
+          path: expect.stringContaining('/calendars/primary/events'),
+          body: {
+            summary: 'Planning',
+            start: { dateTime: '2025-03-05T09:00:00Z' },
+          },
+        },
+      ],
+    });
+    expect(mcp.emulator.state.calendars.get('alice@example.com')?.events.size).toBe(0);
+    expect(sent).toEqual([]);
+  });
+
+  test('update_event lists only the fields that would change', async () => {
+    const event = addEvent();
+
+    const result = await mcp.callTool('update_event', {
+      eventId: event.id,
+      summary: 'Design review',
+      location: 'Room 1',
+      dryRun: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      dryRun: true,
+      target: { id: event.id, summary: 'Review' },
+      changes: [{ field: 'summary', from: 'Review', to: 'Design review' }],
+      requests: [
+        {
+          method: 'PATCH',
+          path: expect.stringContaining(`/events/${event.id}`),
+          body: { summary: 'Design review', location: 'Room 1' },
+        },
+      ],
+    });
+    expect(stored(event.id)).toMatchObject({ summary: 'Review', etag: event.etag });
+    expect(sent).toEqual([`GET /calendar/v3/calendars/primary/events/${event.id}`]);
+  });
+
+  test('delete_event resolves the target and deletes nothing', async () => {
+    const event = addEvent();
+
+    const result = await mcp.callTool('delete_event', {
+      eventId: event.id,
+      dryRun: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      dryRun: true,
+      target: { id: event.id, summary: 'Review' },
+      requests: [
+        { method: 'DELETE', path: expect.stringContaining(`/events/${event.id}`) },
+      ],
+    });
+    expect(result.content[0]).toMatchObject({
+      text: expect.stringContaining(
+        'Dry run — nothing was changed. Would delete "Review"',
+      ),
+    });
+    expect(stored(event.id)?.status).not.toBe('cancelled');
+    expectOnlyReads();
+  });
+
+  test('respond_to_event previews the response change', async () => {
+    const event = addEvent();
+
+    const result = await mcp.callTool('respond_to_event', {
+      eventId: event.id,
+      response: 'accepted',
+      dryRun: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      dryRun: true,
+      changes: [{ field: 'responseStatus', from: 'needsAction', to: 'accepted' }],
+    });
+    expect(stored(event.id)?.attendees?.[0].responseStatus).toBe('needsAction');
+    expectOnlyReads();
+  });
+
+  test('a missing target fails the dry run like the real call', async () => {
+    const result = await mcp.callTool('delete_event', {
+      eventId: 'missing',
+      dryRun: true,
+    });
+
+    expect(result.structuredContent?.error).toMatchObject({ code: 'not_found' });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Dry-run previews for the mutating tools.
+ *
+ * Tools run with a dry-run client (writes are recorded, reads still happen),
+ * then return the recorded requests instead of publishing the change.
+ */
+
+import { z } from 'zod';
+import type { GoogleCalendarClient } from '../../services/google-calendar.js';
+import type { ToolResult } from './types.js';
+
+export const DryRunSchema = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe(
+    'Preview only: resolve the target and return the request(s) that would be sent to Google, without changing anything',
+  );
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * True when `from` already has every value in `to`. Objects are compared by
+ * the keys `to` sets, so server-added fields (etag, responseStatus) don't count.
+ */
+function matches(from: unknown, to: unknown): boolean {
+  if (Array.isArray(to)) {
+    return (
+      Array.isArray(from) &&
+      from.length === to.length &&
+      to.every((value, i) => matches(from[i], value))
+    );
+  }
+  if (to && typeof to === 'object') {
+    if (!from || typeof from !== 'object') return false;
+    const current = from as Record<string, unknown>;
+    return Object.entries(to).every(([key, value]) => matches(current[key], value));
+  }
+  // Google omits empty fields; clearing one that is already unset is no change
+  return from === to || (from === undefined && (to === '' || to === null));
+}
+
+/**
+ * Fields a PATCH body would change on the current resource.
+ */
+export function diffFields(current: object, patch: unknown): FieldChange[] {
+  if (!patch || typeof patch !== 'object') return [];
+  const fields = current as Record<string, unknown>;
+
+  return Object.entries(patch)
+    .filter(([field, value]) => !matches(fields[field], value))
+    .map(([field, value]) => ({ field, from: fields[field] ?? null, to: value }));
+}
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined ? '(unset)' : JSON.stringify(value);
+}
+
+/**
+ * Result for a dry run: the planned requests, plus the target and field
+ * changes when the tool resolved them.
+ */
+export function dryRunResult(
+  client: GoogleCalendarClient,
+  preview: {
+    tool: string;
+    /** One line saying what would happen, e.g. 'Would delete "Standup"' */
+    summary: string;
+    target?: unknown;
+    changes?: FieldChange[];
+    /** Extra lines, e.g. conflict warnings */
+    notes?: string[];
+    /** Extra structured fields */
+    details?: Record<string, unknown>;
+  },
+): ToolResult {
+  const requests = client.plannedRequests;
+  const lines = [`Dry run — nothing was changed. ${preview.summary}`];
+
+  if (requests.length === 0) {
+    lines.push('  No requests would be sent.');
+  } else {
+    lines.push(`Request(s) that would be sent:`);
+    requests.forEach((request, i) => {
+      lines.push(`  ${i + 1}. ${request.method} ${request.path}`);
+      for (const [name, value] of Object.entries(request.headers ?? {})) {
+        lines.push(`     ${name}: ${value}`);
+      }
+      if (request.body !== undefined) {
+        lines.push(`     ${JSON.stringify(request.body)}`);
+      }
+    });
+  }
+
+  if (preview.changes && preview.changes.length > 0) {
+    lines.push('Changes:');
+    for (const change of preview.changes) {
+      lines.push(
+        `  ${change.field}: ${formatValue(change.from)} → ${formatValue(change.to)}`,
+      );
+    }
+  }
+
+  if (preview.notes) lines.push(...preview.notes);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `${lines.join('\n')}\n\nNext: Confirm with the user, then call '${preview.tool}' again without dryRun to apply.`,
+      },
+    ],
+    structuredContent: {
+      dryRun: true,
+      requests,
+      ...(preview.target !== undefined && { target: preview.target }),
+      ...(preview.changes && { changes: preview.changes }),
+      ...preview.details,
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+  mcp.emulator.addCalendar({ id: 'bob@example.com', summary: 'Bob' });
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+// Monday 2025-03-03, 09:00-12:00 UTC
+const window = {
+  durationMinutes: 60,
+  timeMin: '2025-03-03T09:00:00Z',
+  timeMax: '2025-03-03T12:00:00Z',
+  timeZone: 'UTC',
+  slotIncrementMinutes: 60,
+};
+
+describe('find_meeting_slots', () => {
+  test('proposes only slots where every required attendee is free', async () => {
+    mcp.emulator.addEvent('alice@example.com', {
+      summary: 'Busy',
+      start: { dateTime: '2025-03-03T09:00:00Z' },
+      end: { dateTime: '2025-03-03T10:00:00Z' },
+    });
+    mcp.emulator.addEvent('bob@example.com', {
+      summary: 'Busy',
+      start: { dateTime: '2025-03-03T10:00:00Z' },
+      end: { dateTime: '2025-03-03T11:00:00Z' },
+    });
+
+    const result = await mcp.callTool('find_meeting_slots', {
+      ...window,
+      attendees: ['primary', 'bob@example.com'],
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent?.slots).toEqual([
+      expect.objectContaining({ start: expect.stringContaining('T11:00:00') }),
+    ]);
+  });
+
+  test('fails naming a required attendee whose free/busy cannot be read', async () => {
+    const result = await mcp.callTool('find_meeting_slots', {
+      ...window,
+      attendees: ['primary', 'carol@example.com'],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'forbidden',
+      details: { calendarErrors: { 'carol@example.com': expect.any(String) } },
+    });
+    expect(result.content[0]).toMatchObject({
+      text: expect.stringContaining('carol@example.com'),
+    });
+  });
+
+  test('ranks without an optional attendee whose free/busy cannot be read', async () => {
+    const result = await mcp.callTool('find_meeting_slots', {
+      ...window,
+      optionalAttendees: ['carol@example.com'],
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent?.slots).toHaveLength(3);
+    expect(result.structuredContent?.calendarErrors).toHaveProperty([
+      'carol@example.com',
+    ]);
+  });
+});
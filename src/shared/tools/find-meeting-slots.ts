@@ -0,0 +1,418 @@
+/**
+ * Find Meeting Slots tool - turn free/busy data into ranked candidate times.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  ForbiddenError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import {
+  formatInTimeZone,
+  getZonedParts,
+  isValidTimeZone,
+  parseClockTime,
+  WEEKDAY_NAMES,
+  zonedTimeToUtc,
+} from '../utils/time.js';
+import { AccountSchema } from './accounts.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+/** Google rejects free/busy queries spanning much more than two months */
+const MAX_WINDOW_DAYS = 60;
+
+const MINUTE_MS = 60_000;
+
+const InputSchema = z.object({
+  attendees: z
+    .array(z.string())
+    .min(1)
+    .optional()
+    .default(['primary'])
+    .describe(
+      'Calendar IDs or attendee emails that must ALL be free (defaults to ["primary"])',
+    ),
+  optionalAttendees: z
+    .array(z.string())
+    .optional()
+    .describe('Attendees whose availability only affects ranking'),
+  durationMinutes: z
+    .number()
+    .int()
+    .min(5)
+    .max(24 * 60)
+    .describe('Meeting length in minutes'),
+  timeMin: z
+    .string()
+    .describe(
+      'Start of search window (RFC3339 with timezone, e.g., 2025-12-08T00:00:00+01:00)',
+    ),
+  timeMax: z
+    .string()
+    .describe(
+      'End of search window (RFC3339 with timezone, e.g., 2025-12-12T23:59:59+01:00)',
+    ),
+  timeZone: z
+    .string()
+    .optional()
+    .describe(
+      'IANA time zone for working hours and output (defaults to the primary calendar time zone)',
+    ),
+  workingHours: z
+    .object({
+      start: z.string().describe('Local start time, HH:MM'),
+      end: z.string().describe('Local end time, HH:MM'),
+    })
+    .optional()
+    .default({ start: '09:00', end: '17:00' })
+    .describe('Only propose slots inside these local hours'),
+  workingDays: z
+    .array(z.number().int().min(0).max(6))
+    .optional()
+    .default([1, 2, 3, 4, 5])
+    .describe('Allowed weekdays, 0 = Sunday … 6 = Saturday (default Mon-Fri)'),
+  bufferMinutes: z
+    .number()
+    .int()
+    .min(0)
+    .max(240)
+    .optional()
+    .default(0)
+    .describe('Minimum gap to keep before and after existing busy blocks'),
+  slotIncrementMinutes: z
+    .number()
+    .int()
+    .min(5)
+    .max(240)
+    .optional()
+    .default(30)
+    .describe('Granularity of candidate start times'),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .default(10)
+    .describe('Max slots to return'),
+  account: AccountSchema,
+});
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+interface CandidateSlot extends Interval {
+  optionalAvailable: string[];
+  optionalBusy: string[];
+}
+
+function toIntervals(
+  busy: Array<{ start: string; end: string }>,
+  padMs = 0,
+): Interval[] {
+  return busy.map((b) => ({
+    start: new Date(b.start).getTime() - padMs,
+    end: new Date(b.end).getTime() + padMs,
+  }));
+}
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+}
+
+function overlaps(slot: Interval, busy: Interval[]): boolean {
+  return busy.some((b) => b.start < slot.end && b.end > slot.start);
+}
+
+/**
+ * Walk the window day by day in the target time zone and collect every
+ * working-hours slot that does not collide with a busy block.
+ */
+function findFreeSlots(options: {
+  windowStart: number;
+  windowEnd: number;
+  timeZone: string;
+  workStartMinutes: number;
+  workEndMinutes: number;
+  workingDays: number[];
+  durationMs: number;
+  incrementMs: number;
+  busy: Interval[];
+}): Interval[] {
+  const slots: Interval[] = [];
+  const first = getZonedParts(new Date(options.windowStart), options.timeZone);
+
+  for (let offset = 0; offset <= MAX_WINDOW_DAYS + 1; offset++) {
+    // Date.UTC normalizes day overflow, giving us the next calendar date
+    const date = new Date(Date.UTC(first.year, first.month - 1, first.day + offset));
+    const local = {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+    };
+
+    const dayStart = zonedTimeToUtc(
+      { ...local, minute: options.workStartMinutes },
+      options.timeZone,
+    ).getTime();
+    if (dayStart >= options.windowEnd) break;
+    if (!options.workingDays.includes(date.getUTCDay())) continue;
+
+    const dayEnd = Math.min(
+      zonedTimeToUtc(
+        { ...local, minute: options.workEndMinutes },
+        options.timeZone,
+      ).getTime(),
+      options.windowEnd,
+    );
+
+    // Keep candidates aligned to the working-hours grid even when the window starts mid-day
+    let start = dayStart;
+    if (start < options.windowStart) {
+      const steps = Math.ceil((options.windowStart - dayStart) / options.incrementMs);
+      start = dayStart + steps * options.incrementMs;
+    }
+
+    for (; start + options.durationMs <= dayEnd; start += options.incrementMs) {
+      const slot = { start, end: start + options.durationMs };
+      if (!overlaps(slot, options.busy)) {
+        slots.push(slot);
+      }
+    }
+  }
+
+  return slots;
+}
+
+function validateInput(input: {
+  windowStart: number;
+  windowEnd: number;
+  workStartMinutes: number | null;
+  workEndMinutes: number | null;
+  timeZone?: string;
+}): string | null {
+  if (Number.isNaN(input.windowStart) || Number.isNaN(input.windowEnd)) {
+    return 'timeMin and timeMax must be valid RFC3339 timestamps.';
+  }
+  if (input.windowEnd <= input.windowStart) {
+    return 'timeMax must be after timeMin.';
+  }
+  if (input.windowEnd - input.windowStart > MAX_WINDOW_DAYS * 24 * 60 * MINUTE_MS) {
+    return `Search window is limited to ${MAX_WINDOW_DAYS} days.`;
+  }
+  if (input.workStartMinutes === null || input.workEndMinutes === null) {
+    return 'workingHours must use HH:MM format (e.g., 09:00).';
+  }
+  if (input.workEndMinutes <= input.workStartMinutes) {
+    return 'workingHours.end must be after workingHours.start.';
+  }
+  if (input.timeZone && !isValidTimeZone(input.timeZone)) {
+    return `Unknown time zone: ${input.timeZone}`;
+  }
+  return null;
+}
+
+function formatSlotLine(slot: CandidateSlot, timeZone: string, index: number): string {
+  const start = formatInTimeZone(new Date(slot.start), timeZone);
+  const end = formatInTimeZone(new Date(slot.end), timeZone);
+  const weekday = WEEKDAY_NAMES[getZonedParts(new Date(slot.start), timeZone).weekday];
+  const optionalTotal = slot.optionalAvailable.length + slot.optionalBusy.length;
+  const optional =
+    optionalTotal > 0
+      ? ` — ${slot.optionalAvailable.length}/${optionalTotal} optional attendee(s) free`
+      : '';
+
+  return `${index + 1}. ${weekday} ${start.slice(0, 10)} ${start.slice(11, 16)}–${end.slice(11, 16)}${optional}\n   start: ${start}  end: ${end}`;
+}
+
+export const findMeetingSlotsTool = defineTool({
+  name: toolsMetadata.find_meeting_slots.name,
+  title: toolsMetadata.find_meeting_slots.title,
+  description: toolsMetadata.find_meeting_slots.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const windowStart = new Date(args.timeMin).getTime();
+    const windowEnd = new Date(args.timeMax).getTime();
+    const workStartMinutes = parseClockTime(args.workingHours.start);
+    const workEndMinutes = parseClockTime(args.workingHours.end);
+
+    const inputError = validateInput({
+      windowStart,
+      windowEnd,
+      workStartMinutes,
+      workEndMinutes,
+      timeZone: args.timeZone,
+    });
+
+    if (inputError) {
+      return toolErrorResult(new InvalidInputError(`Invalid input: ${inputError}`));
+    }
+
+    const client = new GoogleCalendarClient(token, { signal: context.signal });
+
+    try {
+      let timeZone = args.timeZone;
+      if (!timeZone) {
+        const calendars = await client.listCalendars();
+        timeZone = calendars.items.find((cal) => cal.primary)?.timeZone ?? 'UTC';
+      }
+
+      const required = [...new Set(args.attendees)];
+      const optional = [...new Set(args.optionalAttendees ?? [])].filter(
+        (id) => !required.includes(id),
+      );
+
+      const freeBusy = await client.getFreeBusy({
+        timeMin: args.timeMin,
+        timeMax: args.timeMax,
+        calendarIds: [...required, ...optional],
+        timeZone,
+      });
+
+      // Calendars we could not read are reported, not silently treated as free
+      const calendarErrors: Record<string, string> = {};
+      for (const [id, data] of Object.entries(freeBusy.calendars)) {
+        if (data.errors && data.errors.length > 0) {
+          calendarErrors[id] = data.errors.map((e) => e.reason).join(', ');
+        }
+      }
+
+      // A required attendee we cannot check would make every slot a guess
+      const unreadable = required.filter((id) => calendarErrors[id]);
+      if (unreadable.length > 0) {
+        throw new ForbiddenError(
+          `Could not read availability for required attendee(s): ${unreadable.map((id) => `${id} (${calendarErrors[id]})`).join(', ')}.`,
+          {
+            hint: 'Ask them to share free/busy with you, or pass them as optionalAttendees to rank slots without them.',
+            details: { calendarErrors },
+          },
+        );
+      }
+
+      const bufferMs = args.bufferMinutes * MINUTE_MS;
+      const requiredBusy = mergeIntervals(
+        required.flatMap((id) =>
+          toIntervals(freeBusy.calendars[id]?.busy ?? [], bufferMs),
+        ),
+      );
+      const optionalBusy = new Map(
+        optional.map((id) => [id, toIntervals(freeBusy.calendars[id]?.busy ?? [])]),
+      );
+
+      const freeSlots = findFreeSlots({
+        windowStart,
+        windowEnd,
+        timeZone,
+        workStartMinutes: workStartMinutes as number,
+        workEndMinutes: workEndMinutes as number,
+        workingDays: args.workingDays,
+        durationMs: args.durationMinutes * MINUTE_MS,
+        incrementMs: args.slotIncrementMinutes * MINUTE_MS,
+        busy: requiredBusy,
+      });
+
+      // Rank: most optional attendees free first, then earliest start
+      const ranked: CandidateSlot[] = freeSlots
+        .map((slot) => {
+          const available = optional.filter(
+            (id) => !calendarErrors[id] && !overlaps(slot, optionalBusy.get(id) ?? []),
+          );
+          return {
+            ...slot,
+            optionalAvailable: available,
+            optionalBusy: optional.filter((id) => !available.includes(id)),
+          };
+        })
+        .sort(
+          (a, b) =>
+            b.optionalAvailable.length - a.optionalAvailable.length ||
+            a.start - b.start,
+        );
+
+      const top = ranked.slice(0, args.maxResults);
+      const slots = top.map((slot) => ({
+        start: formatInTimeZone(new Date(slot.start), timeZone),
+        end: formatInTimeZone(new Date(slot.end), timeZone),
+        optionalAvailable: slot.optionalAvailable,
+        optionalBusy: slot.optionalBusy,
+      }));
+
+      // Format for LLM consumption
+      const lines: string[] = [];
+      const days = args.workingDays.map((d) => WEEKDAY_NAMES[d]).join(', ');
+      const buffer = args.bufferMinutes > 0 ? `, ${args.bufferMinutes} min buffer` : '';
+      lines.push(
+        `Meeting slots for ${args.durationMinutes} min in ${timeZone} (${args.workingHours.start}–${args.workingHours.end}, ${days}${buffer})\n`,
+      );
+
+      const failed = Object.entries(calendarErrors);
+      if (failed.length > 0) {
+        lines.push(
+          `⚠️ Could not read availability for: ${failed.map(([id, reason]) => `${id} (${reason})`).join(', ')}`,
+        );
+        lines.push('');
+      }
+
+      if (top.length === 0) {
+        lines.push(
+          'No free slots found. Try a wider window, shorter duration, or smaller buffer.',
+        );
+      } else {
+        lines.push(
+          `Found ${ranked.length} free slot(s)${ranked.length > top.length ? `, showing best ${top.length}` : ''}:\n`,
+        );
+        top.forEach((slot, index) => {
+          lines.push(formatSlotLine(slot, timeZone, index));
+        });
+        lines.push(
+          "\nNext: Pass the chosen slot's start/end to 'create_event' together with the attendees.",
+        );
+      }
+
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+        structuredContent: {
+          timeZone,
+          durationMinutes: args.durationMinutes,
+          slots,
+          totalFreeSlots: ranked.length,
+          calendarsChecked: [...required, ...optional],
+          calendarErrors,
+        },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'find meeting slots');
+    }
+  },
+});
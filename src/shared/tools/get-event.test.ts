@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { CalendarEvent } from '../../services/google-calendar.js';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+async function getEvent(args: Record<string, unknown>) {
+  const result = await mcp.callTool('get_event', args);
+  const [content] = result.content;
+  return { result, text: content.type === 'text' ? content.text : '' };
+}
+
+describe('get_event', () => {
+  test('returns every field and renders each section', async () => {
+    const event = mcp.emulator.addEvent('alice@example.com', {
+      summary: 'Roadmap review',
+      location: 'Room 4',
+      start: { dateTime: '2025-03-04T09:00:00Z' },
+      end: { dateTime: '2025-03-04T10:00:00Z' },
+      attendees: [
+        { email: 'alice@example.com', self: true, responseStatus: 'accepted' },
+        {
+          email: 'bob@example.com',
+          displayName: 'Bob',
+          responseStatus: 'tentative',
+          comment: 'Might be late',
+        },
+        { email: 'carol@example.com', optional: true },
+      ],
+      conferenceData: {
+        conferenceSolution: { key: { type: 'hangoutsMeet' }, name: 'Google Meet' },
+        entryPoints: [
+          { entryPointType: 'video', uri: 'https://meet.google.com/abc-defg-hij' },
+          { entryPointType: 'phone', uri: 'tel:+1-555-0100', pin: '123456' },
+        ],
+      },
+      attachments: [{ fileUrl: 'https://drive.test/doc', title: 'Roadmap' }],
+      reminders: { useDefault: false, overrides: [{ method: 'popup', minutes: 10 }] },
+      extendedProperties: { private: { ticket: 'PLAN-7' } },
+    });
+
+    const { result, text } = await getEvent({ eventId: event.id });
+
+    expect(result.structuredContent).toMatchObject({
+      id: event.id,
+      etag: event.etag,
+      calendarId: 'primary',
+      attachments: [{ title: 'Roadmap' }],
+      extendedProperties: { private: { ticket: 'PLAN-7' } },
+    });
+    for (const line of [
+      `# [Roadmap review](${event.htmlLink})`,
+      `  etag: ${event.etag}`,
+      '  location: Room 4',
+      '## Attendees (3: 1 accepted, 1 maybe, 1 not responded)',
+      '- Bob <bob@example.com>: maybe',
+      '  comment: Might be late',
+      '- carol@example.com: not responded (optional)',
+      '## Google Meet',
+      '- phone: tel:+1-555-0100 (code: 123456)',
+      '- [Roadmap](https://drive.test/doc)',
+      '- popup 10 min before',
+      '- ticket: PLAN-7',
+    ]) {
+      expect(text).toContain(line);
+    }
+  });
+
+  test('an occurrence of a series shows the series rule', async () => {
+    const series = mcp.emulator.addEvent('alice@example.com', {
+      summary: 'Weekly',
+      start: { dateTime: '2025-03-03T09:00:00Z' },
+      end: { dateTime: '2025-03-03T09:30:00Z' },
+      recurrence: ['RRULE:FREQ=WEEKLY;COUNT=4'],
+    });
+    const list = await mcp.callTool('list_instances', { eventId: series.id });
+    const second = (list.structuredContent?.items as CalendarEvent[])[1];
+
+    const { result, text } = await getEvent({ eventId: second.id });
+
+    expect(result.structuredContent).toMatchObject({
+      id: second.id,
+      recurringEventId: series.id,
+      seriesRecurrence: ['RRULE:FREQ=WEEKLY;COUNT=4'],
+    });
+    expect(text).toContain(`- Occurrence of series ${series.id}`);
+    expect(text).toContain('- Series rule: RRULE:FREQ=WEEKLY;COUNT=4');
+  });
+
+  test('all-day end dates are shown as exclusive', async () => {
+    const event = mcp.emulator.addEvent('alice@example.com', {
+      summary: 'Offsite',
+      start: { date: '2025-03-04' },
+      end: { date: '2025-03-06' },
+    });
+
+    const { text } = await getEvent({ eventId: event.id });
+
+    expect(text).toContain('  when: 2025-03-04 (all day, until 2025-03-06 exclusive)');
+  });
+
+  test('reports an unknown event as not found', async () => {
+    const { result } = await getEvent({ eventId: 'missing' });
+
+    expect(result.structuredContent?.error).toMatchObject({ code: 'not_found' });
+  });
+});
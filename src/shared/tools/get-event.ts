@@ -0,0 +1,246 @@
+/**
+ * Get Event tool - fetch a single event with every detail.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import { AuthRequiredError, toolErrorResult } from '../../core/errors.js';
+import {
+  type CalendarEvent,
+  type EventDateTime,
+  GoogleCalendarClient,
+} from '../../services/google-calendar.js';
+import { CancellationError } from '../../utils/cancellation.js';
+import { AccountSchema } from './accounts.js';
+import { CalendarScopes } from './scopes.js';
+import { formatStatusProperties } from './status-events.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  eventId: z
+    .string()
+    .min(1)
+    .describe(
+      'Event ID from search_events. Instance IDs of recurring events ("<seriesId>_<start>") return that occurrence.',
+    ),
+  calendarId: z
+    .string()
+    .optional()
+    .default('primary')
+    .describe('Calendar where the event appears (default: primary)'),
+  timeZone: z
+    .string()
+    .optional()
+    .describe('Render start/end in this IANA time zone (default: calendar time zone)'),
+  includeSeries: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('For instances of recurring events, also fetch the recurrence rules'),
+  account: AccountSchema,
+});
+
+const RESPONSE_LABELS: Record<string, string> = {
+  accepted: 'accepted',
+  declined: 'declined',
+  tentative: 'maybe',
+  needsAction: 'not responded',
+};
+
+function formatWhen(start?: EventDateTime, end?: EventDateTime): string {
+  if (start?.date) {
+    // All-day end dates are exclusive
+    return end?.date && end.date !== start.date
+      ? `${start.date} (all day, until ${end.date} exclusive)`
+      : `${start.date} (all day)`;
+  }
+  const zone = start?.timeZone ? ` (${start.timeZone})` : '';
+  return `${start?.dateTime ?? 'no date'} → ${end?.dateTime ?? '?'}${zone}`;
+}
+
+function formatPerson(person: { email: string; displayName?: string }): string {
+  return person.displayName ? `${person.displayName} <${person.email}>` : person.email;
+}
+
+function formatEventDetails(event: CalendarEvent, seriesRecurrence?: string[]): string {
+  const lines: string[] = [];
+  const title = event.summary || '(no title)';
+
+  lines.push(event.htmlLink ? `# [${title}](${event.htmlLink})` : `# ${title}`);
+  lines.push(`  id: ${event.id}`);
+  if (event.etag) lines.push(`  etag: ${event.etag}`);
+  lines.push(`  when: ${formatWhen(event.start, event.end)}`);
+  if (event.status && event.status !== 'confirmed') {
+    lines.push(`  status: ${event.status}`);
+  }
+  if (event.eventType && event.eventType !== 'default') {
+    lines.push(`  type: ${event.eventType}`);
+    lines.push(...formatStatusProperties(event));
+  }
+  if (event.location) lines.push(`  location: ${event.location}`);
+  if (event.organizer) {
+    lines.push(
+      `  organizer: ${formatPerson(event.organizer)}${event.organizer.self ? ' (you)' : ''}`,
+    );
+  }
+  if (event.visibility && event.visibility !== 'default') {
+    lines.push(`  visibility: ${event.visibility}`);
+  }
+  if (event.transparency === 'transparent') {
+    lines.push('  shows as: free');
+  }
+
+  // Recurrence
+  if (event.recurrence?.length) {
+    lines.push('', '## Recurrence', ...event.recurrence.map((r) => `- ${r}`));
+  } else if (event.recurringEventId) {
+    const original = event.originalStartTime?.dateTime ?? event.originalStartTime?.date;
+    lines.push('', '## Recurrence');
+    lines.push(`- Occurrence of series ${event.recurringEventId}`);
+    if (original) lines.push(`- Originally scheduled: ${original}`);
+    for (const rule of seriesRecurrence ?? []) {
+      lines.push(`- Series rule: ${rule}`);
+    }
+  }
+
+  // Attendees
+  if (event.attendees?.length) {
+    const counts = event.attendees.reduce<Record<string, number>>((acc, a) => {
+      const status = a.responseStatus ?? 'needsAction';
+      acc[status] = (acc[status] ?? 0) + 1;
+      return acc;
+    }, {});
+    const summary = Object.entries(counts)
+      .map(([status, n]) => `${n} ${RESPONSE_LABELS[status] ?? status}`)
+      .join(', ');
+
+    lines.push('', `## Attendees (${event.attendees.length}: ${summary})`);
+    for (const attendee of event.attendees) {
+      const flags = [
+        attendee.self && 'you',
+        attendee.organizer && 'organizer',
+        attendee.optional && 'optional',
+        attendee.resource && 'room/resource',
+        attendee.additionalGuests && `+${attendee.additionalGuests} guests`,
+      ].filter(Boolean);
+      const status =
+        RESPONSE_LABELS[attendee.responseStatus ?? 'needsAction'] ??
+        attendee.responseStatus;
+      lines.push(
+        `- ${formatPerson(attendee)}: ${status}${flags.length ? ` (${flags.join(', ')})` : ''}`,
+      );
+      if (attendee.comment) lines.push(`  comment: ${attendee.comment}`);
+    }
+  }
+
+  // Conferencing
+  const entryPoints = event.conferenceData?.entryPoints ?? [];
+  if (entryPoints.length > 0 || event.hangoutLink) {
+    const name = event.conferenceData?.conferenceSolution?.name ?? 'Conference';
+    lines.push('', `## ${name}`);
+    if (entryPoints.length === 0 && event.hangoutLink) {
+      lines.push(`- video: ${event.hangoutLink}`);
+    }
+    for (const entry of entryPoints) {
+      const code = entry.pin ?? entry.accessCode ?? entry.passcode ?? entry.password;
+      lines.push(
+        `- ${entry.entryPointType}: ${entry.label ?? entry.uri}${code ? ` (code: ${code})` : ''}`,
+      );
+    }
+  }
+
+  if (event.description) {
+    lines.push('', '## Description', event.description);
+  }
+
+  if (event.attachments?.length) {
+    lines.push('', '## Attachments');
+    for (const file of event.attachments) {
+      lines.push(`- [${file.title ?? file.fileUrl}](${file.fileUrl})`);
+    }
+  }
+
+  if (event.reminders) {
+    const overrides = event.reminders.overrides ?? [];
+    lines.push('', '## Reminders');
+    if (event.reminders.useDefault) {
+      lines.push('- calendar default');
+    }
+    for (const reminder of overrides) {
+      lines.push(`- ${reminder.method} ${reminder.minutes} min before`);
+    }
+    if (!event.reminders.useDefault && overrides.length === 0) {
+      lines.push('- none');
+    }
+  }
+
+  const properties = {
+    ...event.extendedProperties?.shared,
+    ...event.extendedProperties?.private,
+  };
+  if (Object.keys(properties).length > 0) {
+    lines.push('', '## Extended properties');
+    for (const [key, value] of Object.entries(properties)) {
+      lines.push(`- ${key}: ${value}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export const getEventTool = defineTool({
+  name: toolsMetadata.get_event.name,
+  title: toolsMetadata.get_event.title,
+  description: toolsMetadata.get_event.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, { signal: context.signal });
+
+    try {
+      const event = await client.getEvent(args.calendarId, args.eventId, {
+        timeZone: args.timeZone,
+      });
+
+      // Instances don't carry the RRULE; fetch it from the series (best effort)
+      let seriesRecurrence: string[] | undefined;
+      if (args.includeSeries && event.recurringEventId && !event.recurrence) {
+        try {
+          const series = await client.getEvent(args.calendarId, event.recurringEventId);
+          seriesRecurrence = series.recurrence;
+        } catch (error) {
+          if (error instanceof CancellationError) throw error;
+        }
+      }
+
+      const text = formatEventDetails(event, seriesRecurrence);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${text}\n\nNext: Use 'update_event' or 'delete_event' with this eventId and calendarId '${args.calendarId}'.`,
+          },
+        ],
+        structuredContent: {
+          ...event,
+          calendarId: args.calendarId,
+          ...(seriesRecurrence && { seriesRecurrence }),
+        },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'get event');
+    }
+  },
+});
@@ -0,0 +1,82 @@
+/**
+ * List Accounts tool - the Google accounts linked to this sign-in.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import { listLinkedAccounts } from './accounts.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  linkAnother: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Also return a link the user opens to add another Google account'),
+});
+
+export const listAccountsTool = defineTool({
+  name: toolsMetadata.list_accounts.name,
+  title: toolsMetadata.list_accounts.title,
+  description: toolsMetadata.list_accounts.description,
+  inputSchema: InputSchema,
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    if (!context.providerToken) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    try {
+      if (args.linkAnother && !context.linkAccount) {
+        throw new InvalidInputError(
+          'Linking accounts needs an OAuth sign-in; this server uses a static token.',
+        );
+      }
+
+      const accounts = await listLinkedAccounts(context);
+      const linkUrl = args.linkAnother ? await context.linkAccount?.() : undefined;
+
+      const lines: string[] = [`Linked account(s): ${accounts.length}\n`];
+      for (const account of accounts) {
+        const name = account.email ?? '(unknown account, its sign-in may have expired)';
+        lines.push(`- ${name}${account.isDefault ? ' (default)' : ''}`);
+      }
+
+      if (linkUrl) {
+        lines.push(
+          '',
+          'To link another Google account, open this link in a browser within 5 minutes and sign in with that account:',
+          linkUrl,
+          "Then call 'list_accounts' again to see it.",
+        );
+      } else {
+        lines.push(
+          '',
+          "Next: Pass account: '<email>' to a calendar tool, or linkAnother: true to add an account.",
+        );
+      }
+
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+        structuredContent: {
+          accounts: accounts.map((account) => ({
+            email: account.email ?? null,
+            default: account.isDefault,
+          })),
+          ...(linkUrl && { linkUrl }),
+        },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'list accounts');
+    }
+  },
+});
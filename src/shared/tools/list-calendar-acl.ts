@@ -0,0 +1,74 @@
+/**
+ * List Calendar ACL tool - show who a calendar is shared with.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import { AuthRequiredError, toolErrorResult } from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { AccountSchema } from './accounts.js';
+import {
+  aclErrorResult,
+  formatAclRule,
+  listAllAclRules,
+  roleRank,
+} from './calendar-acl.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  calendarId: z
+    .string()
+    .optional()
+    .default('primary')
+    .describe('Calendar ID (default: primary). Requires owner access.'),
+  account: AccountSchema,
+});
+
+export const listCalendarAclTool = defineTool({
+  name: toolsMetadata.list_calendar_acl.name,
+  title: toolsMetadata.list_calendar_acl.title,
+  description: toolsMetadata.list_calendar_acl.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.aclsReadonly],
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, { signal: context.signal });
+
+    try {
+      const [rules, primary] = await Promise.all([
+        listAllAclRules(client, args.calendarId),
+        client.getPrimaryCalendar(),
+      ]);
+      // Most access first
+      const sorted = [...rules].sort((a, b) => roleRank(b.role) - roleRank(a.role));
+
+      const lines = [`Sharing for ${args.calendarId} (${sorted.length} rule(s)):`, ''];
+      for (const rule of sorted) {
+        lines.push(formatAclRule(rule, primary.id));
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${lines.join('\n')}\n\nNext: Use 'share_calendar' to grant or change access, 'revoke_calendar_access' to remove it.`,
+          },
+        ],
+        structuredContent: { calendarId: args.calendarId, items: sorted },
+      };
+    } catch (error) {
+      return aclErrorResult(error, 'list calendar sharing');
+    }
+  },
+});
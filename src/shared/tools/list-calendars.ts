@@ -4,16 +4,22 @@
 
 import { z } from 'zod';
 import { toolsMetadata } from '../../config/metadata.js';
+import { AuthRequiredError, toolErrorResult } from '../../core/errors.js';
 import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { AccountSchema } from './accounts.js';
+import { CalendarScopes } from './scopes.js';
 import { defineTool, type ToolResult } from './types.js';
 
-const InputSchema = z.object({});
+const InputSchema = z.object({
+  account: AccountSchema,
+});
 
 export const listCalendarsTool = defineTool({
   name: toolsMetadata.list_calendars.name,
   title: toolsMetadata.list_calendars.title,
   description: toolsMetadata.list_calendars.description,
   inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.readonly],
   annotations: {
     readOnlyHint: true,
     destructiveHint: false,
@@ -23,18 +29,10 @@ export const listCalendarsTool = defineTool({
     const token = context.providerToken;
 
     if (!token) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: 'Authentication required. Please authenticate with Google Calendar.',
-          },
-        ],
-      };
+      return toolErrorResult(new AuthRequiredError());
     }
 
-    const client = new GoogleCalendarClient(token);
+    const client = new GoogleCalendarClient(token, { signal: context.signal });
 
     try {
       const result = await client.listCalendars();
@@ -46,7 +44,10 @@ export const listCalendarsTool = defineTool({
       for (const cal of result.items) {
         const primary = cal.primary ? ' (primary)' : '';
         const access = cal.accessRole ? ` [${cal.accessRole}]` : '';
-        lines.push(`- ${cal.summary}${primary}${access}`);
+        const hidden = cal.hidden ? ' (hidden)' : '';
+        lines.push(
+          `- ${cal.summaryOverride || cal.summary}${primary}${access}${hidden}`,
+        );
         lines.push(`  id: ${cal.id}`);
         if (cal.timeZone) lines.push(`  timezone: ${cal.timeZone}`);
         if (cal.description) lines.push(`  description: ${cal.description}`);
@@ -60,24 +61,7 @@ export const listCalendarsTool = defineTool({
         structuredContent: { items: result.items },
       };
     } catch (error) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: `Failed to list calendars: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return toolErrorResult(error, 'list calendars');
     }
   },
 });
-
-
-
-
-
-
-
-
-
@@ -0,0 +1,181 @@
+/**
+ * List Instances tool - enumerate the occurrences of a recurring event.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import {
+  type CalendarEvent,
+  GoogleCalendarClient,
+} from '../../services/google-calendar.js';
+import { AccountSchema } from './accounts.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  eventId: z
+    .string()
+    .min(1)
+    .describe('Series ID (recurringEventId) or the ID of any of its occurrences'),
+  calendarId: z
+    .string()
+    .optional()
+    .default('primary')
+    .describe('Calendar where the series appears (default: primary)'),
+  timeMin: z
+    .string()
+    .optional()
+    .describe('Only occurrences ending after this time (RFC3339 with timezone)'),
+  timeMax: z
+    .string()
+    .optional()
+    .describe('Only occurrences starting before this time (RFC3339 with timezone)'),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(250)
+    .optional()
+    .default(25)
+    .describe('Occurrences per page (default: 25)'),
+  pageToken: z.string().optional().describe('nextPageToken from a previous call'),
+  showDeleted: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Include cancelled occurrences'),
+  timeZone: z
+    .string()
+    .optional()
+    .describe('Render start/end in this IANA time zone (default: calendar time zone)'),
+  account: AccountSchema,
+});
+
+function startOf(event: CalendarEvent): string {
+  return event.start?.dateTime ?? event.start?.date ?? 'no date';
+}
+
+function formatInstances(
+  series: CalendarEvent,
+  instances: CalendarEvent[],
+  nextPageToken?: string,
+): string {
+  const lines: string[] = [];
+
+  lines.push(`# ${series.summary || '(no title)'} (series ${series.id})`);
+  for (const rule of series.recurrence ?? []) {
+    lines.push(`  ${rule}`);
+  }
+  lines.push('');
+
+  if (instances.length === 0) {
+    lines.push('No occurrences in this range.');
+  }
+
+  for (const instance of instances) {
+    const original =
+      instance.originalStartTime?.dateTime ?? instance.originalStartTime?.date;
+    const flags = [
+      instance.status === 'cancelled' && 'cancelled',
+      original &&
+        Date.parse(original) !== Date.parse(startOf(instance)) &&
+        `moved from ${original}`,
+      instance.summary !== series.summary &&
+        instance.summary &&
+        `"${instance.summary}"`,
+    ].filter(Boolean);
+
+    lines.push(`- ${startOf(instance)}${flags.length ? ` (${flags.join(', ')})` : ''}`);
+    lines.push(`  id: ${instance.id}`);
+  }
+
+  if (nextPageToken) {
+    lines.push('', `More occurrences available. nextPageToken: ${nextPageToken}`);
+  }
+
+  return lines.join('\n');
+}
+
+export const listInstancesTool = defineTool({
+  name: toolsMetadata.list_instances.name,
+  title: toolsMetadata.list_instances.title,
+  description: toolsMetadata.list_instances.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, { signal: context.signal });
+
+    try {
+      // Accept an occurrence ID too; the instances endpoint needs the series
+      const event = await client.getEvent(args.calendarId, args.eventId);
+      const series = event.recurringEventId
+        ? await client.getEvent(args.calendarId, event.recurringEventId)
+        : event;
+
+      if (!series.recurrence) {
+        return toolErrorResult(
+          new InvalidInputError(`Event ${args.eventId} is not a recurring event.`, {
+            hint: "Use 'get_event' for one-off events.",
+          }),
+        );
+      }
+
+      const response = await client.listInstances({
+        calendarId: args.calendarId,
+        eventId: series.id,
+        timeMin: args.timeMin,
+        timeMax: args.timeMax,
+        maxResults: args.maxResults,
+        pageToken: args.pageToken,
+        showDeleted: args.showDeleted,
+        timeZone: args.timeZone,
+      });
+      const instances = response.items ?? [];
+
+      const text = formatInstances(series, instances, response.nextPageToken);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${text}\n\nNext: Pass an occurrence id to 'update_event' or 'delete_event' with scope 'instance' or 'following'.`,
+          },
+        ],
+        structuredContent: {
+          seriesId: series.id,
+          calendarId: args.calendarId,
+          summary: series.summary,
+          recurrence: series.recurrence,
+          items: instances.map((instance) => ({
+            id: instance.id,
+            etag: instance.etag,
+            summary: instance.summary,
+            start: instance.start,
+            end: instance.end,
+            originalStartTime: instance.originalStartTime,
+            status: instance.status,
+          })),
+          ...(response.nextPageToken && { nextPageToken: response.nextPageToken }),
+        },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'list instances');
+    }
+  },
+});
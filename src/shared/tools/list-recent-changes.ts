@@ -0,0 +1,108 @@
+/**
+ * List Recent Changes tool - show the undo journal.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import { AuthRequiredError, toolErrorResult } from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { AccountSchema } from './accounts.js';
+import { type ChangeRecord, changeKind, listChanges } from './change-journal.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .default(20)
+    .describe('Maximum number of changes to return, newest first (default: 20)'),
+  account: AccountSchema,
+});
+
+/** Journal entry without the full snapshots */
+function describeChange(record: ChangeRecord) {
+  return {
+    changeId: record.id,
+    at: new Date(record.at).toISOString(),
+    tool: record.tool,
+    description: record.description,
+    ...(record.undoneBy && { undoneBy: record.undoneBy }),
+    ...(record.undoOf && { undoOf: record.undoOf }),
+    events: record.changes.map((change) => {
+      const snapshot = change.after ?? change.before;
+      return {
+        kind: changeKind(change),
+        calendarId: snapshot?.calendarId,
+        eventId: snapshot?.event.id,
+        summary: snapshot?.event.summary,
+      };
+    }),
+  };
+}
+
+export const listRecentChangesTool = defineTool({
+  name: toolsMetadata.list_recent_changes.name,
+  title: toolsMetadata.list_recent_changes.title,
+  description: toolsMetadata.list_recent_changes.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, { signal: context.signal });
+
+    try {
+      const account = (await client.getPrimaryCalendar()).id;
+      const items = (await listChanges(account, args.limit)).map(describeChange);
+
+      if (items.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No recorded changes. Event writes are journaled for 7 days.',
+            },
+          ],
+          structuredContent: { items },
+        };
+      }
+
+      const lines = [`${items.length} recent change(s), newest first:`, ''];
+      for (const item of items) {
+        const status = item.undoneBy ? ' (undone)' : '';
+        lines.push(`- ${item.at} ${item.tool}: ${item.description}${status}`);
+        lines.push(`  changeId: ${item.changeId}`);
+        for (const event of item.events) {
+          lines.push(
+            `  ${event.kind}: ${event.summary || '(no title)'} (${event.eventId}, ${event.calendarId})`,
+          );
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${lines.join('\n')}\n\nNext: Use 'undo_change' with a changeId to revert it (dryRun: true previews the undo).`,
+          },
+        ],
+        structuredContent: { items },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'list recent changes');
+    }
+  },
+});
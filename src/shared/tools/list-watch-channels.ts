@@ -0,0 +1,93 @@
+/**
+ * List Watch Channels tool - show push channels and renew expiring ones.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import { AuthRequiredError, toolErrorResult } from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import {
+  describeChannel,
+  listChannels,
+  renewExpiringChannels,
+} from '../webhooks/calendar-channels.js';
+import { AccountSchema } from './accounts.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  renewExpiring: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Renew channels that expire within 24 hours (default: true)'),
+  account: AccountSchema,
+});
+
+export const listWatchChannelsTool = defineTool({
+  name: toolsMetadata.list_watch_channels.name,
+  title: toolsMetadata.list_watch_channels.title,
+  description: toolsMetadata.list_watch_channels.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, { signal: context.signal });
+
+    try {
+      const account = (await client.getPrimaryCalendar()).id;
+      const renewal = args.renewExpiring
+        ? await renewExpiringChannels(client, account)
+        : { renewed: [], failed: [] };
+      const channels = (await listChannels(account)).map(describeChannel);
+
+      const lines: string[] = [];
+      if (channels.length === 0) {
+        lines.push("No watch channels. Use 'watch_calendar' to start one.");
+      } else {
+        lines.push(`${channels.length} watch channel(s):\n`);
+        for (const channel of channels) {
+          const pending =
+            channel.pendingChanges > 0
+              ? ` — ${channel.pendingChanges} change notification(s) pending`
+              : '';
+          lines.push(
+            `- ${channel.calendarId} (channelId: ${channel.channelId}), expires ${channel.expiration}${pending}`,
+          );
+        }
+      }
+      if (renewal.renewed.length > 0) {
+        lines.push(`\nRenewed ${renewal.renewed.length} expiring channel(s).`);
+      }
+      if (renewal.failed.length > 0) {
+        lines.push(
+          `\n⚠️ Failed to renew ${renewal.failed.length} channel(s): ${renewal.failed.map((f) => `${f.channelId} (${f.error})`).join(', ')}`,
+        );
+      }
+      if (channels.some((c) => c.pendingChanges > 0)) {
+        lines.push("\nNext: Call 'sync_events' for calendars with pending changes.");
+      }
+
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+        structuredContent: {
+          channels,
+          renewed: renewal.renewed.map((r) => r.id),
+          ...(renewal.failed.length > 0 && { renewalFailed: renewal.failed }),
+        },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'list watch channels');
+    }
+  },
+});
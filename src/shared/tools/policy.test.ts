@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+const POLICY_ENV = [
+  'POLICY_READ_ONLY',
+  'POLICY_ALLOWED_TOOLS',
+  'POLICY_ALLOWED_CALENDARS',
+  'POLICY_FORBID_SEND_UPDATES_ALL',
+];
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+  mcp.emulator.addCalendar({ id: 'team@example.com', summary: 'Team' });
+});
+
+afterEach(() => {
+  mcp.restore();
+  for (const name of POLICY_ENV) delete process.env[name];
+});
+
+function addEvent(calendarId: string) {
+  return mcp.emulator.addEvent(calendarId, {
+    summary: 'Review',
+    start: { dateTime: '2025-03-04T09:00:00Z' },
+    end: { dateTime: '2025-03-04T10:00:00Z' },
+    attendees: [
+      { email: 'alice@example.com', self: true, responseStatus: 'needsAction' },
+      { email: 'bob@example.com', organizer: true },
+    ],
+  });
+}
+
+async function toolNames() {
+  const { result } = await mcp.request('tools/list');
+  return (result as { tools: Array<{ name: string }> }).tools.map((tool) => tool.name);
+}
+
+describe('tool policy', () => {
+  test('a read-only server hides and refuses tools that change data', async () => {
+    process.env.POLICY_READ_ONLY = 'true';
+
+    const names = await toolNames();
+    expect(names).toContain('search_events');
+    expect(names).not.toContain('create_event');
+
+    const result = await mcp.callTool('delete_event', {
+      eventId: addEvent('primary').id,
+    });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'policy_denied',
+      details: { policy: 'read_only' },
+    });
+  });
+
+  test('only the allowed tools are listed and callable', async () => {
+    process.env.POLICY_ALLOWED_TOOLS = 'search_events,get_event';
+
+    expect((await toolNames()).sort()).toEqual(['get_event', 'search_events']);
+
+    const result = await mcp.callTool('list_calendars');
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'policy_denied',
+      details: { policy: 'allowed_tools' },
+    });
+  });
+
+  test('calls are limited to the allowed calendars', async () => {
+    process.env.POLICY_ALLOWED_CALENDARS = 'primary';
+    const event = addEvent('team@example.com');
+
+    const denied = await mcp.callTool('get_event', {
+      calendarId: 'team@example.com',
+      eventId: event.id,
+    });
+    expect(denied.structuredContent?.error).toMatchObject({
+      code: 'policy_denied',
+      details: { policy: 'allowed_calendars', calendarIds: ['team@example.com'] },
+    });
+
+    // Searching every calendar (the default) cannot be narrowed to the allowed ones
+    const everywhere = await mcp.callTool('search_events', {});
+    expect(everywhere.structuredContent?.error).toMatchObject({
+      details: { policy: 'allowed_calendars' },
+    });
+
+    const allowed = await mcp.callTool('search_events', { calendarId: 'primary' });
+    expect(allowed.isError).toBeFalsy();
+  });
+
+  test("'primary' and the account's email name the same calendar", async () => {
+    process.env.POLICY_ALLOWED_CALENDARS = 'Alice@example.com';
+
+    const status = await mcp.callTool('create_status_event', {
+      eventType: 'focusTime',
+      start: '2025-03-05T09:00:00Z',
+      end: '2025-03-05T11:00:00Z',
+    });
+    expect(status.isError).toBeFalsy();
+
+    process.env.POLICY_ALLOWED_CALENDARS = 'primary';
+    const byEmail = await mcp.callTool('search_events', {
+      calendarId: 'alice@example.com',
+    });
+    expect(byEmail.isError).toBeFalsy();
+  });
+
+  test('resource reads are limited to the allowed calendars', async () => {
+    process.env.POLICY_ALLOWED_CALENDARS = 'primary';
+    const own = addEvent('alice@example.com');
+    const team = addEvent('team@example.com');
+    const read = (uri: string) => mcp.request('resources/read', { uri });
+
+    expect(
+      (await read(`gcal://calendars/alice%40example.com/events/${own.id}`)).error,
+    ).toBeUndefined();
+    expect(
+      (await read(`gcal://calendars/team%40example.com/events/${team.id}`)).error?.data,
+    ).toMatchObject({ code: 'policy_denied' });
+    // The agenda spans every calendar in the list
+    expect((await read('gcal://agenda/2025-03-04')).error?.data).toMatchObject({
+      code: 'policy_denied',
+    });
+  });
+
+  test("respond_to_event stays within a ban on sendUpdates: 'all'", async () => {
+    process.env.POLICY_FORBID_SEND_UPDATES_ALL = 'true';
+    const event = addEvent('primary');
+    const sent: string[] = [];
+    const emulatorFetch = globalThis.fetch;
+    globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(input instanceof Request ? input.url : String(input));
+      if (url.searchParams.has('sendUpdates')) {
+        sent.push(url.searchParams.get('sendUpdates') ?? '');
+      }
+      return emulatorFetch(input, init);
+    }) as typeof fetch;
+
+    const accepted = await mcp.callTool('respond_to_event', {
+      eventId: event.id,
+      response: 'accepted',
+    });
+    expect(accepted.isError).toBeFalsy();
+    expect(sent).toEqual(['externalOnly']);
+
+    const notifyAll = await mcp.callTool('respond_to_event', {
+      eventId: event.id,
+      response: 'declined',
+      sendUpdates: 'all',
+    });
+    expect(notifyAll.structuredContent?.error).toMatchObject({
+      code: 'policy_denied',
+      details: { policy: 'forbid_send_updates_all' },
+    });
+  });
+});
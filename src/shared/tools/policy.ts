@@ -0,0 +1,261 @@
+/**
+ * Tool policy: what a deployment lets agents do, configured by env.
+ *
+ * - POLICY_READ_ONLY: only tools with readOnlyHint are exposed
+ * - POLICY_ALLOWED_TOOLS: only these tools are exposed
+ * - POLICY_ALLOWED_CALENDARS: tools may only touch these calendar IDs
+ * - POLICY_FORBID_SEND_UPDATES_ALL: sendUpdates: 'all' is rejected
+ *
+ * Tools the policy hides are left out of tools/list; calls are checked with
+ * their parsed arguments, so defaults (e.g. calendarId 'primary') count.
+ * Resource reads and subscriptions get the same calendar check.
+ */
+
+import { PolicyDeniedError } from '../../core/errors.js';
+import { resolveConfig, type UnifiedConfig } from '../config/env.js';
+import type { SharedResourceDefinition } from '../resources/types.js';
+import { accountEmail, listLinkedAccounts } from './accounts.js';
+import type { RegisteredTool } from './registry.js';
+import type { ToolContext } from './types.js';
+
+export interface ToolPolicy {
+  readOnly: boolean;
+  /** Tool names to expose; empty exposes every tool */
+  allowedTools: string[];
+  /** Calendar IDs tools may touch; empty allows every calendar */
+  allowedCalendars: string[];
+  forbidSendUpdatesAll: boolean;
+}
+
+/** Which rule rejected a tool or call, reported in `details.policy` */
+export type PolicyName =
+  | 'read_only'
+  | 'allowed_tools'
+  | 'allowed_calendars'
+  | 'forbid_send_updates_all';
+
+export function resolveToolPolicy(config: UnifiedConfig = resolveConfig()): ToolPolicy {
+  return {
+    readOnly: config.POLICY_READ_ONLY,
+    allowedTools: config.POLICY_ALLOWED_TOOLS,
+    allowedCalendars: config.POLICY_ALLOWED_CALENDARS,
+    forbidSendUpdatesAll: config.POLICY_FORBID_SEND_UPDATES_ALL,
+  };
+}
+
+type Args = Record<string, unknown>;
+
+const single = (args: Args) => [String(args.calendarId ?? 'primary')];
+const required = (args: Args) => [String(args.calendarId)];
+const list = (value: unknown) =>
+  (Array.isArray(value) ? value : [value ?? 'primary']).map(String);
+
+/**
+ * Calendars a call touches, by tool. `undefined` means the call cannot be
+ * narrowed to named calendars (it may touch any). Tools not listed touch
+ * no calendar in particular (list_calendars, list_accounts, ...).
+ */
+const CALENDARS_OF: Record<string, (args: Args) => string[] | undefined> = {
+  search_events: (args) =>
+    args.calendarId === undefined || args.calendarId === 'all'
+      ? undefined
+      : list(args.calendarId),
+  get_event: single,
+  list_instances: single,
+  sync_events: single,
+  watch_calendar: single,
+  stop_watch_channel: (args) => (args.calendarId ? [String(args.calendarId)] : []),
+  check_availability: (args) => list(args.calendarIds),
+  find_meeting_slots: (args) => list(args.attendees),
+  create_event: single,
+  create_status_event: () => ['primary'],
+  update_event: (args) => [
+    ...single(args),
+    ...(args.targetCalendarId ? [String(args.targetCalendarId)] : []),
+  ],
+  delete_event: single,
+  respond_to_event: single,
+  batch_events: (args) =>
+    (args.operations as Args[]).map((operation) =>
+      String(operation.calendarId ?? 'primary'),
+    ),
+  undo_change: () => undefined,
+  create_calendar: () => undefined,
+  update_calendar: required,
+  delete_calendar: required,
+  subscribe_calendar: required,
+  unsubscribe_calendar: required,
+  list_calendar_acl: single,
+  share_calendar: required,
+  revoke_calendar_access: required,
+};
+
+/** Calendars a resource read touches, by resource name; as for tools */
+const RESOURCE_CALENDARS_OF: Record<
+  string,
+  (params: Record<string, string>) => string[] | undefined
+> = {
+  event: (params) => [params.calendarId],
+  agenda: () => undefined,
+};
+
+/**
+ * Why the policy hides a tool, or undefined when it is exposed.
+ */
+export function toolDeniedBy(
+  tool: RegisteredTool,
+  policy: ToolPolicy = resolveToolPolicy(),
+): PolicyName | undefined {
+  if (policy.allowedTools.length && !policy.allowedTools.includes(tool.name)) {
+    return 'allowed_tools';
+  }
+  if (policy.readOnly && tool.annotations?.readOnlyHint !== true) {
+    return 'read_only';
+  }
+  return undefined;
+}
+
+/**
+ * The tools the policy exposes.
+ */
+export function permittedTools(
+  tools: RegisteredTool[],
+  policy: ToolPolicy = resolveToolPolicy(),
+): RegisteredTool[] {
+  return tools.filter((tool) => !toolDeniedBy(tool, policy));
+}
+
+/**
+ * Check a tool call against the policy.
+ *
+ * @throws PolicyDeniedError naming the rule in `details.policy`
+ */
+export async function assertToolCallAllowed(
+  tool: RegisteredTool,
+  args: Args,
+  context: ToolContext,
+  policy: ToolPolicy = resolveToolPolicy(),
+): Promise<void> {
+  const deniedBy = toolDeniedBy(tool, policy);
+  if (deniedBy === 'allowed_tools') {
+    throw new PolicyDeniedError(`${tool.name} is not enabled on this server.`, {
+      hint: `Enabled tools: ${policy.allowedTools.join(', ')}.`,
+      details: { policy: deniedBy },
+    });
+  }
+  if (deniedBy === 'read_only') {
+    throw new PolicyDeniedError(
+      `${tool.name} changes data and this server is read-only.`,
+      {
+        hint: 'Only tools that read calendars are available here.',
+        details: { policy: deniedBy },
+      },
+    );
+  }
+
+  const calendarsOf = CALENDARS_OF[tool.name];
+  await assertCalendarsAllowed(
+    tool.name,
+    calendarsOf ? calendarsOf(args) : [],
+    args.account,
+    context,
+    policy,
+  );
+
+  if (policy.forbidSendUpdatesAll && args.sendUpdates === 'all') {
+    throw new PolicyDeniedError(
+      `${tool.name} may not notify every attendee (sendUpdates: 'all') on this server.`,
+      {
+        hint: "Pass sendUpdates: 'externalOnly' or 'none'.",
+        details: { policy: 'forbid_send_updates_all' },
+      },
+    );
+  }
+}
+
+/**
+ * Check a resource read or subscription against the calendar allowlist.
+ *
+ * @throws PolicyDeniedError naming the rule in `details.policy`
+ */
+export async function assertResourceAllowed(
+  resource: SharedResourceDefinition,
+  uri: string,
+  params: Record<string, string>,
+  context: ToolContext,
+  policy: ToolPolicy = resolveToolPolicy(),
+): Promise<void> {
+  const calendarsOf = RESOURCE_CALENDARS_OF[resource.name];
+  await assertCalendarsAllowed(
+    uri,
+    calendarsOf ? calendarsOf(params) : [],
+    undefined,
+    context,
+    policy,
+  );
+}
+
+/**
+ * Primary calendar IDs (emails) of the account a call uses: the `account`
+ * argument, every linked account for "all", else the signed-in account.
+ */
+async function primaryCalendarIds(
+  account: unknown,
+  context: ToolContext,
+): Promise<string[]> {
+  if (account === 'all') {
+    const accounts = await listLinkedAccounts(context);
+    return accounts.flatMap((linked) => linked.email?.toLowerCase() ?? []);
+  }
+  if (typeof account === 'string' && account) {
+    return [account.toLowerCase()];
+  }
+  const email =
+    context.providerToken &&
+    (await accountEmail(context.providerToken, context.signal));
+  return email ? [email.toLowerCase()] : [];
+}
+
+/**
+ * Reject calendars outside the allowlist. 'primary' stands for the email of
+ * the account's primary calendar on both sides, so either may be listed.
+ */
+async function assertCalendarsAllowed(
+  subject: string,
+  calendars: string[] | undefined,
+  account: unknown,
+  context: ToolContext,
+  policy: ToolPolicy,
+): Promise<void> {
+  if (!policy.allowedCalendars.length) return;
+
+  const listed = policy.allowedCalendars.map((id) => id.toLowerCase());
+  const touched = (calendars ?? []).map((id) => id.toLowerCase());
+  const primaries =
+    listed.includes('primary') || touched.includes('primary')
+      ? await primaryCalendarIds(account, context)
+      : [];
+
+  const allowed = new Set([
+    ...listed,
+    ...(listed.includes('primary') ? primaries : []),
+  ]);
+  const denied = touched
+    .flatMap((id) => (id === 'primary' && primaries.length ? primaries : [id]))
+    .filter((id) => !allowed.has(id));
+
+  if (!calendars || denied.length) {
+    throw new PolicyDeniedError(
+      denied.length
+        ? `${subject} may not use calendar(s) ${denied.join(', ')} on this server.`
+        : `${subject} may touch calendars outside those allowed on this server.`,
+      {
+        hint: `Allowed calendars: ${policy.allowedCalendars.join(', ')}. Pass one of them as the calendar ID.`,
+        details: {
+          policy: 'allowed_calendars',
+          ...(denied.length > 0 && { calendarIds: denied }),
+        },
+      },
+    );
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Recurrence scopes shared by update_event and delete_event: act on one
+ * occurrence, on an occurrence and everything after it, or on the whole series.
+ */
+
+import { z } from 'zod';
+import { InvalidInputError } from '../../core/errors.js';
+import type {
+  CalendarEvent,
+  EventDateTime,
+  GoogleCalendarClient,
+} from '../../services/google-calendar.js';
+import { splitRecurrence } from '../utils/rrule.js';
+
+export const RecurrenceScopeSchema = z
+  .enum(['instance', 'following', 'series'])
+  .optional()
+  .describe(
+    "For recurring events: 'instance' (only this occurrence), 'following' (this and all later occurrences) or 'series' (every occurrence). Omit to act on eventId as given.",
+  );
+
+export type RecurrenceScope = 'instance' | 'following' | 'series';
+
+export interface ScopedEvent {
+  /** The event eventId refers to */
+  event: CalendarEvent;
+  /** The recurring parent; undefined for scope 'instance' */
+  series?: CalendarEvent;
+}
+
+/** Fields Google assigns to each event; a copy of a series leaves them out */
+const ASSIGNED_FIELDS = [
+  'id',
+  'etag',
+  'htmlLink',
+  'iCalUID',
+  'created',
+  'updated',
+  'creator',
+  'organizer',
+  'sequence',
+  'status',
+  'recurringEventId',
+  'originalStartTime',
+  'hangoutLink',
+] as const satisfies ReadonlyArray<keyof CalendarEvent>;
+
+function startValue(time?: EventDateTime): string | undefined {
+  return time?.dateTime ?? time?.date;
+}
+
+/**
+ * Fetch the event and, when the scope needs it, its series. Rejects scopes
+ * that don't fit the event (a series ID with 'instance', a one-off event).
+ */
+export async function resolveScopedEvent(
+  client: GoogleCalendarClient,
+  calendarId: string,
+  eventId: string,
+  scope: RecurrenceScope,
+): Promise<ScopedEvent> {
+  const event = await client.getEvent(calendarId, eventId);
+
+  if (!event.recurringEventId && !event.recurrence) {
+    throw new InvalidInputError(`Event ${eventId} is not a recurring event.`, {
+      hint: 'Omit scope for one-off events.',
+    });
+  }
+
+  if (scope === 'series') {
+    const series = event.recurringEventId
+      ? await client.getEvent(calendarId, event.recurringEventId)
+      : event;
+    return { event, series };
+  }
+
+  if (!event.recurringEventId) {
+    throw new InvalidInputError(
+      `Scope '${scope}' needs the ID of one occurrence, but ${eventId} is the series.`,
+      { hint: "Call 'list_instances' with this eventId to get occurrence IDs." },
+    );
+  }
+
+  if (scope === 'instance') {
+    return { event };
+  }
+
+  return { event, series: await client.getEvent(calendarId, event.recurringEventId) };
+}
+
+/**
+ * True when the occurrence is the first of its series, so "this and
+ * following" covers the whole series.
+ */
+export function isFirstOccurrence(
+  event: CalendarEvent,
+  series: CalendarEvent,
+): boolean {
+  const original = startValue(event.originalStartTime);
+  const first = startValue(series.start);
+  if (!original || !first) return false;
+  return original.includes('T')
+    ? Date.parse(original) <= Date.parse(first)
+    : original <= first;
+}
+
+/**
+ * Everything a new series split off `series` starts with: every field of the
+ * series except those Google assigns. The Meet link is kept, not recreated.
+ */
+export function copyOfSeries(series: CalendarEvent): Partial<CalendarEvent> {
+  const copy: Partial<CalendarEvent> = { ...series };
+  for (const field of ASSIGNED_FIELDS) {
+    delete copy[field];
+  }
+  // A pending create request belongs to the series' own conference
+  const { createRequest: _pending, ...conference } = series.conferenceData ?? {};
+  if (conference.entryPoints?.length) {
+    copy.conferenceData = conference;
+  } else {
+    delete copy.conferenceData;
+  }
+  return copy;
+}
+
+/**
+ * End the series just before the occurrence by rewriting its RRULEs with
+ * UNTIL. The write only succeeds if the series is still as read (If-Match),
+ * so a concurrent edit to it is never overwritten. Returns the truncated
+ * series and the recurrence lines that describe the rest, for a new series
+ * starting at the occurrence.
+ */
+export async function truncateSeries(
+  client: GoogleCalendarClient,
+  calendarId: string,
+  series: CalendarEvent,
+  occurrence: CalendarEvent,
+  sendUpdates?: 'all' | 'externalOnly' | 'none',
+): Promise<{ series: CalendarEvent; remaining: string[]; splitAt: string }> {
+  const splitAt = startValue(occurrence.originalStartTime);
+  const seriesStart = startValue(series.start);
+  if (!splitAt || !seriesStart || !series.recurrence) {
+    throw new InvalidInputError(
+      `Cannot split series ${series.id}: it has no recurrence or start time.`,
+    );
+  }
+
+  const { head, tail } = splitRecurrence(series.recurrence, seriesStart, splitAt);
+  const truncated = await client.updateEvent({
+    calendarId,
+    eventId: series.id,
+    recurrence: head,
+    sendUpdates,
+    ifMatch: series.etag,
+  });
+
+  return { series: truncated, remaining: tail, splitAt };
+}
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+import { getSharedTool, stepUpScopes } from './registry.js';
+import { CalendarScopes } from './scopes.js';
+import type { ToolContext } from './types.js';
+
+const readonlyAccount = {
+  accessToken: 'readonly-token',
+  scopes: [CalendarScopes.readonly],
+};
+const fullAccount = {
+  accessToken: 'full-token',
+  scopes: [CalendarScopes.full],
+};
+
+let mcp: McpHarness;
+
+afterEach(() => {
+  mcp.restore();
+});
+
+function signIn(auth: Partial<ToolContext>) {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com', auth });
+}
+
+const createEvent = () =>
+  mcp.callTool('create_event', {
+    summary: 'Planning',
+    start: '2025-03-03T09:00:00Z',
+    end: '2025-03-03T10:00:00Z',
+  });
+
+describe('scope step-up', () => {
+  test('asks for the missing scopes with a link that grants them', async () => {
+    const requested: Array<string[] | undefined> = [];
+    signIn({
+      authStrategy: 'oauth',
+      providerToken: readonlyAccount.accessToken,
+      provider: readonlyAccount,
+      accounts: [readonlyAccount],
+      linkAccount: async (scopes) => {
+        requested.push(scopes);
+        return 'https://mcp.test/authorize?link=txn';
+      },
+    });
+
+    const result = await createEvent();
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'insufficient_scope',
+      details: {
+        requiredScopes: [CalendarScopes.events, CalendarScopes.readonly],
+        missingScopes: [CalendarScopes.events],
+        authorizationUrl: 'https://mcp.test/authorize?link=txn',
+      },
+    });
+    expect(requested).toEqual([[CalendarScopes.events]]);
+    expect(mcp.emulator.state.calendars.get('alice@example.com')?.events.size).toBe(0);
+  });
+
+  test('uses the tokens of an account linked again with more scopes', async () => {
+    signIn({
+      authStrategy: 'oauth',
+      providerToken: readonlyAccount.accessToken,
+      provider: readonlyAccount,
+      accounts: [readonlyAccount, fullAccount],
+    });
+
+    const result = await createEvent();
+
+    expect(result.isError).toBeFalsy();
+    expect(mcp.emulator.state.calendars.get('alice@example.com')?.events.size).toBe(1);
+  });
+
+  test('runs tools whose scopes were granted without a step-up', async () => {
+    signIn({
+      authStrategy: 'oauth',
+      providerToken: readonlyAccount.accessToken,
+      provider: readonlyAccount,
+      accounts: [readonlyAccount],
+    });
+
+    const result = await mcp.callTool('search_events', {});
+
+    expect(result.isError).toBeFalsy();
+  });
+});
+
+describe('stepUpScopes', () => {
+  const call = (name: string, args: Record<string, unknown> = {}) => ({
+    method: 'tools/call',
+    params: { name, arguments: args },
+  });
+  const context = {
+    authStrategy: 'oauth' as const,
+    provider: readonlyAccount,
+    accounts: [readonlyAccount],
+  };
+
+  test('challenges a call on the default account for the granted plus missing scopes', () => {
+    expect(stepUpScopes(call('create_event'), context)).toBe(
+      `${CalendarScopes.readonly} ${CalendarScopes.events}`,
+    );
+  });
+
+  test('lets covered calls, other methods and other accounts through', () => {
+    expect(stepUpScopes(call('search_events'), context)).toBeUndefined();
+    expect(stepUpScopes({ method: 'tools/list' }, context)).toBeUndefined();
+    expect(
+      stepUpScopes(call('create_event', { account: 'bob@example.com' }), context),
+    ).toBeUndefined();
+    expect(
+      stepUpScopes(call('create_event'), {
+        ...context,
+        accounts: [readonlyAccount, fullAccount],
+      }),
+    ).toBeUndefined();
+  });
+
+  test('never challenges bearer tokens, which report no scopes', () => {
+    const tool = getSharedTool('create_event');
+    expect(tool?.requiredScopes).toContain(CalendarScopes.events);
+    expect(
+      stepUpScopes(call('create_event'), {
+        authStrategy: 'bearer',
+        provider: undefined,
+      }),
+    ).toBeUndefined();
+  });
+});
@@ -4,6 +4,15 @@
  */
 
 import type { ZodObject, ZodRawShape } from 'zod';
+import {
+  InsufficientScopeError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import { CancellationError } from '../../utils/cancellation.js';
+import { selectAccount, withLatestTokens } from './accounts.js';
+import { assertToolCallAllowed, toolDeniedBy } from './policy.js';
+import { mergeScopes, missingScopes } from './scopes.js';
 import type { ToolContext, ToolResult } from './types.js';
 
 // Re-export types for convenience
@@ -19,31 +28,72 @@ export interface RegisteredTool {
   description: string;
   inputSchema: ZodObject<ZodRawShape>;
   outputSchema?: ZodRawShape;
+  requiredScopes?: string[];
   annotations?: Record<string, unknown>;
   handler: (args: Record<string, unknown>, context: ToolContext) => Promise<ToolResult>;
 }
 
+import { batchEventsTool } from './batch-events.js';
 import { checkAvailabilityTool } from './check-availability.js';
+import { createCalendarTool } from './create-calendar.js';
 import { createEventTool } from './create-event.js';
+import { createStatusEventTool } from './create-status-event.js';
+import { deleteCalendarTool } from './delete-calendar.js';
 import { deleteEventTool } from './delete-event.js';
+import { findMeetingSlotsTool } from './find-meeting-slots.js';
+import { getEventTool } from './get-event.js';
 // Import all tools
+import { listAccountsTool } from './list-accounts.js';
+import { listCalendarAclTool } from './list-calendar-acl.js';
 import { listCalendarsTool } from './list-calendars.js';
+import { listInstancesTool } from './list-instances.js';
+import { listRecentChangesTool } from './list-recent-changes.js';
+import { listWatchChannelsTool } from './list-watch-channels.js';
 import { respondToEventTool } from './respond-to-event.js';
+import { revokeCalendarAccessTool } from './revoke-calendar-access.js';
 import { searchEventsTool } from './search-events.js';
+import { shareCalendarTool } from './share-calendar.js';
+import { stopWatchChannelTool } from './stop-watch-channel.js';
+import { subscribeCalendarTool } from './subscribe-calendar.js';
+import { syncEventsTool } from './sync-events.js';
+import { undoChangeTool } from './undo-change.js';
+import { unsubscribeCalendarTool } from './unsubscribe-calendar.js';
+import { updateCalendarTool } from './update-calendar.js';
 import { updateEventTool } from './update-event.js';
+import { watchCalendarTool } from './watch-calendar.js';
 
 /**
  * All shared tools available in both runtimes.
  * Add new tools here to make them available everywhere.
  */
 export const sharedTools: RegisteredTool[] = [
+  listAccountsTool as unknown as RegisteredTool,
   listCalendarsTool as unknown as RegisteredTool,
+  createCalendarTool as unknown as RegisteredTool,
+  updateCalendarTool as unknown as RegisteredTool,
+  deleteCalendarTool as unknown as RegisteredTool,
+  subscribeCalendarTool as unknown as RegisteredTool,
+  unsubscribeCalendarTool as unknown as RegisteredTool,
+  listCalendarAclTool as unknown as RegisteredTool,
+  shareCalendarTool as unknown as RegisteredTool,
+  revokeCalendarAccessTool as unknown as RegisteredTool,
   searchEventsTool as unknown as RegisteredTool,
+  getEventTool as unknown as RegisteredTool,
+  listInstancesTool as unknown as RegisteredTool,
+  syncEventsTool as unknown as RegisteredTool,
+  watchCalendarTool as unknown as RegisteredTool,
+  listWatchChannelsTool as unknown as RegisteredTool,
+  stopWatchChannelTool as unknown as RegisteredTool,
   checkAvailabilityTool as unknown as RegisteredTool,
+  findMeetingSlotsTool as unknown as RegisteredTool,
   createEventTool as unknown as RegisteredTool,
+  createStatusEventTool as unknown as RegisteredTool,
   updateEventTool as unknown as RegisteredTool,
   deleteEventTool as unknown as RegisteredTool,
   respondToEventTool as unknown as RegisteredTool,
+  batchEventsTool as unknown as RegisteredTool,
+  listRecentChangesTool as unknown as RegisteredTool,
+  undoChangeTool as unknown as RegisteredTool,
 ];
 
 /**
@@ -60,6 +110,90 @@ export function getSharedToolNames(): string[] {
   return sharedTools.map((t) => t.name);
 }
 
+/**
+ * Scopes the tool needs that the context's account was not granted. Only
+ * OAuth tokens report their scopes; other strategies are never short.
+ */
+export function missingToolScopes(
+  tool: RegisteredTool,
+  context: Pick<ToolContext, 'authStrategy' | 'provider'>,
+): string[] {
+  const granted = context.provider?.scopes;
+  if (context.authStrategy !== 'oauth' || !tool.requiredScopes || !granted?.length) {
+    return [];
+  }
+  return missingScopes(tool.requiredScopes, granted);
+}
+
+/**
+ * Scopes to challenge a `tools/call` request for before it runs (HTTP 403
+ * insufficient_scope), or undefined to let it run. Only calls on the default
+ * account of a sign-in without linked accounts are challenged: signing in
+ * again replaces the sign-in, so everything else gets the tool error instead.
+ *
+ * @returns The granted scopes plus the missing ones, space-separated
+ */
+export function stepUpScopes(
+  message: { method?: string; params?: Record<string, unknown> } | undefined,
+  context: Pick<ToolContext, 'authStrategy' | 'provider' | 'accounts'>,
+): string | undefined {
+  if (message?.method !== 'tools/call' || (context.accounts?.length ?? 0) > 1) {
+    return undefined;
+  }
+
+  const tool = getSharedTool(String(message.params?.name ?? ''));
+  const args = message.params?.arguments as Record<string, unknown> | undefined;
+  if (!tool || args?.account || toolDeniedBy(tool)) {
+    return undefined;
+  }
+
+  const missing = missingToolScopes(tool, context);
+  return missing.length
+    ? mergeScopes(context.provider?.scopes ?? [], missing)
+    : undefined;
+}
+
+/**
+ * Context a tool call runs with: the account it asked for, holding every
+ * scope the tool needs.
+ *
+ * @throws InvalidInputError for an unknown account
+ * @throws InsufficientScopeError when the account must grant more scopes; its
+ * details carry a link that grants them when the server can link accounts
+ */
+export async function prepareToolContext(
+  tool: RegisteredTool,
+  args: Record<string, unknown>,
+  context: ToolContext,
+): Promise<ToolContext> {
+  let selected = await selectAccount(args.account, context);
+  if (!missingToolScopes(tool, selected).length) {
+    return selected;
+  }
+
+  // The account may have been linked again with the missing scopes
+  selected = await withLatestTokens(selected);
+  const missing = missingToolScopes(tool, selected);
+  if (!missing.length) {
+    return selected;
+  }
+
+  const authorizationUrl = await selected.linkAccount?.(missing);
+  throw new InsufficientScopeError(
+    `${tool.name} needs Google Calendar permissions this account has not granted: ${missing.join(', ')}.`,
+    {
+      hint: authorizationUrl
+        ? `Open ${authorizationUrl} in a browser within 5 minutes, sign in with the same Google account and approve the new permissions, then retry.`
+        : 'Sign in again and approve the missing permissions, then retry.',
+      details: {
+        requiredScopes: tool.requiredScopes,
+        missingScopes: missing,
+        ...(authorizationUrl && { authorizationUrl }),
+      },
+    },
+  );
+}
+
 /**
  * Execute a shared tool by name.
  * Handles input validation, output validation, and error wrapping.
@@ -75,19 +209,13 @@ export async function executeSharedTool(
 ): Promise<ToolResult> {
   const tool = getSharedTool(name);
   if (!tool) {
-    return {
-      content: [{ type: 'text', text: `Unknown tool: ${name}` }],
-      isError: true,
-    };
+    return toolErrorResult(new InvalidInputError(`Unknown tool: ${name}`));
   }
 
   try {
     // Check for cancellation before starting
     if (context.signal?.aborted) {
-      return {
-        content: [{ type: 'text', text: 'Operation was cancelled' }],
-        isError: true,
-      };
+      return toolErrorResult(new CancellationError());
     }
 
     // Validate input using Zod schema
@@ -99,15 +227,15 @@ export async function executeSharedTool(
             `${e.path.join('.')}: ${e.message}`,
         )
         .join(', ');
-      return {
-        content: [{ type: 'text', text: `Invalid input: ${errors}` }],
-        isError: true,
-      };
+      return toolErrorResult(new InvalidInputError(`Invalid input: ${errors}`));
     }
 
+    const toolArgs = parseResult.data as Record<string, unknown>;
+    await assertToolCallAllowed(tool, toolArgs, context);
+
     const result = await tool.handler(
-      parseResult.data as Record<string, unknown>,
-      context,
+      toolArgs,
+      await prepareToolContext(tool, toolArgs, context),
     );
 
     // Validate outputSchema compliance (per MCP spec)
@@ -132,15 +260,9 @@ export async function executeSharedTool(
   } catch (error) {
     // Check if this was an abort
     if (context.signal?.aborted) {
-      return {
-        content: [{ type: 'text', text: 'Operation was cancelled' }],
-        isError: true,
-      };
+      return toolErrorResult(new CancellationError());
     }
 
-    return {
-      content: [{ type: 'text', text: `Tool error: ${(error as Error).message}` }],
-      isError: true,
-    };
+    return toolErrorResult(error);
   }
 }
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { CalendarEvent } from '../../services/google-calendar.js';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+function addInvite() {
+  return mcp.emulator.addEvent('alice@example.com', {
+    summary: 'Review',
+    start: { dateTime: '2025-03-04T09:00:00Z' },
+    end: { dateTime: '2025-03-04T10:00:00Z' },
+    attendees: [
+      { email: 'alice@example.com', self: true, responseStatus: 'needsAction' },
+      { email: 'bob@example.com', organizer: true, responseStatus: 'accepted' },
+    ],
+  });
+}
+
+function stored(eventId: string) {
+  return mcp.emulator.state.calendars
+    .get('alice@example.com')
+    ?.events.get(eventId) as CalendarEvent;
+}
+
+describe('respond_to_event ifMatch', () => {
+  test('guards the attendee list it read with If-Match', async () => {
+    const event = addInvite();
+    const ifMatch: Array<string | null> = [];
+    const emulatorFetch = globalThis.fetch;
+    globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+      if (init?.method === 'PATCH') {
+        ifMatch.push(new Headers(init.headers).get('If-Match'));
+      }
+      return emulatorFetch(input, init);
+    }) as typeof fetch;
+
+    const result = await mcp.callTool('respond_to_event', {
+      eventId: event.id,
+      response: 'accepted',
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(ifMatch).toEqual([event.etag as string]);
+    expect(stored(event.id).attendees?.[0].responseStatus).toBe('accepted');
+  });
+
+  test('does not overwrite attendees added while responding', async () => {
+    const event = addInvite();
+    const carol = {
+      email: 'carol@example.com',
+      responseStatus: 'needsAction' as const,
+    };
+    const emulatorFetch = globalThis.fetch;
+    globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+      if (init?.method === 'PATCH') {
+        const current = stored(event.id);
+        current.attendees = [...(current.attendees ?? []), carol];
+        current.etag = '"edited-elsewhere"';
+      }
+      return emulatorFetch(input, init);
+    }) as typeof fetch;
+
+    const result = await mcp.callTool('respond_to_event', {
+      eventId: event.id,
+      response: 'declined',
+    });
+
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'conflict',
+      status: 412,
+      details: { current: expect.objectContaining({ etag: '"edited-elsewhere"' }) },
+    });
+    expect(stored(event.id).attendees).toContainEqual(carol);
+    expect(stored(event.id).attendees?.[0].responseStatus).toBe('needsAction');
+  });
+
+  test('a stale ifMatch is refused before anything is sent', async () => {
+    const event = addInvite();
+    await mcp.callTool('update_event', { eventId: event.id, location: 'Room 1' });
+
+    const result = await mcp.callTool('respond_to_event', {
+      eventId: event.id,
+      response: 'tentative',
+      ifMatch: event.etag,
+    });
+
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'conflict',
+      details: { current: expect.objectContaining({ location: 'Room 1' }) },
+    });
+    expect(stored(event.id).attendees?.[0].responseStatus).toBe('needsAction');
+  });
+});
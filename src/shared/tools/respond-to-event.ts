@@ -4,10 +4,17 @@
 
 import { z } from 'zod';
 import { toolsMetadata } from '../../config/metadata.js';
+import { AuthRequiredError, toolErrorResult } from '../../core/errors.js';
 import {
   type CalendarEvent,
   GoogleCalendarClient,
 } from '../../services/google-calendar.js';
+import { publishEventChange } from '../resources/subscriptions.js';
+import { AccountSchema } from './accounts.js';
+import { recordChange } from './change-journal.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { resolveToolPolicy } from './policy.js';
+import { CalendarScopes } from './scopes.js';
 import { defineTool, type ToolResult } from './types.js';
 
 const InputSchema = z.object({
@@ -18,7 +25,21 @@ const InputSchema = z.object({
     .describe(
       'Your response: "accepted" (yes), "declined" (no), or "tentative" (maybe)',
     ),
-  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional().default('all'),
+  // No schema default: the policy only checks values the caller passed
+  sendUpdates: z
+    .enum(['all', 'externalOnly', 'none'])
+    .optional()
+    .describe(
+      "Who is notified (default: 'all', or 'externalOnly' where the server forbids 'all')",
+    ),
+  ifMatch: z
+    .string()
+    .optional()
+    .describe(
+      'etag of the event as you read it; the response fails with the current version if the event changed since',
+    ),
+  dryRun: DryRunSchema,
+  account: AccountSchema,
 });
 
 const RESPONSE_LABELS: Record<string, string> = {
@@ -58,6 +79,7 @@ export const respondToEventTool = defineTool({
   title: toolsMetadata.respond_to_event.title,
   description: toolsMetadata.respond_to_event.description,
   inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.events, CalendarScopes.readonly],
   annotations: {
     readOnlyHint: false,
     destructiveHint: false,
@@ -67,29 +89,60 @@ export const respondToEventTool = defineTool({
     const token = context.providerToken;
 
     if (!token) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: 'Authentication required. Please authenticate with Google Calendar.',
-          },
-        ],
-      };
+      return toolErrorResult(new AuthRequiredError());
     }
 
-    const client = new GoogleCalendarClient(token);
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
     const calendarId = args.calendarId || 'primary';
 
     try {
+      const before = await client.getEvent(calendarId, args.eventId);
       const result = await client.respondToEvent({
         calendarId,
         eventId: args.eventId,
         response: args.response,
-        sendUpdates: args.sendUpdates,
+        sendUpdates:
+          args.sendUpdates ??
+          (resolveToolPolicy().forbidSendUpdatesAll ? 'externalOnly' : 'all'),
+        // Guard the write against the version journaled as `before`
+        ifMatch: args.ifMatch ?? before.etag,
       });
 
-      const text = formatResponse(result, args.response);
+      if (args.dryRun) {
+        const self = before.attendees?.find((a) => a.self);
+        return dryRunResult(client, {
+          tool: 'respond_to_event',
+          summary: `Would mark your response to "${before.summary ?? '(no title)'}" as ${args.response}.`,
+          target: before,
+          changes: [
+            {
+              field: 'responseStatus',
+              from: self?.responseStatus ?? null,
+              to: args.response,
+            },
+          ],
+        });
+      }
+
+      await publishEventChange(client, calendarId, args.eventId);
+      const changeId = await recordChange(client, {
+        tool: 'respond_to_event',
+        description: `Responded ${args.response} to "${result.summary ?? '(no title)'}"`,
+        changes: [
+          {
+            before: { calendarId, event: before },
+            after: { calendarId, event: result },
+          },
+        ],
+      });
+
+      const text = [
+        formatResponse(result, args.response),
+        ...(changeId ? [`  changeId: ${changeId}`] : []),
+      ].join('\n');
 
       return {
         content: [{ type: 'text', text }],
@@ -98,18 +151,11 @@ export const respondToEventTool = defineTool({
           action: 'respond_to_event',
           response: args.response,
           event: result,
+          ...(changeId && { changeId }),
         },
       };
     } catch (error) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: `Failed to respond to event: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return toolErrorResult(error, 'respond to event');
     }
   },
 });
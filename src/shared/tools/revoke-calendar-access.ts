@@ -0,0 +1,117 @@
+/**
+ * Revoke Calendar Access tool - remove a sharing rule from a calendar.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  NotFoundError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import { type AclRule, GoogleCalendarClient } from '../../services/google-calendar.js';
+import { AccountSchema } from './accounts.js';
+import {
+  AclScopeTypeSchema,
+  AclScopeValueSchema,
+  aclErrorResult,
+  aclRuleId,
+  assertKeepsOwnOwnerRole,
+  describeScope,
+  listAllAclRules,
+} from './calendar-acl.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  calendarId: z.string().min(1).describe("Calendar ID from 'list_calendars'"),
+  ruleId: z
+    .string()
+    .optional()
+    .describe("Rule ID from 'list_calendar_acl' (e.g. 'user:jane@example.com')"),
+  scopeType: AclScopeTypeSchema,
+  scopeValue: AclScopeValueSchema,
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+/** Parse "user:jane@example.com" / "default" back into a scope */
+function scopeFromRuleId(ruleId: string): AclRule['scope'] {
+  if (ruleId === 'default') return { type: 'default' };
+  const separator = ruleId.indexOf(':');
+  return {
+    type: ruleId.slice(0, separator) as AclRule['scope']['type'],
+    value: ruleId.slice(separator + 1),
+  };
+}
+
+export const revokeCalendarAccessTool = defineTool({
+  name: toolsMetadata.revoke_calendar_access.name,
+  title: toolsMetadata.revoke_calendar_access.title,
+  description: toolsMetadata.revoke_calendar_access.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.acls],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    if (!args.ruleId && !args.scopeValue && args.scopeType !== 'default') {
+      return toolErrorResult(
+        new InvalidInputError('Provide ruleId, or scopeType and scopeValue.', {
+          hint: "Call 'list_calendar_acl' to find rule IDs.",
+        }),
+      );
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+
+    try {
+      const ruleId = args.ruleId ?? aclRuleId(args.scopeType, args.scopeValue);
+      const scope = scopeFromRuleId(ruleId);
+
+      await assertKeepsOwnOwnerRole(client, args.calendarId, scope);
+      await client.deleteAclRule(args.calendarId, ruleId);
+
+      if (args.dryRun) {
+        const current = (await listAllAclRules(client, args.calendarId)).find(
+          (rule) => rule.id === ruleId,
+        );
+        if (!current) {
+          throw new NotFoundError(`No sharing rule ${ruleId} on ${args.calendarId}.`, {
+            hint: "Call 'list_calendar_acl' to find rule IDs.",
+          });
+        }
+        return dryRunResult(client, {
+          tool: 'revoke_calendar_access',
+          summary: `Would remove ${current.role} access for ${describeScope(current)} on ${args.calendarId}.`,
+          target: current,
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✓ Access removed for ${describeScope({ scope })} on ${args.calendarId}.\n  ruleId: ${ruleId}\n\nNext: Use 'list_calendar_acl' to verify.`,
+          },
+        ],
+        structuredContent: { success: true, calendarId: args.calendarId, ruleId },
+      };
+    } catch (error) {
+      return aclErrorResult(error, 'revoke calendar access');
+    }
+  },
+});
@@ -0,0 +1,64 @@
+/**
+ * OAuth scopes the calendar tools need.
+ *
+ * Tools declare `requiredScopes`; before a tool runs they are compared with
+ * the scopes Google granted the selected account. Broader scopes count for
+ * narrower ones (calendar covers everything, calendar.acls covers
+ * calendar.acls.readonly).
+ */
+
+const CALENDAR = 'https://www.googleapis.com/auth/calendar';
+
+export const CalendarScopes = {
+  /** Everything, including calendars, sharing and settings */
+  full: CALENDAR,
+  /** Read calendars, events and free/busy */
+  readonly: `${CALENDAR}.readonly`,
+  /** Create, change and delete events */
+  events: `${CALENDAR}.events`,
+  /** Create, change and delete secondary calendars */
+  calendars: `${CALENDAR}.calendars`,
+  /** Add, remove and configure calendars in the user's list */
+  calendarList: `${CALENDAR}.calendarlist`,
+  /** Share calendars */
+  acls: `${CALENDAR}.acls`,
+  /** See who a calendar is shared with */
+  aclsReadonly: `${CALENDAR}.acls.readonly`,
+} as const;
+
+/** Scopes that also grant the key scope */
+const BROADER_SCOPES: Record<string, string[]> = {
+  [CalendarScopes.readonly]: [CalendarScopes.full],
+  [CalendarScopes.events]: [CalendarScopes.full],
+  [CalendarScopes.calendars]: [CalendarScopes.full],
+  [CalendarScopes.calendarList]: [CalendarScopes.full],
+  [CalendarScopes.acls]: [CalendarScopes.full],
+  [CalendarScopes.aclsReadonly]: [CalendarScopes.acls, CalendarScopes.full],
+};
+
+/** Split a space-separated scope string */
+export function parseScopes(value: string | undefined): string[] {
+  return (value ?? '').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * The required scopes that `granted` does not cover.
+ */
+export function missingScopes(
+  required: readonly string[],
+  granted: readonly string[],
+): string[] {
+  const grantedSet = new Set(granted);
+  return required.filter(
+    (scope) =>
+      !grantedSet.has(scope) &&
+      !(BROADER_SCOPES[scope] ?? []).some((broader) => grantedSet.has(broader)),
+  );
+}
+
+/**
+ * Union of scope lists in first-seen order, as a space-separated string.
+ */
+export function mergeScopes(...lists: Array<readonly string[]>): string {
+  return [...new Set(lists.flat())].join(' ');
+}
@@ -4,15 +4,26 @@
 
 import { z } from 'zod';
 import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  toCalendarError,
+  toolErrorResult,
+} from '../../core/errors.js';
 import {
   type CalendarEvent,
   type CalendarListItem,
   GoogleCalendarClient,
 } from '../../services/google-calendar.js';
+import { CancellationError } from '../../utils/cancellation.js';
+import { AccountOrAllSchema, listLinkedAccounts } from './accounts.js';
+import { CalendarScopes } from './scopes.js';
+import { createTimeResolver, TIME_EXPRESSION_EXAMPLES } from './time-input.js';
 import { defineTool, type ToolResult } from './types.js';
 
 const DEFAULT_FIELDS = [
   'id',
+  'etag',
   'summary',
   'start',
   'end',
@@ -22,10 +33,12 @@ const DEFAULT_FIELDS = [
   'attendees',
   'calendarId',
   'calendarName',
+  'account',
 ];
 
 const ALL_FIELDS = [
   'id',
+  'etag',
   'summary',
   'description',
   'start',
@@ -45,12 +58,22 @@ const ALL_FIELDS = [
   'recurrence',
   'calendarId',
   'calendarName',
+  'account',
 ];
 
 // Extended event type with calendar info
 interface EventWithCalendar extends CalendarEvent {
   calendarId: string;
   calendarName: string;
+  /** Linked account the event was found in (only with account: 'all') */
+  account?: string;
+}
+
+/** A calendar to search, with the client of the account it belongs to */
+interface SearchTarget {
+  client: GoogleCalendarClient;
+  calendar: CalendarListItem;
+  account?: string;
 }
 
 const InputSchema = z.object({
@@ -61,8 +84,22 @@ const InputSchema = z.object({
     .describe(
       'Calendar ID(s) to search. Use "all" (default) to search all calendars, a single ID, or array of IDs',
     ),
-  timeMin: z.string().optional().describe('Start of time range (RFC3339 with timezone, e.g., 2025-12-06T19:00:00Z or 2025-12-06T19:00:00+01:00)'),
-  timeMax: z.string().optional().describe('End of time range (RFC3339 with timezone, e.g., 2025-12-06T19:00:00Z or 2025-12-06T19:00:00+01:00)'),
+  timeMin: z
+    .string()
+    .optional()
+    .describe(
+      `Start of time range: RFC3339, a local time or an expression (e.g. ${TIME_EXPRESSION_EXAMPLES}); a date means midnight`,
+    ),
+  timeMax: z
+    .string()
+    .optional()
+    .describe('End of time range, in the same forms as timeMin'),
+  timeZone: z
+    .string()
+    .optional()
+    .describe(
+      "IANA zone for timeMin/timeMax without an offset (default: the primary calendar's zone)",
+    ),
   query: z
     .string()
     .optional()
@@ -92,6 +129,7 @@ const InputSchema = z.object({
     .optional()
     .default(true)
     .describe('Expand recurring events into instances'),
+  account: AccountOrAllSchema,
 });
 
 function formatEventLine(event: EventWithCalendar): string {
@@ -166,6 +204,7 @@ export const searchEventsTool = defineTool({
   title: toolsMetadata.search_events.title,
   description: toolsMetadata.search_events.description,
   inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.readonly],
   annotations: {
     readOnlyHint: true,
     destructiveHint: false,
@@ -175,71 +214,79 @@ export const searchEventsTool = defineTool({
     const token = context.providerToken;
 
     if (!token) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: 'Authentication required. Please authenticate with Google Calendar.',
-          },
-        ],
-      };
+      return toolErrorResult(new AuthRequiredError());
     }
 
-    const client = new GoogleCalendarClient(token);
+    const client = new GoogleCalendarClient(token, { signal: context.signal });
 
     try {
+      const times = createTimeResolver(client, args.timeZone);
+      const timeMin = args.timeMin && (await times.instant(args.timeMin));
+      const timeMax = args.timeMax && (await times.instant(args.timeMax));
+
+      // Which accounts to search: the selected one, or every linked account
+      const accounts =
+        args.account === 'all'
+          ? (await listLinkedAccounts(context)).map((account) => ({
+              client: new GoogleCalendarClient(account.provider.accessToken, {
+                signal: context.signal,
+              }),
+              account: account.email,
+            }))
+          : [{ client, account: undefined }];
+
       // Determine which calendars to search
-      let calendarsToSearch: CalendarListItem[] = [];
-
-      if (args.calendarId === 'all') {
-        // Fetch all accessible calendars
-        const calendarList = await client.listCalendars();
-        calendarsToSearch = calendarList.items.filter(
-          // Include calendars where user can at least read events
-          (cal) => ['owner', 'writer', 'reader'].includes(cal.accessRole),
-        );
-      } else if (Array.isArray(args.calendarId)) {
-        // Use provided calendar IDs
-        calendarsToSearch = args.calendarId.map((id) => ({
-          id,
-          summary: id === 'primary' ? 'Primary' : id,
-          accessRole: 'reader' as const,
-        }));
-      } else {
-        // Single calendar ID
-        calendarsToSearch = [
-          {
-            id: args.calendarId,
-            summary: args.calendarId === 'primary' ? 'Primary' : args.calendarId,
-            accessRole: 'reader' as const,
-          },
-        ];
+      const calendarsToSearch: SearchTarget[] = [];
+
+      for (const { client: accountClient, account } of accounts) {
+        if (args.calendarId === 'all') {
+          // Fetch all accessible calendars
+          const calendarList = await accountClient.listCalendars();
+          for (const calendar of calendarList.items) {
+            // Include calendars where user can at least read events
+            if (['owner', 'writer', 'reader'].includes(calendar.accessRole)) {
+              calendarsToSearch.push({ client: accountClient, calendar, account });
+            }
+          }
+        } else {
+          // Use provided calendar ID(s)
+          const ids = Array.isArray(args.calendarId)
+            ? args.calendarId
+            : [args.calendarId];
+          for (const id of ids) {
+            calendarsToSearch.push({
+              client: accountClient,
+              calendar: {
+                id,
+                summary: id === 'primary' ? 'Primary' : id,
+                accessRole: 'reader' as const,
+              },
+              account,
+            });
+          }
+        }
       }
 
       // For pagination with single calendar
       if (args.pageToken && calendarsToSearch.length !== 1) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: 'Pagination (pageToken) only works when searching a single calendar. Specify a calendarId to use pagination.',
-            },
-          ],
-        };
+        return toolErrorResult(
+          new InvalidInputError(
+            'Pagination (pageToken) only works when searching a single calendar. Specify a calendarId to use pagination.',
+          ),
+        );
       }
 
       // Search all calendars in parallel
       // Note: We don't pass `q` to Google API because it only does exact word matching.
       // Instead, we fetch events and filter locally with substring matching.
       // This ensures "barber" will match "barbershop".
-      const searchPromises = calendarsToSearch.map(async (calendar) => {
+      const searchPromises = calendarsToSearch.map(async (target) => {
+        const { calendar } = target;
         try {
-          const result = await client.listEvents({
+          const result = await target.client.listEvents({
             calendarId: calendar.id,
-            timeMin: args.timeMin,
-            timeMax: args.timeMax,
+            timeMin,
+            timeMax,
             maxResults:
               args.calendarId === 'all'
                 ? Math.min((args.maxResults ?? 50) * 2, 200) // Fetch more to filter locally
@@ -256,22 +303,30 @@ export const searchEventsTool = defineTool({
             ...event,
             calendarId: calendar.id,
             calendarName: calendar.summary,
+            ...(target.account && { account: target.account }),
           }));
 
           return {
             calendar,
+            account: target.account,
             events: eventsWithCalendar,
             nextPageToken: result.nextPageToken,
           };
         } catch (error) {
-          // Log error but don't fail the whole search
+          // Cancellation aborts the whole search, not just this calendar
+          if (error instanceof CancellationError) {
+            throw error;
+          }
+          // Log error but don't fail the whole search (transient errors were already retried)
           console.warn(
             `Failed to search calendar ${calendar.id}: ${(error as Error).message}`,
           );
           return {
             calendar,
+            account: target.account,
             events: [],
             error: (error as Error).message,
+            errorCode: toCalendarError(error).code,
           };
         }
       });
@@ -284,7 +339,9 @@ export const searchEventsTool = defineTool({
       // Apply local substring filtering if query is provided
       // This catches partial matches that Google's exact word matching misses
       if (args.query) {
-        allEvents = allEvents.filter((event) => matchesQuerySubstring(event, args.query!));
+        allEvents = allEvents.filter((event) =>
+          matchesQuerySubstring(event, args.query!),
+        );
       }
 
       // Sort by start time if using startTime ordering
@@ -313,15 +370,35 @@ export const searchEventsTool = defineTool({
         .map((r) => r.calendar.summary);
       const failedCalendars = results
         .filter((r) => r.error)
-        .map((r) => r.calendar.summary);
+        .map((r) => ({
+          calendarId: r.calendar.id,
+          name: r.calendar.summary,
+          ...(r.account && { account: r.account }),
+          error: r.error,
+          code: r.errorCode,
+        }));
 
+      // Show how relative or local times were read
+      if (timeMin !== args.timeMin || timeMax !== args.timeMax) {
+        lines.push(`Time range: ${timeMin ?? '…'} → ${timeMax ?? '…'}`);
+      }
+      if (args.account === 'all') {
+        const searchedAccounts = accounts.map((a) => a.account ?? '(unknown account)');
+        lines.push(
+          `Searched ${searchedAccounts.length} account(s): ${searchedAccounts.join(', ')}`,
+        );
+      }
       if (args.calendarId === 'all' && searchedCalendars.length > 1) {
         lines.push(
           `Searched ${searchedCalendars.length} calendar(s): ${searchedCalendars.join(', ')}`,
         );
-        if (failedCalendars.length > 0) {
-          lines.push(`(Failed to search: ${failedCalendars.join(', ')})`);
-        }
+      }
+      if (failedCalendars.length > 0) {
+        lines.push(
+          `⚠️ Failed to search ${failedCalendars.length} calendar(s), results may be incomplete: ${failedCalendars.map((f) => f.name).join(', ')}`,
+        );
+      }
+      if (lines.length > 0) {
         lines.push('');
       }
 
@@ -335,6 +412,9 @@ export const searchEventsTool = defineTool({
         for (const event of allEvents) {
           lines.push(formatEventLine(event));
 
+          if (event.account) {
+            lines.push(`  account: ${event.account}`);
+          }
           if (event.location) {
             lines.push(`  location: ${event.location}`);
           }
@@ -366,27 +446,24 @@ export const searchEventsTool = defineTool({
       }
 
       lines.push(
-        "\nNote: Use the calendarId from results when calling 'update_event' or 'delete_event'.",
+        args.account === 'all'
+          ? "\nNote: Use the calendarId and account from results when calling 'update_event' or 'delete_event'."
+          : "\nNote: Use the calendarId from results when calling 'update_event' or 'delete_event'.",
       );
 
       return {
         content: [{ type: 'text', text: lines.join('\n') }],
         structuredContent: {
           items: filteredItems,
+          ...(timeMin && { timeMin }),
+          ...(timeMax && { timeMax }),
           calendarsSearched: searchedCalendars,
+          ...(failedCalendars.length > 0 && { calendarsFailed: failedCalendars }),
           nextPageToken: singleCalendarResult?.nextPageToken,
         },
       };
     } catch (error) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: `Failed to search events: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return toolErrorResult(error, 'search events');
     }
   },
 });
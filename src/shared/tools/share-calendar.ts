@@ -0,0 +1,154 @@
+/**
+ * Share Calendar tool - grant or change access to a calendar.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  NotFoundError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import { type AclRule, GoogleCalendarClient } from '../../services/google-calendar.js';
+import { AccountSchema } from './accounts.js';
+import {
+  AclScopeTypeSchema,
+  AclScopeValueSchema,
+  aclErrorResult,
+  aclRuleId,
+  assertKeepsOwnOwnerRole,
+  describeScope,
+  formatAclRule,
+  listAllAclRules,
+} from './calendar-acl.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  calendarId: z.string().min(1).describe("Calendar to share, from 'list_calendars'"),
+  scopeType: AclScopeTypeSchema,
+  scopeValue: AclScopeValueSchema,
+  role: z
+    .enum(['freeBusyReader', 'reader', 'writer', 'owner'])
+    .describe(
+      "'freeBusyReader' (free/busy only), 'reader' (event details), 'writer' (edit events), 'owner' (edit and manage sharing)",
+    ),
+  sendNotifications: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Email the grantee about the change (default: true)'),
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+/** Public calendars can't be edited by everyone */
+const PUBLIC_ROLES = new Set(['freeBusyReader', 'reader']);
+
+export const shareCalendarTool = defineTool({
+  name: toolsMetadata.share_calendar.name,
+  title: toolsMetadata.share_calendar.title,
+  description: toolsMetadata.share_calendar.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.acls],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    if (args.scopeType === 'default' && !PUBLIC_ROLES.has(args.role)) {
+      return toolErrorResult(
+        new InvalidInputError(`A public calendar cannot grant '${args.role}'.`, {
+          hint: "Use role 'reader' or 'freeBusyReader' with scopeType 'default'.",
+        }),
+      );
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+
+    try {
+      const ruleId = aclRuleId(args.scopeType, args.scopeValue);
+      const scope: AclRule['scope'] =
+        args.scopeType === 'default'
+          ? { type: 'default' }
+          : { type: args.scopeType, value: args.scopeValue };
+
+      const account = await assertKeepsOwnOwnerRole(
+        client,
+        args.calendarId,
+        scope,
+        args.role,
+      );
+
+      if (args.dryRun) {
+        const current = (await listAllAclRules(client, args.calendarId)).find(
+          (rule) => rule.id === ruleId,
+        );
+        if (current) {
+          await client.updateAclRule(args.calendarId, ruleId, args.role, {
+            sendNotifications: args.sendNotifications,
+          });
+        } else {
+          await client.insertAclRule(
+            args.calendarId,
+            { role: args.role, scope },
+            { sendNotifications: args.sendNotifications },
+          );
+        }
+        return dryRunResult(client, {
+          tool: 'share_calendar',
+          summary: `Would ${current ? 'change' : 'grant'} ${args.role} access for ${describeScope({ scope })} on ${args.calendarId}.`,
+          target: current,
+          changes: [{ field: 'role', from: current?.role ?? null, to: args.role }],
+        });
+      }
+
+      // Change the existing rule when there is one, so the grantee isn't re-invited
+      let rule: AclRule;
+      let action = 'changed';
+      try {
+        rule = await client.updateAclRule(args.calendarId, ruleId, args.role, {
+          sendNotifications: args.sendNotifications,
+        });
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+        rule = await client.insertAclRule(
+          args.calendarId,
+          { role: args.role, scope },
+          { sendNotifications: args.sendNotifications },
+        );
+        action = 'granted';
+      }
+
+      const notified =
+        args.sendNotifications && args.scopeType !== 'default'
+          ? 'A notification email was sent.'
+          : 'No notification sent.';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✓ Access ${action} for ${describeScope(rule)} on ${args.calendarId}:\n${formatAclRule(rule, account)}\n  ${notified}\n\nNext: Use 'list_calendar_acl' to review who has access.`,
+          },
+        ],
+        structuredContent: { calendarId: args.calendarId, action, rule },
+      };
+    } catch (error) {
+      return aclErrorResult(error, 'share calendar');
+    }
+  },
+});
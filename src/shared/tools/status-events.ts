@@ -0,0 +1,46 @@
+/**
+ * Readable lines for out-of-office, focus time and working location events.
+ */
+
+import type { AutoDeclineMode, CalendarEvent } from '../../services/google-calendar.js';
+
+const AUTO_DECLINE_LABELS: Record<AutoDeclineMode, string> = {
+  declineNone: 'off',
+  declineAllConflictingInvitations: 'all conflicting invitations',
+  declineOnlyNewConflictingInvitations: 'new conflicting invitations',
+};
+
+/** Type-specific properties of a status event, one `  key: value` line each */
+export function formatStatusProperties(event: CalendarEvent): string[] {
+  const lines: string[] = [];
+  const decline = event.outOfOfficeProperties ?? event.focusTimeProperties;
+
+  if (decline?.autoDeclineMode) {
+    lines.push(`  auto-decline: ${AUTO_DECLINE_LABELS[decline.autoDeclineMode]}`);
+  }
+  if (decline?.declineMessage) {
+    lines.push(`  decline message: ${decline.declineMessage}`);
+  }
+  if (event.focusTimeProperties?.chatStatus) {
+    lines.push(`  chat status: ${event.focusTimeProperties.chatStatus}`);
+  }
+
+  const location = event.workingLocationProperties;
+  if (location?.type === 'homeOffice') {
+    lines.push('  working from: home');
+  } else if (location?.type === 'officeLocation') {
+    const office = location.officeLocation ?? {};
+    const parts = [
+      office.label,
+      office.buildingId && `building ${office.buildingId}`,
+      office.floorId && `floor ${office.floorId}`,
+      office.floorSectionId && `section ${office.floorSectionId}`,
+      office.deskId && `desk ${office.deskId}`,
+    ].filter(Boolean);
+    lines.push(`  working from: office${parts.length ? ` (${parts.join(', ')})` : ''}`);
+  } else if (location?.type === 'customLocation') {
+    lines.push(`  working from: ${location.customLocation?.label ?? 'other location'}`);
+  }
+
+  return lines;
+}
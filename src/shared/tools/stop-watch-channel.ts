@@ -0,0 +1,113 @@
+/**
+ * Stop Watch Channel tool - end push notifications for a calendar.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  NotFoundError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import {
+  describeChannel,
+  listChannels,
+  stopChannel,
+} from '../webhooks/calendar-channels.js';
+import { AccountSchema } from './accounts.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  channelId: z.string().optional().describe('Channel to stop'),
+  calendarId: z
+    .string()
+    .optional()
+    .describe('Stop every channel watching this calendar instead'),
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+export const stopWatchChannelTool = defineTool({
+  name: toolsMetadata.stop_watch_channel.name,
+  title: toolsMetadata.stop_watch_channel.title,
+  description: toolsMetadata.stop_watch_channel.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    if (!args.channelId && !args.calendarId) {
+      return toolErrorResult(
+        new InvalidInputError("Either 'channelId' or 'calendarId' is required.", {
+          hint: "Call 'list_watch_channels' to find channel IDs.",
+        }),
+      );
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+
+    try {
+      const account = (await client.getPrimaryCalendar()).id;
+      const calendarId = args.calendarId === 'primary' ? account : args.calendarId;
+
+      // Only channels owned by this account can be stopped
+      const targets = (await listChannels(account, calendarId)).filter(
+        (r) => !args.channelId || r.id === args.channelId,
+      );
+      if (targets.length === 0) {
+        throw new NotFoundError(
+          args.channelId
+            ? `Watch channel not found: ${args.channelId}`
+            : `No watch channels for calendar: ${calendarId}`,
+          { hint: "Use 'list_watch_channels' to see active channels." },
+        );
+      }
+
+      if (args.dryRun) {
+        for (const record of targets) {
+          if (record.expiration > Date.now()) {
+            await client.stopChannel(record.id, record.resourceId);
+          }
+        }
+        return dryRunResult(client, {
+          tool: 'stop_watch_channel',
+          summary: `Would stop ${targets.length} watch channel(s): ${targets.map((r) => r.id).join(', ')}`,
+          target: targets.map(describeChannel),
+        });
+      }
+
+      for (const record of targets) {
+        await stopChannel(client, record);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✓ Stopped ${targets.length} watch channel(s): ${targets.map((r) => r.id).join(', ')}`,
+          },
+        ],
+        structuredContent: { stopped: targets.map((r) => r.id) },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'stop watch channel');
+    }
+  },
+});
@@ -0,0 +1,84 @@
+/**
+ * Subscribe Calendar tool - add an existing calendar to the user's list.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import { AuthRequiredError, toolErrorResult } from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { publishCalendarListChange } from '../resources/subscriptions.js';
+import { AccountSchema } from './accounts.js';
+import {
+  CalendarListSettingsShape,
+  formatCalendar,
+  pickListSettings,
+} from './calendar-settings.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  calendarId: z
+    .string()
+    .min(1)
+    .describe(
+      'Calendar to add: a shared calendar ID, a colleague\'s email, or a public calendar such as "en.usa#holiday@group.v.calendar.google.com"',
+    ),
+  ...CalendarListSettingsShape,
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+export const subscribeCalendarTool = defineTool({
+  name: toolsMetadata.subscribe_calendar.name,
+  title: toolsMetadata.subscribe_calendar.title,
+  description: toolsMetadata.subscribe_calendar.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.calendarList],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+
+    try {
+      const entry = await client.insertCalendarListEntry(
+        args.calendarId,
+        pickListSettings(args) ?? {},
+      );
+
+      if (args.dryRun) {
+        return dryRunResult(client, {
+          tool: 'subscribe_calendar',
+          summary: `Would add ${args.calendarId} to your calendar list.`,
+        });
+      }
+
+      await publishCalendarListChange(client, entry.id);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${formatCalendar('added to your list', entry, entry)}\n\nNext: Use 'search_events' with this calendarId to see its events.`,
+          },
+        ],
+        structuredContent: { ...entry },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'subscribe to calendar');
+    }
+  },
+});
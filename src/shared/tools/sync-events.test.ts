@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+let mcp: McpHarness;
+let clock: Date;
+
+beforeEach(() => {
+  clock = new Date('2025-03-01T08:00:00Z');
+  mcp = createMcpHarness({ userEmail: 'alice@example.com', now: () => clock });
+});
+
+function advance(minutes: number) {
+  clock = new Date(clock.getTime() + minutes * 60_000);
+}
+
+afterEach(() => {
+  mcp.restore();
+});
+
+function addEvent(summary: string, day: number) {
+  return mcp.emulator.addEvent('alice@example.com', {
+    summary,
+    start: { dateTime: `2025-03-0${day}T09:00:00Z` },
+    end: { dateTime: `2025-03-0${day}T10:00:00Z` },
+  });
+}
+
+async function sync(args: Record<string, unknown> = {}) {
+  const result = await mcp.callTool('sync_events', args);
+  expect(result.isError).toBeFalsy();
+  return result.structuredContent as {
+    syncType: 'full' | 'incremental';
+    fullSyncReason?: string;
+    counts: Record<string, number>;
+    changes: Array<{ type: string; id: string }>;
+  };
+}
+
+describe('sync_events', () => {
+  test('lists everything first, then only what changed', async () => {
+    const first = addEvent('First', 3);
+    const edited = addEvent('Edited', 5);
+
+    const initial = await sync();
+    expect(initial).toMatchObject({ syncType: 'full', fullSyncReason: 'initial' });
+    expect(initial.counts).toMatchObject({ existing: 2 });
+
+    advance(5);
+    const second = addEvent('Second', 4);
+    await mcp.callTool('update_event', { eventId: edited.id, summary: 'Renamed' });
+    await mcp.callTool('delete_event', { eventId: first.id });
+
+    const changed = await sync();
+    expect(changed.syncType).toBe('incremental');
+    expect(changed.counts).toEqual({
+      existing: 0,
+      created: 1,
+      updated: 1,
+      cancelled: 1,
+    });
+    expect(changed.changes).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ type: 'created', id: second.id }),
+        expect.objectContaining({ type: 'updated', id: edited.id }),
+        expect.objectContaining({ type: 'cancelled', id: first.id }),
+      ]),
+    );
+
+    expect((await sync()).changes).toEqual([]);
+  });
+
+  test('falls back to a full sync when Google expires the sync token (410)', async () => {
+    const event = addEvent('Kept', 3);
+    await sync();
+
+    mcp.emulator.expireSyncTokens();
+
+    const resynced = await sync();
+    expect(resynced).toMatchObject({
+      syncType: 'full',
+      fullSyncReason: 'token_expired',
+    });
+    expect(resynced.changes).toEqual([
+      expect.objectContaining({ type: 'existing', id: event.id }),
+    ]);
+    expect((await sync()).syncType).toBe('incremental');
+  });
+
+  test('starts over on reset or when singleEvents changes', async () => {
+    addEvent('Event', 3);
+    await sync();
+
+    expect((await sync({ reset: true })).fullSyncReason).toBe('reset');
+    expect((await sync({ singleEvents: true })).fullSyncReason).toBe('options_changed');
+  });
+});
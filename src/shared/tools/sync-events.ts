@@ -0,0 +1,292 @@
+/**
+ * Sync Events tool - incremental change feed built on Calendar sync tokens.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  NotFoundError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import {
+  type CalendarEvent,
+  GoogleCalendarClient,
+} from '../../services/google-calendar.js';
+import { getStateStore } from '../storage/singleton.js';
+import { acknowledgeChanges } from '../webhooks/calendar-channels.js';
+import { AccountSchema } from './accounts.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+/** Pages fetched per call (250 events each) before handing back a resume point */
+const MAX_PAGES_PER_CALL = 40;
+
+const PAGE_SIZE = 250;
+
+const InputSchema = z.object({
+  calendarId: z
+    .string()
+    .optional()
+    .default('primary')
+    .describe('Calendar to sync (default: primary)'),
+  singleEvents: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      'Expand recurring events into instances. Changing this resets the sync state.',
+    ),
+  reset: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Discard the stored sync token and perform a full sync'),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .default(100)
+    .describe('Max events listed in the response (counts always cover everything)'),
+  account: AccountSchema,
+});
+
+type ChangeType = 'existing' | 'created' | 'updated' | 'cancelled';
+
+type FullSyncReason = 'initial' | 'reset' | 'options_changed' | 'token_expired';
+
+/**
+ * Persisted per user and calendar.
+ */
+interface SyncState {
+  /** Token for the next incremental request */
+  syncToken?: string;
+  /** Resume point when the previous call stopped mid-listing */
+  pageToken?: string;
+  singleEvents: boolean;
+  /** When syncToken was issued (local clock, only shown to the caller) */
+  lastSyncAt?: string;
+}
+
+interface EventChange {
+  type: ChangeType;
+  id: string;
+  etag?: string;
+  summary?: string;
+  start?: string;
+  end?: string;
+  status?: string;
+  updated?: string;
+  recurringEventId?: string;
+  htmlLink?: string;
+}
+
+function stateKey(account: string, calendarId: string): string {
+  return `sync:${account}:${calendarId}`;
+}
+
+/**
+ * Google stamps a new event's `updated` a few milliseconds after `created`;
+ * an event never changed since is reported as created.
+ */
+const CREATED_TOLERANCE_MS = 1000;
+
+/**
+ * Both timestamps come from Google, so the local clock never decides whether
+ * an event is new.
+ */
+function classify(event: CalendarEvent, incremental: boolean): ChangeType {
+  if (event.status === 'cancelled') return 'cancelled';
+  if (!incremental) return 'existing';
+  const created = Date.parse(event.created ?? '');
+  const updated = Date.parse(event.updated ?? '');
+  return updated - created < CREATED_TOLERANCE_MS ? 'created' : 'updated';
+}
+
+function toChange(event: CalendarEvent, type: ChangeType): EventChange {
+  return {
+    type,
+    id: event.id,
+    etag: event.etag,
+    summary: event.summary,
+    start: event.start?.dateTime ?? event.start?.date,
+    end: event.end?.dateTime ?? event.end?.date,
+    status: event.status,
+    updated: event.updated,
+    recurringEventId: event.recurringEventId,
+    htmlLink: event.htmlLink,
+  };
+}
+
+const CHANGE_MARKERS: Record<ChangeType, string> = {
+  existing: '-',
+  created: '+',
+  updated: '~',
+  cancelled: '×',
+};
+
+function formatChangeLine(change: EventChange): string {
+  const title =
+    change.summary || (change.type === 'cancelled' ? '(deleted)' : '(no title)');
+  const when = change.start ? ` — ${change.start}` : '';
+  const label = change.type === 'existing' ? '' : ` [${change.type}]`;
+  return `${CHANGE_MARKERS[change.type]} ${title}${when}${label} (id: ${change.id})`;
+}
+
+export const syncEventsTool = defineTool({
+  name: toolsMetadata.sync_events.name,
+  title: toolsMetadata.sync_events.title,
+  description: toolsMetadata.sync_events.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, { signal: context.signal });
+    const store = getStateStore();
+
+    try {
+      // Key state by account email so tokens survive provider token refreshes
+      const account = (await client.getPrimaryCalendar()).id;
+      const calendarId = args.calendarId === 'primary' ? account : args.calendarId;
+      const key = stateKey(account, calendarId);
+
+      let state = await store.get<SyncState>(key);
+      let fullSyncReason: FullSyncReason | undefined;
+
+      if (args.reset) {
+        fullSyncReason = 'reset';
+        state = null;
+      } else if (state && state.singleEvents !== args.singleEvents) {
+        fullSyncReason = 'options_changed';
+        state = null;
+      } else if (!state?.syncToken && !state?.pageToken) {
+        fullSyncReason = 'initial';
+      }
+
+      const collected: CalendarEvent[] = [];
+      let incremental = Boolean(state?.syncToken);
+      let pageToken = state?.pageToken;
+      let nextSyncToken: string | undefined;
+      let pages = 0;
+
+      while (pages < MAX_PAGES_PER_CALL) {
+        try {
+          const page = await client.listEvents({
+            calendarId,
+            singleEvents: args.singleEvents,
+            maxResults: PAGE_SIZE,
+            syncToken: incremental ? state?.syncToken : undefined,
+            pageToken,
+          });
+          pages++;
+          collected.push(...page.items);
+          pageToken = page.nextPageToken;
+          nextSyncToken = page.nextSyncToken;
+          if (!pageToken) break;
+        } catch (error) {
+          // 410 Gone: Google invalidated the token, start over with a full sync
+          if (incremental && error instanceof NotFoundError && error.status === 410) {
+            incremental = false;
+            fullSyncReason = 'token_expired';
+            state = null;
+            pageToken = undefined;
+            collected.length = 0;
+            continue;
+          }
+          throw error;
+        }
+      }
+
+      const complete = !pageToken;
+      if (complete && nextSyncToken) {
+        await store.put<SyncState>(key, {
+          syncToken: nextSyncToken,
+          singleEvents: args.singleEvents,
+          lastSyncAt: new Date().toISOString(),
+        });
+        // Push notifications up to now are covered by this sync
+        await acknowledgeChanges(account, calendarId);
+      } else {
+        // Keep the old token (if any) so the next call resumes the same listing
+        await store.put<SyncState>(key, {
+          syncToken: incremental ? state?.syncToken : undefined,
+          pageToken,
+          singleEvents: args.singleEvents,
+          lastSyncAt: state?.lastSyncAt,
+        });
+      }
+
+      const changes = collected.map((event) =>
+        toChange(event, classify(event, incremental)),
+      );
+      const counts = {
+        existing: changes.filter((c) => c.type === 'existing').length,
+        created: changes.filter((c) => c.type === 'created').length,
+        updated: changes.filter((c) => c.type === 'updated').length,
+        cancelled: changes.filter((c) => c.type === 'cancelled').length,
+      };
+      const listed = changes.slice(0, args.maxResults);
+
+      const lines: string[] = [];
+      if (incremental) {
+        lines.push(
+          changes.length === 0
+            ? `No changes in ${calendarId} since ${state?.lastSyncAt ?? 'the last sync'}.`
+            : `${changes.length} change(s) in ${calendarId} since ${state?.lastSyncAt ?? 'the last sync'}: ${counts.created} created, ${counts.updated} updated, ${counts.cancelled} cancelled.`,
+        );
+      } else {
+        const reason =
+          fullSyncReason === 'token_expired'
+            ? ' (sync token expired, started over)'
+            : fullSyncReason === 'options_changed'
+              ? ' (singleEvents changed, started over)'
+              : '';
+        lines.push(
+          `Full sync of ${calendarId}${reason}: ${changes.length} event(s)${complete ? '' : ' so far'}.`,
+        );
+      }
+
+      if (listed.length > 0) {
+        lines.push('');
+        lines.push(...listed.map(formatChangeLine));
+        if (changes.length > listed.length) {
+          lines.push(`… ${changes.length - listed.length} more (see counts)`);
+        }
+      }
+
+      lines.push(
+        complete
+          ? "\nNext: Call 'sync_events' again later to get only what changed since now."
+          : "\nNext: The calendar is large; call 'sync_events' again to continue the listing.",
+      );
+
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+        structuredContent: {
+          calendarId,
+          syncType: incremental ? 'incremental' : 'full',
+          ...(fullSyncReason && !incremental && { fullSyncReason }),
+          complete,
+          since: incremental ? state?.lastSyncAt : undefined,
+          counts,
+          changes: listed,
+          truncated: changes.length > listed.length,
+        },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'sync events');
+    }
+  },
+});
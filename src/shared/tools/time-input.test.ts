@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import type { CalendarEvent } from '../../services/google-calendar.js';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  // Tuesday 2025-12-30, 11:00 in Berlin
+  setSystemTime(new Date('2025-12-30T10:00:00Z'));
+  mcp = createMcpHarness({ userEmail: 'alice@example.com', timeZone: 'Europe/Berlin' });
+});
+
+afterEach(() => {
+  mcp.restore();
+  setSystemTime();
+});
+
+async function createEvent(args: Record<string, unknown>) {
+  const result = await mcp.callTool('create_event', { summary: 'Sync', ...args });
+  const events = mcp.emulator.state.calendars.get('alice@example.com')?.events;
+  return {
+    result,
+    event: [...(events?.values() ?? [])][0] as CalendarEvent | undefined,
+  };
+}
+
+describe('time inputs', () => {
+  test('expressions are read in the primary calendar time zone', async () => {
+    const { event } = await createEvent({
+      start: 'next tuesday 3pm',
+      end: 'next tuesday 15:30',
+    });
+
+    expect(event?.start?.dateTime).toBe('2026-01-06T15:00:00+01:00');
+    expect(event?.end?.dateTime).toBe('2026-01-06T15:30:00+01:00');
+  });
+
+  test('a timeZone argument takes precedence and DST follows the date', async () => {
+    const { event } = await createEvent({
+      start: 'march 8 2:30am',
+      end: 'march 8 4am',
+      timeZone: 'America/New_York',
+    });
+
+    // 02:30 does not exist that night in New York
+    expect(event?.start).toMatchObject({
+      dateTime: '2026-03-08T03:30:00-04:00',
+      timeZone: 'America/New_York',
+    });
+    expect(event?.end?.dateTime).toBe('2026-03-08T04:00:00-04:00');
+  });
+
+  test('relative durations count from now', async () => {
+    const { event } = await createEvent({ start: 'in 2 hours', end: 'in 3 hours' });
+
+    expect(event?.start?.dateTime).toBe('2025-12-30T13:00:00+01:00');
+  });
+
+  test('dates make all-day events across the year boundary', async () => {
+    const { event } = await createEvent({ start: 'jan 5', end: 'jan 6' });
+
+    expect(event?.start).toEqual({ date: '2026-01-05' });
+    expect(event?.end).toEqual({ date: '2026-01-06' });
+  });
+
+  test('unreadable times, impossible dates and unknown zones are rejected', async () => {
+    for (const args of [
+      { start: 'sometime soon', end: 'later' },
+      { start: '2026-02-30', end: '2026-03-01' },
+      { start: 'feb 29 9am', end: 'feb 29 10am' },
+      { start: 'tomorrow 9am', end: 'tomorrow 10am', timeZone: 'Mars/Olympus' },
+    ]) {
+      const { result, event } = await createEvent(args);
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent?.error).toMatchObject({ code: 'invalid_input' });
+      expect(event).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Time inputs for search_events, check_availability, create_event and update_event.
+ *
+ * Values with an offset are used as given. Everything else (local times,
+ * dates, "next tuesday 3pm") is read in the caller's timeZone or, by default,
+ * the time zone of the user's primary calendar, so DST is applied for the
+ * actual date instead of being guessed by the model.
+ */
+
+import { InvalidInputError } from '../../core/errors.js';
+import type {
+  EventDateTime,
+  GoogleCalendarClient,
+} from '../../services/google-calendar.js';
+import { formatInTimeZone, isValidTimeZone, zonedTimeToUtc } from '../utils/time.js';
+import {
+  isAbsoluteTime,
+  type ResolvedTime,
+  resolveTimeExpression,
+} from '../utils/time-expression.js';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const TIME_EXPRESSION_EXAMPLES =
+  '2025-03-30T09:00:00+02:00, 2025-03-30T09:00 (read in timeZone), 2025-03-30, "tomorrow 3pm", "next tuesday 15:00", "in 2 hours"';
+
+export interface TimeResolver {
+  /** A date (all-day) or an instant */
+  resolve(input: string): Promise<ResolvedTime>;
+  /** An instant as RFC3339; dates mean midnight at the start of that day */
+  instant(input: string): Promise<string>;
+  /** Event start/end: { date } for dates, { dateTime, timeZone } otherwise */
+  eventTime(input: string, timeZone?: string): Promise<EventDateTime>;
+}
+
+/**
+ * Resolver for one tool call. The primary calendar is only read when an input
+ * actually needs a zone, and at most once.
+ *
+ * @param timeZone - IANA zone from the tool input, if any
+ */
+export function createTimeResolver(
+  client: GoogleCalendarClient,
+  timeZone?: string,
+): TimeResolver {
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    throw new InvalidInputError(`Unknown time zone: ${timeZone}`, {
+      hint: 'Use an IANA zone such as Europe/Berlin or America/New_York.',
+    });
+  }
+
+  const now = new Date();
+  let zone: Promise<string> | undefined;
+  const getZone = () => {
+    zone ??= timeZone
+      ? Promise.resolve(timeZone)
+      : client.getPrimaryCalendar().then((calendar) => calendar.timeZone ?? 'UTC');
+    return zone;
+  };
+
+  const resolve = async (input: string): Promise<ResolvedTime> => {
+    const value = input.trim();
+    if (DATE_ONLY.test(value) || isAbsoluteTime(value)) {
+      // Needs no zone; still validated (e.g. 2025-02-30)
+      const resolved = resolveTimeExpression(value, 'UTC', now);
+      if (resolved) return resolved;
+    } else {
+      const resolved = resolveTimeExpression(value, await getZone(), now);
+      if (resolved) return resolved;
+    }
+    throw new InvalidInputError(`Could not read the time "${input}".`, {
+      hint: `Use e.g. ${TIME_EXPRESSION_EXAMPLES}.`,
+    });
+  };
+
+  return {
+    resolve,
+
+    async instant(input) {
+      const resolved = await resolve(input);
+      if ('dateTime' in resolved) return resolved.dateTime;
+
+      const [year, month, day] = resolved.date.split('-').map(Number);
+      const zoneName = await getZone();
+      return formatInTimeZone(zonedTimeToUtc({ year, month, day }, zoneName), zoneName);
+    },
+
+    async eventTime(input, eventTimeZone) {
+      const resolved = await resolve(input);
+      return 'date' in resolved
+        ? { date: resolved.date }
+        : { dateTime: resolved.dateTime, timeZone: eventTimeZone };
+    },
+  };
+}
@@ -6,6 +6,7 @@
  */
 
 import type { ZodObject, ZodRawShape, z } from 'zod';
+import type { ProgressReporter } from '../../utils/progress.js';
 
 /**
  * Auth strategy types.
@@ -26,6 +27,11 @@ export interface ToolContext {
     progressToken?: string | number;
     requestId?: string;
   };
+  /**
+   * Sends notifications/progress for this call. Only set when the client sent
+   * a progressToken and the runtime can stream (Node.js, not Workers).
+   */
+  progress?: ProgressReporter;
 
   // ─────────────────────────────────────────────────────────────────────────
   // Authentication
@@ -72,6 +78,19 @@ export interface ToolContext {
     scopes?: string[];
   };
 
+  /**
+   * Every provider account linked to the signed-in identity (OAuth only),
+   * the default account first. Tools choose one with their `account` input.
+   */
+  accounts?: Array<NonNullable<ToolContext['provider']>>;
+
+  /**
+   * Starts linking another provider account to this identity (OAuth only).
+   * Resolves to the URL the user opens to sign in. Linking an account again
+   * with `scopes` grants it those scopes as well.
+   */
+  linkAccount?: (scopes?: string[]) => Promise<string>;
+
   /**
    * Resolved headers ready for API calls.
    * This includes the appropriate auth header based on strategy:
@@ -132,6 +151,11 @@ export interface SharedToolDefinition<TShape extends ZodRawShape = ZodRawShape>
   inputSchema: ZodObject<TShape>;
   /** Optional Zod schema for structured output */
   outputSchema?: ZodRawShape;
+  /**
+   * OAuth scopes the tool needs (see scopes.ts). Checked against the scopes
+   * granted to the selected account before the handler runs.
+   */
+  requiredScopes?: string[];
   /** Tool handler function */
   handler: (
     args: z.infer<ZodObject<TShape>>,
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { CalendarEvent } from '../../services/google-calendar.js';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+function addEvent(event: Partial<CalendarEvent> = {}) {
+  return mcp.emulator.addEvent('alice@example.com', {
+    summary: 'Original',
+    start: { dateTime: '2025-03-03T09:00:00Z' },
+    end: { dateTime: '2025-03-03T10:00:00Z' },
+    ...event,
+  });
+}
+
+function stored(eventId: string) {
+  return mcp.emulator.state.calendars.get('alice@example.com')?.events.get(eventId);
+}
+
+async function changeIdOf(name: string, args: Record<string, unknown>) {
+  const result = await mcp.callTool(name, args);
+  expect(result.isError).toBeFalsy();
+  return result.structuredContent?.changeId as string;
+}
+
+describe('undo_change', () => {
+  test('reverts an update, and undoing the undo redoes it', async () => {
+    const event = addEvent();
+    const changeId = await changeIdOf('update_event', {
+      eventId: event.id,
+      summary: 'Renamed',
+    });
+
+    const undone = await mcp.callTool('undo_change', {});
+    expect(undone.structuredContent).toMatchObject({ undone: changeId });
+    expect(stored(event.id)?.summary).toBe('Original');
+
+    const again = await mcp.callTool('undo_change', { changeId });
+    expect(again.structuredContent?.error).toMatchObject({ code: 'invalid_input' });
+
+    await mcp.callTool('undo_change', {
+      changeId: undone.structuredContent?.changeId,
+    });
+    expect(stored(event.id)?.summary).toBe('Renamed');
+  });
+
+  test('restores a deleted event and deletes a created one', async () => {
+    const event = addEvent();
+    await changeIdOf('delete_event', { eventId: event.id });
+    await mcp.callTool('undo_change', {});
+    expect(stored(event.id)?.status).toBe('confirmed');
+
+    const created = await mcp.callTool('create_event', {
+      summary: 'New',
+      start: '2025-03-04T09:00:00Z',
+      end: '2025-03-04T10:00:00Z',
+    });
+    await mcp.callTool('undo_change', {});
+    expect(stored(created.structuredContent?.id as string)?.status).toBe('cancelled');
+  });
+
+  test('refuses to discard later edits unless forced', async () => {
+    const event = addEvent();
+    const changeId = await changeIdOf('update_event', {
+      eventId: event.id,
+      summary: 'Renamed',
+    });
+    await changeIdOf('update_event', { eventId: event.id, location: 'Room 1' });
+
+    const refused = await mcp.callTool('undo_change', { changeId });
+    expect(refused.structuredContent?.error).toMatchObject({
+      code: 'conflict',
+      reason: 'changedSinceRecorded',
+    });
+    expect(stored(event.id)?.summary).toBe('Renamed');
+
+    await mcp.callTool('undo_change', { changeId, force: true });
+    expect(stored(event.id)?.summary).toBe('Original');
+  });
+
+  test("rejoins a series split with scope 'following'", async () => {
+    const series = addEvent({ recurrence: ['RRULE:FREQ=DAILY;COUNT=5'] });
+    const split = await mcp.callTool('update_event', {
+      eventId: `${series.id}_20250305T090000Z`,
+      scope: 'following',
+      summary: 'Renamed',
+    });
+    expect(stored(series.id)?.recurrence?.[0]).toContain('UNTIL=');
+
+    await mcp.callTool('undo_change', {});
+
+    expect(stored(series.id)?.recurrence).toEqual(['RRULE:FREQ=DAILY;COUNT=5']);
+    expect(stored(split.structuredContent?.id as string)?.status).toBe('cancelled');
+  });
+});
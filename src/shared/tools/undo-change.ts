@@ -0,0 +1,157 @@
+/**
+ * Undo Change tool - revert a journaled event write.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  NotFoundError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { publishEventChange } from '../resources/subscriptions.js';
+import { AccountSchema } from './accounts.js';
+import {
+  changeKind,
+  getChange,
+  listChanges,
+  recordChange,
+  undoChange,
+} from './change-journal.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  changeId: z
+    .string()
+    .optional()
+    .describe(
+      "Change to revert, from 'list_recent_changes' (default: the latest one not yet undone)",
+    ),
+  force: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      'Undo even if the event was edited after the change (discards those edits)',
+    ),
+  sendUpdates: z
+    .enum(['all', 'externalOnly', 'none'])
+    .optional()
+    .default('none')
+    .describe('Notify attendees about the restored state'),
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+const UNDO_LABELS = {
+  created: 'deleted again',
+  deleted: 'restored',
+  moved: 'moved back',
+  updated: 'reverted',
+} as const;
+
+export const undoChangeTool = defineTool({
+  name: toolsMetadata.undo_change.name,
+  title: toolsMetadata.undo_change.title,
+  description: toolsMetadata.undo_change.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.events, CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+
+    try {
+      const account = (await client.getPrimaryCalendar()).id;
+      const record = args.changeId
+        ? await getChange(account, args.changeId)
+        : (await listChanges(account, 50)).find((r) => !r.undoneBy);
+
+      if (!record) {
+        throw new NotFoundError(
+          args.changeId ? `Change not found: ${args.changeId}` : 'No change to undo.',
+          {
+            hint: "Use 'list_recent_changes' to see recorded changes; they are kept for 7 days.",
+          },
+        );
+      }
+      if (record.undoneBy) {
+        return toolErrorResult(
+          new InvalidInputError(`Change ${record.id} was already undone.`, {
+            hint: `Undo change ${record.undoneBy} to redo it.`,
+          }),
+        );
+      }
+
+      const inverse = await undoChange(client, record, {
+        force: args.force,
+        sendUpdates: args.sendUpdates,
+      });
+
+      if (args.dryRun) {
+        return dryRunResult(client, {
+          tool: 'undo_change',
+          summary: `Would undo ${record.tool}: ${record.description}.`,
+          target: record,
+        });
+      }
+
+      const changeId = await recordChange(client, {
+        tool: 'undo_change',
+        description: `Undo of ${record.tool}: ${record.description}`,
+        changes: inverse,
+        undoOf: record.id,
+      });
+
+      const lines = [`✓ Undid ${record.tool}: ${record.description}`];
+      for (const change of record.changes) {
+        const snapshot = change.before ?? change.after;
+        if (!snapshot) continue;
+        lines.push(
+          `  ${UNDO_LABELS[changeKind(change)]}: ${snapshot.event.summary || '(no title)'} (${snapshot.event.id})`,
+        );
+      }
+      if (changeId) lines.push(`  changeId: ${changeId} (undo it to redo the change)`);
+
+      // Restored copies of deleted events get a new ID, so publish what the undo wrote
+      for (const change of inverse) {
+        const snapshot = change.after ?? change.before;
+        if (snapshot) {
+          await publishEventChange(client, snapshot.calendarId, snapshot.event.id);
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${lines.join('\n')}\n\nNext: Use 'search_events' to verify.`,
+          },
+        ],
+        structuredContent: {
+          undone: record.id,
+          ...(changeId && { changeId }),
+          events: inverse.map((change) => change.after?.event ?? change.before?.event),
+        },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'undo change');
+    }
+  },
+});
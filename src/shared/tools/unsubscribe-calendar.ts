@@ -0,0 +1,90 @@
+/**
+ * Unsubscribe Calendar tool - remove a calendar from the user's list.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { publishCalendarListChange } from '../resources/subscriptions.js';
+import { AccountSchema } from './accounts.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  calendarId: z.string().min(1).describe("Calendar ID from 'list_calendars'"),
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+export const unsubscribeCalendarTool = defineTool({
+  name: toolsMetadata.unsubscribe_calendar.name,
+  title: toolsMetadata.unsubscribe_calendar.title,
+  description: toolsMetadata.unsubscribe_calendar.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.calendarList],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+
+    try {
+      const entry = await client.getCalendarListEntry(args.calendarId);
+      if (entry.primary) {
+        return toolErrorResult(
+          new InvalidInputError('You cannot unsubscribe from your primary calendar.'),
+        );
+      }
+
+      await client.deleteCalendarListEntry(entry.id);
+
+      if (args.dryRun) {
+        return dryRunResult(client, {
+          tool: 'unsubscribe_calendar',
+          summary: `Would remove "${entry.summary}" from your calendar list; the calendar itself stays.`,
+          target: entry,
+        });
+      }
+
+      await publishCalendarListChange(client, entry.id);
+
+      const note =
+        entry.accessRole === 'owner'
+          ? "You still own it; use 'subscribe_calendar' to add it back or 'delete_calendar' to delete it."
+          : "Use 'subscribe_calendar' to add it back.";
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✓ Removed from your calendar list: ${entry.summary}\n  id: ${entry.id}\n  The calendar and its events were not deleted. ${note}`,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          calendarId: entry.id,
+          summary: entry.summary,
+        },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'unsubscribe from calendar');
+    }
+  },
+});
@@ -0,0 +1,150 @@
+/**
+ * Update Calendar tool - change calendar metadata and the user's list settings.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  ForbiddenError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import {
+  type Calendar,
+  type CalendarListItem,
+  type CalendarParams,
+  GoogleCalendarClient,
+} from '../../services/google-calendar.js';
+import { publishCalendarListChange } from '../resources/subscriptions.js';
+import { isValidTimeZone } from '../utils/time.js';
+import { AccountSchema } from './accounts.js';
+import {
+  CalendarListSettingsShape,
+  formatCalendar,
+  pickListSettings,
+} from './calendar-settings.js';
+import { DryRunSchema, diffFields, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  calendarId: z.string().min(1).describe("Calendar ID from 'list_calendars'"),
+
+  // Calendar metadata (owner only)
+  summary: z.string().min(1).optional().describe('New calendar name'),
+  description: z.string().optional().describe('New description'),
+  location: z.string().optional().describe('New location'),
+  timeZone: z.string().optional().describe('New IANA time zone'),
+
+  // The user's own list settings
+  ...CalendarListSettingsShape,
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+export const updateCalendarTool = defineTool({
+  name: toolsMetadata.update_calendar.name,
+  title: toolsMetadata.update_calendar.title,
+  description: toolsMetadata.update_calendar.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.calendars, CalendarScopes.calendarList],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    if (args.timeZone && !isValidTimeZone(args.timeZone)) {
+      return toolErrorResult(
+        new InvalidInputError(`Unknown time zone: ${args.timeZone}`, {
+          hint: 'Use an IANA time zone name such as "America/New_York".',
+        }),
+      );
+    }
+
+    const metadata: CalendarParams = {};
+    if (args.summary !== undefined) metadata.summary = args.summary;
+    if (args.description !== undefined) metadata.description = args.description;
+    if (args.location !== undefined) metadata.location = args.location;
+    if (args.timeZone !== undefined) metadata.timeZone = args.timeZone;
+
+    const settings = pickListSettings(args);
+    if (Object.keys(metadata).length === 0 && !settings) {
+      return toolErrorResult(
+        new InvalidInputError(
+          'No changes specified. Provide at least one field to update.',
+          { hint: 'Pass summary, description, location, timeZone or a list setting.' },
+        ),
+      );
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+
+    try {
+      let calendar: Calendar | undefined;
+      let entry: CalendarListItem;
+
+      if (Object.keys(metadata).length > 0) {
+        calendar = await client.updateCalendar(args.calendarId, metadata);
+      }
+      if (settings) {
+        entry = await client.updateCalendarListEntry(args.calendarId, settings);
+      } else {
+        entry = await client.getCalendarListEntry(args.calendarId);
+      }
+
+      if (args.dryRun) {
+        const current = await client.getCalendarListEntry(args.calendarId);
+        return dryRunResult(client, {
+          tool: 'update_calendar',
+          summary: `Would update calendar "${current.summaryOverride || current.summary}".`,
+          target: current,
+          changes: diffFields(current, { ...metadata, ...settings }),
+        });
+      }
+
+      await publishCalendarListChange(client, args.calendarId);
+
+      const summary: Calendar = calendar ?? {
+        id: entry.id,
+        summary: entry.summary,
+        description: entry.description,
+        location: entry.location,
+        timeZone: entry.timeZone,
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${formatCalendar('updated', summary, entry)}\n\nNext: Use 'list_calendars' to review all calendars.`,
+          },
+        ],
+        structuredContent: { ...summary, listEntry: entry },
+      };
+    } catch (error) {
+      if (error instanceof ForbiddenError && Object.keys(metadata).length > 0) {
+        return toolErrorResult(
+          new ForbiddenError(error.message, {
+            hint: 'Only owners can change summary, description, location or timeZone. Use summaryOverride to rename the calendar just for yourself.',
+            status: error.status,
+            reason: error.reason,
+          }),
+          'update calendar',
+        );
+      }
+      return toolErrorResult(error, 'update calendar');
+    }
+  },
+});
@@ -0,0 +1,277 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { CalendarEvent } from '../../services/google-calendar.js';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+
+let mcp: McpHarness;
+
+beforeEach(() => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com', timeZone: 'Europe/Warsaw' });
+});
+
+afterEach(() => {
+  mcp.restore();
+});
+
+/** Weekly on Thursdays from 2025-03-13; Poland moves to summer time on 2025-03-30 */
+function addWeekly(start: CalendarEvent['start'], end: CalendarEvent['end']) {
+  return mcp.emulator.addEvent('alice@example.com', {
+    summary: 'Weekly',
+    start,
+    end,
+    recurrence: ['RRULE:FREQ=WEEKLY;COUNT=6'],
+  });
+}
+
+async function instances(seriesId: string) {
+  const result = await mcp.callTool('list_instances', { eventId: seriesId });
+  return result.structuredContent?.items as CalendarEvent[];
+}
+
+describe("update_event scope: 'following'", () => {
+  test('ends the series before the occurrence and starts a new one there', async () => {
+    const series = addWeekly(
+      { dateTime: '2025-03-13T09:00:00+01:00', timeZone: 'Europe/Warsaw' },
+      { dateTime: '2025-03-13T09:30:00+01:00', timeZone: 'Europe/Warsaw' },
+    );
+    const third = (await instances(series.id))[2];
+
+    const result = await mcp.callTool('update_event', {
+      eventId: third.id,
+      scope: 'following',
+      start: '2025-03-27T10:00:00+01:00',
+      end: '2025-03-27T10:45:00+01:00',
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      previousSeriesId: series.id,
+      recurrence: ['RRULE:FREQ=WEEKLY;COUNT=4'],
+      start: { dateTime: '2025-03-27T10:00:00+01:00', timeZone: 'Europe/Warsaw' },
+      end: { dateTime: '2025-03-27T10:45:00+01:00', timeZone: 'Europe/Warsaw' },
+    });
+    expect((await instances(series.id)).map((i) => i.start?.dateTime)).toEqual([
+      '2025-03-13T09:00:00+01:00',
+      '2025-03-20T09:00:00+01:00',
+    ]);
+
+    // After the DST change the new series stays at 10:00 local time
+    const moved = await instances(result.structuredContent?.id as string);
+    expect(moved.map((i) => i.start?.dateTime)).toEqual([
+      '2025-03-27T10:00:00+01:00',
+      '2025-04-03T10:00:00+02:00',
+      '2025-04-10T10:00:00+02:00',
+      '2025-04-17T10:00:00+02:00',
+    ]);
+  });
+
+  test('gives the new series the calendar time zone when the original had none', async () => {
+    const series = addWeekly(
+      { dateTime: '2025-03-13T08:00:00Z' },
+      { dateTime: '2025-03-13T09:00:00Z' },
+    );
+    const third = (await instances(series.id))[2];
+
+    const result = await mcp.callTool('update_event', {
+      eventId: third.id,
+      scope: 'following',
+      summary: 'Weekly (new room)',
+    });
+
+    expect(result.isError).toBeFalsy();
+    // Both ends are in the series time zone, the end keeps the duration
+    expect(result.structuredContent).toMatchObject({
+      summary: 'Weekly (new room)',
+      start: { dateTime: '2025-03-27T09:00:00+01:00', timeZone: 'Europe/Warsaw' },
+      end: { dateTime: '2025-03-27T10:00:00+01:00', timeZone: 'Europe/Warsaw' },
+    });
+  });
+
+  test('the new series keeps every field of the old one', async () => {
+    const series = mcp.emulator.addEvent('alice@example.com', {
+      summary: 'Weekly',
+      start: { dateTime: '2025-03-13T09:00:00+01:00', timeZone: 'Europe/Warsaw' },
+      end: { dateTime: '2025-03-13T09:30:00+01:00', timeZone: 'Europe/Warsaw' },
+      recurrence: ['RRULE:FREQ=WEEKLY;COUNT=6'],
+      transparency: 'transparent',
+      extendedProperties: { private: { project: 'apollo' } },
+      attachments: [
+        { fileUrl: 'https://drive.google.com/file/d/agenda', title: 'Agenda' },
+      ],
+      guestsCanModify: true,
+      guestsCanInviteOthers: false,
+      guestsCanSeeOtherGuests: false,
+    });
+    const third = (await instances(series.id))[2];
+
+    const result = await mcp.callTool('update_event', {
+      eventId: third.id,
+      scope: 'following',
+      summary: 'Weekly (renamed)',
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      summary: 'Weekly (renamed)',
+      transparency: 'transparent',
+      extendedProperties: { private: { project: 'apollo' } },
+      attachments: [
+        { fileUrl: 'https://drive.google.com/file/d/agenda', title: 'Agenda' },
+      ],
+      guestsCanModify: true,
+      guestsCanInviteOthers: false,
+      guestsCanSeeOtherGuests: false,
+    });
+    expect(result.structuredContent?.id).not.toBe(series.id);
+  });
+
+  test('does not overwrite a series edited since it was read', async () => {
+    const series = addWeekly(
+      { dateTime: '2025-03-13T09:00:00+01:00', timeZone: 'Europe/Warsaw' },
+      { dateTime: '2025-03-13T09:30:00+01:00', timeZone: 'Europe/Warsaw' },
+    );
+    const third = (await instances(series.id))[2];
+    const stored = mcp.emulator.state.calendars
+      .get('alice@example.com')
+      ?.events.get(series.id) as CalendarEvent;
+
+    // Someone else edits the series between our read and the split
+    const emulatorFetch = globalThis.fetch;
+    globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+      if (init?.method === 'PATCH' && String(input).includes(series.id)) {
+        stored.etag = '"edited-elsewhere"';
+      }
+      return emulatorFetch(input, init);
+    }) as typeof fetch;
+
+    const result = await mcp.callTool('update_event', {
+      eventId: third.id,
+      scope: 'following',
+      summary: 'Weekly (new room)',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'conflict',
+      details: { current: expect.objectContaining({ etag: '"edited-elsewhere"' }) },
+    });
+    expect(stored.recurrence).toEqual(['RRULE:FREQ=WEEKLY;COUNT=6']);
+    expect(
+      [
+        ...(mcp.emulator.state.calendars.get('alice@example.com')?.events.values() ??
+          []),
+      ].filter((event) => event.recurrence),
+    ).toHaveLength(1);
+  });
+
+  test('rejects the series ID, which names no occurrence', async () => {
+    const series = addWeekly(
+      { dateTime: '2025-03-13T09:00:00+01:00', timeZone: 'Europe/Warsaw' },
+      { dateTime: '2025-03-13T09:30:00+01:00', timeZone: 'Europe/Warsaw' },
+    );
+
+    const result = await mcp.callTool('update_event', {
+      eventId: series.id,
+      scope: 'following',
+      summary: 'x',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.error).toMatchObject({ code: 'invalid_input' });
+  });
+});
+
+describe('update_event ifMatch', () => {
+  function addReview() {
+    return mcp.emulator.addEvent('alice@example.com', {
+      summary: 'Review',
+      start: { dateTime: '2025-03-04T09:00:00Z' },
+      end: { dateTime: '2025-03-04T10:00:00Z' },
+    });
+  }
+
+  function stored(eventId: string) {
+    return mcp.emulator.state.calendars
+      .get('alice@example.com')
+      ?.events.get(eventId) as CalendarEvent;
+  }
+
+  test('sends the etag read with get_event as If-Match', async () => {
+    const event = addReview();
+    const read = await mcp.callTool('get_event', { eventId: event.id });
+    const etag = read.structuredContent?.etag as string;
+    const ifMatch: Array<string | null> = [];
+    const emulatorFetch = globalThis.fetch;
+    globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+      if (init?.method === 'PATCH')
+        ifMatch.push(new Headers(init.headers).get('If-Match'));
+      return emulatorFetch(input, init);
+    }) as typeof fetch;
+
+    const result = await mcp.callTool('update_event', {
+      eventId: event.id,
+      summary: 'Design review',
+      ifMatch: etag,
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(etag).toBe(event.etag as string);
+    expect(ifMatch).toEqual([etag]);
+    expect(stored(event.id).summary).toBe('Design review');
+  });
+
+  test('a stale etag writes nothing and returns the current version', async () => {
+    const event = addReview();
+    await mcp.callTool('update_event', { eventId: event.id, location: 'Room 1' });
+
+    const result = await mcp.callTool('update_event', {
+      eventId: event.id,
+      summary: 'Design review',
+      ifMatch: event.etag,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'conflict',
+      status: 412,
+      reason: 'conditionNotMet',
+      details: {
+        current: expect.objectContaining({
+          location: 'Room 1',
+          etag: stored(event.id).etag,
+        }),
+      },
+    });
+    expect(stored(event.id).summary).toBe('Review');
+  });
+
+  test('an edit that lands between the check and the write is answered with 412', async () => {
+    const event = addReview();
+    const emulatorFetch = globalThis.fetch;
+    globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+      if (init?.method === 'PATCH') {
+        Object.assign(stored(event.id), {
+          summary: 'Edited',
+          etag: '"edited-elsewhere"',
+        });
+      }
+      return emulatorFetch(input, init);
+    }) as typeof fetch;
+
+    const result = await mcp.callTool('update_event', {
+      eventId: event.id,
+      location: 'Room 1',
+      ifMatch: event.etag,
+    });
+
+    expect(result.structuredContent?.error).toMatchObject({
+      code: 'conflict',
+      details: {
+        current: expect.objectContaining({
+          summary: 'Edited',
+          etag: '"edited-elsewhere"',
+        }),
+      },
+    });
+    expect(stored(event.id).location).toBeUndefined();
+  });
+});
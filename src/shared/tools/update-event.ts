@@ -4,10 +4,40 @@
 
 import { z } from 'zod';
 import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
 import {
   type CalendarEvent,
+  type EventDateTime,
+  eventChangedError,
   GoogleCalendarClient,
 } from '../../services/google-calendar.js';
+import { publishEventChange } from '../resources/subscriptions.js';
+import { formatInTimeZone } from '../utils/time.js';
+import { AccountSchema } from './accounts.js';
+import { AttendeeEditShape, hasAttendeeEdits, mergeAttendees } from './attendees.js';
+import { recordChange } from './change-journal.js';
+import {
+  CheckAttendeesSchema,
+  type ConflictCheck,
+  ConflictPolicySchema,
+  conflictError,
+  findConflicts,
+  formatConflicts,
+} from './conflicts.js';
+import { DryRunSchema, diffFields, dryRunResult } from './dry-run.js';
+import {
+  copyOfSeries,
+  isFirstOccurrence,
+  RecurrenceScopeSchema,
+  resolveScopedEvent,
+  truncateSeries,
+} from './recurrence-scope.js';
+import { CalendarScopes } from './scopes.js';
+import { createTimeResolver, TIME_EXPRESSION_EXAMPLES } from './time-input.js';
 import { defineTool, type ToolResult } from './types.js';
 
 const ReminderOverrideSchema = z.object({
@@ -24,17 +54,23 @@ const InputSchema = z.object({
   eventId: z.string().describe('Event ID to update'),
   calendarId: z.string().optional().describe('Calendar ID (defaults to "primary")'),
   targetCalendarId: z.string().optional().describe('Move event to this calendar'),
+  scope: RecurrenceScopeSchema,
 
   // Fields to update
   summary: z.string().optional().describe('New event title'),
-  start: z.string().optional().describe('New start time (ISO 8601)'),
-  end: z.string().optional().describe('New end time (ISO 8601)'),
+  start: z
+    .string()
+    .optional()
+    .describe(
+      `New start time, or a date (YYYY-MM-DD) for all-day. Local times and expressions are read in timeZone (e.g. ${TIME_EXPRESSION_EXAMPLES})`,
+    ),
+  end: z
+    .string()
+    .optional()
+    .describe('New end time or date, in the same forms as start'),
   description: z.string().optional().describe('New description'),
   location: z.string().optional().describe('New location'),
-  attendees: z
-    .array(z.string().email())
-    .optional()
-    .describe('New attendee list (replaces existing)'),
+  ...AttendeeEditShape,
   addGoogleMeet: z.boolean().optional().describe('Add Google Meet link'),
   recurrence: z.array(z.string()).optional().describe('New RRULE array'),
   reminders: RemindersSchema.optional().describe('New reminder settings'),
@@ -43,20 +79,70 @@ const InputSchema = z.object({
 
   // Options
   sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional().default('none'),
-  timeZone: z.string().optional().describe('Time zone for datetime values'),
+  timeZone: z
+    .string()
+    .optional()
+    .describe(
+      "IANA time zone for start/end and for times without an offset (default for reading them: the primary calendar's zone)",
+    ),
+  ifMatch: z
+    .string()
+    .optional()
+    .describe(
+      "etag of the event as you read it ('get_event'/'search_events'); the update fails with the current version if it changed since",
+    ),
+  conflictPolicy: ConflictPolicySchema,
+  checkAttendees: CheckAttendeesSchema,
+  dryRun: DryRunSchema,
+  account: AccountSchema,
 });
 
-function isAllDayDate(str: string): boolean {
-  return /^\d{4}-\d{2}-\d{2}$/.test(str);
+/**
+ * A series start or end in the series' zone. Recurring events need an
+ * explicit timeZone, or their local times shift across DST changes.
+ */
+function inSeriesZone(time: EventDateTime, timeZone: string): EventDateTime {
+  return time.date
+    ? { date: time.date }
+    : {
+        dateTime: formatInTimeZone(new Date(time.dateTime ?? ''), timeZone),
+        timeZone,
+      };
 }
 
-function formatUpdatedEvent(event: CalendarEvent, wasMoved: boolean): string {
+/**
+ * End of an occurrence starting at `start`, keeping the series' duration.
+ */
+function endForSeries(
+  start: EventDateTime,
+  series: CalendarEvent,
+  timeZone: string,
+): EventDateTime {
+  const toMs = (time?: EventDateTime) =>
+    Date.parse(time?.dateTime ?? `${time?.date}T00:00:00Z`);
+  const duration = toMs(series.end) - toMs(series.start);
+  const end = new Date(toMs(start) + duration);
+
+  return start.date
+    ? { date: end.toISOString().slice(0, 10) }
+    : { dateTime: formatInTimeZone(end, timeZone), timeZone };
+}
+
+function formatUpdatedEvent(
+  event: CalendarEvent,
+  wasMoved: boolean,
+  split?: { seriesId: string; splitAt: string },
+): string {
   const lines: string[] = [];
 
   const title = event.summary || '(no title)';
   const start = event.start?.dateTime || event.start?.date || 'no date';
 
-  const action = wasMoved ? 'moved and updated' : 'updated';
+  const action = split
+    ? 'updated for this and following occurrences'
+    : wasMoved
+      ? 'moved and updated'
+      : 'updated';
 
   if (event.htmlLink) {
     lines.push(`✓ Event ${action}: [${title}](${event.htmlLink})`);
@@ -75,6 +161,19 @@ function formatUpdatedEvent(event: CalendarEvent, wasMoved: boolean): string {
     lines.push(`  meet: ${event.hangoutLink}`);
   }
 
+  if (event.attendees && event.attendees.length > 0) {
+    const attendeeList = event.attendees
+      .map((a) => (a.optional ? `${a.email} (optional)` : a.email))
+      .join(', ');
+    lines.push(`  attendees: ${attendeeList}`);
+  }
+
+  if (split) {
+    lines.push(
+      `  previous series: ${split.seriesId} (now ends before ${split.splitAt})`,
+    );
+  }
+
   return lines.join('\n');
 }
 
@@ -83,6 +182,7 @@ export const updateEventTool = defineTool({
   title: toolsMetadata.update_event.title,
   description: toolsMetadata.update_event.description,
   inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.events, CalendarScopes.readonly],
   annotations: {
     readOnlyHint: false,
     destructiveHint: false,
@@ -92,96 +192,313 @@ export const updateEventTool = defineTool({
     const token = context.providerToken;
 
     if (!token) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: 'Authentication required. Please authenticate with Google Calendar.',
-          },
-        ],
-      };
+      return toolErrorResult(new AuthRequiredError());
     }
 
-    const client = new GoogleCalendarClient(token);
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
     const calendarId = args.calendarId || 'primary';
 
     try {
       let result: CalendarEvent;
       let wasMoved = false;
+      let eventId = args.eventId;
 
-      // Step 1: Move if targetCalendarId is different
-      if (args.targetCalendarId && args.targetCalendarId !== calendarId) {
-        result = await client.moveEvent({
-          calendarId,
-          eventId: args.eventId,
-          destinationCalendarId: args.targetCalendarId,
-          sendUpdates: args.sendUpdates,
-        });
-        wasMoved = true;
-      }
-
-      // Step 2: Patch if any fields to update
       const hasFieldsToUpdate =
         args.summary !== undefined ||
         args.start !== undefined ||
         args.end !== undefined ||
         args.description !== undefined ||
         args.location !== undefined ||
-        args.attendees !== undefined ||
+        hasAttendeeEdits(args) ||
         args.addGoogleMeet !== undefined ||
         args.recurrence !== undefined ||
         args.reminders !== undefined ||
         args.visibility !== undefined ||
         args.colorId !== undefined;
 
-      if (hasFieldsToUpdate) {
-        // Build start/end objects if provided
-        let startObj;
-        let endObj;
+      // Build start/end objects if provided
+      const times = createTimeResolver(client, args.timeZone);
+      const startObj = args.start
+        ? await times.eventTime(args.start, args.timeZone)
+        : undefined;
+      const endObj = args.end
+        ? await times.eventTime(args.end, args.timeZone)
+        : undefined;
+
+      // Optimistic concurrency: nothing is written if the event changed since
+      // the caller read it (the write itself also sends If-Match)
+      if (args.ifMatch) {
+        const current = await client.getEvent(calendarId, args.eventId);
+        if (current.etag !== args.ifMatch) {
+          throw eventChangedError(current, args.ifMatch);
+        }
+      }
 
-        if (args.start) {
-          startObj = isAllDayDate(args.start)
-            ? { date: args.start }
-            : { dateTime: args.start, timeZone: args.timeZone };
+      // Double-booking guard: check the new time before writing anything
+      let conflicts: ConflictCheck | undefined;
+      const timeChanged = args.start !== undefined || args.end !== undefined;
+      const attendeesChanged =
+        args.checkAttendees &&
+        (args.attendees !== undefined || args.addAttendees !== undefined);
+      if (args.conflictPolicy !== 'ignore' && (timeChanged || attendeesChanged)) {
+        const current = await client.getEvent(calendarId, args.eventId);
+        const wholeSeries = args.scope === 'series' || args.scope === 'following';
+        conflicts = await findConflicts(client, {
+          calendarId: args.targetCalendarId ?? calendarId,
+          start: startObj ?? current.start ?? {},
+          end: endObj ?? current.end ?? {},
+          attendees: args.checkAttendees
+            ? mergeAttendees(current.attendees, args).map((a) => a.email)
+            : undefined,
+          exclude: {
+            eventId: wholeSeries
+              ? (current.recurringEventId ?? current.id)
+              : current.id,
+            start: current.start,
+            end: current.end,
+          },
+        });
+        if (args.conflictPolicy === 'reject' && conflicts.conflicts.length > 0) {
+          return toolErrorResult(conflictError(conflicts), 'update event');
         }
+      }
 
-        if (args.end) {
-          endObj = isAllDayDate(args.end)
-            ? { date: args.end }
-            : { dateTime: args.end, timeZone: args.timeZone };
+      // Resolve the recurrence scope to the event that gets patched
+      if (args.scope) {
+        const scoped = await resolveScopedEvent(
+          client,
+          calendarId,
+          args.eventId,
+          args.scope,
+        );
+        const { event, series } = scoped;
+
+        if (args.scope === 'following' && series && !isFirstOccurrence(event, series)) {
+          if (args.targetCalendarId && args.targetCalendarId !== calendarId) {
+            return toolErrorResult(
+              new InvalidInputError(
+                'Part of a series cannot be moved to another calendar.',
+                {
+                  hint: "Use scope 'series' to move every occurrence.",
+                },
+              ),
+            );
+          }
+          if (!hasFieldsToUpdate) {
+            return toolErrorResult(
+              new InvalidInputError(
+                'No changes specified. Provide at least one field to update.',
+              ),
+            );
+          }
+          if (args.start && !args.end) {
+            return toolErrorResult(
+              new InvalidInputError(
+                "Provide both start and end when rescheduling with scope 'following'.",
+              ),
+            );
+          }
+
+          // Before the split, so an invalid edit changes nothing
+          const attendees = mergeAttendees(series.attendees, args);
+          const timeZone =
+            args.timeZone ??
+            series.start?.timeZone ??
+            (await client.getCalendarListEntry(calendarId)).timeZone ??
+            'UTC';
+
+          // Split: end the old series before this occurrence, start a new one here
+          const {
+            series: truncated,
+            remaining,
+            splitAt,
+          } = await truncateSeries(client, calendarId, series, event, args.sendUpdates);
+          const start = inSeriesZone(
+            startObj ?? event.originalStartTime ?? {},
+            timeZone,
+          );
+
+          // The new series keeps every field of the old one; changes apply on top
+          result = await client.insertEvent(
+            calendarId,
+            {
+              ...copyOfSeries(series),
+              summary: args.summary ?? series.summary,
+              description: args.description ?? series.description,
+              start,
+              end: endObj
+                ? inSeriesZone(endObj, timeZone)
+                : endForSeries(start, series, timeZone),
+              location: args.location ?? series.location,
+              attendees,
+              recurrence: args.recurrence ?? remaining,
+              reminders: args.reminders ?? series.reminders,
+              visibility: args.visibility ?? series.visibility,
+              colorId: args.colorId ?? series.colorId,
+              ...(args.addGoogleMeet === false && { conferenceData: undefined }),
+            },
+            {
+              sendUpdates: args.sendUpdates,
+              addGoogleMeet: args.addGoogleMeet ?? Boolean(series.hangoutLink),
+            },
+          );
+
+          if (args.dryRun) {
+            return dryRunResult(client, {
+              tool: 'update_event',
+              summary: `Would end series "${series.summary}" before ${splitAt} and start a new series there with your changes.`,
+              target: series,
+              changes: diffFields(series, truncated),
+              notes: formatConflicts(conflicts),
+              details: conflicts && { conflicts: conflicts.conflicts },
+            });
+          }
+
+          await publishEventChange(client, calendarId, series.id);
+          await publishEventChange(client, calendarId, result.id);
+          const changeId = await recordChange(client, {
+            tool: 'update_event',
+            description: `Split "${series.summary ?? '(no title)'}" at ${splitAt}`,
+            changes: [
+              {
+                before: { calendarId, event: series },
+                after: { calendarId, event: truncated },
+              },
+              { after: { calendarId, event: result } },
+            ],
+          });
+
+          const text = [
+            formatUpdatedEvent(result, false, { seriesId: series.id, splitAt }),
+            ...(changeId ? [`  changeId: ${changeId}`] : []),
+            ...formatConflicts(conflicts),
+          ].join('\n');
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${text}\n\nNext: Use 'list_instances' with eventId '${result.id}' to verify the new series.`,
+              },
+            ],
+            structuredContent: {
+              ...result,
+              scope: args.scope,
+              previousSeriesId: series.id,
+              ...(conflicts && { conflicts: conflicts.conflicts }),
+              ...(changeId && { changeId }),
+            },
+          };
         }
 
-        result = await client.updateEvent({
-          calendarId: wasMoved ? args.targetCalendarId : calendarId,
-          eventId: args.eventId,
-          summary: args.summary,
-          description: args.description,
-          start: startObj,
-          end: endObj,
-          location: args.location,
-          attendees: args.attendees,
-          addGoogleMeet: args.addGoogleMeet,
-          recurrence: args.recurrence,
-          reminders: args.reminders,
-          visibility: args.visibility,
-          colorId: args.colorId,
+        // 'following' from the first occurrence covers the whole series
+        eventId = series?.id ?? event.id;
+      }
+
+      // Snapshot for the preview and the undo journal
+      const before = await client.getEvent(calendarId, eventId);
+      // The caller's etag belongs to eventId as given, not to a resolved series.
+      // A merged attendee list is based on `before`, so it is always guarded:
+      // a response that arrives in between must not be overwritten.
+      const attendees = hasAttendeeEdits(args)
+        ? mergeAttendees(before.attendees, args)
+        : undefined;
+      let ifMatch =
+        (eventId === args.eventId ? args.ifMatch : undefined) ??
+        (attendees ? before.etag : undefined);
+
+      // Step 1: Move if targetCalendarId is different
+      let moved: CalendarEvent | undefined;
+      if (args.targetCalendarId && args.targetCalendarId !== calendarId) {
+        moved = await client.moveEvent({
+          calendarId,
+          eventId,
+          destinationCalendarId: args.targetCalendarId,
           sendUpdates: args.sendUpdates,
+          ifMatch,
         });
-      } else if (!wasMoved) {
+        wasMoved = true;
+        // The move was the guarded write and changed the etag
+        ifMatch = attendees ? moved.etag : undefined;
+      }
+
+      // Step 2: Patch if any fields to update
+      const updated = hasFieldsToUpdate
+        ? await client.updateEvent({
+            calendarId: wasMoved ? args.targetCalendarId : calendarId,
+            eventId,
+            summary: args.summary,
+            description: args.description,
+            start: startObj,
+            end: endObj,
+            location: args.location,
+            attendees,
+            addGoogleMeet: args.addGoogleMeet,
+            recurrence: args.recurrence,
+            reminders: args.reminders,
+            visibility: args.visibility,
+            colorId: args.colorId,
+            sendUpdates: args.sendUpdates,
+            ifMatch,
+          })
+        : moved;
+      if (!updated) {
         // Nothing to do
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: 'No changes specified. Provide at least one field to update or a targetCalendarId to move.',
-            },
-          ],
-        };
+        return toolErrorResult(
+          new InvalidInputError(
+            'No changes specified. Provide at least one field to update or a targetCalendarId to move.',
+          ),
+        );
       }
 
-      const text = formatUpdatedEvent(result!, wasMoved);
+      if (args.dryRun) {
+        // The PATCH, when there is one, is the last planned request
+        const changes = hasFieldsToUpdate
+          ? diffFields(before, client.plannedRequests.at(-1)?.body)
+          : [];
+        if (wasMoved) {
+          changes.unshift({
+            field: 'calendar',
+            from: calendarId,
+            to: args.targetCalendarId,
+          });
+        }
+        return dryRunResult(client, {
+          tool: 'update_event',
+          summary: `Would ${wasMoved ? 'move' : 'update'} "${before.summary ?? '(no title)'}" (id: ${eventId}).`,
+          target: before,
+          changes,
+          notes: formatConflicts(conflicts),
+          details: conflicts && { conflicts: conflicts.conflicts },
+        });
+      }
+
+      const updatedCalendarId =
+        wasMoved && args.targetCalendarId ? args.targetCalendarId : calendarId;
+
+      await publishEventChange(client, calendarId, eventId);
+      if (updatedCalendarId !== calendarId) {
+        await publishEventChange(client, updatedCalendarId, eventId);
+      }
+      const changeId = await recordChange(client, {
+        tool: 'update_event',
+        description: `${wasMoved ? 'Moved' : 'Updated'} "${before.summary ?? '(no title)'}"`,
+        changes: [
+          {
+            before: { calendarId, event: before },
+            after: { calendarId: updatedCalendarId, event: updated },
+          },
+        ],
+      });
+
+      const text = [
+        formatUpdatedEvent(updated, wasMoved),
+        ...(changeId ? [`  changeId: ${changeId}`] : []),
+        ...formatConflicts(conflicts),
+      ].join('\n');
 
       return {
         content: [
@@ -190,24 +507,15 @@ export const updateEventTool = defineTool({
             text: text + "\n\nNext: Use 'search_events' to verify changes.",
           },
         ],
-        structuredContent: result!,
+        structuredContent: {
+          ...updated,
+          ...(args.scope && { scope: args.scope }),
+          ...(conflicts && { conflicts: conflicts.conflicts }),
+          ...(changeId && { changeId }),
+        },
       };
     } catch (error) {
-      return {
-        isError: true,
-        content: [
-          { type: 'text', text: `Failed to update event: ${(error as Error).message}` },
-        ],
-      };
+      return toolErrorResult(error, 'update event');
     }
   },
 });
-
-
-
-
-
-
-
-
-
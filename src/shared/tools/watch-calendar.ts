@@ -0,0 +1,154 @@
+/**
+ * Watch Calendar tool - open or renew a push notification channel.
+ */
+
+import { z } from 'zod';
+import { toolsMetadata } from '../../config/metadata.js';
+import {
+  AuthRequiredError,
+  InvalidInputError,
+  toolErrorResult,
+} from '../../core/errors.js';
+import { DRY_RUN_ID, GoogleCalendarClient } from '../../services/google-calendar.js';
+import {
+  type ChannelRecord,
+  createChannel,
+  describeChannel,
+  listChannels,
+  RENEWAL_WINDOW_MS,
+  renewChannel,
+  resolveWebhookAddress,
+} from '../webhooks/calendar-channels.js';
+import { AccountSchema } from './accounts.js';
+import { DryRunSchema, dryRunResult } from './dry-run.js';
+import { CalendarScopes } from './scopes.js';
+import { defineTool, type ToolResult } from './types.js';
+
+const InputSchema = z.object({
+  calendarId: z
+    .string()
+    .optional()
+    .default('primary')
+    .describe('Calendar to watch (default: primary)'),
+  ttlHours: z
+    .number()
+    .int()
+    .min(1)
+    .max(720)
+    .optional()
+    .default(168)
+    .describe('Requested channel lifetime in hours (default: 168 = 7 days)'),
+  renew: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Replace the existing channel even if it is not close to expiry'),
+  dryRun: DryRunSchema,
+  account: AccountSchema,
+});
+
+export const watchCalendarTool = defineTool({
+  name: toolsMetadata.watch_calendar.name,
+  title: toolsMetadata.watch_calendar.title,
+  description: toolsMetadata.watch_calendar.description,
+  inputSchema: InputSchema,
+  requiredScopes: [CalendarScopes.readonly],
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+
+  handler: async (args, context): Promise<ToolResult> => {
+    const token = context.providerToken;
+
+    if (!token) {
+      return toolErrorResult(new AuthRequiredError());
+    }
+
+    const address = resolveWebhookAddress();
+    if (!address) {
+      return toolErrorResult(
+        new InvalidInputError('Push notifications are not configured on this server.', {
+          hint: 'Set CALENDAR_WEBHOOK_URL to the public HTTPS URL of /webhooks/google-calendar, then retry.',
+        }),
+      );
+    }
+
+    const client = new GoogleCalendarClient(token, {
+      signal: context.signal,
+      dryRun: args.dryRun,
+    });
+
+    try {
+      const account = (await client.getPrimaryCalendar()).id;
+      const calendarId = args.calendarId === 'primary' ? account : args.calendarId;
+      const ttlSeconds = args.ttlHours * 3600;
+
+      // Keep the longest-lived channel; older duplicates are left to expire
+      const existing = (await listChannels(account, calendarId)).at(-1);
+      const fresh =
+        existing && existing.expiration - Date.now() > RENEWAL_WINDOW_MS && !args.renew;
+
+      // The channel helpers store records, so plan Google's requests directly
+      if (args.dryRun) {
+        if (!fresh) {
+          await client.watchEvents({
+            calendarId,
+            channelId: DRY_RUN_ID,
+            address,
+            token: '(generated)',
+            ttlSeconds,
+          });
+          if (existing) await client.stopChannel(existing.id, existing.resourceId);
+        }
+        return dryRunResult(client, {
+          tool: 'watch_calendar',
+          summary: fresh
+            ? `${calendarId} is already being watched.`
+            : existing
+              ? `Would replace watch channel ${existing.id} for ${calendarId}.`
+              : `Would open a watch channel for ${calendarId}.`,
+          target: existing && describeChannel(existing),
+        });
+      }
+
+      let record: ChannelRecord;
+      let status: 'active' | 'renewed' | 'created';
+      if (existing && fresh) {
+        record = existing;
+        status = 'active';
+      } else if (existing) {
+        record = await renewChannel(client, existing, ttlSeconds);
+        status = 'renewed';
+      } else {
+        record = await createChannel(client, {
+          account,
+          calendarId,
+          address,
+          ttlSeconds,
+        });
+        status = 'created';
+      }
+
+      const channel = describeChannel(record);
+      const headline = {
+        active: '✓ Calendar is already being watched.',
+        renewed: '✓ Watch channel renewed.',
+        created: '✓ Watch channel created.',
+      }[status];
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${headline}\n  calendar: ${calendarId}\n  channelId: ${record.id}\n  expires: ${channel.expiration}\n\nNext: Changes are recorded as they arrive. Use 'list_watch_channels' to see pending changes and 'sync_events' to fetch them.`,
+          },
+        ],
+        structuredContent: { status, channel },
+      };
+    } catch (error) {
+      return toolErrorResult(error, 'watch calendar');
+    }
+  },
+});
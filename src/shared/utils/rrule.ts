@@ -0,0 +1,271 @@
+/**
+ * Minimal RFC 5545 RRULE helpers.
+ *
+ * Covers what Google Calendar produces from its UI: FREQ, INTERVAL, COUNT,
+ * UNTIL, BYDAY (incl. "2TU" / "-1FR" for monthly) and BYMONTHDAY.
+ * Unknown parts are preserved so rules survive a parse/format round trip.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** RRULE parts keyed by upper-case name, in original order */
+export type RRuleParts = Record<string, string>;
+
+export interface CalendarDate {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+/** Hard stop for runaway expansion of open-ended rules */
+const MAX_ITERATIONS = 10_000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parse / Format
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse an RRULE line (with or without the "RRULE:" prefix).
+ * Returns null for EXDATE/RDATE lines or rules without FREQ.
+ */
+export function parseRRule(line: string): RRuleParts | null {
+  const body = line.replace(/^RRULE:/i, '');
+  if (/^(EXDATE|RDATE|EXRULE)/i.test(body)) return null;
+
+  const parts: RRuleParts = {};
+  for (const segment of body.split(';')) {
+    const [key, value] = segment.split('=');
+    if (key && value !== undefined) {
+      parts[key.trim().toUpperCase()] = value.trim();
+    }
+  }
+
+  return parts.FREQ ? parts : null;
+}
+
+export function formatRRule(parts: RRuleParts): string {
+  return `RRULE:${Object.entries(parts)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(';')}`;
+}
+
+/**
+ * Parse an UNTIL value (20250131T235959Z or 20250131) to an instant.
+ */
+export function parseUntil(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) return null;
+
+  const [, y, m, d, hh = '23', mm = '59', ss = '59'] = match;
+  return new Date(
+    Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)),
+  );
+}
+
+/**
+ * Format an UNTIL value. All-day series use a plain date.
+ */
+export function formatUntil(date: Date, allDay: boolean): string {
+  const iso = date.toISOString().replace(/[-:]/g, '');
+  return allDay ? iso.slice(0, 8) : `${iso.slice(0, 15)}Z`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Expansion
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toUtcMs(date: CalendarDate): number {
+  return Date.UTC(date.year, date.month - 1, date.day);
+}
+
+function fromUtcMs(ms: number): CalendarDate {
+  const d = new Date(ms);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  return fromUtcMs(toUtcMs(date) + days * 86_400_000);
+}
+
+function weekdayOf(date: CalendarDate): number {
+  return new Date(toUtcMs(date)).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Parse "MO", "2TU", "-1FR" into ordinal + weekday */
+function parseByDay(code: string): { ordinal: number; weekday: number } | null {
+  const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(code.trim().toUpperCase());
+  if (!match) return null;
+
+  const weekday = DAY_CODES.indexOf(match[2] as (typeof DAY_CODES)[number]);
+  if (weekday < 0) return null;
+
+  return { ordinal: match[1] ? Number(match[1]) : 0, weekday };
+}
+
+function nthWeekdayOfMonth(
+  year: number,
+  month: number,
+  weekday: number,
+  ordinal: number,
+): CalendarDate | null {
+  const total = daysInMonth(year, month);
+  const matches: number[] = [];
+  for (let day = 1; day <= total; day++) {
+    if (weekdayOf({ year, month, day }) === weekday) matches.push(day);
+  }
+
+  const day = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+  return day ? { year, month, day } : null;
+}
+
+function datesInPeriod(
+  parts: RRuleParts,
+  anchor: CalendarDate,
+  period: number,
+): CalendarDate[] {
+  const freq = parts.FREQ;
+  const interval = Math.max(1, Number(parts.INTERVAL ?? 1));
+  const byDay = (parts.BYDAY ?? '')
+    .split(',')
+    .map(parseByDay)
+    .filter((d): d is { ordinal: number; weekday: number } => d !== null);
+
+  if (freq === 'DAILY') {
+    return [addDays(anchor, period * interval)];
+  }
+
+  if (freq === 'WEEKLY') {
+    // Weeks start on Monday (RFC 5545 default WKST)
+    const monday = addDays(
+      anchor,
+      -((weekdayOf(anchor) + 6) % 7) + period * interval * 7,
+    );
+    if (byDay.length === 0) {
+      return [addDays(monday, (weekdayOf(anchor) + 6) % 7)];
+    }
+    return byDay
+      .map((d) => addDays(monday, (d.weekday + 6) % 7))
+      .sort((a, b) => toUtcMs(a) - toUtcMs(b));
+  }
+
+  if (freq === 'MONTHLY') {
+    const monthIndex = anchor.month - 1 + period * interval;
+    const year = anchor.year + Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+
+    if (byDay.length > 0) {
+      return byDay
+        .map((d) => nthWeekdayOfMonth(year, month, d.weekday, d.ordinal || 1))
+        .filter((d): d is CalendarDate => d !== null)
+        .sort((a, b) => toUtcMs(a) - toUtcMs(b));
+    }
+
+    const day = Number(parts.BYMONTHDAY ?? anchor.day);
+    return day <= daysInMonth(year, month) ? [{ year, month, day }] : [];
+  }
+
+  if (freq === 'YEARLY') {
+    const year = anchor.year + period * interval;
+    return anchor.day <= daysInMonth(year, anchor.month)
+      ? [{ year, month: anchor.month, day: anchor.day }]
+      : [];
+  }
+
+  return [];
+}
+
+/**
+ * Iterate occurrence dates of a rule starting at (and including) `start`.
+ * COUNT is honored here; UNTIL is left to the caller since it compares
+ * instants, not dates.
+ */
+export function* iterateRecurrenceDates(
+  parts: RRuleParts,
+  start: CalendarDate,
+): Generator<CalendarDate> {
+  const count = parts.COUNT ? Number(parts.COUNT) : Number.POSITIVE_INFINITY;
+  const startMs = toUtcMs(start);
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_ITERATIONS && emitted < count; period++) {
+    for (const date of datesInPeriod(parts, start, period)) {
+      if (toUtcMs(date) < startMs) continue;
+      yield date;
+      emitted++;
+      if (emitted >= count) return;
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Splitting
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseCalendarDate(value: string): CalendarDate {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return { year, month, day };
+}
+
+/**
+ * Split a series' recurrence lines at one occurrence ("this and following").
+ *
+ * `seriesStart` and `splitAt` are the series' first start and the occurrence's
+ * original start, as the API returns them (date or dateTime). The head ends
+ * one second before the occurrence (UNTIL replaces COUNT); the tail starts at
+ * it and keeps the occurrences the head gave up. EXDATE/RDATE lines are kept
+ * in both halves.
+ */
+export function splitRecurrence(
+  recurrence: string[],
+  seriesStart: string,
+  splitAt: string,
+): { head: string[]; tail: string[] } {
+  const allDay = !splitAt.includes('T');
+  const instant = Date.parse(allDay ? `${splitAt}T00:00:00Z` : splitAt);
+  const until = formatUntil(new Date(instant - 1000), allDay);
+
+  const head: string[] = [];
+  const tail: string[] = [];
+
+  for (const line of recurrence) {
+    const parts = parseRRule(line);
+    if (!parts) {
+      head.push(line);
+      tail.push(line);
+      continue;
+    }
+
+    const { COUNT: count, ...rest } = parts;
+    head.push(formatRRule({ ...rest, UNTIL: until }));
+
+    if (count) {
+      // COUNT includes the occurrences now owned by the head
+      const split = parseCalendarDate(splitAt);
+      const splitMs = toUtcMs(split);
+      let before = 0;
+      for (const date of iterateRecurrenceDates(
+        parts,
+        parseCalendarDate(seriesStart),
+      )) {
+        if (toUtcMs(date) >= splitMs) break;
+        before++;
+      }
+      tail.push(
+        formatRRule({ ...parts, COUNT: String(Math.max(1, Number(count) - before)) }),
+      );
+    } else {
+      tail.push(line);
+    }
+  }
+
+  return { head, tail };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { resolveTimeExpression } from './time-expression.js';
+
+/** Tuesday 2025-12-30, 11:00 in Berlin */
+const NOW = new Date('2025-12-30T10:00:00Z');
+
+const resolve = (input: string, timeZone = 'Europe/Berlin', now = NOW) =>
+  resolveTimeExpression(input, timeZone, now);
+
+describe('resolveTimeExpression', () => {
+  test('relative days and weekdays keep the wall clock of the zone', () => {
+    expect(resolve('next tuesday 3pm')).toEqual({
+      dateTime: '2026-01-06T15:00:00+01:00',
+    });
+    // Without "next" the weekday includes today
+    expect(resolve('tuesday 3pm')).toEqual({ dateTime: '2025-12-30T15:00:00+01:00' });
+    expect(resolve('last tuesday')).toEqual({ date: '2025-12-23' });
+    expect(resolve('tomorrow at noon')).toEqual({
+      dateTime: '2025-12-31T12:00:00+01:00',
+    });
+  });
+
+  test('minutes and hours are exact durations from now', () => {
+    expect(resolve('in 2 hours')).toEqual({ dateTime: '2025-12-30T13:00:00+01:00' });
+    expect(resolve('90 minutes ago')).toEqual({
+      dateTime: '2025-12-30T09:30:00+01:00',
+    });
+    // Two hours before 03:00 on the night clocks go forward is 00:00, not 01:00
+    expect(
+      resolve('2 hours ago', 'Europe/Berlin', new Date('2026-03-29T01:00:00Z')),
+    ).toEqual({ dateTime: '2026-03-29T00:00:00+01:00' });
+  });
+
+  test('a month and day without a year is the next such date', () => {
+    expect(resolve('jan 5')).toEqual({ date: '2026-01-05' });
+    expect(resolve('december 30')).toEqual({ date: '2025-12-30' });
+    expect(resolve('29 december')).toEqual({ date: '2026-12-29' });
+    expect(resolve('january 5 9am')).toEqual({ dateTime: '2026-01-05T09:00:00+01:00' });
+  });
+
+  test('the offset follows DST on the resolved date, not today', () => {
+    expect(resolve('2026-07-01T09:00')).toEqual({
+      dateTime: '2026-07-01T09:00:00+02:00',
+    });
+    expect(resolve('march 30 9am')).toEqual({ dateTime: '2026-03-30T09:00:00+02:00' });
+  });
+
+  test('times in a spring-forward gap move forward by the gap', () => {
+    expect(resolve('2026-03-29T02:30')).toEqual({
+      dateTime: '2026-03-29T03:30:00+02:00',
+    });
+    expect(resolve('2026-03-08 2:30am', 'America/New_York')).toEqual({
+      dateTime: '2026-03-08T03:30:00-04:00',
+    });
+  });
+
+  test('times in a fall-back overlap are the first of the two', () => {
+    expect(resolve('2026-10-25T02:30')).toEqual({
+      dateTime: '2026-10-25T02:30:00+02:00',
+    });
+    expect(resolve('2026-11-01 1:30am', 'America/New_York')).toEqual({
+      dateTime: '2026-11-01T01:30:00-04:00',
+    });
+  });
+
+  test('offsets given with the time are kept as written', () => {
+    expect(resolve('2026-03-29T02:30:00+01:00')).toEqual({
+      dateTime: '2026-03-29T02:30:00+01:00',
+    });
+  });
+
+  test('impossible dates and times are rejected', () => {
+    for (const input of [
+      '2026-02-29',
+      '2026-02-29T10:00',
+      '2026-13-01',
+      'feb 30',
+      '31 april 2026',
+      '13pm',
+      '24:00',
+      'tomorrow 10:75',
+      'next someday',
+      '',
+    ]) {
+      expect(resolve(input)).toBeNull();
+    }
+    expect(resolve('2028-02-29')).toEqual({ date: '2028-02-29' });
+  });
+});
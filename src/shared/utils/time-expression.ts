@@ -0,0 +1,266 @@
+/**
+ * Time expressions as written by people and models, resolved in a time zone.
+ *
+ * Accepted forms:
+ * - RFC3339 with offset: 2025-03-30T09:00:00+02:00 (kept as is)
+ * - Local date-time: 2025-03-30T09:00 or "2025-03-30 9am" (read in the zone)
+ * - Date: 2025-03-30, "march 30", "30 mar 2026"
+ * - Relative: now, today, tomorrow, yesterday, friday, this/next/last tuesday,
+ *   in 3 days, 2 weeks ago, in 90 minutes, in 2 hours
+ * - Any date form followed or preceded by a time: 3pm, 3:30 pm, 15:00, noon, midnight
+ *
+ * "tuesday" and "this tuesday" mean the next Tuesday including today; "next
+ * tuesday" the first one after today and "last tuesday" the last one before it.
+ */
+
+import {
+  formatInTimeZone,
+  getZonedParts,
+  type LocalDateTime,
+  zonedTimeToUtc,
+} from './time.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A resolved expression: a calendar date, or an instant as RFC3339 with offset */
+export type ResolvedTime = { date: string } | { dateTime: string };
+
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Patterns
+// ─────────────────────────────────────────────────────────────────────────────
+
+const RFC3339 =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/i;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const ISO_LOCAL = /^(\d{4})-(\d{2})-(\d{2})t(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+const TIME_OF_DAY =
+  /(?:^|\s)(?:at\s+)?(noon|midnight|(\d{1,2})(?::(\d{2}))?\s*(am|pm)|(\d{1,2}):(\d{2}))(?=\s|$)/;
+
+const OFFSET_AMOUNT = /^in\s+(\d+)\s+(minute|min|hour|hr|day|week)s?$/;
+
+const AGO_AMOUNT = /^(\d+)\s+(minute|min|hour|hr|day|week)s?\s+ago$/;
+
+const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatDate(date: CalendarDate): string {
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+function isValidDate({ year, month, day }: CalendarDate): boolean {
+  const check = new Date(Date.UTC(year, month - 1, day));
+  return check.getUTCMonth() === month - 1 && check.getUTCDate() === day;
+}
+
+function weekdayOf(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+/** Index of a weekday or month name (full, or abbreviated to 3+ letters), or -1 */
+function nameIndex(names: string[], word: string): number {
+  return word.length >= 3 ? names.findIndex((name) => name.startsWith(word)) : -1;
+}
+
+/**
+ * Minutes after midnight of a time of day, or null if out of range.
+ */
+function parseTimeOfDay(match: RegExpExecArray): number | null {
+  const [, word, hour12, minute12, meridiem, hour24, minute24] = match;
+  if (word === 'noon') return 12 * 60;
+  if (word === 'midnight') return 0;
+
+  if (meridiem) {
+    const hour = Number(hour12);
+    const minute = Number(minute12 ?? 0);
+    if (hour < 1 || hour > 12 || minute > 59) return null;
+    return ((hour % 12) + (meridiem === 'pm' ? 12 : 0)) * 60 + minute;
+  }
+
+  const hour = Number(hour24);
+  const minute = Number(minute24);
+  if (hour > 23 || minute > 59) return null;
+  return hour * 60 + minute;
+}
+
+/**
+ * Resolve the date part of an expression relative to `today`.
+ */
+function parseDay(text: string, today: CalendarDate): CalendarDate | null {
+  if (text === '' || text === 'today' || text === 'tonight') return today;
+  if (text === 'tomorrow') return addDays(today, 1);
+  if (text === 'yesterday') return addDays(today, -1);
+
+  const iso = ISO_DATE.exec(text);
+  if (iso) {
+    const date = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+    return isValidDate(date) ? date : null;
+  }
+
+  const ahead = /^in\s+(\d+)\s+(day|week)s?$/.exec(text);
+  const ago = /^(\d+)\s+(day|week)s?\s+ago$/.exec(text);
+  const shift = ahead ?? ago;
+  if (shift) {
+    const days = Number(shift[1]) * (shift[2] === 'week' ? 7 : 1);
+    return addDays(today, ago ? -days : days);
+  }
+
+  const weekday = /^(?:(this|next|last)\s+)?([a-z]+)$/.exec(text);
+  if (weekday) {
+    const target = nameIndex(WEEKDAYS, weekday[2]);
+    if (target !== -1) {
+      const current = weekdayOf(today);
+      if (weekday[1] === 'last') {
+        return addDays(today, -(((current - target + 6) % 7) + 1));
+      }
+      const ahead = (target - current + 7) % 7;
+      return addDays(today, weekday[1] === 'next' ? ahead || 7 : ahead);
+    }
+  }
+
+  // "march 30", "march 30, 2026", "30 march", "30 mar 2026"
+  const monthFirst = /^([a-z]+)\s+(\d{1,2})(?:,?\s+(\d{4}))?$/.exec(text);
+  const dayFirst = /^(\d{1,2})\s+([a-z]+)(?:,?\s+(\d{4}))?$/.exec(text);
+  if (monthFirst || dayFirst) {
+    const month = nameIndex(MONTHS, (monthFirst?.[1] ?? dayFirst?.[2]) as string) + 1;
+    const day = Number(monthFirst?.[2] ?? dayFirst?.[1]);
+    const year = monthFirst?.[3] ?? dayFirst?.[3];
+    if (month === 0) return null;
+
+    if (year) {
+      const date = { year: Number(year), month, day };
+      return isValidDate(date) ? date : null;
+    }
+    // Without a year: the next such date, including today
+    let date = { year: today.year, month, day };
+    if (formatDate(date) < formatDate(today)) date = { ...date, year: today.year + 1 };
+    return isValidDate(date) ? date : null;
+  }
+
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Whether the value is RFC3339 with an offset, i.e. needs no time zone to read.
+ */
+export function isAbsoluteTime(value: string): boolean {
+  return RFC3339.test(value.trim());
+}
+
+/**
+ * Resolve a time expression in `timeZone` (IANA), relative to `now`.
+ *
+ * @returns The date or instant, or null if the expression is not understood
+ */
+export function resolveTimeExpression(
+  input: string,
+  timeZone: string,
+  now: Date = new Date(),
+): ResolvedTime | null {
+  const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  if (RFC3339.test(text)) {
+    return Number.isNaN(Date.parse(input)) ? null : { dateTime: input.trim() };
+  }
+  if (text === 'now') return { dateTime: formatInTimeZone(now, timeZone) };
+
+  const zoned = (local: LocalDateTime): ResolvedTime => ({
+    dateTime: formatInTimeZone(zonedTimeToUtc(local, timeZone), timeZone),
+  });
+
+  const local = ISO_LOCAL.exec(text);
+  if (local) {
+    const [year, month, day, hour, minute, second] = local.slice(1).map(Number);
+    if (!isValidDate({ year, month, day }) || hour > 23 || minute > 59) return null;
+    return zoned({ year, month, day, hour, minute, second: second || 0 });
+  }
+
+  // Minutes and hours are exact durations; days and weeks keep the wall clock
+  const amount = OFFSET_AMOUNT.exec(text) ?? AGO_AMOUNT.exec(text);
+  if (amount && /^(minute|min|hour|hr)$/.test(amount[2])) {
+    const minutes = Number(amount[1]) * (amount[2].startsWith('h') ? 60 : 1);
+    const sign = text.endsWith('ago') ? -1 : 1;
+    return {
+      dateTime: formatInTimeZone(
+        new Date(now.getTime() + sign * minutes * 60_000),
+        timeZone,
+      ),
+    };
+  }
+
+  const parts = getZonedParts(now, timeZone);
+  const today = { year: parts.year, month: parts.month, day: parts.day };
+
+  const time = TIME_OF_DAY.exec(text);
+  const dayText = (
+    time ? text.slice(0, time.index) + text.slice(time.index + time[0].length) : text
+  )
+    .trim()
+    .replace(/^(?:on|at)\s+|\s+(?:on|at)$/g, '')
+    .replace(/,$/, '')
+    .trim();
+
+  if (!time) {
+    const date = dayText === '' ? null : parseDay(dayText, today);
+    return date ? { date: formatDate(date) } : null;
+  }
+
+  const minutes = parseTimeOfDay(time);
+  const date = parseDay(dayText, today);
+  if (minutes === null || !date) return null;
+
+  return zoned({ ...date, hour: Math.floor(minutes / 60), minute: minutes % 60 });
+}
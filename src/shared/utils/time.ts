@@ -0,0 +1,172 @@
+/**
+ * Time zone helpers for Node.js and Cloudflare Workers.
+ *
+ * Built on Intl.DateTimeFormat so no tz database has to be bundled.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Wall-clock representation of an instant in a specific time zone.
+ */
+export interface ZonedDateTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+}
+
+export interface LocalDateTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+}
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Conversions
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is an IANA time zone known to the runtime.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Break an instant into wall-clock fields for the given time zone.
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday as (typeof WEEKDAY_NAMES)[number]),
+  };
+}
+
+/**
+ * UTC offset (in minutes) of the time zone at the given instant.
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const truncated = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - truncated) / 60_000);
+}
+
+/**
+ * Convert a wall-clock time in a time zone to the corresponding instant.
+ * Nonexistent local times (DST gaps) are moved forward by the gap, e.g. 02:30
+ * becomes 03:30; ambiguous ones (DST overlaps) resolve to the earlier instant.
+ */
+export function zonedTimeToUtc(local: LocalDateTime, timeZone: string): Date {
+  const guess = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour ?? 0,
+    local.minute ?? 0,
+    local.second ?? 0,
+  );
+
+  // Offsets in effect a day either side; zones change at most once in between
+  const before = getTimeZoneOffsetMinutes(new Date(guess - DAY_MS), timeZone);
+  const after = getTimeZoneOffsetMinutes(new Date(guess + DAY_MS), timeZone);
+  const matches = [before, after]
+    .map((offset) => guess - offset * 60_000)
+    .filter(
+      (candidate) =>
+        guess - candidate ===
+        getTimeZoneOffsetMinutes(new Date(candidate), timeZone) * 60_000,
+    );
+
+  return new Date(matches.length > 0 ? Math.min(...matches) : guess - before * 60_000);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Format an instant as RFC3339 with the zone's offset, e.g. 2025-03-04T10:00:00+01:00.
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const offset = getTimeZoneOffsetMinutes(date, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
+
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/**
+ * Format an instant as a calendar date (YYYY-MM-DD) in the time zone.
+ */
+export function formatDateInTimeZone(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/**
+ * Parse "HH:MM" into minutes after midnight. Accepts "24:00" as end of day.
+ */
+export function parseClockTime(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes !== 0)) return null;
+
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { GoogleCalendarClient } from '../../services/google-calendar.js';
+import { createMcpHarness, type McpHarness } from '../../testing/mcp-harness.js';
+import {
+  type ChannelNotification,
+  type ChannelRecord,
+  createChannel,
+  getChannel,
+  handleChannelNotification,
+  onChannelNotification,
+} from './calendar-channels.js';
+
+let mcp: McpHarness;
+let channel: ChannelRecord;
+let notifications: ChannelNotification[];
+let unsubscribe: () => void;
+
+beforeEach(async () => {
+  mcp = createMcpHarness({ userEmail: 'alice@example.com' });
+  const client = new GoogleCalendarClient('token', {
+    baseUrl: mcp.emulator.baseUrl,
+    fetch: mcp.emulator.fetch,
+  });
+  channel = await createChannel(client, {
+    account: 'alice@example.com',
+    calendarId: 'primary',
+    address: 'https://mcp.test/webhooks/google-calendar',
+  });
+  notifications = [];
+  unsubscribe = onChannelNotification((notification) => {
+    notifications.push(notification);
+  });
+});
+
+afterEach(() => {
+  unsubscribe();
+  mcp.restore();
+});
+
+/** Headers of a Google notification for the channel, with overrides */
+function notification(overrides: Record<string, string> = {}): Headers {
+  return new Headers({
+    'x-goog-channel-id': channel.id,
+    'x-goog-channel-token': channel.token,
+    'x-goog-resource-id': channel.resourceId,
+    'x-goog-resource-state': 'exists',
+    'x-goog-message-number': '2',
+    ...overrides,
+  });
+}
+
+describe('handleChannelNotification', () => {
+  test('counts changes but not the initial sync message', async () => {
+    await handleChannelNotification(
+      notification({ 'x-goog-resource-state': 'sync', 'x-goog-message-number': '1' }),
+    );
+    const result = await handleChannelNotification(notification());
+
+    expect(result).toEqual({ status: 200, body: { ok: true } });
+    expect(await getChannel(channel.id)).toMatchObject({
+      pendingChanges: 1,
+      lastMessageNumber: 2,
+    });
+    expect(notifications.map((n) => n.state)).toEqual(['sync', 'exists']);
+  });
+
+  test('rejects a wrong channel token', async () => {
+    const result = await handleChannelNotification(
+      notification({ 'x-goog-channel-token': `${channel.token.slice(1)}0` }),
+    );
+
+    expect(result.status).toBe(403);
+    expect((await getChannel(channel.id))?.pendingChanges).toBe(0);
+    expect(notifications).toEqual([]);
+  });
+
+  test('rejects a missing token and a resource ID of another channel', async () => {
+    const headers = notification();
+    headers.delete('x-goog-channel-token');
+    expect((await handleChannelNotification(headers)).status).toBe(403);
+
+    const otherResource = await handleChannelNotification(
+      notification({ 'x-goog-resource-id': 'another-resource' }),
+    );
+    expect(otherResource.status).toBe(403);
+    expect(notifications).toEqual([]);
+  });
+
+  test('rejects unknown channels and notifications without channel headers', async () => {
+    expect(
+      (await handleChannelNotification(notification({ 'x-goog-channel-id': 'forged' })))
+        .status,
+    ).toBe(404);
+    expect((await handleChannelNotification(new Headers())).status).toBe(400);
+  });
+
+  test('acknowledges replays without counting them again', async () => {
+    await handleChannelNotification(notification({ 'x-goog-message-number': '5' }));
+
+    const replay = await handleChannelNotification(
+      notification({ 'x-goog-message-number': '5' }),
+    );
+    const older = await handleChannelNotification(
+      notification({ 'x-goog-message-number': '3' }),
+    );
+
+    expect(replay.status).toBe(200);
+    expect(older.status).toBe(200);
+    expect(await getChannel(channel.id)).toMatchObject({
+      pendingChanges: 1,
+      lastMessageNumber: 5,
+    });
+    expect(notifications).toHaveLength(1);
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Calendar push notification channels (events.watch).
+ *
+ * Channel metadata lives in the StateStore so the receiver route can validate
+ * incoming notifications in both runtimes. Channels expire (Google caps them at
+ * a few weeks), so tools renew them opportunistically when they run close to
+ * expiry — there is no background job with access to user tokens.
+ */
+
+import type {
+  GoogleCalendarClient,
+  WatchChannel,
+} from '../../services/google-calendar.js';
+import { resolveConfig } from '../config/env.js';
+import { getStateStore } from '../storage/singleton.js';
+import { sharedLogger as logger } from '../utils/logger.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ChannelRecord {
+  id: string;
+  /** Google's ID for the watched resource, echoed in X-Goog-Resource-ID */
+  resourceId: string;
+  /** Primary calendar ID (email) of the owning user */
+  account: string;
+  calendarId: string;
+  /** Shared secret echoed in X-Goog-Channel-Token */
+  token: string;
+  address: string;
+  /** Epoch ms */
+  expiration: number;
+  createdAt: number;
+  /** Highest X-Goog-Message-Number seen, to drop replays */
+  lastMessageNumber?: number;
+  lastNotificationAt?: number;
+  /** Change notifications received since the calendar was last synced */
+  pendingChanges: number;
+}
+
+export type ResourceState = 'sync' | 'exists' | 'not_exists';
+
+export interface ChannelNotification {
+  channel: ChannelRecord;
+  state: ResourceState;
+  messageNumber?: number;
+}
+
+export interface NotificationResult {
+  status: 200 | 400 | 403 | 404;
+  body: { ok: boolean; error?: string };
+}
+
+/** Path of the receiver route in both runtimes */
+export const WEBHOOK_PATH = '/webhooks/google-calendar';
+
+/** Default lifetime requested from Google (7 days) */
+export const DEFAULT_CHANNEL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Channels expiring within this window are renewed when a tool runs */
+export const RENEWAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Keep records a little past expiry so late notifications still validate */
+const RECORD_GRACE_SECONDS = 60 * 60;
+
+const CHANNEL_KEY_PREFIX = 'channel:';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Storage
+// ─────────────────────────────────────────────────────────────────────────────
+
+function channelKey(channelId: string): string {
+  return `${CHANNEL_KEY_PREFIX}${channelId}`;
+}
+
+export async function getChannel(channelId: string): Promise<ChannelRecord | null> {
+  return getStateStore().get<ChannelRecord>(channelKey(channelId));
+}
+
+async function saveChannel(record: ChannelRecord): Promise<void> {
+  const ttlSeconds =
+    Math.ceil((record.expiration - Date.now()) / 1000) + RECORD_GRACE_SECONDS;
+  await getStateStore().put(channelKey(record.id), record, Math.max(ttlSeconds, 1));
+}
+
+async function deleteChannel(channelId: string): Promise<void> {
+  await getStateStore().delete(channelKey(channelId));
+}
+
+/**
+ * Public view of a channel (never includes the secret token).
+ */
+export function describeChannel(record: ChannelRecord) {
+  return {
+    channelId: record.id,
+    calendarId: record.calendarId,
+    expiration: new Date(record.expiration).toISOString(),
+    pendingChanges: record.pendingChanges,
+    lastNotificationAt: record.lastNotificationAt
+      ? new Date(record.lastNotificationAt).toISOString()
+      : undefined,
+  };
+}
+
+/**
+ * Channels owned by an account, optionally for one calendar, soonest expiry first.
+ */
+export async function listChannels(
+  account: string,
+  calendarId?: string,
+): Promise<ChannelRecord[]> {
+  const store = getStateStore();
+  const keys = await store.list(CHANNEL_KEY_PREFIX);
+  const records = await Promise.all(keys.map((key) => store.get<ChannelRecord>(key)));
+
+  return records
+    .filter((r): r is ChannelRecord => r !== null && r.account === account)
+    .filter((r) => !calendarId || r.calendarId === calendarId)
+    .sort((a, b) => a.expiration - b.expiration);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lifecycle
+// ─────────────────────────────────────────────────────────────────────────────
+
+function randomSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Public URL Google should deliver notifications to, if configured.
+ */
+export function resolveWebhookAddress(): string | undefined {
+  return resolveConfig().CALENDAR_WEBHOOK_URL || undefined;
+}
+
+export async function createChannel(
+  client: GoogleCalendarClient,
+  options: {
+    account: string;
+    calendarId: string;
+    address: string;
+    ttlSeconds?: number;
+  },
+): Promise<ChannelRecord> {
+  const token = randomSecret();
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_CHANNEL_TTL_SECONDS;
+  const channel: WatchChannel = await client.watchEvents({
+    calendarId: options.calendarId,
+    channelId: crypto.randomUUID(),
+    address: options.address,
+    token,
+    ttlSeconds,
+  });
+
+  const record: ChannelRecord = {
+    id: channel.id,
+    resourceId: channel.resourceId,
+    account: options.account,
+    calendarId: options.calendarId,
+    token,
+    address: options.address,
+    expiration: channel.expiration
+      ? Number(channel.expiration)
+      : Date.now() + ttlSeconds * 1000,
+    createdAt: Date.now(),
+    pendingChanges: 0,
+  };
+
+  await saveChannel(record);
+  logger.info('calendar_channels', {
+    message: 'Channel created',
+    channelId: record.id,
+    calendarId: record.calendarId,
+    expiration: new Date(record.expiration).toISOString(),
+  });
+  return record;
+}
+
+/**
+ * Stop a channel at Google and forget it. Already-expired channels are just removed.
+ */
+export async function stopChannel(
+  client: GoogleCalendarClient,
+  record: ChannelRecord,
+): Promise<void> {
+  if (record.expiration > Date.now()) {
+    await client.stopChannel(record.id, record.resourceId);
+  }
+  await deleteChannel(record.id);
+}
+
+/**
+ * Replace a channel with a fresh one. Google channels cannot be extended, so the
+ * new channel is opened first and the old one stopped afterwards (best effort),
+ * leaving no gap in coverage.
+ */
+export async function renewChannel(
+  client: GoogleCalendarClient,
+  record: ChannelRecord,
+  ttlSeconds?: number,
+): Promise<ChannelRecord> {
+  const next = await createChannel(client, {
+    account: record.account,
+    calendarId: record.calendarId,
+    address: resolveWebhookAddress() ?? record.address,
+    ttlSeconds,
+  });
+  // Carry over unsynced notifications
+  next.pendingChanges = record.pendingChanges;
+  await saveChannel(next);
+
+  try {
+    await stopChannel(client, record);
+  } catch (error) {
+    logger.warning('calendar_channels', {
+      message: 'Failed to stop replaced channel',
+      channelId: record.id,
+      error: (error as Error).message,
+    });
+    await deleteChannel(record.id);
+  }
+
+  return next;
+}
+
+/**
+ * Renew the account's channels that expire within the renewal window.
+ */
+export async function renewExpiringChannels(
+  client: GoogleCalendarClient,
+  account: string,
+  now = Date.now(),
+): Promise<{
+  renewed: ChannelRecord[];
+  failed: Array<{ channelId: string; error: string }>;
+}> {
+  const renewed: ChannelRecord[] = [];
+  const failed: Array<{ channelId: string; error: string }> = [];
+
+  for (const record of await listChannels(account)) {
+    if (record.expiration - now > RENEWAL_WINDOW_MS) continue;
+    try {
+      renewed.push(await renewChannel(client, record));
+    } catch (error) {
+      failed.push({ channelId: record.id, error: (error as Error).message });
+    }
+  }
+
+  return { renewed, failed };
+}
+
+/**
+ * Reset pending change counters once the calendar has been synced.
+ */
+export async function acknowledgeChanges(
+  account: string,
+  calendarId: string,
+): Promise<void> {
+  for (const record of await listChannels(account, calendarId)) {
+    if (record.pendingChanges > 0) {
+      await saveChannel({ ...record, pendingChanges: 0 });
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Notifications
+// ─────────────────────────────────────────────────────────────────────────────
+
+type NotificationListener = (notification: ChannelNotification) => void;
+
+const listeners = new Set<NotificationListener>();
+
+/**
+ * Subscribe to validated notifications (e.g. to push MCP resource updates).
+ * Returns an unsubscribe function.
+ */
+export function onChannelNotification(listener: NotificationListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Validate and record a Google channel notification.
+ *
+ * Google expects a 2xx quickly and retries on 5xx only, so validation failures
+ * are answered with 4xx and never retried.
+ */
+export async function handleChannelNotification(
+  headers: Headers,
+): Promise<NotificationResult> {
+  const channelId = headers.get('x-goog-channel-id');
+  const resourceId = headers.get('x-goog-resource-id');
+  const state = headers.get('x-goog-resource-state') as ResourceState | null;
+
+  if (!channelId || !resourceId || !state) {
+    return {
+      status: 400,
+      body: { ok: false, error: 'Missing X-Goog channel headers' },
+    };
+  }
+
+  const record = await getChannel(channelId);
+  if (!record) {
+    return { status: 404, body: { ok: false, error: 'Unknown channel' } };
+  }
+
+  const token = headers.get('x-goog-channel-token') ?? '';
+  if (!timingSafeEqual(token, record.token) || resourceId !== record.resourceId) {
+    logger.warning('calendar_channels', {
+      message: 'Rejected notification with mismatched token or resource',
+      channelId,
+    });
+    return { status: 403, body: { ok: false, error: 'Channel validation failed' } };
+  }
+
+  const messageNumber = Number(headers.get('x-goog-message-number')) || undefined;
+  if (
+    messageNumber !== undefined &&
+    record.lastMessageNumber !== undefined &&
+    messageNumber <= record.lastMessageNumber
+  ) {
+    // Replay or out-of-order delivery of something already counted
+    return { status: 200, body: { ok: true } };
+  }
+
+  const updated: ChannelRecord = {
+    ...record,
+    lastMessageNumber: messageNumber ?? record.lastMessageNumber,
+    lastNotificationAt: Date.now(),
+    // The initial "sync" message only confirms the channel works
+    pendingChanges: record.pendingChanges + (state === 'sync' ? 0 : 1),
+  };
+  await saveChannel(updated);
+
+  for (const listener of listeners) {
+    try {
+      listener({ channel: updated, state, messageNumber });
+    } catch (error) {
+      logger.error('calendar_channels', {
+        message: 'Notification listener failed',
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  return { status: 200, body: { ok: true } };
+}
@@ -0,0 +1,1309 @@
+/**
+ * In-process Google Calendar v3 emulator.
+ *
+ * Implements the subset of the API used by GoogleCalendarClient with in-memory
+ * state, so tools can be exercised end-to-end without network access:
+ *
+ * ```ts
+ * const emulator = createCalendarEmulator();
+ * const client = new GoogleCalendarClient('test-token', {
+ *   baseUrl: emulator.baseUrl,
+ *   fetch: emulator.fetch,
+ * });
+ * ```
+ *
+ * Tools construct their own clients, so for full MCP runs either set
+ * PROVIDER_API_URL to a served emulator (scripts/calendar-emulator.ts) or
+ * install `emulator.fetch` as globalThis.fetch together with `emulator.baseUrl`.
+ */
+
+import { type Context, Hono } from 'hono';
+import type {
+  AclRule,
+  CalendarEvent,
+  CalendarListItem,
+  EventAttendee,
+  EventDateTime,
+  FetchLike,
+} from '../services/google-calendar.js';
+import {
+  iterateRecurrenceDates,
+  parseRRule,
+  parseUntil,
+} from '../shared/utils/rrule.js';
+import {
+  formatDateInTimeZone,
+  formatInTimeZone,
+  getZonedParts,
+  zonedTimeToUtc,
+} from '../shared/utils/time.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EmulatedCalendar {
+  entry: CalendarListItem;
+  /** Stored events keyed by ID (recurring series are stored once) */
+  events: Map<string, CalendarEvent>;
+  /** Modified or cancelled occurrences of recurring events, keyed by instance ID */
+  exceptions: Map<string, CalendarEvent>;
+  /** Shown in the user's calendar list (false after unsubscribing) */
+  listed: boolean;
+  /** Sharing rules keyed by rule ID ("user:jane@example.com", "default") */
+  acl: Map<string, AclRule>;
+}
+
+export interface EmulatedChannel {
+  id: string;
+  resourceId: string;
+  calendarId: string;
+  address: string;
+  token?: string;
+  expiration: number;
+}
+
+export interface CalendarEmulatorState {
+  userEmail: string;
+  calendars: Map<string, EmulatedCalendar>;
+  /** Open events.watch channels keyed by channel ID (notifications are not sent) */
+  channels: Map<string, EmulatedChannel>;
+}
+
+export interface CalendarEmulatorOptions {
+  /** URL the emulator answers on (default: http://calendar.emulator.local/calendar/v3) */
+  baseUrl?: string;
+  /** Email of the emulated user, also used as the primary calendar ID */
+  userEmail?: string;
+  /** Time zone of the primary calendar (default: UTC) */
+  timeZone?: string;
+  /** Accepted bearer tokens. Any non-empty token is accepted when omitted. */
+  accessTokens?: string[];
+  /** Clock override for deterministic tests */
+  now?: () => Date;
+}
+
+export interface CalendarEmulator {
+  baseUrl: string;
+  app: Hono;
+  /** Serves the API and its batch endpoint (/batch/calendar/v3); use for HTTP servers */
+  handle(request: Request): Promise<Response>;
+  /** Routes requests for baseUrl to the emulator, everything else to the real fetch */
+  fetch: FetchLike;
+  state: CalendarEmulatorState;
+  addCalendar(
+    entry: Partial<CalendarListItem> & { id: string; summary: string },
+  ): CalendarListItem;
+  addEvent(calendarId: string, event: Partial<CalendarEvent>): CalendarEvent;
+  /** Invalidate all issued sync tokens (next incremental list answers 410) */
+  expireSyncTokens(): void;
+  reset(): void;
+}
+
+type EventsQuery = {
+  timeMin?: number;
+  timeMax?: number;
+  showDeleted: boolean;
+};
+
+const DEFAULT_BASE_URL = 'http://calendar.emulator.local/calendar/v3';
+
+/** Upper bound for expanding open-ended recurring series */
+const MAX_INSTANCES = 1000;
+
+const HOUR_MS = 3_600_000;
+
+/** Google's default and maximum lifetime for events.watch channels */
+const MAX_CHANNEL_TTL_SECONDS = 30 * 24 * 3600;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  409: 'ALREADY_EXISTS',
+  410: 'GONE',
+  412: 'FAILED_PRECONDITION',
+};
+
+/** Google-style error envelope */
+function googleError(
+  c: Context,
+  status: 400 | 401 | 403 | 404 | 409 | 410 | 412,
+  reason: string,
+  message: string,
+): Response {
+  return c.json(
+    {
+      error: {
+        code: status,
+        message,
+        errors: [{ domain: 'global', reason, message }],
+        status: STATUS_TEXT[status],
+      },
+    },
+    status,
+  );
+}
+
+/**
+ * Why Google would reject a status event (out of office, focus time, working
+ * location), or undefined if it is valid.
+ */
+function statusEventError(
+  calendar: EmulatedCalendar,
+  event: Partial<CalendarEvent>,
+): string | undefined {
+  if (!calendar.entry.primary) {
+    return `Events of type ${event.eventType} can only be created on the primary calendar.`;
+  }
+  if (event.attendees?.length) {
+    return `Events of type ${event.eventType} cannot have attendees.`;
+  }
+  switch (event.eventType) {
+    case 'outOfOffice':
+    case 'focusTime':
+      if (event.start?.date || event.end?.date) {
+        return `Events of type ${event.eventType} cannot be all-day.`;
+      }
+      return undefined;
+    case 'workingLocation':
+      if (!event.workingLocationProperties?.type) {
+        return 'A working location event must have workingLocationProperties.';
+      }
+      if (event.transparency !== 'transparent' || event.visibility !== 'public') {
+        return 'A working location event must be transparent and public.';
+      }
+      return undefined;
+    default:
+      return `Events of type ${event.eventType} cannot be created.`;
+  }
+}
+
+function randomId(): string {
+  // Google event IDs use base32hex characters (a-v, 0-9)
+  const alphabet = 'abcdefghijklmnopqrstuv0123456789';
+  let id = '';
+  for (let i = 0; i < 26; i++) {
+    id += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return id;
+}
+
+function compactUtc(ms: number): string {
+  return new Date(ms)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function parseTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+function isCancelled(event: CalendarEvent): boolean {
+  return event.status === 'cancelled';
+}
+
+/** Writes with an If-Match header that names another version fail with 412 */
+function preconditionFailed(c: Context, event: CalendarEvent): Response | null {
+  const ifMatch = c.req.header('if-match');
+  if (!ifMatch || ifMatch === '*' || ifMatch === event.etag) return null;
+  return googleError(c, 412, 'conditionNotMet', 'Precondition Failed');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Emulator
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createCalendarEmulator(
+  options: CalendarEmulatorOptions = {},
+): CalendarEmulator {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const basePath = new URL(baseUrl).pathname.replace(/\/+$/, '');
+  const userEmail = options.userEmail ?? 'user@example.com';
+  const now = options.now ?? (() => new Date());
+  const passthroughFetch = globalThis.fetch;
+
+  const state: CalendarEmulatorState = {
+    userEmail,
+    calendars: new Map(),
+    channels: new Map(),
+  };
+  let etagCounter = 0;
+  let syncEpoch = 1;
+  /** Change counter at which each etag was issued, for sync tokens */
+  const etagRevisions = new Map<string, number>();
+
+  const nextEtag = (): string => {
+    const etag = `"${Date.now()}${String(++etagCounter).padStart(4, '0')}"`;
+    etagRevisions.set(etag, etagCounter);
+    return etag;
+  };
+
+  const currentSyncToken = (): string => `sync-${syncEpoch}-${etagCounter}`;
+
+  /** Revision encoded in a sync token, or null if it is unknown or expired */
+  function parseSyncToken(token: string): number | null {
+    const match = /^sync-(\d+)-(\d+)$/.exec(token);
+    if (!match || Number(match[1]) !== syncEpoch) return null;
+    const revision = Number(match[2]);
+    return revision <= etagCounter ? revision : null;
+  }
+
+  function expireSyncTokens(): void {
+    syncEpoch++;
+  }
+
+  function addCalendar(
+    entry: Partial<CalendarListItem> & { id: string; summary: string },
+  ): CalendarListItem {
+    const full: CalendarListItem = {
+      accessRole: 'owner',
+      timeZone: options.timeZone ?? 'UTC',
+      ...entry,
+    };
+    state.calendars.set(full.id, {
+      entry: full,
+      events: new Map(),
+      exceptions: new Map(),
+      listed: true,
+      acl: new Map(
+        full.accessRole === 'owner'
+          ? [
+              [
+                `user:${userEmail}`,
+                {
+                  kind: 'calendar#aclRule',
+                  id: `user:${userEmail}`,
+                  role: 'owner',
+                  scope: { type: 'user', value: userEmail },
+                },
+              ],
+            ]
+          : [],
+      ),
+    });
+    return full;
+  }
+
+  function reset(): void {
+    state.calendars.clear();
+    state.channels.clear();
+    addCalendar({
+      id: userEmail,
+      summary: userEmail,
+      primary: true,
+      accessRole: 'owner',
+      timeZone: options.timeZone ?? 'UTC',
+    });
+  }
+
+  function getCalendar(calendarId: string): EmulatedCalendar | undefined {
+    return state.calendars.get(calendarId === 'primary' ? userEmail : calendarId);
+  }
+
+  function timeZoneOf(calendar: EmulatedCalendar, time?: EventDateTime): string {
+    return time?.timeZone ?? calendar.entry.timeZone ?? 'UTC';
+  }
+
+  function startMs(calendar: EmulatedCalendar, event: CalendarEvent): number {
+    if (event.start?.dateTime) return new Date(event.start.dateTime).getTime();
+    if (event.start?.date) {
+      const [year, month, day] = event.start.date.split('-').map(Number);
+      return zonedTimeToUtc({ year, month, day }, timeZoneOf(calendar)).getTime();
+    }
+    return 0;
+  }
+
+  function endMs(calendar: EmulatedCalendar, event: CalendarEvent): number {
+    if (event.end?.dateTime) return new Date(event.end.dateTime).getTime();
+    if (event.end?.date) {
+      const [year, month, day] = event.end.date.split('-').map(Number);
+      return zonedTimeToUtc({ year, month, day }, timeZoneOf(calendar)).getTime();
+    }
+    return startMs(calendar, event);
+  }
+
+  function normalizeAttendees(
+    attendees: EventAttendee[] | undefined,
+  ): EventAttendee[] | undefined {
+    return attendees?.map((a) => ({
+      responseStatus: 'needsAction',
+      ...a,
+      self: a.email === userEmail ? true : undefined,
+    }));
+  }
+
+  function buildConference(): Pick<CalendarEvent, 'conferenceData' | 'hangoutLink'> {
+    const code = `${randomId().slice(0, 3)}-${randomId().slice(0, 4)}-${randomId().slice(0, 3)}`;
+    const uri = `https://meet.google.com/${code}`;
+    return {
+      hangoutLink: uri,
+      conferenceData: {
+        entryPoints: [
+          { entryPointType: 'video', uri, label: uri.replace('https://', '') },
+        ],
+        conferenceSolution: { key: { type: 'hangoutsMeet' }, name: 'Google Meet' },
+        conferenceId: code,
+      },
+    };
+  }
+
+  function storeEvent(
+    calendar: EmulatedCalendar,
+    input: Partial<CalendarEvent>,
+    withConference = false,
+  ): CalendarEvent {
+    const id = input.id ?? randomId();
+    const timestamp = now().toISOString();
+    const organizer = {
+      email: calendar.entry.id,
+      displayName: calendar.entry.primary ? undefined : calendar.entry.summary,
+      self: true,
+    };
+
+    const event: CalendarEvent = {
+      eventType: 'default',
+      reminders: { useDefault: true },
+      ...input,
+      id,
+      status: input.status ?? 'confirmed',
+      htmlLink: `https://www.google.com/calendar/event?eid=${btoa(`${id} ${calendar.entry.id}`)}`,
+      iCalUID: input.iCalUID ?? `${id}@google.com`,
+      sequence: input.sequence ?? 0,
+      etag: nextEtag(),
+      created: input.created ?? timestamp,
+      updated: timestamp,
+      creator: input.creator ?? { email: userEmail },
+      organizer: input.organizer ?? organizer,
+      attendees: normalizeAttendees(input.attendees),
+      ...(withConference && input.conferenceData?.createRequest
+        ? buildConference()
+        : {}),
+    };
+
+    calendar.events.set(id, event);
+    return event;
+  }
+
+  function addEvent(calendarId: string, event: Partial<CalendarEvent>): CalendarEvent {
+    const calendar = getCalendar(calendarId);
+    if (!calendar) {
+      throw new Error(`Unknown calendar: ${calendarId}`);
+    }
+    return storeEvent(calendar, event);
+  }
+
+  /**
+   * Expand a recurring series into instances, applying stored exceptions.
+   */
+  function expandSeries(
+    calendar: EmulatedCalendar,
+    series: CalendarEvent,
+    query: EventsQuery,
+  ): CalendarEvent[] {
+    const rule = (series.recurrence ?? []).map(parseRRule).find((r) => r !== null);
+    if (!rule || !series.start) return [series];
+
+    const allDay = Boolean(series.start.date);
+    const timeZone = timeZoneOf(calendar, series.start);
+    const seriesStart = startMs(calendar, series);
+    const duration = endMs(calendar, series) - seriesStart;
+    const local = getZonedParts(new Date(seriesStart), timeZone);
+    const until = rule.UNTIL ? parseUntil(rule.UNTIL)?.getTime() : undefined;
+
+    const instances: CalendarEvent[] = [];
+    for (const date of iterateRecurrenceDates(rule, local)) {
+      const occurrence = zonedTimeToUtc(
+        allDay
+          ? date
+          : { ...date, hour: local.hour, minute: local.minute, second: local.second },
+        timeZone,
+      ).getTime();
+
+      if (until !== undefined && occurrence > until) break;
+      if (query.timeMax !== undefined && occurrence >= query.timeMax) break;
+      if (instances.length >= MAX_INSTANCES) break;
+      if (query.timeMin !== undefined && occurrence + duration <= query.timeMin)
+        continue;
+
+      const instanceId = allDay
+        ? `${series.id}_${compactUtc(occurrence).slice(0, 8)}`
+        : `${series.id}_${compactUtc(occurrence)}`;
+
+      const toTime = (ms: number): EventDateTime =>
+        allDay
+          ? { date: formatDateInTimeZone(new Date(ms), timeZone) }
+          : { dateTime: formatInTimeZone(new Date(ms), timeZone), timeZone };
+
+      const { recurrence: _recurrence, ...rest } = series;
+      const generated: CalendarEvent = {
+        ...rest,
+        id: instanceId,
+        recurringEventId: series.id,
+        originalStartTime: toTime(occurrence),
+        start: toTime(occurrence),
+        end: toTime(occurrence + duration),
+      };
+
+      const exception = calendar.exceptions.get(instanceId);
+      const instance = exception ?? generated;
+      if (isCancelled(instance) && !query.showDeleted) continue;
+      instances.push(instance);
+    }
+
+    return instances;
+  }
+
+  function findEvent(
+    calendar: EmulatedCalendar,
+    eventId: string,
+  ): { event: CalendarEvent; series?: CalendarEvent } | null {
+    const stored = calendar.events.get(eventId);
+    if (stored) return { event: stored };
+
+    const exception = calendar.exceptions.get(eventId);
+    const seriesId = eventId.split('_')[0];
+    const series = calendar.events.get(seriesId);
+    if (exception && series) return { event: exception, series };
+    if (!series?.recurrence) return null;
+
+    const instance = expandSeries(calendar, series, { showDeleted: true }).find(
+      (e) => e.id === eventId,
+    );
+    return instance ? { event: instance, series } : null;
+  }
+
+  function collectEvents(
+    calendar: EmulatedCalendar,
+    query: EventsQuery & { singleEvents: boolean },
+  ): CalendarEvent[] {
+    const results: CalendarEvent[] = [];
+
+    for (const event of calendar.events.values()) {
+      if (isCancelled(event) && !query.showDeleted) continue;
+
+      if (event.recurrence && query.singleEvents) {
+        if (isCancelled(event)) continue;
+        results.push(...expandSeries(calendar, event, query));
+        continue;
+      }
+
+      const start = startMs(calendar, event);
+      const end = endMs(calendar, event);
+      if (query.timeMax !== undefined && start >= query.timeMax) continue;
+      // Series overlap the window if they started before it ends
+      if (query.timeMin !== undefined && end <= query.timeMin && !event.recurrence)
+        continue;
+      results.push(event);
+    }
+
+    return results;
+  }
+
+  /**
+   * Events (including cancelled ones and modified instances) changed after a revision.
+   */
+  function collectChanges(
+    calendar: EmulatedCalendar,
+    since: number,
+    singleEvents: boolean,
+  ): CalendarEvent[] {
+    const changedAfter = (event: CalendarEvent) =>
+      (etagRevisions.get(event.etag ?? '') ?? 0) > since;
+    const results: CalendarEvent[] = [];
+
+    for (const event of calendar.events.values()) {
+      if (!changedAfter(event)) continue;
+      if (event.recurrence && singleEvents && !isCancelled(event)) {
+        results.push(...expandSeries(calendar, event, { showDeleted: true }));
+      } else {
+        results.push(event);
+      }
+    }
+    for (const exception of calendar.exceptions.values()) {
+      if (changedAfter(exception) && !results.some((e) => e.id === exception.id)) {
+        results.push(exception);
+      }
+    }
+
+    return results.sort((a, b) => (a.updated ?? '').localeCompare(b.updated ?? ''));
+  }
+
+  function matchesQuery(event: CalendarEvent, q: string): boolean {
+    const needle = q.toLowerCase();
+    return [
+      event.summary,
+      event.description,
+      event.location,
+      ...(event.attendees ?? []).flatMap((a) => [a.email, a.displayName]),
+    ].some((field) => field?.toLowerCase().includes(needle));
+  }
+
+  function paginate<T>(
+    items: T[],
+    pageToken: string | undefined,
+    maxResults: number,
+  ): { items: T[]; nextPageToken?: string } {
+    const offset = pageToken ? Number(pageToken) || 0 : 0;
+    const page = items.slice(offset, offset + maxResults);
+    const next = offset + maxResults;
+    return next < items.length
+      ? { items: page, nextPageToken: String(next) }
+      : { items: page };
+  }
+
+  function applyPatch(
+    target: CalendarEvent,
+    patch: Record<string, unknown>,
+  ): CalendarEvent {
+    const next: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(patch)) {
+      if (['id', 'etag', 'htmlLink', 'iCalUID', 'created', 'updated'].includes(key))
+        continue;
+      if (value === null) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+    }
+
+    const timeChanged =
+      JSON.stringify(next.start) !== JSON.stringify(target.start) ||
+      JSON.stringify(next.end) !== JSON.stringify(target.end);
+
+    return {
+      ...(next as unknown as CalendarEvent),
+      attendees: normalizeAttendees(next.attendees as EventAttendee[] | undefined),
+      sequence: (target.sequence ?? 0) + (timeChanged ? 1 : 0),
+      etag: nextEtag(),
+      updated: now().toISOString(),
+    };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Routes
+  // ───────────────────────────────────────────────────────────────────────────
+
+  const app = new Hono().basePath(basePath);
+
+  app.use('*', async (c, next) => {
+    const auth = c.req.header('authorization') ?? '';
+    const token = auth.replace(/^Bearer\s+/i, '');
+    const accepted = options.accessTokens
+      ? options.accessTokens.includes(token)
+      : token;
+    if (!accepted) {
+      return googleError(c, 401, 'authError', 'Invalid Credentials');
+    }
+    await next();
+  });
+
+  app.get('/users/me/calendarList', (c) => {
+    const items = Array.from(state.calendars.values())
+      .filter((cal) => cal.listed)
+      .map((cal) => cal.entry);
+    return c.json({ kind: 'calendar#calendarList', items });
+  });
+
+  app.get('/users/me/calendarList/:calendarId', (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    if (!calendar?.listed) return googleError(c, 404, 'notFound', 'Not Found');
+    return c.json(calendar.entry);
+  });
+
+  app.post('/users/me/calendarList', async (c) => {
+    const body = (await c.req.json().catch(() => ({}))) as Partial<CalendarListItem>;
+    const calendar = body.id ? getCalendar(body.id) : undefined;
+    if (!calendar) return googleError(c, 404, 'notFound', 'Not Found');
+
+    const { id: _id, ...settings } = body;
+    calendar.entry = { ...calendar.entry, ...settings };
+    calendar.listed = true;
+    return c.json(calendar.entry);
+  });
+
+  app.patch('/users/me/calendarList/:calendarId', async (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    if (!calendar?.listed) return googleError(c, 404, 'notFound', 'Not Found');
+
+    const body = (await c.req.json().catch(() => ({}))) as Partial<CalendarListItem>;
+    const { id: _id, accessRole: _role, primary: _primary, ...settings } = body;
+    calendar.entry = { ...calendar.entry, ...settings };
+    return c.json(calendar.entry);
+  });
+
+  app.delete('/users/me/calendarList/:calendarId', (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    if (!calendar?.listed) return googleError(c, 404, 'notFound', 'Not Found');
+    if (calendar.entry.primary) {
+      return googleError(
+        c,
+        400,
+        'cannotRemovePrimaryCalendar',
+        'Cannot remove primary calendar.',
+      );
+    }
+
+    calendar.listed = false;
+    return c.body(null, 204);
+  });
+
+  app.post('/calendars', async (c) => {
+    const body = (await c.req.json().catch(() => ({}))) as Partial<CalendarListItem>;
+    if (!body.summary) return googleError(c, 400, 'required', 'Missing title.');
+
+    const entry = addCalendar({
+      id: `${randomId()}@group.calendar.google.com`,
+      summary: body.summary,
+      description: body.description,
+      location: body.location,
+      timeZone: body.timeZone ?? options.timeZone ?? 'UTC',
+    });
+    const { id, summary, description, location, timeZone } = entry;
+    return c.json({
+      kind: 'calendar#calendar',
+      id,
+      summary,
+      description,
+      location,
+      timeZone,
+    });
+  });
+
+  app.patch('/calendars/:calendarId', async (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    if (!calendar) return googleError(c, 404, 'notFound', 'Not Found');
+    if (calendar.entry.accessRole !== 'owner') {
+      return googleError(c, 403, 'forbidden', 'Forbidden');
+    }
+
+    const body = (await c.req.json().catch(() => ({}))) as Partial<CalendarListItem>;
+    for (const key of ['summary', 'description', 'location', 'timeZone'] as const) {
+      if (body[key] !== undefined)
+        calendar.entry = { ...calendar.entry, [key]: body[key] };
+    }
+    const { id, summary, description, location, timeZone } = calendar.entry;
+    return c.json({
+      kind: 'calendar#calendar',
+      id,
+      summary,
+      description,
+      location,
+      timeZone,
+    });
+  });
+
+  app.delete('/calendars/:calendarId', (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    if (!calendar) return googleError(c, 404, 'notFound', 'Not Found');
+    if (calendar.entry.primary) {
+      return googleError(
+        c,
+        400,
+        'cannotDeletePrimaryCalendar',
+        'Cannot delete primary calendar.',
+      );
+    }
+    if (calendar.entry.accessRole !== 'owner') {
+      return googleError(c, 403, 'forbidden', 'Forbidden');
+    }
+
+    state.calendars.delete(calendar.entry.id);
+    return c.body(null, 204);
+  });
+
+  // Sharing (ACL) requires owner access, like Google
+  function getOwnedCalendar(c: Context): EmulatedCalendar | Response {
+    const calendar = getCalendar(c.req.param('calendarId') ?? '');
+    if (!calendar) return googleError(c, 404, 'notFound', 'Not Found');
+    if (calendar.entry.accessRole !== 'owner') {
+      return googleError(c, 403, 'forbidden', 'Forbidden');
+    }
+    return calendar;
+  }
+
+  app.get('/calendars/:calendarId/acl', (c) => {
+    const calendar = getOwnedCalendar(c);
+    if (calendar instanceof Response) return calendar;
+    return c.json({ kind: 'calendar#acl', items: Array.from(calendar.acl.values()) });
+  });
+
+  app.post('/calendars/:calendarId/acl', async (c) => {
+    const calendar = getOwnedCalendar(c);
+    if (calendar instanceof Response) return calendar;
+
+    const body = (await c.req.json().catch(() => ({}))) as Partial<AclRule>;
+    if (!body.role || !body.scope?.type) {
+      return googleError(c, 400, 'required', 'Missing role or scope.');
+    }
+    if (body.scope.type !== 'default' && !body.scope.value) {
+      return googleError(c, 400, 'invalid', 'Missing scope value.');
+    }
+
+    const id =
+      body.scope.type === 'default'
+        ? 'default'
+        : `${body.scope.type}:${body.scope.value?.toLowerCase()}`;
+    const rule: AclRule = {
+      kind: 'calendar#aclRule',
+      id,
+      etag: nextEtag(),
+      role: body.role,
+      scope: body.scope,
+    };
+    calendar.acl.set(id, rule);
+    return c.json(rule);
+  });
+
+  app.patch('/calendars/:calendarId/acl/:ruleId', async (c) => {
+    const calendar = getOwnedCalendar(c);
+    if (calendar instanceof Response) return calendar;
+    const existing = calendar.acl.get(c.req.param('ruleId'));
+    if (!existing) return googleError(c, 404, 'notFound', 'Not Found');
+
+    const body = (await c.req.json().catch(() => ({}))) as Partial<AclRule>;
+    const rule: AclRule = {
+      ...existing,
+      role: body.role ?? existing.role,
+      etag: nextEtag(),
+    };
+    calendar.acl.set(rule.id, rule);
+    return c.json(rule);
+  });
+
+  app.delete('/calendars/:calendarId/acl/:ruleId', (c) => {
+    const calendar = getOwnedCalendar(c);
+    if (calendar instanceof Response) return calendar;
+    if (!calendar.acl.delete(c.req.param('ruleId'))) {
+      return googleError(c, 404, 'notFound', 'Not Found');
+    }
+    return c.body(null, 204);
+  });
+
+  app.get('/calendars/:calendarId/events', (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    if (!calendar) return googleError(c, 404, 'notFound', 'Not Found');
+
+    const singleEvents = c.req.query('singleEvents') === 'true';
+    const orderBy = c.req.query('orderBy');
+
+    const syncToken = c.req.query('syncToken');
+    if (syncToken) {
+      const conflicting = ['timeMin', 'timeMax', 'q', 'orderBy', 'updatedMin'].filter(
+        (param) => c.req.query(param) !== undefined,
+      );
+      if (conflicting.length > 0) {
+        return googleError(
+          c,
+          400,
+          'invalid',
+          `syncToken cannot be combined with: ${conflicting.join(', ')}`,
+        );
+      }
+      const since = parseSyncToken(syncToken);
+      if (since === null) {
+        return googleError(
+          c,
+          410,
+          'fullSyncRequired',
+          'Sync token is no longer valid, a full sync is required.',
+        );
+      }
+
+      const page = paginate(
+        collectChanges(calendar, since, singleEvents),
+        c.req.query('pageToken'),
+        Number(c.req.query('maxResults') ?? 250),
+      );
+      return c.json({
+        kind: 'calendar#events',
+        summary: calendar.entry.summary,
+        timeZone: calendar.entry.timeZone,
+        updated: now().toISOString(),
+        ...page,
+        ...(!page.nextPageToken && { nextSyncToken: currentSyncToken() }),
+      });
+    }
+
+    if (orderBy === 'startTime' && !singleEvents) {
+      return googleError(
+        c,
+        400,
+        'invalid',
+        'The requested ordering is not available for the particular query.',
+      );
+    }
+
+    let items = collectEvents(calendar, {
+      timeMin: parseTime(c.req.query('timeMin')),
+      timeMax: parseTime(c.req.query('timeMax')),
+      showDeleted: c.req.query('showDeleted') === 'true',
+      singleEvents,
+    });
+
+    const q = c.req.query('q');
+    if (q) items = items.filter((e) => matchesQuery(e, q));
+
+    const eventTypes = c.req.queries('eventTypes');
+    if (eventTypes && eventTypes.length > 0) {
+      items = items.filter((e) => eventTypes.includes(e.eventType ?? 'default'));
+    }
+
+    if (orderBy === 'updated') {
+      items.sort((a, b) => (a.updated ?? '').localeCompare(b.updated ?? ''));
+    } else {
+      items.sort((a, b) => startMs(calendar, a) - startMs(calendar, b));
+    }
+
+    const page = paginate(
+      items,
+      c.req.query('pageToken'),
+      Number(c.req.query('maxResults') ?? 250),
+    );
+
+    // Only issue sync tokens for listings an incremental request can continue
+    const syncable = !q && !orderBy && !c.req.query('timeMax') && !eventTypes?.length;
+
+    return c.json({
+      kind: 'calendar#events',
+      summary: calendar.entry.summary,
+      timeZone: calendar.entry.timeZone,
+      updated: now().toISOString(),
+      ...page,
+      ...(syncable && !page.nextPageToken && { nextSyncToken: currentSyncToken() }),
+    });
+  });
+
+  app.post('/calendars/:calendarId/events/quickAdd', (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    if (!calendar) return googleError(c, 404, 'notFound', 'Not Found');
+
+    const text = c.req.query('text');
+    if (!text) return googleError(c, 400, 'required', 'Required parameter: text');
+
+    // No NLP here: schedule the text as a one-hour event at the next full hour
+    const start = Math.ceil(now().getTime() / HOUR_MS) * HOUR_MS;
+    const timeZone = timeZoneOf(calendar);
+    const event = storeEvent(calendar, {
+      summary: text,
+      start: { dateTime: formatInTimeZone(new Date(start), timeZone), timeZone },
+      end: {
+        dateTime: formatInTimeZone(new Date(start + HOUR_MS), timeZone),
+        timeZone,
+      },
+    });
+    return c.json(event);
+  });
+
+  app.post('/calendars/:calendarId/events/watch', async (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    if (!calendar) return googleError(c, 404, 'notFound', 'Not Found');
+
+    const body = (await c.req.json().catch(() => null)) as {
+      id?: string;
+      type?: string;
+      address?: string;
+      token?: string;
+      params?: { ttl?: string };
+    } | null;
+    if (!body?.id || !body.address) {
+      return googleError(c, 400, 'required', 'Required: id, address');
+    }
+    if (body.type !== 'web_hook') {
+      return googleError(c, 400, 'invalid', 'Invalid channel type');
+    }
+    if (!body.address.startsWith('https://')) {
+      return googleError(
+        c,
+        400,
+        'push.webhookUrlNotHttps',
+        'WebHook callback must be HTTPS',
+      );
+    }
+    if (state.channels.has(body.id)) {
+      return googleError(c, 400, 'channelIdNotUnique', 'Channel id not unique');
+    }
+
+    const ttl = Math.min(
+      Number(body.params?.ttl) || MAX_CHANNEL_TTL_SECONDS,
+      MAX_CHANNEL_TTL_SECONDS,
+    );
+    const channel: EmulatedChannel = {
+      id: body.id,
+      resourceId: `resource-${calendar.entry.id}`,
+      calendarId: calendar.entry.id,
+      address: body.address,
+      token: body.token,
+      expiration: now().getTime() + ttl * 1000,
+    };
+    state.channels.set(channel.id, channel);
+
+    return c.json({
+      kind: 'api#channel',
+      id: channel.id,
+      resourceId: channel.resourceId,
+      resourceUri: `${baseUrl}/calendars/${encodeURIComponent(channel.calendarId)}/events`,
+      token: channel.token,
+      expiration: String(channel.expiration),
+    });
+  });
+
+  app.post('/calendars/:calendarId/events', async (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    if (!calendar) return googleError(c, 404, 'notFound', 'Not Found');
+
+    const body = (await c.req
+      .json()
+      .catch(() => null)) as Partial<CalendarEvent> | null;
+    if (!body?.start || !body?.end) {
+      return googleError(c, 400, 'required', 'Missing end time.');
+    }
+    if ((body.eventType ?? 'default') !== 'default') {
+      const invalid = statusEventError(calendar, body);
+      if (invalid) return googleError(c, 400, 'eventTypeRestriction', invalid);
+    }
+    if (body.id && calendar.events.has(body.id)) {
+      return googleError(
+        c,
+        409,
+        'duplicate',
+        'The requested identifier already exists.',
+      );
+    }
+    if (
+      endMs(calendar, body as CalendarEvent) < startMs(calendar, body as CalendarEvent)
+    ) {
+      return googleError(
+        c,
+        400,
+        'timeRangeEmpty',
+        'The specified time range is empty.',
+      );
+    }
+
+    const withConference = c.req.query('conferenceDataVersion') === '1';
+    return c.json(storeEvent(calendar, body, withConference));
+  });
+
+  app.get('/calendars/:calendarId/events/:eventId/instances', (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    const series = calendar?.events.get(c.req.param('eventId'));
+    if (!calendar || !series || isCancelled(series)) {
+      return googleError(c, 404, 'notFound', 'Not Found');
+    }
+
+    const instances = series.recurrence
+      ? expandSeries(calendar, series, {
+          timeMin: parseTime(c.req.query('timeMin')),
+          timeMax: parseTime(c.req.query('timeMax')),
+          showDeleted: c.req.query('showDeleted') === 'true',
+        })
+      : [series];
+
+    const page = paginate(
+      instances,
+      c.req.query('pageToken'),
+      Number(c.req.query('maxResults') ?? 250),
+    );
+
+    return c.json({
+      kind: 'calendar#events',
+      summary: calendar.entry.summary,
+      timeZone: calendar.entry.timeZone,
+      ...page,
+    });
+  });
+
+  app.post('/calendars/:calendarId/events/:eventId/move', (c) => {
+    const source = getCalendar(c.req.param('calendarId'));
+    const destination = getCalendar(c.req.query('destination') ?? '');
+    const eventId = c.req.param('eventId');
+    const event = source?.events.get(eventId);
+
+    if (!source || !event || isCancelled(event)) {
+      return googleError(c, 404, 'notFound', 'Not Found');
+    }
+    if (!destination) return googleError(c, 404, 'notFound', 'Destination not found');
+    const failed = preconditionFailed(c, event);
+    if (failed) return failed;
+    if ((event.eventType ?? 'default') !== 'default') {
+      return googleError(
+        c,
+        400,
+        'eventTypeRestriction',
+        `Cannot move events of type ${event.eventType}.`,
+      );
+    }
+
+    source.events.delete(eventId);
+    const moved: CalendarEvent = {
+      ...event,
+      organizer: {
+        email: destination.entry.id,
+        displayName: destination.entry.summary,
+        self: true,
+      },
+      etag: nextEtag(),
+      updated: now().toISOString(),
+    };
+    destination.events.set(eventId, moved);
+    return c.json(moved);
+  });
+
+  app.get('/calendars/:calendarId/events/:eventId', (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    const found = calendar && findEvent(calendar, c.req.param('eventId'));
+    if (!found) return googleError(c, 404, 'notFound', 'Not Found');
+    return c.json(found.event);
+  });
+
+  app.patch('/calendars/:calendarId/events/:eventId', async (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    const eventId = c.req.param('eventId');
+    const found = calendar && findEvent(calendar, eventId);
+    const body = (await c.req.json().catch(() => ({}))) as Record<string, unknown>;
+    // Setting status back to 'confirmed' restores a deleted event
+    const restoring = body.status === 'confirmed';
+    if (!calendar || !found || (isCancelled(found.event) && !restoring)) {
+      return googleError(c, 404, 'notFound', 'Not Found');
+    }
+    const failed = preconditionFailed(c, found.event);
+    if (failed) return failed;
+
+    let updated = applyPatch(found.event, body);
+
+    const withConference = c.req.query('conferenceDataVersion') === '1';
+    const createRequest = (body.conferenceData as CalendarEvent['conferenceData'])
+      ?.createRequest;
+    if (withConference && createRequest) {
+      updated = { ...updated, ...buildConference() };
+    }
+
+    if (found.series) {
+      calendar.exceptions.set(eventId, updated);
+    } else {
+      calendar.events.set(eventId, updated);
+    }
+    return c.json(updated);
+  });
+
+  app.delete('/calendars/:calendarId/events/:eventId', (c) => {
+    const calendar = getCalendar(c.req.param('calendarId'));
+    const eventId = c.req.param('eventId');
+    const found = calendar && findEvent(calendar, eventId);
+    if (!calendar || !found) return googleError(c, 404, 'notFound', 'Not Found');
+    if (isCancelled(found.event)) {
+      return googleError(c, 410, 'deleted', 'Resource has been deleted');
+    }
+    const failed = preconditionFailed(c, found.event);
+    if (failed) return failed;
+
+    // Google keeps deleted events around as cancelled tombstones
+    const tombstone: CalendarEvent = {
+      ...found.event,
+      status: 'cancelled',
+      etag: nextEtag(),
+      updated: now().toISOString(),
+    };
+    if (found.series) {
+      calendar.exceptions.set(eventId, tombstone);
+    } else {
+      calendar.events.set(eventId, tombstone);
+    }
+    return c.body(null, 204);
+  });
+
+  app.post('/channels/stop', async (c) => {
+    const body = (await c.req.json().catch(() => null)) as {
+      id?: string;
+      resourceId?: string;
+    } | null;
+    const channel = body?.id ? state.channels.get(body.id) : undefined;
+    if (!channel || channel.resourceId !== body?.resourceId) {
+      return googleError(c, 404, 'notFound', 'Channel not found');
+    }
+    state.channels.delete(channel.id);
+    return c.body(null, 204);
+  });
+
+  app.post('/freeBusy', async (c) => {
+    const body = (await c.req.json().catch(() => null)) as {
+      timeMin?: string;
+      timeMax?: string;
+      items?: Array<{ id: string }>;
+    } | null;
+
+    const timeMin = parseTime(body?.timeMin);
+    const timeMax = parseTime(body?.timeMax);
+    if (timeMin === undefined || timeMax === undefined) {
+      return googleError(c, 400, 'badRequest', 'Bad Request');
+    }
+
+    const calendars: Record<
+      string,
+      {
+        busy: Array<{ start: string; end: string }>;
+        errors?: Array<{ domain: string; reason: string }>;
+      }
+    > = {};
+
+    for (const { id } of body?.items ?? []) {
+      const calendar = getCalendar(id);
+      if (!calendar) {
+        calendars[id] = {
+          busy: [],
+          errors: [{ domain: 'global', reason: 'notFound' }],
+        };
+        continue;
+      }
+
+      const intervals = collectEvents(calendar, {
+        timeMin,
+        timeMax,
+        showDeleted: false,
+        singleEvents: true,
+      })
+        .filter((e) => e.transparency !== 'transparent')
+        .filter((e) => e.attendees?.find((a) => a.self)?.responseStatus !== 'declined')
+        .map((e) => ({
+          start: Math.max(startMs(calendar, e), timeMin),
+          end: Math.min(endMs(calendar, e), timeMax),
+        }))
+        .filter((i) => i.end > i.start)
+        .sort((a, b) => a.start - b.start);
+
+      // Google merges overlapping busy blocks
+      const merged: Array<{ start: number; end: number }> = [];
+      for (const interval of intervals) {
+        const last = merged[merged.length - 1];
+        if (last && interval.start <= last.end) {
+          last.end = Math.max(last.end, interval.end);
+        } else {
+          merged.push({ ...interval });
+        }
+      }
+
+      calendars[id] = {
+        busy: merged.map((i) => ({
+          start: new Date(i.start).toISOString(),
+          end: new Date(i.end).toISOString(),
+        })),
+      };
+    }
+
+    return c.json({
+      kind: 'calendar#freeBusy',
+      timeMin: new Date(timeMin).toISOString(),
+      timeMax: new Date(timeMax).toISOString(),
+      calendars,
+    });
+  });
+
+  app.notFound((c) => googleError(c, 404, 'notFound', `Not Found: ${c.req.path}`));
+
+  // Batch requests: POST /batch/calendar/v3 with one HTTP request per part
+  const batchPath = `/batch${basePath}`;
+
+  async function handleBatch(request: Request): Promise<Response> {
+    const { origin } = new URL(request.url);
+    const boundary = /boundary=([^;]+)/.exec(
+      request.headers.get('content-type') ?? '',
+    )?.[1];
+    if (!boundary) {
+      return Response.json(
+        { error: { code: 400, message: 'Missing multipart boundary.' } },
+        { status: 400 },
+      );
+    }
+
+    const text = (await request.text()).replace(/\r\n/g, '\n');
+    const responseBoundary = `batch_${randomId()}`;
+    const parts: string[] = [];
+
+    for (const part of text.split(`--${boundary}`).slice(1)) {
+      if (part.startsWith('--')) break;
+      const [partHeaders, ...rest] = part.trimStart().split('\n\n');
+      const contentId = /content-id:\s*<([^>]+)>/i.exec(partHeaders)?.[1];
+      const [head = '', ...body] = rest.join('\n\n').split('\n\n');
+      const [requestLine = '', ...headerLines] = head.split('\n');
+      const [method = 'GET', path = '/'] = requestLine.split(' ');
+      const payload = body.join('\n\n').trim();
+
+      const headers = new Headers({
+        authorization: request.headers.get('authorization') ?? '',
+        'content-type': 'application/json',
+      });
+      for (const line of headerLines) {
+        const colon = line.indexOf(':');
+        if (colon > 0)
+          headers.set(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+      }
+
+      const response = await app.fetch(
+        new Request(`${origin}${path}`, {
+          method,
+          headers,
+          body: payload || undefined,
+        }),
+      );
+      const responseBody = response.status === 204 ? '' : await response.text();
+      parts.push(
+        [
+          `--${responseBoundary}`,
+          'Content-Type: application/http',
+          ...(contentId ? [`Content-ID: <response-${contentId}>`] : []),
+          '',
+          `HTTP/1.1 ${response.status} ${response.statusText || STATUS_TEXT[response.status] || 'OK'}`,
+          'Content-Type: application/json; charset=UTF-8',
+          '',
+          responseBody,
+        ].join('\r\n'),
+      );
+    }
+
+    return new Response(`${parts.join('\r\n')}\r\n--${responseBoundary}--\r\n`, {
+      headers: { 'Content-Type': `multipart/mixed; boundary=${responseBoundary}` },
+    });
+  }
+
+  const handle = async (request: Request): Promise<Response> => {
+    if (request.method === 'POST' && new URL(request.url).pathname === batchPath) {
+      return handleBatch(request);
+    }
+    return app.fetch(request);
+  };
+
+  const emulatorFetch: FetchLike = async (input, init) => {
+    const request =
+      input instanceof Request
+        ? new Request(input, init)
+        : new Request(String(input), init);
+    const { origin } = new URL(baseUrl);
+    if (!request.url.startsWith(baseUrl) && request.url !== `${origin}${batchPath}`) {
+      return passthroughFetch(request);
+    }
+    return handle(request);
+  };
+
+  reset();
+
+  return {
+    baseUrl,
+    app,
+    handle,
+    fetch: emulatorFetch,
+    state,
+    addCalendar,
+    addEvent,
+    expireSyncTokens,
+    reset,
+  };
+}
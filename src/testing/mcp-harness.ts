@@ -0,0 +1,119 @@
+/**
+ * Test harness: the calendar emulator behind the shared MCP dispatcher.
+ *
+ * Installs `emulator.fetch` as globalThis.fetch, points PROVIDER_API_URL at
+ * the emulator and gives storage fresh in-memory stores, so `bun test` suites
+ * call tools, resources and prompts the way a client does:
+ *
+ * ```ts
+ * let mcp: McpHarness;
+ * beforeEach(() => { mcp = createMcpHarness(); });
+ * afterEach(() => mcp.restore());
+ *
+ * const result = await mcp.callTool('search_events', { query: 'standup' });
+ * ```
+ */
+
+import {
+  dispatchMcpMethod,
+  type JsonRpcResult,
+  type McpSessionState,
+} from '../shared/mcp/dispatcher.js';
+import {
+  MemorySessionStore,
+  MemoryStateStore,
+  MemoryTokenStore,
+} from '../shared/storage/memory.js';
+import { initializeStorage } from '../shared/storage/singleton.js';
+import type { ToolContext, ToolResult } from '../shared/tools/types.js';
+import { sharedLogger } from '../shared/utils/logger.js';
+import {
+  type CalendarEmulator,
+  type CalendarEmulatorOptions,
+  createCalendarEmulator,
+} from './google-calendar-emulator.js';
+
+export interface McpHarnessOptions extends CalendarEmulatorOptions {
+  /** Overrides for the auth context of every call (default: a bearer token) */
+  auth?: Partial<ToolContext>;
+}
+
+export interface McpHarness {
+  emulator: CalendarEmulator;
+  /** Auth context the dispatcher passes to tools */
+  auth: ToolContext;
+  /** Send one JSON-RPC method through the dispatcher */
+  request(method: string, params?: Record<string, unknown>): Promise<JsonRpcResult>;
+  /** tools/call; fails the test if the dispatcher itself errors */
+  callTool(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  /** Put the real fetch and PROVIDER_API_URL back */
+  restore(): void;
+}
+
+export const TEST_ACCESS_TOKEN = 'test-access-token';
+
+let nextRequestId = 1;
+
+export function createMcpHarness(options: McpHarnessOptions = {}): McpHarness {
+  const { auth: authOverrides, ...emulatorOptions } = options;
+  const emulator = createCalendarEmulator(emulatorOptions);
+
+  const originalFetch = globalThis.fetch;
+  const originalApiUrl = process.env.PROVIDER_API_URL;
+  globalThis.fetch = emulator.fetch as typeof fetch;
+  process.env.PROVIDER_API_URL = emulator.baseUrl;
+
+  initializeStorage(
+    new MemoryTokenStore(),
+    new MemorySessionStore(),
+    new MemoryStateStore(),
+  );
+  sharedLogger.setLevel('error');
+
+  const sessionId = `test-session-${nextRequestId}`;
+  const auth: ToolContext = {
+    sessionId,
+    authStrategy: 'bearer',
+    providerToken: TEST_ACCESS_TOKEN,
+    ...authOverrides,
+  };
+  let sessionState: McpSessionState | undefined;
+
+  const request = (method: string, params?: Record<string, unknown>) =>
+    dispatchMcpMethod(
+      method,
+      params,
+      {
+        sessionId,
+        auth,
+        config: { title: 'Test', version: '0.0.0' },
+        getSessionState: () => sessionState,
+        setSessionState: (state) => {
+          sessionState = state;
+        },
+        cancellationRegistry: new Map(),
+      },
+      nextRequestId++,
+    );
+
+  return {
+    emulator,
+    auth,
+    request,
+    async callTool(name, args = {}) {
+      const response = await request('tools/call', { name, arguments: args });
+      if (response.error) {
+        throw new Error(`tools/call ${name} failed: ${response.error.message}`);
+      }
+      return response.result as ToolResult;
+    },
+    restore() {
+      globalThis.fetch = originalFetch;
+      if (originalApiUrl === undefined) {
+        delete process.env.PROVIDER_API_URL;
+      } else {
+        process.env.PROVIDER_API_URL = originalApiUrl;
+      }
+    },
+  };
+}
@@ -1,8 +1,16 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { contextRegistry } from '../core/context.js';
-import { sharedTools, type ToolContext } from '../shared/tools/registry.js';
-import type { RequestContext } from '../types/context.js';
+import { toolErrorResult } from '../core/errors.js';
+import { assertToolCallAllowed, toolDeniedBy } from '../shared/tools/policy.js';
+import {
+  prepareToolContext,
+  type RegisteredTool,
+  sharedTools,
+  type ToolContext,
+} from '../shared/tools/registry.js';
+import type { ProviderInfo } from '../types/context.js';
 import { logger } from '../utils/logger.js';
+import { createProgressReporter } from '../utils/progress.js';
 
 /**
  * Register all tools with the MCP server.
@@ -13,8 +21,19 @@ export function registerTools(server: McpServer): void {
 
   // Register shared tools (work in both Node and Workers)
   for (const tool of sharedTools) {
+    // Tools the deployment's policy hides are never registered
+    const deniedBy = toolDeniedBy(tool);
+    if (deniedBy) {
+      logger.info('tools', {
+        message: 'Tool hidden by policy',
+        toolName: tool.name,
+        policy: deniedBy,
+      });
+      continue;
+    }
+
     try {
-      const wrappedHandler = createWrappedHandler(server, tool.handler);
+      const wrappedHandler = createWrappedHandler(server, tool);
 
       // Shared tools use Zod schemas - pass .shape for SDK compatibility
       server.registerTool(
@@ -54,58 +73,83 @@ export function registerTools(server: McpServer): void {
 }
 
 /**
- * Create a wrapped handler for shared tools.
- * Adapts the shared ToolContext to the SDK's RequestHandlerExtra.
+ * Request metadata the SDK passes to handlers (subset of RequestHandlerExtra).
+ */
+export interface SdkHandlerExtra {
+  requestId?: string | number;
+  sessionId?: string;
+  _meta?: { progressToken?: string | number };
+  signal?: AbortSignal;
+}
+
+/** Provider tokens in the shape tools see */
+function toContextProvider(
+  provider: ProviderInfo,
+): NonNullable<ToolContext['provider']> {
+  return {
+    accessToken: provider.access_token,
+    refreshToken: provider.refresh_token,
+    expiresAt: provider.expires_at,
+    scopes: provider.scopes,
+  };
+}
+
+/**
+ * Build the shared ToolContext for an SDK request.
  *
  * SDK provides `extra.requestId` which we use to look up auth context from registry.
  */
-function createWrappedHandler(
-  _server: McpServer,
-  handler: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>,
-) {
-  return async (
-    args: Record<string, unknown>,
-    extra?: {
-      requestId?: string | number;
-      _meta?: { progressToken?: string | number };
-      signal?: AbortSignal;
-    },
-  ) => {
-    // SDK provides requestId at top level of extra
-    const requestId = extra?.requestId;
+export function buildToolContext(extra?: SdkHandlerExtra): ToolContext {
+  // SDK provides requestId at top level of extra
+  const requestId = extra?.requestId;
 
-    // Look up auth context from registry (stored by MCP routes with auth info)
-    const existingContext = requestId ? contextRegistry.get(requestId) : undefined;
+  // Look up auth context from registry (stored by MCP routes with auth info)
+  const existingContext = requestId ? contextRegistry.get(requestId) : undefined;
 
-    // Build shared ToolContext
-    const context: ToolContext = {
-      sessionId: String(requestId || crypto.randomUUID()),
-      signal: extra?.signal,
-      meta: {
-        progressToken: extra?._meta?.progressToken,
-        requestId: requestId ? String(requestId) : undefined,
-      },
-      // Auth from context registry
-      authStrategy: existingContext?.authStrategy,
-      providerToken: existingContext?.providerToken,
-      provider: existingContext?.provider
-        ? {
-            accessToken: existingContext.provider.access_token,
-            refreshToken: existingContext.provider.refresh_token,
-            expiresAt: existingContext.provider.expires_at,
-            scopes: existingContext.provider.scopes,
-          }
-        : undefined,
-      resolvedHeaders: existingContext?.resolvedHeaders,
-      authHeaders: existingContext?.authHeaders as Record<string, string> | undefined,
-    };
+  return {
+    sessionId: String(requestId || crypto.randomUUID()),
+    signal: extra?.signal,
+    meta: {
+      progressToken: extra?._meta?.progressToken,
+      requestId: requestId ? String(requestId) : undefined,
+    },
+    // Auth from context registry
+    authStrategy: existingContext?.authStrategy,
+    providerToken: existingContext?.providerToken,
+    provider: existingContext?.provider
+      ? toContextProvider(existingContext.provider)
+      : undefined,
+    accounts: existingContext?.accounts?.map(toContextProvider),
+    linkAccount: existingContext?.linkAccount,
+    resolvedHeaders: existingContext?.resolvedHeaders,
+    authHeaders: existingContext?.authHeaders as Record<string, string> | undefined,
+  };
+}
 
+/**
+ * Create a wrapped handler for shared tools.
+ * Adapts the shared ToolContext to the SDK's RequestHandlerExtra.
+ */
+function createWrappedHandler(server: McpServer, tool: RegisteredTool) {
+  return async (args: Record<string, unknown>, extra?: SdkHandlerExtra) => {
     try {
-      const result = await handler(args, context);
+      const context = buildToolContext(extra);
+      const progress = createProgressReporter(server, extra?._meta?.progressToken);
+      if (progress) context.progress = progress;
+
+      let accountContext: ToolContext;
+      try {
+        await assertToolCallAllowed(tool, args, context);
+        accountContext = await prepareToolContext(tool, args, context);
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+
+      const result = await tool.handler(args, accountContext);
       return result;
     } finally {
-      if (requestId) {
-        contextRegistry.delete(requestId);
+      if (extra?.requestId) {
+        contextRegistry.delete(extra.requestId);
       }
     }
   };
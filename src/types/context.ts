@@ -118,6 +118,17 @@ export interface RequestContext {
    */
   provider?: ProviderInfo;
 
+  /**
+   * All linked provider accounts, the default first (OAuth only).
+   */
+  accounts?: ProviderInfo[];
+
+  /**
+   * Starts linking another provider account (OAuth only).
+   * Resolves to the URL the user opens to sign in.
+   */
+  linkAccount?: (scopes?: string[]) => Promise<string>;
+
   // Legacy fields (deprecated)
   /** @deprecated Use providerToken instead */
   serviceToken?: string;
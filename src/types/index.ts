@@ -6,8 +6,10 @@ export type {
   HealthOutput,
 } from '../schemas/outputs.js';
 export type {
-  AnalysisPromptArgs,
-  GreetingPromptArgs,
+  DailyBriefingPromptArgs,
+  PlanWeekPromptArgs,
+  ScheduleMeetingPromptArgs,
+  TriageInvitationsPromptArgs,
 } from '../schemas/prompts.js';
 
 // Service layer types